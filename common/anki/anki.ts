@@ -4,6 +4,7 @@ import { HttpFetcher, Fetcher } from '@project/common';
 import { AnkiSettings, AnkiSettingsFieldKey } from '@project/common/settings';
 import sanitize from 'sanitize-filename';
 import { extractText, sourceString } from '@project/common/util';
+import { translationForTimestampInterval } from '@project/common/subtitle-collection';
 
 const ankiQuerySpecialCharacters = ['"', '*', '_', '\\', ':'];
 const alphaNumericCharacters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -96,6 +97,7 @@ export interface ExportParams {
     track1: string | undefined;
     track2: string | undefined;
     track3: string | undefined;
+    translation: string | undefined;
     definition: string | undefined;
     audioClip: AudioClip | undefined;
     image: Image | undefined;
@@ -133,6 +135,13 @@ export async function exportCard(
         track1: extractText(card.subtitle, card.surroundingSubtitles, 0),
         track2: extractText(card.subtitle, card.surroundingSubtitles, 1),
         track3: extractText(card.subtitle, card.surroundingSubtitles, 2),
+        translation:
+            card.translation ??
+            translationForTimestampInterval(
+                card.surroundingSubtitles,
+                [card.subtitle.start, card.subtitle.end],
+                card.subtitle.track
+            ),
         definition: card.definition,
         audioClip,
         image:
@@ -337,6 +346,7 @@ export class Anki {
         track1,
         track2,
         track3,
+        translation,
         definition,
         audioClip,
         image,
@@ -354,6 +364,7 @@ export class Anki {
         this._appendField(fields, this.settingsProvider.track1Field, track1, true);
         this._appendField(fields, this.settingsProvider.track2Field, track2, true);
         this._appendField(fields, this.settingsProvider.track3Field, track3, true);
+        this._appendField(fields, this.settingsProvider.translationField, translation, true);
         this._appendField(fields, this.settingsProvider.definitionField, definition, true);
         this._appendField(fields, this.settingsProvider.wordField, word, false);
         this._appendField(fields, this.settingsProvider.sourceField, source, false);
@@ -450,6 +461,7 @@ export class Anki {
                     this._inheritHtmlMarkupFromField('track1Field', info, params);
                     this._inheritHtmlMarkupFromField('track2Field', info, params);
                     this._inheritHtmlMarkupFromField('track3Field', info, params);
+                    this._inheritHtmlMarkupFromField('translationField', info, params);
 
                     await this._executeAction('updateNoteFields', params, ankiConnectUrl);
 
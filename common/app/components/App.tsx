@@ -21,13 +21,19 @@ import {
     CardTextFieldValues,
     ImageErrorCode,
     RequestSubtitlesResponse,
+    AnkiExportMode,
 } from '@project/common';
 import { createTheme } from '@project/common/theme';
 import { AsbplayerSettings, Profile } from '@project/common/settings';
 import { humanReadableTime, download, extractText } from '@project/common/util';
+import { translationForTimestampInterval } from '@project/common/subtitle-collection';
 import { AudioClip, Mp3Encoder } from '@project/common/audio-clip';
 import { ExportParams } from '@project/common/anki';
-import { SubtitleReader } from '@project/common/subtitle-reader';
+import { SubtitleReader, subtitleTrackFiles } from '@project/common/subtitle-reader';
+import { TesseractTextRecognizer } from '@project/common/subtitle-ocr';
+import { SubtitleTimingRepairReport } from '@project/common/subtitle-repair';
+import { KnownWord, KnownWordStatus } from '@project/common/known-words';
+import { IndexedDBMiningQueueRepository, MiningQueueItem } from '@project/common/mining-queue';
 import { v4 as uuidv4 } from 'uuid';
 import clsx from 'clsx';
 import Alert from './Alert';
@@ -37,10 +43,12 @@ import DragOverlay from './DragOverlay';
 import Bar from './Bar';
 import ChromeExtension, { ExtensionMessage } from '../services/chrome-extension';
 import CopyHistory from './CopyHistory';
+import MiningQueueDialog from './MiningQueueDialog';
 import LandingPage from './LandingPage';
 import Player, { MediaSources } from './Player';
 import SettingsDialog from './SettingsDialog';
 import StatisticsPage from '../../components/StatisticsPage';
+import SubtitleExportDialog from '../../components/SubtitleExportDialog';
 import VideoPlayer, { SeekRequest } from './VideoPlayer';
 import { type AlertColor } from '@mui/material/Alert';
 import VideoChannel from '../services/video-channel';
@@ -49,6 +57,7 @@ import { useTranslation } from 'react-i18next';
 import { LocalizedError } from './localized-error';
 import { DisplaySubtitleModel } from './SubtitlePlayer';
 import { useCopyHistory } from '../hooks/use-copy-history';
+import { useMiningQueue } from '../hooks/use-mining-queue';
 import { useI18n } from '../hooks/use-i18n';
 import { useAppKeyBinder } from '../hooks/use-app-key-binder';
 import { useAnki } from '../hooks/use-anki';
@@ -58,6 +67,9 @@ import { timeDurationDisplay } from '../services/util';
 import { useAppWebSocketClient } from '../hooks/use-app-web-socket-client';
 import { LoadSubtitlesCommand } from '../../web-socket-client';
 import { ExtensionBridgedCopyHistoryRepository } from '../services/extension-bridged-copy-history-repository';
+import { ExtensionBridgedMiningQueueRepository } from '../services/extension-bridged-mining-queue-repository';
+import { ExtensionTokenizer } from '../services/extension-tokenizer';
+import type { LocalTokenizerType } from '@project/common/tokenizer';
 import { IndexedDBCopyHistoryRepository } from '../../copy-history';
 import { isMobile } from 'react-device-detect';
 import { GlobalState } from '../../global-state';
@@ -72,8 +84,14 @@ const latestExtensionVersion = '1.12.0';
 const extensionUrl =
     'https://chromewebstore.google.com/detail/asbplayer-language-learni/hkledmpjpaehamkiehglnbelcpdflcab';
 
+const markedWordLocKeys: { [status in KnownWordStatus]: string } = {
+    known: 'info.markedWordKnown',
+    learning: 'info.markedWordLearning',
+    ignored: 'info.markedWordIgnored',
+};
+
 const INPUT_ACCEPT_FILE_EXTENSIONS =
-    '.srt,.ass,.vtt,.sup,.mp3,.m4a,.aac,.flac,.ogg,.wav,.opus,.mkv,.mp4,.avi,.m4v,.webm';
+    '.srt,.ass,.ssa,.vtt,.sup,.idx,.sub,.lrc,.sbv,.smi,.sami,.json3,.mp3,.m4a,.aac,.flac,.ogg,.wav,.opus,.mkv,.mp4,.avi,.m4v,.webm';
 
 const useContentStyles = makeStyles<Theme, ContentProps>((theme) => ({
     content: {
@@ -93,6 +111,16 @@ const useContentStyles = makeStyles<Theme, ContentProps>((theme) => ({
     }),
 }));
 
+// Tesseract is copied into the public directory of the app on install
+const textRecognizer = () => {
+    const tesseractPath = new URL(`${import.meta.env.BASE_URL}tesseract/`, window.location.href).href;
+    return new TesseractTextRecognizer({
+        workerPath: `${tesseractPath}worker.min.js`,
+        corePath: tesseractPath,
+        langPath: tesseractPath,
+    });
+};
+
 function extractSources(files: FileList | File[]): MediaSources {
     let subtitleFiles: File[] = [];
     let audioFile: File | undefined = undefined;
@@ -118,6 +146,14 @@ function extractSources(files: FileList | File[]): MediaSources {
             case 'dfxp':
             case 'ttml2':
             case 'bbjson':
+            case 'ssa':
+            case 'lrc':
+            case 'sbv':
+            case 'smi':
+            case 'sami':
+            case 'json3':
+            case 'idx':
+            case 'sub':
                 subtitleFiles.push(f);
                 break;
             case 'mkv':
@@ -244,19 +280,35 @@ function App({
             regexFilterTextReplacement: settings.subtitleRegexFilterTextReplacement,
             subtitleHtml: settings.subtitleHtml,
             convertNetflixRuby: settings.convertNetflixRuby,
+            styleFilter: settings.subtitleStyleFilter,
             pgsParserWorkerFactory: async () => new pgsParserWorkerFactory(),
+            textRecognizer: settings.ocrImageSubtitles ? textRecognizer() : undefined,
         });
     }, [
         settings.subtitleRegexFilter,
         settings.subtitleRegexFilterTextReplacement,
         settings.subtitleHtml,
         settings.convertNetflixRuby,
+        settings.subtitleStyleFilter,
+        settings.ocrImageSubtitles,
     ]);
     const webSocketClient = useAppWebSocketClient({ settings });
     const [subtitles, setSubtitles] = useState<DisplaySubtitleModel[]>([]);
     const playbackPreferences = usePlaybackPreferences(settings, extension);
     const theme = useMemo<Theme>(() => createTheme(settings.themeType), [settings.themeType]);
     const anki = useAnki({ settings, fetcher });
+    const createTokenizer = useCallback(
+        async (type: LocalTokenizerType) => {
+            const tokenizer = new ExtensionTokenizer(extension, type);
+
+            if (!(await tokenizer.isReady())) {
+                throw new Error(`Tokenizer ${type} requires the extension`);
+            }
+
+            return tokenizer;
+        },
+        [extension]
+    );
     const searchParams = useMemo(() => new URLSearchParams(location.search), []);
     const inVideoPlayer = useMemo(() => searchParams.get('video') !== null, [searchParams]);
     const [videoFullscreen, setVideoFullscreen] = useState<boolean>(false);
@@ -305,6 +357,9 @@ function App({
     const [settingsDialogOpen, setSettingsDialogOpen] = useState<boolean>(false);
     const [settingsDialogScrollToId, setSettingsDialogScrollToId] = useState<string>();
     const [statisticsDialogOpen, setStatisticsDialogOpen] = useState<boolean>(false);
+    const [subtitleExportDialogOpen, setSubtitleExportDialogOpen] = useState<boolean>(false);
+    // Exported as a track of empty lines to be transcribed when there are no subtitles
+    const [speechSubtitles, setSpeechSubtitles] = useState<DisplaySubtitleModel[]>([]);
     const [disableKeyEvents, setDisableKeyEvents] = useState<boolean>(false);
     const [tab, setTab] = useState<VideoTabModel>();
     const [availableTabs, setAvailableTabs] = useState<VideoTabModel[]>();
@@ -333,6 +388,36 @@ function App({
         [t]
     );
 
+    const handleSubtitleTimingRepaired = useCallback(
+        (report: SubtitleTimingRepairReport) => {
+            setAlertSeverity('info');
+            setAlert(t('info.repairedSubtitleTiming', { ...report })!);
+            setAlertOpen(true);
+        },
+        [t]
+    );
+
+    const handleSpeechDetected = useCallback(
+        (detected: DisplaySubtitleModel[]) => {
+            setSpeechSubtitles(detected);
+            setAlertSeverity('info');
+            setAlert(t('info.detectedSpeech', { count: detected.length })!);
+            setAlertOpen(true);
+        },
+        [t]
+    );
+
+    const handleWordMarked = useCallback(
+        (knownWord: KnownWord) => {
+            setAlertSeverity('info');
+            setAlert(t(markedWordLocKeys[knownWord.status], { word: knownWord.lemma })!);
+            setAlertOpen(true);
+        },
+        [t]
+    );
+
+    useEffect(() => setSpeechSubtitles([]), [sources.videoFile]);
+
     const handleCopyLastError = useCallback(
         (error: string) => {
             setAlertSeverity('info');
@@ -440,6 +525,74 @@ function App({
     // Avoid unnecessary re-renders by having handleCopy operate on a ref to settings
     const settingsRef = useRef(settings);
     settingsRef.current = settings;
+    const exportParamsForCard = useCallback((card: CardModel, mode: AnkiExportMode): ExportParams => {
+        let audioClip = AudioClip.fromCard(
+            card,
+            settingsRef.current.audioPaddingStart,
+            settingsRef.current.audioPaddingEnd,
+            settingsRef.current.recordWithAudioPlayback
+        );
+
+        if (audioClip && settingsRef.current.preferMp3) {
+            audioClip = audioClip.toMp3(() => new mp3WorkerFactory());
+        }
+
+        return {
+            text: extractText(card.subtitle, card.surroundingSubtitles),
+            track1: extractText(card.subtitle, card.surroundingSubtitles, 0),
+            track2: extractText(card.subtitle, card.surroundingSubtitles, 1),
+            track3: extractText(card.subtitle, card.surroundingSubtitles, 2),
+            translation:
+                card.translation ??
+                translationForTimestampInterval(
+                    card.surroundingSubtitles,
+                    [card.subtitle.start, card.subtitle.end],
+                    card.subtitle.track
+                ),
+            definition: card.definition ?? '',
+            audioClip: audioClip,
+            image: Image.fromCard(card, settingsRef.current.maxImageWidth, settingsRef.current.maxImageHeight),
+            word: card.word ?? '',
+            source: `${card.subtitleFileName} (${humanReadableTime(card.mediaTimestamp)})`,
+            url: '',
+            customFieldValues: card.customFieldValues ?? {},
+            tags: settingsRef.current.tags,
+            mode,
+        };
+    }, []);
+
+    const miningQueueRepository = useMemo(() => {
+        if (extension.supportsMiningQueueRequest) {
+            return new ExtensionBridgedMiningQueueRepository(extension);
+        }
+
+        return new IndexedDBMiningQueueRepository(settings.miningQueueStorageLimit);
+    }, [extension, settings.miningQueueStorageLimit]);
+    const exportMiningQueueItem = useCallback(
+        async (item: MiningQueueItem) => await anki.export(exportParamsForCard(item, 'default')),
+        [anki, exportParamsForCard]
+    );
+    const {
+        miningQueueItems,
+        exportProgress: miningQueueExportProgress,
+        updateMiningQueueItem,
+        deleteMiningQueueItem,
+        deleteExportedMiningQueueItems,
+        exportMiningQueue,
+    } = useMiningQueue(miningQueueRepository, exportMiningQueueItem);
+    const [miningQueueOpen, setMiningQueueOpen] = useState<boolean>(false);
+    const handleOpenMiningQueue = useCallback(() => setMiningQueueOpen(true), []);
+    const handleCloseMiningQueue = useCallback(() => setMiningQueueOpen(false), []);
+    const handleExportMiningQueue = useCallback(
+        async (items: MiningQueueItem[]) => {
+            const { exported, failed } = await exportMiningQueue(items);
+            setAlertSeverity(failed > 0 ? 'warning' : 'success');
+            setAlert(t('miningQueue.exportFinished', { exported, failed })!);
+            setAlertOpen(true);
+        },
+        [exportMiningQueue, t]
+    );
+
     const handleCopy = useCallback(
         async (card: CardModel, postMineAction?: PostMineAction, id?: string) => {
             if (card.subtitle && settingsRef.current.copyToClipboardOnMine) {
@@ -453,6 +606,18 @@ function App({
                 id: id || uuidv4(),
             };
 
+            if (postMineAction === PostMineAction.queueForMining) {
+                await miningQueueRepository.save({ ...newCard, status: 'pending' });
+                setAlertSeverity('success');
+                setAlert(
+                    t('info.queuedForMining', {
+                        result: card.subtitle.text || humanReadableTime(card.subtitle.start),
+                    })!
+                );
+                setAlertOpen(true);
+                return;
+            }
+
             if (extension.supportsSidePanel) {
                 extension.publishCard(newCard);
             } else {
@@ -475,42 +640,27 @@ function App({
                 case PostMineAction.exportCard:
                 case PostMineAction.updateLastCard:
                     miningContext.started();
-                    let audioClip = AudioClip.fromCard(
-                        newCard,
-                        settingsRef.current.audioPaddingStart,
-                        settingsRef.current.audioPaddingEnd,
-                        settingsRef.current.recordWithAudioPlayback
-                    );
-
-                    if (audioClip && settingsRef.current.preferMp3) {
-                        audioClip = audioClip.toMp3(() => new mp3WorkerFactory());
-                    }
-
-                    handleAnkiDialogProceed({
-                        text: extractText(card.subtitle, card.surroundingSubtitles),
-                        track1: extractText(card.subtitle, card.surroundingSubtitles, 0),
-                        track2: extractText(card.subtitle, card.surroundingSubtitles, 1),
-                        track3: extractText(card.subtitle, card.surroundingSubtitles, 2),
-                        definition: newCard.definition ?? '',
-                        audioClip: audioClip,
-                        image: Image.fromCard(
+                    handleAnkiDialogProceed(
+                        exportParamsForCard(
                             newCard,
-                            settingsRef.current.maxImageWidth,
-                            settingsRef.current.maxImageHeight
-                        ),
-                        word: newCard.word ?? '',
-                        source: `${newCard.subtitleFileName} (${humanReadableTime(card.mediaTimestamp)})`,
-                        url: '',
-                        customFieldValues: newCard.customFieldValues ?? {},
-                        tags: settingsRef.current.tags,
-                        mode: postMineAction === PostMineAction.updateLastCard ? 'updateLast' : 'default',
-                    });
+                            postMineAction === PostMineAction.updateLastCard ? 'updateLast' : 'default'
+                        )
+                    );
                     break;
                 default:
                     throw new Error('Unknown post mine action: ' + postMineAction);
             }
         },
-        [extension, miningContext, saveCopyHistoryItem, handleAnkiDialogProceed, handleAnkiDialogRequest, t]
+        [
+            extension,
+            miningContext,
+            miningQueueRepository,
+            saveCopyHistoryItem,
+            handleAnkiDialogProceed,
+            handleAnkiDialogRequest,
+            exportParamsForCard,
+            t,
+        ]
     );
 
     const handleOpenCopyHistory = useCallback(async () => {
@@ -1117,24 +1267,15 @@ function App({
         [extension]
     );
 
-    const handleDownloadSubtitleFilesAsSrt = useCallback(async () => {
-        if (sources.subtitleFiles === undefined) {
-            return;
-        }
-
-        const nonSupSubtitleFiles = sources.subtitleFiles.filter((f) => !f.name.endsWith('.sup'));
-
-        if (nonSupSubtitleFiles.length === 0) {
-            return;
-        }
+    const handleOpenSubtitleExport = useCallback(() => {
+        setDisableKeyEvents(true);
+        setSubtitleExportDialogOpen(true);
+    }, []);
 
-        download(
-            new Blob([await subtitleReader.filesToSrt(nonSupSubtitleFiles)], {
-                type: 'text/plain',
-            }),
-            `${fileName}.srt`
-        );
-    }, [fileName, sources.subtitleFiles, subtitleReader]);
+    const handleCloseSubtitleExport = useCallback(() => {
+        setSubtitleExportDialogOpen(false);
+        setDisableKeyEvents(ankiDialogOpen);
+    }, [ankiDialogOpen]);
 
     const handleDragOver = useCallback(
         (e: React.DragEvent<HTMLDivElement>) => {
@@ -1258,6 +1399,8 @@ function App({
         ((loading && !videoFrameRef.current) || (sources.subtitleFiles.length === 0 && !sources.videoFile));
     const appBarHidden = sources.videoFile !== undefined && ((theaterMode && !videoPopOut) || videoFullscreen);
     const effectiveCopyHistoryOpen = copyHistoryOpen && !videoFullscreen;
+    const exportingSpeech = !subtitles.some((s) => s.text !== '') && speechSubtitles.length > 0;
+    const canExportSubtitles = subtitles.some((s) => s.text !== '') || exportingSpeech;
     const lastSelectedAnkiExportMode =
         !extension.installed || extension.supportsLastSelectedAnkiExportModeSetting
             ? settings.lastSelectedAnkiExportMode
@@ -1363,6 +1506,25 @@ function App({
                                 open={statisticsDialogOpen}
                                 onClose={handleCloseStatistics}
                             />
+                            <SubtitleExportDialog
+                                open={subtitleExportDialogOpen}
+                                subtitles={exportingSpeech ? speechSubtitles : subtitles}
+                                emptyText={exportingSpeech}
+                                trackNames={subtitleTrackFiles(sources.subtitleFiles).map((f) => f.name)}
+                                fileName={fileName || 'subtitles'}
+                                onClose={handleCloseSubtitleExport}
+                            />
+                            <MiningQueueDialog
+                                open={miningQueueOpen}
+                                fullScreen={isMobile}
+                                items={miningQueueItems}
+                                exportProgress={miningQueueExportProgress}
+                                onClose={handleCloseMiningQueue}
+                                onChange={updateMiningQueueItem}
+                                onDelete={deleteMiningQueueItem}
+                                onDeleteExported={deleteExportedMiningQueueItems}
+                                onExport={handleExportMiningQueue}
+                            />
                             <NeedRefreshDialog
                                 open={needRefreshDialogOpen}
                                 onRefresh={updateFromServiceWorker}
@@ -1373,9 +1535,10 @@ function App({
                                 drawerWidth={drawerWidth}
                                 drawerOpen={effectiveCopyHistoryOpen}
                                 hidden={appBarHidden}
-                                subtitleFiles={sources.subtitleFiles}
+                                canExportSubtitles={canExportSubtitles}
                                 onOpenCopyHistory={handleOpenCopyHistory}
-                                onDownloadSubtitleFilesAsSrt={handleDownloadSubtitleFilesAsSrt}
+                                onOpenMiningQueue={handleOpenMiningQueue}
+                                onExportSubtitles={handleOpenSubtitleExport}
                                 onOpenSettings={handleOpenSettings}
                                 onOpenStatistics={handleOpenStatistics}
                                 lastError={lastError}
@@ -1419,6 +1582,9 @@ function App({
                                     playbackPreferences={playbackPreferences}
                                     onCopy={handleCopy}
                                     onError={handleError}
+                                    onSubtitleTimingRepaired={handleSubtitleTimingRepaired}
+                                    onSpeechDetected={handleSpeechDetected}
+                                    onWordMarked={handleWordMarked}
                                     onUnloadVideo={handleUnloadVideo}
                                     onLoaded={handleFilesLoaded}
                                     onTabSelected={handleTabSelected}
@@ -1452,6 +1618,7 @@ function App({
                                     miningContext={miningContext}
                                     keyBinder={keyBinder}
                                     webSocketClient={webSocketClient}
+                                    createTokenizer={createTokenizer}
                                 />
                             </Content>
                         </Paper>
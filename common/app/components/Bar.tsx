@@ -9,6 +9,7 @@ import TutorialIcon from '@project/common/components/TutorialIcon';
 import IconButton from '@mui/material/IconButton';
 import HistoryIcon from '@mui/icons-material/History';
 import InsightsIcon from '@mui/icons-material/Insights';
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck';
 import SaveAltIcon from '@mui/icons-material/SaveAlt';
 import SettingsIcon from '@mui/icons-material/Settings';
 import Toolbar from '@mui/material/Toolbar';
@@ -31,12 +32,13 @@ interface BarProps {
     drawerOpen: boolean;
     hidden: boolean;
     title: string;
-    subtitleFiles?: File[];
+    canExportSubtitles: boolean;
     lastError?: any;
     onFileSelector?: () => void;
-    onDownloadSubtitleFilesAsSrt: () => void;
+    onExportSubtitles: () => void;
     onOpenSettings: () => void;
     onOpenCopyHistory: () => void;
+    onOpenMiningQueue: () => void;
     onOpenStatistics: () => void;
     onCopyLastError: (error: string) => void;
 }
@@ -126,23 +128,18 @@ export default function Bar({
     drawerOpen,
     hidden,
     title,
-    subtitleFiles,
+    canExportSubtitles,
     lastError,
     onOpenSettings,
     onOpenCopyHistory,
+    onOpenMiningQueue,
     onOpenStatistics,
-    onDownloadSubtitleFilesAsSrt,
+    onExportSubtitles,
     onCopyLastError,
 }: BarProps) {
     const classes = useStyles({ drawerWidth });
-    const canSaveAsSrt =
-        subtitleFiles !== undefined && subtitleFiles.find((f) => !f.name.endsWith('.sup')) !== undefined;
     const { t } = useTranslation();
 
-    const handleDownloadSubtitleFilesAsSrt = useCallback(() => {
-        onDownloadSubtitleFilesAsSrt();
-    }, [onDownloadSubtitleFilesAsSrt]);
-
     const [menuAnchorEl, setMenuAnchorEl] = useState<HTMLElement>();
     const [menuOpen, setMenuOpen] = useState<boolean>(false);
     const handleMenuClose = useCallback(() => {
@@ -179,13 +176,13 @@ export default function Bar({
                 })}
             >
                 <Toolbar>
-                    {canSaveAsSrt && (
-                        <Tooltip title={t('action.downloadSubtitlesAsSrt')!}>
+                    {canExportSubtitles && (
+                        <Tooltip title={t('action.exportSubtitles')!}>
                             <IconButton
                                 edge="start"
                                 color="inherit"
                                 className={classes.leftButton}
-                                onClick={handleDownloadSubtitleFilesAsSrt}
+                                onClick={onExportSubtitles}
                             >
                                 <SaveAltIcon />
                             </IconButton>
@@ -197,6 +194,11 @@ export default function Bar({
                     <IconButton edge="end" color="inherit" onClick={handleMenuOpen}>
                         <GitHubIcon />
                     </IconButton>
+                    <Tooltip title={t('bar.miningQueue')!}>
+                        <IconButton edge="end" color="inherit" onClick={onOpenMiningQueue}>
+                            <PlaylistAddCheckIcon />
+                        </IconButton>
+                    </Tooltip>
                     <Tooltip title={t('bar.statistics')!}>
                         <IconButton edge="end" color="inherit" onClick={onOpenStatistics}>
                             <InsightsIcon />
@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ComprehensionReport, comprehension } from '@project/common/comprehension';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import CircularProgress from '@mui/material/CircularProgress';
+import LinearProgress from '@mui/material/LinearProgress';
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemText from '@mui/material/ListItemText';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import { timeDurationDisplay } from '../services/util';
+
+const shownUnknownLemmas = 30;
+
+const percentage = (value: number | undefined) => (value === undefined ? '-' : `${Math.round(value * 100)}%`);
+
+interface ComprehensionReportPanelProps {
+    length: number;
+    onRequestReport: () => Promise<ComprehensionReport>;
+    onSeek: (timestamp: number) => void;
+}
+
+export default function ComprehensionReportPanel({ length, onRequestReport, onSeek }: ComprehensionReportPanelProps) {
+    const { t } = useTranslation();
+    const [report, setReport] = useState<ComprehensionReport>();
+    const [error, setError] = useState<string>();
+
+    const requestReport = useCallback(() => {
+        let canceled = false;
+        setReport(undefined);
+        setError(undefined);
+        onRequestReport()
+            .then((report) => {
+                if (!canceled) setReport(report);
+            })
+            .catch((e) => {
+                if (!canceled) setError(e instanceof Error ? e.message : String(e));
+            });
+        return () => {
+            canceled = true;
+        };
+    }, [onRequestReport]);
+
+    useEffect(() => requestReport(), [requestReport]);
+
+    if (error !== undefined) {
+        return (
+            <Box p={2}>
+                <Typography color="error">{t('comprehensionReport.failed', { message: error })}</Typography>
+            </Box>
+        );
+    }
+
+    if (report === undefined) {
+        return (
+            <Stack p={2} direction="row" alignItems="center" spacing={2}>
+                <CircularProgress size={20} />
+                <Typography variant="body2">{t('comprehensionReport.analyzing')}</Typography>
+            </Stack>
+        );
+    }
+
+    if (report.totalTokens === 0) {
+        return (
+            <Box p={2}>
+                <Typography variant="body2">{t('comprehensionReport.noTokens')}</Typography>
+            </Box>
+        );
+    }
+
+    return (
+        <Stack p={2} spacing={2}>
+            <Box>
+                <Typography variant="h6">
+                    {t('comprehensionReport.comprehension', { percentage: percentage(comprehension(report)) })}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                    {t('comprehensionReport.tokens', { known: report.knownTokens, total: report.totalTokens })}
+                </Typography>
+            </Box>
+            <Box>
+                <Typography variant="subtitle2">
+                    {t('comprehensionReport.unknownWords', { count: report.unknownLemmas.length })}
+                </Typography>
+                <Box display="flex" flexWrap="wrap" gap={0.5} mt={1}>
+                    {report.unknownLemmas.slice(0, shownUnknownLemmas).map(({ lemma, count }) => (
+                        <Chip key={lemma} size="small" label={`${lemma} ×${count}`} />
+                    ))}
+                </Box>
+            </Box>
+            <Box>
+                <Typography variant="subtitle2">{t('comprehensionReport.scenes')}</Typography>
+                <List dense disablePadding>
+                    {report.scenes.map((scene) => {
+                        const sceneComprehension = comprehension(scene);
+                        return (
+                            <ListItemButton key={scene.start} onClick={() => onSeek(scene.start)}>
+                                <ListItemText
+                                    primary={`${timeDurationDisplay(scene.start, length, false)} - ${timeDurationDisplay(scene.end, length, false)}`}
+                                    secondary={
+                                        <LinearProgress variant="determinate" value={(sceneComprehension ?? 0) * 100} />
+                                    }
+                                />
+                                <Typography variant="body2" ml={2}>
+                                    {percentage(sceneComprehension)}
+                                </Typography>
+                            </ListItemButton>
+                        );
+                    })}
+                </List>
+            </Box>
+        </Stack>
+    );
+}
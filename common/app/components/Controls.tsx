@@ -7,6 +7,7 @@ import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
 import CloseIcon from '@mui/icons-material/Close';
 import FolderIcon from '@mui/icons-material/Folder';
+import GraphicEqIcon from '@mui/icons-material/GraphicEq';
 import Fade from '@mui/material/Fade';
 import Grid from '@mui/material/Grid';
 import IconButton from '@mui/material/IconButton';
@@ -489,6 +490,9 @@ interface ControlsProps {
     onTabSelected?: (tab: VideoTabModel) => void;
     onUnloadVideo?: () => void;
     onOffsetChange: (offset: number) => void;
+    autoAlignEnabled?: boolean;
+    autoAligning?: boolean;
+    onAutoAlign?: () => void;
     onPlaybackRateChange: (playbackRate: number) => void;
     onVolumeChange?: (volume: number) => void;
     disableKeyEvents?: boolean;
@@ -543,6 +547,9 @@ export default function Controls({
     onTabSelected,
     onUnloadVideo,
     onOffsetChange,
+    autoAlignEnabled,
+    autoAligning,
+    onAutoAlign,
     onPlaybackRateChange,
     onVolumeChange,
     disableKeyEvents,
@@ -980,6 +987,17 @@ export default function Controls({
                                         </Grid>
                                     </Tooltip>
                                 )}
+                                {offsetEnabled && autoAlignEnabled && !showVolumeBar && !isReallySmallScreen && (
+                                    <Tooltip title={t('controls.autoAlignSubtitles')!}>
+                                        <Grid item>
+                                            <IconButton color="inherit" disabled={autoAligning} onClick={onAutoAlign}>
+                                                <GraphicEqIcon
+                                                    className={autoAligning ? classes.inactiveButton : classes.button}
+                                                />
+                                            </IconButton>
+                                        </Grid>
+                                    </Tooltip>
+                                )}
                                 {playbackRateEnabled && !showVolumeBar && !isReallySmallScreen && (
                                     <Grid item style={{ marginLeft: 10 }}>
                                         <Tooltip title={t('controls.playbackRate')!}>
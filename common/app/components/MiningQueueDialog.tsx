@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MiningQueueItem, MiningQueueItemChanges } from '@project/common/mining-queue';
+import { sourceString } from '@project/common/util';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Divider from '@mui/material/Divider';
+import IconButton from '@mui/material/IconButton';
+import LinearProgress from '@mui/material/LinearProgress';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { MiningQueueExportProgress } from '../hooks/use-mining-queue';
+
+interface Props {
+    open: boolean;
+    fullScreen?: boolean;
+    items: MiningQueueItem[];
+    exportProgress?: MiningQueueExportProgress;
+    onClose: () => void;
+    onChange: (item: MiningQueueItem, changes: MiningQueueItemChanges) => void;
+    onDelete: (item: MiningQueueItem) => void;
+    onDeleteExported: () => void;
+    onExport: (items: MiningQueueItem[]) => void;
+}
+
+interface RowProps {
+    item: MiningQueueItem;
+    exporting: boolean;
+    disabled: boolean;
+    onChange: (item: MiningQueueItem, changes: MiningQueueItemChanges) => void;
+    onDelete: (item: MiningQueueItem) => void;
+    onRetry: (item: MiningQueueItem) => void;
+}
+
+const MiningQueueRow = ({ item, exporting, disabled, onChange, onDelete, onRetry }: RowProps) => {
+    const { t } = useTranslation();
+
+    // Fields are saved when they lose focus so that typing isn't interrupted by the repository
+    const [word, setWord] = useState<string>(item.word ?? '');
+    const [definition, setDefinition] = useState<string>(item.definition ?? '');
+
+    useEffect(() => setWord(item.word ?? ''), [item.word]);
+    useEffect(() => setDefinition(item.definition ?? ''), [item.definition]);
+
+    const handlePickWord = useCallback(() => {
+        const selected = window.getSelection()?.toString().trim();
+
+        if (selected) {
+            setWord(selected);
+            onChange(item, { word: selected });
+        }
+    }, [item, onChange]);
+
+    const handleWordBlur = useCallback(() => {
+        if (word !== (item.word ?? '')) {
+            onChange(item, { word });
+        }
+    }, [item, word, onChange]);
+
+    const handleDefinitionBlur = useCallback(() => {
+        if (definition !== (item.definition ?? '')) {
+            onChange(item, { definition });
+        }
+    }, [item, definition, onChange]);
+
+    let status: React.ReactNode;
+
+    if (exporting) {
+        status = <CircularProgress size={20} />;
+    } else if (item.status === 'exported') {
+        status = <Chip size="small" color="success" label={t('miningQueue.exported')} />;
+    } else if (item.status === 'failed') {
+        status = (
+            <Chip size="small" color="error" label={t('miningQueue.failed', { message: item.exportError ?? '' })} />
+        );
+    } else {
+        status = <Chip size="small" label={t('miningQueue.pending')} />;
+    }
+
+    return (
+        <Stack direction="row" spacing={2} sx={{ py: 2 }}>
+            {item.image?.base64 && (
+                <Box
+                    component="img"
+                    src={`data:image/${item.image.extension};base64,${item.image.base64}`}
+                    sx={{ width: 120, height: 'fit-content', borderRadius: 1 }}
+                />
+            )}
+            <Stack spacing={1} sx={{ flexGrow: 1, minWidth: 0 }}>
+                <Typography variant="body1" onMouseUp={handlePickWord} sx={{ userSelect: 'text' }}>
+                    {item.subtitle.text}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                    {sourceString(item.subtitleFileName, item.subtitle.start)}
+                </Typography>
+                <TextField
+                    size="small"
+                    label={t('miningQueue.word')}
+                    helperText={t('miningQueue.wordHelperText')}
+                    value={word}
+                    disabled={disabled}
+                    onChange={(e) => setWord(e.target.value)}
+                    onBlur={handleWordBlur}
+                />
+                <TextField
+                    size="small"
+                    multiline
+                    maxRows={4}
+                    label={t('miningQueue.definition')}
+                    value={definition}
+                    disabled={disabled}
+                    onChange={(e) => setDefinition(e.target.value)}
+                    onBlur={handleDefinitionBlur}
+                />
+            </Stack>
+            <Stack spacing={1} alignItems="flex-end">
+                {status}
+                <Stack direction="row">
+                    {item.status === 'failed' && (
+                        <IconButton title={t('miningQueue.retry')!} disabled={disabled} onClick={() => onRetry(item)}>
+                            <RefreshIcon fontSize="small" />
+                        </IconButton>
+                    )}
+                    <IconButton title={t('action.delete')!} disabled={disabled} onClick={() => onDelete(item)}>
+                        <DeleteIcon fontSize="small" />
+                    </IconButton>
+                </Stack>
+            </Stack>
+        </Stack>
+    );
+};
+
+export default function MiningQueueDialog({
+    open,
+    fullScreen,
+    items,
+    exportProgress,
+    onClose,
+    onChange,
+    onDelete,
+    onDeleteExported,
+    onExport,
+}: Props) {
+    const { t } = useTranslation();
+    const exporting = exportProgress !== undefined;
+    const unexportedItems = items.filter((item) => item.status !== 'exported');
+    const hasExportedItems = unexportedItems.length < items.length;
+    const handleExport = useCallback(() => onExport(unexportedItems), [onExport, unexportedItems]);
+    const handleRetry = useCallback((item: MiningQueueItem) => onExport([item]), [onExport]);
+
+    return (
+        <Dialog open={open} fullScreen={fullScreen} maxWidth="md" fullWidth onClose={onClose}>
+            <DialogTitle>{t('miningQueue.title')}</DialogTitle>
+            <DialogContent dividers>
+                {exportProgress && (
+                    <Box sx={{ mb: 2 }}>
+                        <Typography variant="body2" gutterBottom>
+                            {t('miningQueue.exporting', {
+                                current: exportProgress.current,
+                                total: exportProgress.total,
+                            })}
+                        </Typography>
+                        <LinearProgress
+                            variant="determinate"
+                            value={(exportProgress.current / exportProgress.total) * 100}
+                        />
+                    </Box>
+                )}
+                {items.length === 0 ? (
+                    <Typography color="text.secondary">{t('miningQueue.empty')}</Typography>
+                ) : (
+                    <Stack divider={<Divider />}>
+                        {items.map((item) => (
+                            <MiningQueueRow
+                                key={item.id}
+                                item={item}
+                                exporting={exportProgress?.id === item.id}
+                                disabled={exporting}
+                                onChange={onChange}
+                                onDelete={onDelete}
+                                onRetry={handleRetry}
+                            />
+                        ))}
+                    </Stack>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button disabled={exporting || !hasExportedItems} onClick={onDeleteExported}>
+                    {t('miningQueue.deleteExported')}
+                </Button>
+                <Button onClick={onClose}>{t('action.ok')}</Button>
+                <Button variant="contained" disabled={exporting || unexportedItems.length === 0} onClick={handleExport}>
+                    {t('miningQueue.export', { count: unexportedItems.length })}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
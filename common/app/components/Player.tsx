@@ -18,8 +18,20 @@ import {
 import { AsbplayerSettings } from '@project/common/settings';
 import { SubtitleCollection } from '@project/common/subtitle-collection';
 import { SubtitleColoring } from '@project/common/subtitle-coloring';
-import { SubtitleReader } from '@project/common/subtitle-reader';
+import { IndexedDBKnownWordsRepository, KnownWord } from '@project/common/known-words';
+import { IndexedDBFrequencyRepository } from '@project/common/frequency';
+import type { LocalTokenizerType, Tokenizer } from '@project/common/tokenizer';
+import { SubtitleReader, subtitleTrackFiles } from '@project/common/subtitle-reader';
 import { KeyBinder } from '@project/common/key-binder';
+import type { ComprehensionReport } from '@project/common/comprehension';
+import { alignedTime, decodeAudio, detectSpeech, speechIntervals } from '@project/common/audio-alignment';
+import { SubtitleEdit, editSubtitles, realignedSubtitles } from '@project/common/subtitle-editing';
+import {
+    SubtitleTimingRepairOptions,
+    SubtitleTimingRepairReport,
+    repairSubtitleTiming,
+    subtitleTimingRepaired,
+} from '@project/common/subtitle-repair';
 import { timeDurationDisplay } from '../services/util';
 import BroadcastChannelVideoProtocol from '../services/broadcast-channel-video-protocol';
 import ChromeTabVideoProtocol from '../services/chrome-tab-video-protocol';
@@ -35,6 +47,7 @@ import { useWindowSize } from '../hooks/use-window-size';
 import { useAppBarHeight } from '../hooks/use-app-bar-height';
 import { createBlobUrl } from '../../blob-url';
 import { MiningContext } from '../services/mining-context';
+import { LocalizedError } from './localized-error';
 import { SeekTimestampCommand, WebSocketClient } from '../../web-socket-client';
 
 const minVideoPlayerWidth = 300;
@@ -121,6 +134,10 @@ interface PlayerProps {
     onVideoPopOut: () => void;
     onPlayModeChangedViaBind: (oldPlayMode: PlayMode, newPlayMode: PlayMode) => void;
     onSubtitles: React.Dispatch<React.SetStateAction<DisplaySubtitleModel[] | undefined>>;
+    onSubtitleTimingRepaired?: (report: SubtitleTimingRepairReport) => void;
+    onSpeechDetected?: (speechSubtitles: DisplaySubtitleModel[]) => void;
+    onWordMarked?: (knownWord: KnownWord) => void;
+    onRequestComprehensionReport?: () => Promise<ComprehensionReport>;
     onLoadFiles?: () => void;
     disableKeyEvents: boolean;
     jumpToSubtitle?: SubtitleModel;
@@ -128,6 +145,7 @@ interface PlayerProps {
     hideControls?: boolean;
     forceCompressedMode?: boolean;
     webSocketClient?: WebSocketClient;
+    createTokenizer?: (type: LocalTokenizerType) => Promise<Tokenizer>;
 }
 
 const Player = React.memo(function Player({
@@ -161,6 +179,10 @@ const Player = React.memo(function Player({
     onVideoPopOut,
     onPlayModeChangedViaBind,
     onSubtitles,
+    onSubtitleTimingRepaired,
+    onSpeechDetected,
+    onWordMarked,
+    onRequestComprehensionReport,
     onLoadFiles,
     disableKeyEvents,
     jumpToSubtitle,
@@ -168,6 +190,7 @@ const Player = React.memo(function Player({
     hideControls,
     forceCompressedMode,
     webSocketClient,
+    createTokenizer,
 }: PlayerProps) {
     const [playMode, setPlayMode] = useState<PlayMode>(PlayMode.normal);
     const [subtitlesSentThroughChannel, setSubtitlesSentThroughChannel] = useState<boolean>();
@@ -177,11 +200,27 @@ const Player = React.memo(function Player({
     const flattenSubtitleFiles = sources?.flattenSubtitleFiles;
     const videoFile = sources?.videoFile;
     const videoFileUrl = sources?.videoFileUrl;
-    const playModeEnabled = subtitles && subtitles.length > 0 && Boolean(videoFileUrl);
+    const hasSubtitles = subtitles !== undefined && subtitles.length > 0;
+    const playModeEnabled = (hasSubtitles || settings.detectSpeechWithoutSubtitles) && Boolean(videoFileUrl);
+    // Lines of speech detected in the audio, which condensed and fast forward playback fall back to without subtitles
+    const [speechSubtitles, setSpeechSubtitles] = useState<DisplaySubtitleModel[]>();
+    const speechCollection = useMemo(() => {
+        if (speechSubtitles === undefined) {
+            return undefined;
+        }
+
+        const collection = new SubtitleCollection<DisplaySubtitleModel>({
+            returnLastShown: true,
+            returnNextToShow: true,
+        });
+        collection.setSubtitles(speechSubtitles);
+        return collection;
+    }, [speechSubtitles]);
     const [subtitlePlayerResizing, setSubtitlePlayerResizing] = useState<boolean>(false);
     const [loadingSubtitles, setLoadingSubtitles] = useState<boolean>(false);
     const [lastJumpToTopTimestamp, setLastJumpToTopTimestamp] = useState<number>(0);
     const [offset, setOffset] = useState<number>(0);
+    const [drift, setDrift] = useState<number>(0);
     const [playbackRate, setPlaybackRate] = useState<number>(1);
     const [audioTracks, setAudioTracks] = useState<AudioTrackModel[]>();
     const [selectedAudioTrack, setSelectedAudioTrack] = useState<string>();
@@ -195,6 +234,12 @@ const Player = React.memo(function Player({
     const hideSubtitlePlayerRef = useRef<boolean>(undefined);
     hideSubtitlePlayerRef.current = hideSubtitlePlayer;
     const [disabledSubtitleTracks, setDisabledSubtitleTracks] = useState<{ [track: number]: boolean }>({});
+    const { subtitleOverlapRepair, subtitleMinimumDuration, subtitleGapSnapThreshold, removeDuplicateSubtitles } =
+        settings;
+    const timingRepairOptions = useMemo<SubtitleTimingRepairOptions>(
+        () => ({ subtitleOverlapRepair, subtitleMinimumDuration, subtitleGapSnapThreshold, removeDuplicateSubtitles }),
+        [subtitleOverlapRepair, subtitleMinimumDuration, subtitleGapSnapThreshold, removeDuplicateSubtitles]
+    );
     const mousePositionRef = useRef<Point>({ x: 0, y: 0 });
     const mediaAdapter = useMemo(() => {
         if (videoFileUrl || tab) {
@@ -279,8 +324,9 @@ const Player = React.memo(function Player({
     );
 
     const applyOffset = useCallback(
-        (offset: number, forwardToVideo: boolean) => {
+        (offset: number, drift: number, forwardToVideo: boolean) => {
             setOffset(offset);
+            setDrift(drift);
 
             if (!subtitles) {
                 return;
@@ -288,21 +334,23 @@ const Player = React.memo(function Player({
 
             const length = subtitles.length > 0 ? subtitles[subtitles.length - 1].end + offset : 0;
 
+            const alignment = { offset, drift };
             const newSubtitles = subtitles.map((s, i) => ({
                 text: s.text,
                 textImage: s.textImage,
-                start: s.originalStart + offset,
+                start: alignedTime(s.originalStart, alignment),
                 originalStart: s.originalStart,
-                end: s.originalEnd + offset,
+                end: alignedTime(s.originalEnd, alignment),
                 originalEnd: s.originalEnd,
-                displayTime: timeDurationDisplay(s.originalStart + offset, length),
+                displayTime: timeDurationDisplay(alignedTime(s.originalStart, alignment), length),
                 track: s.track,
+                styling: s.styling,
                 index: i,
             }));
 
             if (forwardToVideo) {
                 if (channel !== undefined) {
-                    channel.offset(offset);
+                    channel.offset(offset, drift);
 
                     // Older versions of extension don't support the offset message
                     if (tab !== undefined && extension.installed && !extension.supportsOffsetMessage) {
@@ -317,6 +365,50 @@ const Player = React.memo(function Player({
         [subtitleFiles, subtitles, extension, playbackPreferences, tab, channel, onSubtitles]
     );
 
+    const [subtitleEditHistory, setSubtitleEditHistory] = useState<DisplaySubtitleModel[][]>([]);
+
+    useEffect(() => setSubtitleEditHistory([]), [subtitleFiles, tab]);
+
+    const updateEditedSubtitles = useCallback(
+        (editedSubtitles: DisplaySubtitleModel[]) => {
+            const length = editedSubtitles.length > 0 ? editedSubtitles[editedSubtitles.length - 1].end : 0;
+            const newSubtitles = editedSubtitles.map((s) => ({
+                ...s,
+                displayTime: timeDurationDisplay(s.start, length),
+            }));
+            channel?.subtitles(newSubtitles, subtitleFiles?.map((f) => f.name) ?? [''], true);
+            onSubtitles(newSubtitles);
+        },
+        [subtitleFiles, channel, onSubtitles]
+    );
+
+    const handleSubtitleEdit = useCallback(
+        (edit: SubtitleEdit) => {
+            if (!subtitles) {
+                return;
+            }
+
+            const editedSubtitles = editSubtitles(subtitles, edit, { offset, drift });
+
+            if (editedSubtitles !== subtitles) {
+                setSubtitleEditHistory((history) => [...history, subtitles]);
+                updateEditedSubtitles(editedSubtitles);
+            }
+        },
+        [subtitles, offset, drift, updateEditedSubtitles]
+    );
+
+    const handleUndoSubtitleEdit = useCallback(() => {
+        if (subtitleEditHistory.length === 0) {
+            return;
+        }
+
+        // The offset may have changed since the edit
+        const previousSubtitles = subtitleEditHistory[subtitleEditHistory.length - 1];
+        setSubtitleEditHistory((history) => history.slice(0, history.length - 1));
+        updateEditedSubtitles(realignedSubtitles(previousSubtitles, { offset, drift }));
+    }, [subtitleEditHistory, offset, drift, updateEditedSubtitles]);
+
     useEffect(() => {
         if (!videoFile && !tab) {
             return;
@@ -351,13 +443,17 @@ const Player = React.memo(function Player({
         async function init() {
             const offset = playbackPreferencesRef.current?.offset ?? 0;
             setOffset(offset);
+            setDrift(0);
             let subtitles: DisplaySubtitleModel[] | undefined;
 
             if (subtitleFiles !== undefined && subtitleFiles.length > 0) {
                 setLoadingSubtitles(true);
 
                 try {
-                    const nodes = await subtitleReader.subtitles(subtitleFiles, flattenSubtitleFiles);
+                    const { subtitles: nodes, report } = repairSubtitleTiming(
+                        await subtitleReader.subtitles(subtitleFiles, flattenSubtitleFiles),
+                        timingRepairOptions
+                    );
                     const length = nodes.length > 0 ? nodes[nodes.length - 1].end + offset : 0;
 
                     subtitles = nodes.map((s, i) => ({
@@ -369,11 +465,16 @@ const Player = React.memo(function Player({
                         originalEnd: s.end,
                         displayTime: timeDurationDisplay(s.start + offset, length),
                         track: s.track,
+                        styling: s.styling,
                         index: i,
                     }));
 
                     setSubtitlesSentThroughChannel(false);
                     onSubtitles(subtitles);
+
+                    if (subtitleTimingRepaired(report)) {
+                        onSubtitleTimingRepaired?.(report);
+                    }
                     setPlayMode((playMode) => (!subtitles || subtitles.length === 0 ? PlayMode.normal : playMode));
                 } catch (e) {
                     onError(e);
@@ -388,7 +489,16 @@ const Player = React.memo(function Player({
         }
 
         init().then(() => onLoaded(subtitleFiles ?? []));
-    }, [subtitleReader, onLoaded, onError, subtitleFiles, flattenSubtitleFiles, onSubtitles]);
+    }, [
+        subtitleReader,
+        timingRepairOptions,
+        onLoaded,
+        onError,
+        onSubtitleTimingRepaired,
+        subtitleFiles,
+        flattenSubtitleFiles,
+        onSubtitles,
+    ]);
 
     const [subtitleCollection, setSubtitleCollection] = useState<
         SubtitleColoring | SubtitleCollection<DisplaySubtitleModel>
@@ -422,7 +532,11 @@ const Player = React.memo(function Player({
                     return allSubtitles;
                 });
             },
-            () => clockRef.current.time(calculateLength())
+            () => clockRef.current.time(calculateLength()),
+            undefined,
+            new IndexedDBKnownWordsRepository(),
+            createTokenizer,
+            new IndexedDBFrequencyRepository()
         );
         if (subtitlesRef.current) subtitleColoring.setSubtitles(subtitlesRef.current);
         subtitleColoring.bind();
@@ -433,7 +547,16 @@ const Player = React.memo(function Player({
             if (!(subtitleCollectionRef.current instanceof SubtitleColoring)) return;
             subtitleCollectionRef.current.unbind();
         };
-    }, [channel, settings, tab, onSubtitles]);
+    }, [channel, settings, tab, onSubtitles, createTokenizer]);
+
+    // Subtitles synced to a tab are colored by the extension, which also builds their report
+    const handleRequestComprehensionReport = useMemo(() => {
+        if (subtitleCollection instanceof SubtitleColoring) {
+            return () => subtitleCollection.comprehensionReport();
+        }
+
+        return onRequestComprehensionReport;
+    }, [subtitleCollection, onRequestComprehensionReport]);
 
     useEffect(() => {
         if (!subtitleCollectionRef.current) return;
@@ -511,7 +634,7 @@ const Player = React.memo(function Player({
             setSubtitlesSentThroughChannel(true);
             channel.subtitles(
                 subtitles,
-                flattenSubtitleFiles ? [subtitleFiles[0].name] : subtitleFiles.map((f) => f.name)
+                flattenSubtitleFiles ? [subtitleFiles[0].name] : subtitleTrackFiles(subtitleFiles).map((f) => f.name)
             );
         });
     }, [subtitles, channel, flattenSubtitleFiles, subtitleFiles, subtitlesSentThroughChannel]);
@@ -565,7 +688,9 @@ const Player = React.memo(function Player({
         [channel, mediaAdapter, clock]
     );
     useEffect(() => {
-        return channel?.onOffset((offset) => applyOffset(Math.max(-calculateLength() || 0, offset), false));
+        return channel?.onOffset((offset, drift) =>
+            applyOffset(Math.max(-calculateLength() || 0, offset), drift, false)
+        );
     }, [channel, applyOffset]);
     useEffect(() => channel?.onPlaybackRate(updatePlaybackRate), [channel, updatePlaybackRate]);
     useEffect(
@@ -662,6 +787,26 @@ const Player = React.memo(function Player({
             ),
         [channel]
     );
+    useEffect(
+        () =>
+            channel?.onMarkWord((track, word, status) => {
+                const subtitleColoring = subtitleCollectionRef.current;
+
+                if (!(subtitleColoring instanceof SubtitleColoring)) {
+                    return;
+                }
+
+                subtitleColoring
+                    .markWord(track, word, status)
+                    .then((knownWord) => {
+                        if (knownWord !== undefined) {
+                            onWordMarked?.(knownWord);
+                        }
+                    })
+                    .catch(onError);
+            }),
+        [channel, onWordMarked, onError]
+    );
     useEffect(() => channel?.onLoadFiles(() => onLoadFiles?.()), [channel, onLoadFiles]);
     function play(clock: Clock, mediaAdapter: MediaAdapter, forwardToMedia: boolean) {
         clock.start();
@@ -708,12 +853,78 @@ const Player = React.memo(function Player({
         });
     }, [miningContext, clock, mediaAdapter]);
 
+    useEffect(() => {
+        setSpeechSubtitles(undefined);
+    }, [videoFile]);
+
+    useEffect(() => {
+        if (
+            (playMode !== PlayMode.condensed && playMode !== PlayMode.fastForward) ||
+            hasSubtitles ||
+            !settings.detectSpeechWithoutSubtitles ||
+            videoFile === undefined ||
+            speechSubtitles !== undefined
+        ) {
+            return;
+        }
+
+        let canceled = false;
+
+        async function detect(file: File) {
+            try {
+                const { samples, sampleRate } = await decodeAudio(await file.arrayBuffer());
+                const intervals = speechIntervals(detectSpeech(samples, sampleRate));
+                const length = intervals.length > 0 ? intervals[intervals.length - 1].end : 0;
+                const detected = intervals.map((interval, i) => ({
+                    text: '',
+                    start: interval.start,
+                    originalStart: interval.start,
+                    end: interval.end,
+                    originalEnd: interval.end,
+                    displayTime: timeDurationDisplay(interval.start, length),
+                    track: 0,
+                    index: i,
+                }));
+
+                if (!canceled) {
+                    setSpeechSubtitles(detected);
+                    onSpeechDetected?.(detected);
+                }
+            } catch (e) {
+                if (!canceled) {
+                    // Empty, so that detection isn't retried for the same file
+                    setSpeechSubtitles([]);
+                    onError(
+                        new LocalizedError('error.speechDetectionFailed', {
+                            message: e instanceof Error ? e.message : String(e),
+                        })
+                    );
+                }
+            }
+        }
+
+        detect(videoFile);
+        return () => {
+            canceled = true;
+        };
+    }, [
+        playMode,
+        hasSubtitles,
+        settings.detectSpeechWithoutSubtitles,
+        videoFile,
+        speechSubtitles,
+        onSpeechDetected,
+        onError,
+    ]);
+
     useEffect(() => {
         if (playMode !== PlayMode.condensed) {
             return;
         }
 
-        if (!subtitles || subtitles.length === 0) {
+        const collection = hasSubtitles ? subtitleCollection : speechCollection;
+
+        if (collection === undefined) {
             return;
         }
 
@@ -722,7 +933,7 @@ const Player = React.memo(function Player({
 
         const interval = setInterval(async () => {
             const timestamp = clock.time(calculateLength());
-            const slice = subtitleCollection.subtitlesAt(timestamp);
+            const slice = collection.subtitlesAt(timestamp);
 
             if (slice.nextToShow && slice.nextToShow.length > 0) {
                 const nextSubtitle = slice.nextToShow[0];
@@ -752,20 +963,22 @@ const Player = React.memo(function Player({
         }, 100);
 
         return () => clearInterval(interval);
-    }, [subtitles, subtitleCollection, playMode, clock, seek]);
+    }, [hasSubtitles, subtitleCollection, speechCollection, playMode, clock, seek]);
 
     useEffect(() => {
         if (playMode !== PlayMode.fastForward) {
             return;
         }
 
-        if (!subtitles || subtitles.length === 0) {
+        const collection = hasSubtitles ? subtitleCollection : speechCollection;
+
+        if (collection === undefined) {
             return;
         }
 
         const interval = setInterval(async () => {
             const timestamp = clock.time(calculateLength());
-            const slice = subtitleCollection.subtitlesAt(timestamp);
+            const slice = collection.subtitlesAt(timestamp);
 
             if (
                 slice.showing.length === 0 &&
@@ -779,7 +992,15 @@ const Player = React.memo(function Player({
         }, 100);
 
         return () => clearInterval(interval);
-    }, [updatePlaybackRate, subtitleCollection, clock, subtitles, playMode, settings.fastForwardModePlaybackRate]);
+    }, [
+        updatePlaybackRate,
+        subtitleCollection,
+        speechCollection,
+        clock,
+        hasSubtitles,
+        playMode,
+        settings.fastForwardModePlaybackRate,
+    ]);
 
     useEffect(() => {
         if (videoPopOut && videoFileUrl && channelId) {
@@ -891,9 +1112,9 @@ const Player = React.memo(function Player({
     const handleOffsetChange = useCallback(
         (offset: number) => {
             const length = calculateLength();
-            applyOffset(Math.max(-length || 0, offset), true);
+            applyOffset(Math.max(-length || 0, offset), drift, true);
         },
-        [applyOffset]
+        [applyOffset, drift]
     );
 
     const handlePlaybackRateChange = useCallback(
@@ -983,6 +1204,11 @@ const Player = React.memo(function Player({
                 return;
             }
 
+            // Only condensed and fast forward playback work off of detected speech
+            if (!hasSubtitles && togglePlayMode !== PlayMode.condensed && togglePlayMode !== PlayMode.fastForward) {
+                return;
+            }
+
             event.preventDefault();
             const newPlayMode = playMode === togglePlayMode ? PlayMode.normal : togglePlayMode;
             setPlayMode(newPlayMode);
@@ -993,7 +1219,7 @@ const Player = React.memo(function Player({
                 updatePlaybackRate(1, true);
             }
         },
-        [channel, playMode, playModeEnabled, onPlayModeChangedViaBind, updatePlaybackRate]
+        [channel, playMode, playModeEnabled, hasSubtitles, onPlayModeChangedViaBind, updatePlaybackRate]
     );
 
     useEffect(() => {
@@ -1149,6 +1375,10 @@ const Player = React.memo(function Player({
                         onSeek={handleSeekToTimestamp}
                         onCopy={handleCopyFromSubtitlePlayer}
                         onOffsetChange={handleOffsetChange}
+                        onSubtitleEdit={handleSubtitleEdit}
+                        onUndoSubtitleEdit={handleUndoSubtitleEdit}
+                        canUndoSubtitleEdit={subtitleEditHistory.length > 0}
+                        onRequestComprehensionReport={handleRequestComprehensionReport}
                         onToggleSubtitleTrack={handleToggleSubtitleTrack}
                         onSubtitlesHighlighted={handleSubtitlesHighlighted}
                         onResizeStart={handleSubtitlePlayerResizeStart}
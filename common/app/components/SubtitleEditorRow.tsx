@@ -0,0 +1,182 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SubtitleEdit } from '@project/common/subtitle-editing';
+import SubtitleTextImage from '@project/common/components/SubtitleTextImage';
+import AddIcon from '@mui/icons-material/Add';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import MergeTypeIcon from '@mui/icons-material/MergeType';
+import RemoveIcon from '@mui/icons-material/Remove';
+import IconButton from '@mui/material/IconButton';
+import Stack from '@mui/material/Stack';
+import TableCell from '@mui/material/TableCell';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import Tooltip from '../../components/Tooltip';
+import { timeDurationDisplay } from '../services/util';
+import type { DisplaySubtitleModel } from './SubtitlePlayer';
+
+const nudgeStep = 100;
+
+interface TimeNudgerProps {
+    label: string;
+    time: number;
+    length: number;
+    onNudge: (delta: number) => void;
+}
+
+const TimeNudger = ({ label, time, length, onNudge }: TimeNudgerProps) => {
+    return (
+        <Stack direction="row" alignItems="center">
+            <IconButton size="small" onClick={() => onNudge(-nudgeStep)}>
+                <RemoveIcon fontSize="small" />
+            </IconButton>
+            <Tooltip title={label}>
+                <Typography variant="caption">{timeDurationDisplay(time, length)}</Typography>
+            </Tooltip>
+            <IconButton size="small" onClick={() => onNudge(nudgeStep)}>
+                <AddIcon fontSize="small" />
+            </IconButton>
+        </Stack>
+    );
+};
+
+interface SubtitleEditorRowProps {
+    index: number;
+    subtitle: DisplaySubtitleModel;
+    subtitleRef: React.RefObject<HTMLTableRowElement | null>;
+    length: number;
+    columns: number;
+    canMerge: boolean;
+    onEdit: (edit: SubtitleEdit) => void;
+}
+
+export default function SubtitleEditorRow({
+    index,
+    subtitle,
+    subtitleRef,
+    length,
+    columns,
+    canMerge,
+    onEdit,
+}: SubtitleEditorRowProps) {
+    const { t } = useTranslation();
+    const textFieldRef = useRef<HTMLTextAreaElement>(null);
+    const [text, setText] = useState<string>(subtitle.text);
+    const [syncedText, setSyncedText] = useState<string>(subtitle.text);
+
+    // Reset the field when the subtitle is changed by something else than this field, e.g. undo
+    if (subtitle.text !== syncedText) {
+        setText(subtitle.text);
+        setSyncedText(subtitle.text);
+    }
+
+    const handleTextBlur = useCallback(() => {
+        if (text !== subtitle.text) {
+            setSyncedText(text);
+            onEdit({ type: 'text', index, text });
+        }
+    }, [text, subtitle.text, index, onEdit]);
+
+    const handleSplit = useCallback(() => {
+        const position = textFieldRef.current?.selectionStart;
+
+        if (position !== undefined) {
+            onEdit({ type: 'split', index, position });
+        }
+    }, [index, onEdit]);
+
+    const handleNudgeStart = useCallback(
+        (delta: number) =>
+            onEdit({
+                type: 'timing',
+                index,
+                start: Math.max(0, Math.min(subtitle.end, subtitle.start + delta)),
+                end: subtitle.end,
+            }),
+        [subtitle.start, subtitle.end, index, onEdit]
+    );
+
+    const handleNudgeEnd = useCallback(
+        (delta: number) =>
+            onEdit({
+                type: 'timing',
+                index,
+                start: subtitle.start,
+                end: Math.max(subtitle.start, subtitle.end + delta),
+            }),
+        [subtitle.start, subtitle.end, index, onEdit]
+    );
+
+    return (
+        <TableRow ref={subtitleRef} selected>
+            <TableCell colSpan={columns}>
+                <Stack spacing={1}>
+                    {subtitle.textImage && subtitle.text === '' ? (
+                        <SubtitleTextImage
+                            availableWidth={window.screen.availWidth / 2}
+                            subtitle={subtitle}
+                            scale={1}
+                        />
+                    ) : (
+                        <TextField
+                            multiline
+                            fullWidth
+                            size="small"
+                            inputRef={textFieldRef}
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            onBlur={handleTextBlur}
+                        />
+                    )}
+                    <Stack direction="row" alignItems="center" justifyContent="space-between" flexWrap="wrap">
+                        <Stack direction="row" alignItems="center">
+                            <TimeNudger
+                                label={t('subtitleEditor.start')}
+                                time={subtitle.start}
+                                length={length}
+                                onNudge={handleNudgeStart}
+                            />
+                            <TimeNudger
+                                label={t('subtitleEditor.end')}
+                                time={subtitle.end}
+                                length={length}
+                                onNudge={handleNudgeEnd}
+                            />
+                        </Stack>
+                        <Stack direction="row" alignItems="center">
+                            <Tooltip title={t('subtitleEditor.split')!}>
+                                <span>
+                                    <IconButton
+                                        size="small"
+                                        disabled={subtitle.textImage !== undefined && subtitle.text === ''}
+                                        onClick={handleSplit}
+                                    >
+                                        <CallSplitIcon fontSize="small" />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                            <Tooltip title={t('subtitleEditor.merge')!}>
+                                <span>
+                                    <IconButton
+                                        size="small"
+                                        disabled={!canMerge}
+                                        onClick={() => onEdit({ type: 'merge', index })}
+                                    >
+                                        <MergeTypeIcon fontSize="small" />
+                                    </IconButton>
+                                </span>
+                            </Tooltip>
+                            <Tooltip title={t('subtitleEditor.delete')!}>
+                                <IconButton size="small" onClick={() => onEdit({ type: 'delete', index })}>
+                                    <DeleteIcon fontSize="small" />
+                                </IconButton>
+                            </Tooltip>
+                        </Stack>
+                    </Stack>
+                </Stack>
+            </TableCell>
+        </TableRow>
+    );
+}
@@ -1,4 +1,14 @@
-import React, { ForwardedRef, useCallback, useEffect, useState, useRef, createRef, RefObject, ReactNode } from 'react';
+import React, {
+    ForwardedRef,
+    useCallback,
+    useEffect,
+    useMemo,
+    useState,
+    useRef,
+    createRef,
+    RefObject,
+    ReactNode,
+} from 'react';
 import { makeStyles } from '@mui/styles';
 import { type Theme } from '@mui/material';
 import { keysAreEqual } from '../services/util';
@@ -14,18 +24,28 @@ import {
     CardTextFieldValues,
     RichSubtitleModel,
 } from '@project/common';
-import { AsbplayerSettings } from '@project/common/settings';
+import { AsbplayerSettings, dictionaryTrackEnabled } from '@project/common/settings';
 import {
     surroundingSubtitles,
     mockSurroundingSubtitles,
     surroundingSubtitlesAroundInterval,
     extractText,
 } from '@project/common/util';
-import { SubtitleCollection } from '@project/common/subtitle-collection';
+import { SubtitleCollection, subtitleTranslations } from '@project/common/subtitle-collection';
+import { styledSubtitleHtml } from '@project/common/subtitle-reader';
+import { SubtitleEdit, mergeableSubtitleIndex } from '@project/common/subtitle-editing';
 import { SubtitleColoring } from '@project/common/subtitle-coloring';
 import { KeyBinder } from '@project/common/key-binder';
+import type { ComprehensionReport } from '@project/common/comprehension';
 import SubtitleTextImage from '@project/common/components/SubtitleTextImage';
+import SubtitleEditorRow from './SubtitleEditorRow';
+import ComprehensionReportPanel from './ComprehensionReportPanel';
 import NoteAddIcon from '@mui/icons-material/NoteAdd';
+import EditIcon from '@mui/icons-material/Edit';
+import EditOffIcon from '@mui/icons-material/EditOff';
+import UndoIcon from '@mui/icons-material/Undo';
+import InsightsIcon from '@mui/icons-material/Insights';
+import Divider from '@mui/material/Divider';
 import IconButton from '@mui/material/IconButton';
 import Paper from '@mui/material/Paper';
 import Table from '@mui/material/Table';
@@ -116,6 +136,16 @@ const useSubtitlePlayerStyles = makeStyles<Theme, StylesProps, string>((theme) =
     unselectableTable: {
         userSelect: 'none',
     },
+    editToolbar: {
+        position: 'sticky',
+        top: 0,
+        zIndex: 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing(1),
+        padding: theme.spacing(0.5, 1),
+        backgroundColor: theme.palette.background.default,
+    },
     noSubtitles: {
         height: '100%',
         display: 'flex',
@@ -204,6 +234,11 @@ const useSubtitleRowStyles = makeStyles<Theme>((theme) => ({
         textAlign: 'right',
         padding: 0,
     },
+    translation: {
+        display: 'block',
+        fontSize: '0.7em',
+        color: theme.palette.text.secondary,
+    },
 }));
 
 export interface DisplaySubtitleModel extends RichSubtitleModel {
@@ -221,6 +256,8 @@ interface SubtitleRowProps extends TableRowProps {
     selectionState?: SelectionState;
     disabled: boolean;
     subtitle: DisplaySubtitleModel;
+    // Lines of the other tracks paired with the subtitle
+    translation?: string;
     showCopyButton: boolean;
     subtitleRef: RefObject<HTMLTableRowElement | null>;
     onClickSubtitle: (index: number) => void;
@@ -237,6 +274,7 @@ const SubtitleRow = React.memo(function SubtitleRow({
     compressed,
     disabled,
     subtitle,
+    translation,
     showCopyButton,
     subtitleHtml,
 }: SubtitleRowProps) {
@@ -258,15 +296,31 @@ const SubtitleRow = React.memo(function SubtitleRow({
         setTextSelected(selected ?? false);
     }
 
-    const content = subtitle.textImage ? (
-        <SubtitleTextImage availableWidth={window.screen.availWidth / 2} subtitle={subtitle} scale={1} />
-    ) : (
-        <span
-            ref={textRef}
-            className={disabledClassName}
-            dangerouslySetInnerHTML={{ __html: subtitle.richText ?? subtitle.text }}
-        />
-    );
+    const content =
+        subtitle.textImage && subtitle.text === '' ? (
+            <SubtitleTextImage availableWidth={window.screen.availWidth / 2} subtitle={subtitle} scale={1} />
+        ) : (
+            <span
+                ref={textRef}
+                className={disabledClassName}
+                dangerouslySetInnerHTML={{
+                    __html:
+                        subtitle.richText ??
+                        (subtitle.styling?.fragments
+                            ? styledSubtitleHtml(subtitle.styling.fragments, false).join('\n')
+                            : subtitle.text),
+                }}
+            />
+        );
+    const contentWithTranslation =
+        translation === undefined || disabled ? (
+            content
+        ) : (
+            <>
+                {content}
+                <span className={classes.translation}>{translation}</span>
+            </>
+        );
 
     let rowClassName: string;
 
@@ -293,10 +347,10 @@ const SubtitleRow = React.memo(function SubtitleRow({
                     title={t('subtitlePlayer.multiSubtitleSelectHelp')!}
                     placement="top"
                 >
-                    <TableCell className={className}>{content}</TableCell>
+                    <TableCell className={className}>{contentWithTranslation}</TableCell>
                 </Tooltip>
             )}
-            {selectionState !== undefined && <TableCell className={className}>{content}</TableCell>}
+            {selectionState !== undefined && <TableCell className={className}>{contentWithTranslation}</TableCell>}
             {showCopyButton && (
                 <TableCell className={classes.copyButton}>
                     <IconButton disabled={selectionState !== undefined} onClick={(e) => onCopySubtitle(e, index)}>
@@ -339,6 +393,12 @@ const ResizeHandle = React.forwardRef(function ResizeHandle(
     );
 });
 
+// Edits re-sort subtitles, so the subtitle being edited is identified by its original timing rather than its position
+interface EditingSubtitleKey {
+    track: number;
+    originalStart: number;
+}
+
 interface SubtitlePlayerProps {
     clock: Clock;
     extension: ChromeExtension;
@@ -351,6 +411,10 @@ interface SubtitlePlayerProps {
         cardTextFieldValues?: CardTextFieldValues
     ) => void;
     onOffsetChange: (offset: number) => void;
+    onSubtitleEdit: (edit: SubtitleEdit) => void;
+    onUndoSubtitleEdit: () => void;
+    canUndoSubtitleEdit: boolean;
+    onRequestComprehensionReport?: () => Promise<ComprehensionReport>;
     onToggleSubtitleTrack: (track: number) => void;
     onSubtitlesHighlighted: (subtitles: SubtitleModel[]) => void;
     onResizeStart?: () => void;
@@ -384,6 +448,10 @@ export default function SubtitlePlayer({
     onSeek,
     onCopy,
     onOffsetChange,
+    onSubtitleEdit,
+    onUndoSubtitleEdit,
+    canUndoSubtitleEdit,
+    onRequestComprehensionReport,
     onToggleSubtitleTrack,
     onSubtitlesHighlighted,
     onResizeStart,
@@ -940,12 +1008,87 @@ export default function SubtitlePlayer({
         );
     }, [mineCard, keyBinder, disableKeyEvents, disableMiningBinds]);
 
+    useEffect(() => {
+        return keyBinder.bindMarkForMining(
+            (event) => mineCard(event, PostMineAction.queueForMining),
+            () => disableKeyEvents || disableMiningBinds
+        );
+    }, [mineCard, keyBinder, disableKeyEvents, disableMiningBinds]);
+
+    // Lines of the first track are shown with the lines of the other tracks paired with them, unless those are hidden
+    const translations = useMemo(
+        () =>
+            subtitleTranslations(subtitles?.filter((s) => s.track === 0 || !disabledSubtitleTracks[s.track]) ?? [], 0),
+        [subtitles, disabledSubtitleTracks]
+    );
+
+    const [editing, setEditing] = useState<boolean>(false);
+    const [editingSubtitleKey, setEditingSubtitleKey] = useState<EditingSubtitleKey>();
+    const editingRef = useRef<boolean>(false);
+    editingRef.current = editing;
+
+    const editingSubtitleIndex = useMemo(() => {
+        if (editingSubtitleKey === undefined || subtitles === undefined) {
+            return undefined;
+        }
+
+        const index = subtitles.findIndex(
+            (s) => s.track === editingSubtitleKey.track && s.originalStart === editingSubtitleKey.originalStart
+        );
+        return index === -1 ? undefined : index;
+    }, [subtitles, editingSubtitleKey]);
+
+    // An edit recalculates the original timing of the edited subtitle, so it is found again by the time it now starts
+    const editedSubtitleRef = useRef<{ track: number; start: number }>(undefined);
+
+    useEffect(() => {
+        const edited = editedSubtitleRef.current;
+        const subtitle = edited && subtitles?.find((s) => s.track === edited.track && s.start === edited.start);
+
+        if (subtitle !== undefined) {
+            editedSubtitleRef.current = undefined;
+            setEditingSubtitleKey({ track: subtitle.track, originalStart: subtitle.originalStart });
+        }
+    }, [subtitles]);
+
+    const handleSubtitleEdit = useCallback(
+        (edit: SubtitleEdit) => {
+            const subtitle = subtitles?.[edit.index];
+
+            if (subtitle !== undefined) {
+                const start = edit.type === 'timing' ? edit.start : subtitle.start;
+                editedSubtitleRef.current = { track: subtitle.track, start };
+            }
+
+            onSubtitleEdit(edit);
+        },
+        [subtitles, onSubtitleEdit]
+    );
+
+    const handleToggleEditing = useCallback(() => {
+        setEditing((editing) => !editing);
+        setEditingSubtitleKey(undefined);
+    }, []);
+
+    const [showingComprehensionReport, setShowingComprehensionReport] = useState<boolean>(false);
+    const canShowComprehensionReport =
+        onRequestComprehensionReport !== undefined && settings.dictionaryTracks.some(dictionaryTrackEnabled);
+
+    const handleToggleComprehensionReport = useCallback(() => {
+        setShowingComprehensionReport((showing) => !showing);
+    }, []);
+
     const handleClick = useCallback((index: number) => {
         const currentSubtitles = subtitleListRef.current;
         if (!currentSubtitles) {
             return;
         }
 
+        if (editingRef.current) {
+            const subtitle = currentSubtitles[index];
+            setEditingSubtitleKey({ track: subtitle.track, originalStart: subtitle.originalStart });
+        }
+
         const highlightedSubtitleIndexes = highlightedSubtitleIndexesRef.current || {};
         onSeekRef.current(
             currentSubtitles[index].start,
@@ -1136,6 +1279,21 @@ export default function SubtitlePlayer({
                                         : SelectionState.outsideSelection;
                             }
 
+                            if (editing && index === editingSubtitleIndex) {
+                                return (
+                                    <SubtitleEditorRow
+                                        key={index}
+                                        index={index}
+                                        subtitle={subtitles[index]}
+                                        subtitleRef={subtitleRefs[index]}
+                                        length={length}
+                                        columns={showCopyButton ? 3 : 2}
+                                        canMerge={mergeableSubtitleIndex(subtitles, index) !== undefined}
+                                        onEdit={handleSubtitleEdit}
+                                    />
+                                );
+                            }
+
                             return (
                                 <SubtitleRow
                                     key={index}
@@ -1145,6 +1303,7 @@ export default function SubtitlePlayer({
                                     showCopyButton={showCopyButton}
                                     disabled={disabledSubtitleTracks[s.track]}
                                     subtitle={subtitles[index]}
+                                    translation={translations.get(subtitles[index])}
                                     subtitleRef={subtitleRefs[index]}
                                     onClickSubtitle={handleClick}
                                     onCopySubtitle={handleCopy}
@@ -1160,6 +1319,54 @@ export default function SubtitlePlayer({
 
     return (
         <Paper square ref={containerRef} className={classes.container} style={{ width: resizable ? width : 'auto' }}>
+            {subtitles && subtitles.length > 0 && (
+                <div className={classes.editToolbar}>
+                    <Tooltip title={t(editing ? 'subtitleEditor.stopEditing' : 'subtitleEditor.edit')!}>
+                        <IconButton size="small" onClick={handleToggleEditing}>
+                            {editing ? <EditOffIcon fontSize="small" /> : <EditIcon fontSize="small" />}
+                        </IconButton>
+                    </Tooltip>
+                    {editing && (
+                        <Tooltip title={t('subtitleEditor.undo')!}>
+                            <span>
+                                <IconButton size="small" disabled={!canUndoSubtitleEdit} onClick={onUndoSubtitleEdit}>
+                                    <UndoIcon fontSize="small" />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                    )}
+                    {editing && editingSubtitleIndex === undefined && (
+                        <Typography variant="caption" color="text.secondary">
+                            {t('subtitleEditor.selectSubtitle')}
+                        </Typography>
+                    )}
+                    {canShowComprehensionReport && (
+                        <Tooltip
+                            title={
+                                t(showingComprehensionReport ? 'comprehensionReport.hide' : 'comprehensionReport.show')!
+                            }
+                        >
+                            <IconButton
+                                size="small"
+                                color={showingComprehensionReport ? 'primary' : 'default'}
+                                onClick={handleToggleComprehensionReport}
+                            >
+                                <InsightsIcon fontSize="small" />
+                            </IconButton>
+                        </Tooltip>
+                    )}
+                </div>
+            )}
+            {canShowComprehensionReport && showingComprehensionReport && subtitles && subtitles.length > 0 && (
+                <>
+                    <ComprehensionReportPanel
+                        length={length}
+                        onRequestReport={onRequestComprehensionReport!}
+                        onSeek={(timestamp) => onSeek(timestamp, clock.running)}
+                    />
+                    <Divider />
+                </>
+            )}
             {subtitleTable}
             {resizable && (
                 <ResizeHandle
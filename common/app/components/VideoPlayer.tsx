@@ -36,6 +36,14 @@ import {
     surroundingSubtitlesAroundInterval,
 } from '@project/common/util';
 import { SubtitleCollection } from '@project/common/subtitle-collection';
+import { positionedAtTop, positionTextAlign, styledSubtitleHtml } from '@project/common/subtitle-reader';
+import {
+    alignedTime,
+    alignSubtitlesToSpeech,
+    appliedAlignment,
+    decodeAudioWindow,
+    detectSpeech,
+} from '@project/common/audio-alignment';
 import Clock from '../services/clock';
 import Controls, { Point } from './Controls';
 import PlayerChannel from '../services/player-channel';
@@ -60,6 +68,9 @@ import { type Theme } from '@mui/material/styles';
 
 const overlayContainerHeight = 48;
 
+// Auto-align reads at most this much of the beginning of the file, which is usually several minutes of video
+const autoAlignMaxBytes = 64 * 1024 * 1024;
+
 interface ExperimentalHTMLVideoElement extends HTMLVideoElement {
     readonly audioTracks: any;
 }
@@ -163,7 +174,7 @@ const showingSubtitleHtml = (
     imageBasedSubtitleScaleFactor: number,
     dictionaryTracks: DictionaryTrack[]
 ) => {
-    if (subtitle.textImage) {
+    if (subtitle.textImage && subtitle.text === '') {
         const imageScale =
             (imageBasedSubtitleScaleFactor * (videoRef.current?.width ?? window.screen.availWidth)) /
             subtitle.textImage.screen.width;
@@ -191,13 +202,17 @@ const showingSubtitleHtml = (
             .join('');
         return `<span class="asbplayer-subtitle-hover-group">${linesHtml}</span>`;
     }
-    return (subtitle.richText?.split('\n') ?? subtitle.text.split('\n'))
-        .map((line) => `<p class="${allSubtitleClasses}" style="${subtitleStyles}">${line}</p>`)
-        .join('');
+    const fragments = subtitle.styling?.fragments;
+    const lines =
+        subtitle.richText?.split('\n') ?? (fragments ? styledSubtitleHtml(fragments, true) : subtitle.text.split('\n'));
+    const position = subtitle.styling?.position;
+    const lineStyles = position ? `${subtitleStyles};text-align:${positionTextAlign(position)}` : subtitleStyles;
+    return lines.map((line) => `<p class="${allSubtitleClasses}" style="${lineStyles}">${line}</p>`).join('');
 };
 
 interface CachedShowingSubtitleProps {
     index: number;
+    track: number;
     domCache: OffscreenDomCache;
     renderHtml: () => string;
     className?: string;
@@ -206,6 +221,7 @@ interface CachedShowingSubtitleProps {
 
 const CachedShowingSubtitle = React.memo(function CachedShowingSubtitle({
     index,
+    track,
     domCache,
     renderHtml,
     className,
@@ -214,6 +230,7 @@ const CachedShowingSubtitle = React.memo(function CachedShowingSubtitle({
     return (
         <div
             className={className ? className : ''}
+            data-track={track}
             onMouseOver={onMouseOver}
             ref={(ref) => {
                 if (!ref) {
@@ -361,6 +378,8 @@ export default function VideoPlayer({
     const [length, setLength] = useState<number>(0);
     const [videoFileName, setVideoFileName] = useState<string>();
     const [offset, setOffset] = useState<number>(0);
+    const driftRef = useRef<number>(0);
+    const [autoAligning, setAutoAligning] = useState<boolean>(false);
     const [audioTracks, setAudioTracks] = useState<AudioTrackModel[]>();
     const [selectedAudioTrack, setSelectedAudioTrack] = useState<string>();
     const [wasPlayingOnAnkiDialogRequest, setWasPlayingOnAnkiDialogRequest] = useState<boolean>(false);
@@ -529,19 +548,21 @@ export default function VideoPlayer({
         }
     }
 
-    const updateSubtitlesWithOffset = useCallback((offset: number) => {
+    const updateSubtitlesWithOffset = useCallback((offset: number, drift: number) => {
         setOffset(offset);
+        driftRef.current = drift;
         setSubtitles((subtitles) =>
             subtitles.map((s, i) => ({
                 text: s.text,
                 textImage: s.textImage,
-                start: s.originalStart + offset,
+                start: alignedTime(s.originalStart, { offset, drift }),
                 originalStart: s.originalStart,
-                end: s.originalEnd + offset,
+                end: alignedTime(s.originalEnd, { offset, drift }),
                 originalEnd: s.originalEnd,
                 track: s.track,
                 index: i,
                 richText: s.richText,
+                styling: s.styling,
             }))
         );
     }, []);
@@ -608,9 +629,9 @@ export default function VideoPlayer({
             setTrackCount(Math.max(...subtitles.map((s) => s.track)) + 1);
 
             if (subtitles && subtitles.length > 0) {
-                const s = subtitles[0];
-                const offset = s.start - s.originalStart;
+                const { offset, drift } = appliedAlignment(subtitles);
                 setOffset(offset);
+                driftRef.current = drift;
             }
 
             setShowSubtitles([]);
@@ -777,13 +798,43 @@ export default function VideoPlayer({
     ]);
 
     const handleOffsetChange = useCallback(
-        (offset: number) => {
-            updateSubtitlesWithOffset(offset);
-            playerChannel.offset(offset);
+        (offset: number, drift = driftRef.current) => {
+            updateSubtitlesWithOffset(offset, drift);
+            playerChannel.offset(offset, drift);
         },
         [playerChannel, updateSubtitlesWithOffset]
     );
 
+    const handleAutoAlign = useCallback(async () => {
+        setAutoAligning(true);
+
+        try {
+            const response = await fetch(videoFile);
+            const { samples, sampleRate, duration } = await decodeAudioWindow(await response.blob(), autoAlignMaxBytes);
+            // Subtitles after the decoded window would only be matched against silence
+            const alignment = alignSubtitlesToSpeech(
+                detectSpeech(samples, sampleRate),
+                subtitles.filter((s) => s.originalEnd <= duration)
+            );
+
+            if (alignment === undefined) {
+                setAlertSeverity('warning');
+                setAlertMessage(t('info.autoAlignFailed')!);
+            } else {
+                handleOffsetChange(alignment.offset, alignment.drift);
+                setAlertSeverity('info');
+                setAlertMessage(t('info.autoAligned', { offset: (alignment.offset / 1000).toFixed(2) })!);
+            }
+
+            setAlertOpen(true);
+        } catch (e) {
+            console.error(e);
+            onError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setAutoAligning(false);
+        }
+    }, [videoFile, subtitles, handleOffsetChange, onError, t]);
+
     const handlePlaybackRateChange = useCallback(
         (playbackRate: number) => {
             updatePlaybackRate(playbackRate, true);
@@ -962,6 +1013,35 @@ export default function VideoPlayer({
         );
     }, [keyBinder, playerChannel]);
 
+    const hoveredWord = useCallback(() => {
+        const hovered = containerRef.current?.querySelectorAll<HTMLElement>('[data-word]:hover');
+        const element = hovered?.[hovered.length - 1];
+        const word = element?.dataset.word;
+        const track = element?.closest<HTMLElement>('[data-track]')?.dataset.track;
+
+        if (word === undefined || track === undefined) {
+            return undefined;
+        }
+
+        return { track: Number(track), word };
+    }, []);
+
+    useEffect(() => {
+        return keyBinder.bindMarkHoveredWord(
+            (event, status) => {
+                const hovered = hoveredWord();
+
+                if (hovered === undefined) {
+                    return;
+                }
+
+                event.preventDefault();
+                playerChannel.markWord(hovered.track, hovered.word, status);
+            },
+            () => hoveredWord() === undefined
+        );
+    }, [keyBinder, playerChannel, hoveredWord]);
+
     useEffect(() => {
         return keyBinder.bindUnblurTrack(
             (event, targetTrack) => {
@@ -1293,6 +1373,17 @@ export default function VideoPlayer({
         );
     }, [inferAndExecuteMiningBehavior, keyBinder]);
 
+    useEffect(() => {
+        return keyBinder.bindMarkForMining(
+            (event) => {
+                event.preventDefault();
+                event.stopPropagation();
+                inferAndExecuteMiningBehavior(PostMineAction.queueForMining);
+            },
+            () => subtitles.length === 0
+        );
+    }, [inferAndExecuteMiningBehavior, keyBinder, subtitles]);
+
     useEffect(() => {
         return keyBinder.bindTakeScreenshot(
             (event) => {
@@ -1365,7 +1456,10 @@ export default function VideoPlayer({
 
     const togglePlayMode = useCallback(
         (event: KeyboardEvent, togglePlayMode: PlayMode) => {
-            if (subtitles.length === 0) {
+            // Without subtitles, condensed and fast forward playback may still work off of speech detected by the player
+            const speechPlayMode = togglePlayMode === PlayMode.condensed || togglePlayMode === PlayMode.fastForward;
+
+            if (subtitles.length === 0 && !(speechPlayMode && miscSettings.detectSpeechWithoutSubtitles)) {
                 return;
             }
 
@@ -1374,7 +1468,7 @@ export default function VideoPlayer({
             playerChannel.playMode(newPlayMode);
             onPlayModeChangedViaBind(playMode, newPlayMode);
         },
-        [playMode, playerChannel, subtitles, onPlayModeChangedViaBind]
+        [playMode, playerChannel, subtitles, miscSettings.detectSpeechWithoutSubtitles, onPlayModeChangedViaBind]
     );
 
     useEffect(() => {
@@ -1597,10 +1691,20 @@ export default function VideoPlayer({
         parent.document.body.clientWidth === document.body.clientWidth;
 
     const subtitleAlignmentForTrack = (track: number) => subtitleAlignments[track] ?? subtitleAlignments[0];
+    const subtitleAlignmentForSubtitle = (subtitle: RichSubtitleModel): SubtitleAlignment => {
+        const position = subtitle.styling?.position;
+
+        if (position !== undefined) {
+            return positionedAtTop(position) ? 'top' : 'bottom';
+        }
+
+        return subtitleAlignmentForTrack(subtitle.track);
+    };
     const elementForSubtitle = (subtitle: RichSubtitleModel, index: number) => (
         <CachedShowingSubtitle
             key={index}
             index={subtitle.index}
+            track={subtitle.track}
             domCache={domCacheRef.current ?? getSubtitleDomCache()}
             renderHtml={() => getSubtitleHtml(subtitle)}
             onMouseOver={handleSubtitleMouseOver}
@@ -1608,7 +1712,7 @@ export default function VideoPlayer({
     );
 
     const subtitleElementsWithAlignment = (alignment: SubtitleAlignment) =>
-        showSubtitles.filter((s) => subtitleAlignmentForTrack(s.track) === alignment).map(elementForSubtitle);
+        showSubtitles.filter((s) => subtitleAlignmentForSubtitle(s) === alignment).map(elementForSubtitle);
     const topSubtitleElements = displaySubtitles ? subtitleElementsWithAlignment('top') : [];
     const bottomSubtitleElements = displaySubtitles ? subtitleElementsWithAlignment('bottom') : [];
     const mobileOverlayModel = () => {
@@ -1711,7 +1815,7 @@ export default function VideoPlayer({
                 popOut={popOut}
                 volumeEnabled={true}
                 popOutEnabled={!isMobile}
-                playModeEnabled={subtitles && subtitles.length > 0}
+                playModeEnabled={(subtitles && subtitles.length > 0) || miscSettings.detectSpeechWithoutSubtitles}
                 playMode={playMode}
                 hideSubtitlePlayerToggleEnabled={
                     subtitles?.length > 0 && !popOut && !fullscreen && !notEnoughRoomForSubtitlePlayer
@@ -1725,6 +1829,9 @@ export default function VideoPlayer({
                 onFullscreenToggle={handleFullscreenToggle}
                 onVolumeChange={handleVolumeChange}
                 onOffsetChange={handleOffsetChange}
+                autoAlignEnabled={subtitles.length > 0}
+                autoAligning={autoAligning}
+                onAutoAlign={handleAutoAlign}
                 onPlaybackRateChange={handlePlaybackRateChange}
                 onPopOutToggle={handlePopOutToggle}
                 onPlayMode={handlePlayMode}
@@ -49,6 +49,10 @@ class SettingsAccessor {
         return this.settings.track3Field;
     }
 
+    get translationField() {
+        return this.settings.translationField;
+    }
+
     get ankiFieldSettings() {
         return this.settings.ankiFieldSettings;
     }
@@ -0,0 +1,74 @@
+import { useEffect, useCallback, useState } from 'react';
+import {
+    exportMiningQueueItems,
+    MiningQueueItem,
+    MiningQueueItemChanges,
+    MiningQueueRepository,
+} from '@project/common/mining-queue';
+
+export interface MiningQueueExportProgress {
+    // Item being exported
+    id: string;
+    // Number of items exported so far, including failed ones
+    current: number;
+    total: number;
+}
+
+export const useMiningQueue = (
+    miningQueueRepository: MiningQueueRepository,
+    exportItem: (item: MiningQueueItem) => Promise<unknown>
+) => {
+    const [miningQueueItems, setMiningQueueItems] = useState<MiningQueueItem[]>([]);
+    const [exportProgress, setExportProgress] = useState<MiningQueueExportProgress>();
+
+    useEffect(() => {
+        return miningQueueRepository.liveFetch(setMiningQueueItems);
+    }, [miningQueueRepository]);
+
+    const updateMiningQueueItem = useCallback(
+        async (item: MiningQueueItem, changes: MiningQueueItemChanges) => {
+            setMiningQueueItems((items) => items.map((i) => (i.id === item.id ? { ...i, ...changes } : i)));
+            await miningQueueRepository.update(item.id, changes);
+        },
+        [miningQueueRepository]
+    );
+
+    const deleteMiningQueueItem = useCallback(
+        async (item: MiningQueueItem) => {
+            setMiningQueueItems((items) => items.filter((i) => i.id !== item.id));
+            await miningQueueRepository.delete(item.id);
+        },
+        [miningQueueRepository]
+    );
+
+    const deleteExportedMiningQueueItems = useCallback(async () => {
+        setMiningQueueItems((items) => items.filter((i) => i.status !== 'exported'));
+        await miningQueueRepository.deleteExported();
+    }, [miningQueueRepository]);
+
+    const exportMiningQueue = useCallback(
+        async (items: MiningQueueItem[]) => {
+            if (items.length === 0) {
+                return { exported: 0, failed: 0 };
+            }
+
+            try {
+                return await exportMiningQueueItems(miningQueueRepository, items, exportItem, (item, index) =>
+                    setExportProgress({ id: item.id, current: index, total: items.length })
+                );
+            } finally {
+                setExportProgress(undefined);
+            }
+        },
+        [miningQueueRepository, exportItem]
+    );
+
+    return {
+        miningQueueItems,
+        exportProgress,
+        updateMiningQueueItem,
+        deleteMiningQueueItem,
+        deleteExportedMiningQueueItems,
+        exportMiningQueue,
+    };
+};
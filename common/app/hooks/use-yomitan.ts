@@ -18,6 +18,9 @@ class SettingsAccessor {
     get dictionaryTokenMatchStrategyPriority() {
         return this.settings.dictionaryTokenMatchStrategyPriority;
     }
+    get dictionaryTokenizer() {
+        return this.settings.dictionaryTokenizer;
+    }
     get dictionaryYomitanUrl() {
         return this.settings.dictionaryYomitanUrl;
     }
@@ -42,6 +45,12 @@ class SettingsAccessor {
     get dictionaryAnkiTreatSuspended() {
         return this.settings.dictionaryAnkiTreatSuspended;
     }
+    get dictionaryKnownWordsPrecedence() {
+        return this.settings.dictionaryKnownWordsPrecedence;
+    }
+    get dictionaryFrequencyHighlightLimit() {
+        return this.settings.dictionaryFrequencyHighlightLimit;
+    }
     get tokenStyling() {
         return this.settings.tokenStyling;
     }
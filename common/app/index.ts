@@ -4,5 +4,6 @@ export * from './services/chrome-extension';
 export { default as PlaybackPreferences } from './services/playback-preferences';
 export * from './hooks/use-chrome-extension';
 export * from './hooks/use-copy-history';
+export * from './hooks/use-mining-queue';
 export * from './services/cached-local-storage';
 export * from './components/localized-error';
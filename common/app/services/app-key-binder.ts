@@ -1,5 +1,6 @@
 import { CopySubtitleMessage, PostMineAction, SubtitleModel } from '@project/common';
 import { DefaultKeyBinder, KeyBinder } from '@project/common/key-binder';
+import type { KnownWordStatus } from '@project/common/known-words';
 import ChromeExtension, { ExtensionMessage } from './chrome-extension';
 
 export default class AppKeyBinder implements KeyBinder {
@@ -350,6 +351,22 @@ export default class AppKeyBinder implements KeyBinder {
         );
     }
 
+    bindMarkHoveredWord(
+        onMarkHoveredWord: (event: KeyboardEvent, status: KnownWordStatus) => void,
+        disabledGetter: () => boolean,
+        useCapture?: boolean | undefined
+    ): () => void {
+        return this.defaultKeyBinder.bindMarkHoveredWord(onMarkHoveredWord, disabledGetter, useCapture);
+    }
+
+    bindMarkForMining(
+        onMarkForMining: (event: KeyboardEvent) => void,
+        disabledGetter: () => boolean,
+        useCapture?: boolean | undefined
+    ): () => void {
+        return this.defaultKeyBinder.bindMarkForMining(onMarkForMining, disabledGetter, useCapture);
+    }
+
     unsubscribeExtension() {
         this._unsubscribeExtension?.();
     }
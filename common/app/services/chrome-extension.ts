@@ -32,9 +32,14 @@ import {
     RequestWatchTimeStatsMessage,
     RequestWatchTimeStatsResponse,
     ClearWatchTimeMessage,
+    TokenizeMessage,
+    TokenizeResponse,
+    MiningQueueRepositoryMessage,
+    RepositoryResponse,
 } from '@project/common';
 import { AsbplayerSettings, PageSettings, Profile, SettingsFormPageConfig } from '@project/common/settings';
 import { GlobalState } from '@project/common/global-state';
+import { LocalTokenizerType } from '@project/common/tokenizer';
 import { v4 as uuidv4 } from 'uuid';
 import gte from 'semver/functions/gte';
 import gt from 'semver/functions/gt';
@@ -141,6 +146,10 @@ export default class ChromeExtension {
         return this.installed && gte(this.version, '1.14.0');
     }
 
+    get supportsMiningQueueRequest() {
+        return this.installed && gte(this.version, '1.14.0');
+    }
+
     get supportsPageSettings() {
         return this.installed && gte(this.version, '1.12.0');
     }
@@ -423,6 +432,38 @@ export default class ChromeExtension {
         return this._createResponsePromise(messageId) as Promise<void>;
     }
 
+    invokeMiningQueueRepository(method: string, args: any[]): Promise<RepositoryResponse | undefined> {
+        const messageId = uuidv4();
+        const command: AsbPlayerCommand<MiningQueueRepositoryMessage> = {
+            sender: 'asbplayerv2',
+            message: {
+                command: 'mining-queue-repository',
+                method,
+                args,
+                messageId,
+            },
+        };
+        window.postMessage(command);
+        return this._createResponsePromise(messageId) as Promise<RepositoryResponse | undefined>;
+    }
+
+    tokenize(text: string, tokenizerType: LocalTokenizerType): Promise<TokenizeResponse> {
+        const messageId = uuidv4();
+        const command: AsbPlayerCommand<TokenizeMessage> = {
+            sender: 'asbplayerv2',
+            message: {
+                command: 'tokenize',
+                text,
+                tokenizerType,
+                messageId,
+            },
+        };
+        window.postMessage(command);
+
+        // The first request loads the dictionary of the tokenizer
+        return this._createResponsePromise(messageId, 60000) as Promise<TokenizeResponse>;
+    }
+
     loadSubtitles(tabId: number, src: string) {
         const command: AsbPlayerToVideoCommandV2<LoadSubtitlesMessage> = {
             sender: 'asbplayerv2',
@@ -552,7 +593,7 @@ export default class ChromeExtension {
         return this._createResponsePromise(messageId);
     }
 
-    private _createResponsePromise<T>(messageId: string) {
+    private _createResponsePromise<T>(messageId: string, timeout = 5000) {
         return new Promise<T>((resolve, reject) => {
             this._responseResolves[messageId] = resolve;
             setTimeout(() => {
@@ -560,7 +601,7 @@ export default class ChromeExtension {
                     delete this._responseResolves[messageId];
                     reject('Request timed out');
                 }
-            }, 5000);
+            }, timeout);
         });
     }
 
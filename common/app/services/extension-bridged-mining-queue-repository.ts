@@ -0,0 +1,88 @@
+import { MiningQueueItem, MiningQueueItemChanges, MiningQueueRepository } from '../../mining-queue';
+import ChromeExtension from './chrome-extension';
+
+type BridgedMethod = Exclude<keyof MiningQueueRepository, 'liveFetch'>;
+
+/**
+ * The mining queue kept in the extension's origin, where lines marked during playback on other websites are queued.
+ */
+export class ExtensionBridgedMiningQueueRepository implements MiningQueueRepository {
+    private readonly _extension: ChromeExtension;
+    private readonly _changeListeners = new Set<() => void>();
+
+    constructor(extension: ChromeExtension) {
+        this._extension = extension;
+    }
+
+    async fetch(): Promise<MiningQueueItem[]> {
+        return await this._invoke('fetch');
+    }
+
+    async save(item: MiningQueueItem): Promise<void> {
+        await this._invoke('save', item);
+        this._changed();
+    }
+
+    async update(id: string, changes: MiningQueueItemChanges): Promise<void> {
+        await this._invoke('update', id, changes);
+        this._changed();
+    }
+
+    async delete(id: string): Promise<void> {
+        await this._invoke('delete', id);
+        this._changed();
+    }
+
+    async deleteExported(): Promise<void> {
+        await this._invoke('deleteExported');
+        this._changed();
+    }
+
+    async clear(): Promise<void> {
+        await this._invoke('clear');
+        this._changed();
+    }
+
+    liveFetch(callback: (items: MiningQueueItem[]) => void): () => void {
+        // Changes in the extension can't be observed from here, so the queue is fetched again after changes made
+        // through this repository, and when the page is shown again, e.g. after marking lines in another tab
+        const refresh = () => {
+            this.fetch().then(callback).catch(console.error);
+        };
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') {
+                refresh();
+            }
+        };
+        this._changeListeners.add(refresh);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        refresh();
+        return () => {
+            this._changeListeners.delete(refresh);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }
+
+    private _changed() {
+        for (const listener of this._changeListeners) {
+            listener();
+        }
+    }
+
+    private async _invoke<M extends BridgedMethod>(
+        method: M,
+        ...args: Parameters<MiningQueueRepository[M]>
+    ): Promise<Awaited<ReturnType<MiningQueueRepository[M]>>> {
+        const response = await this._extension.invokeMiningQueueRepository(method, args);
+
+        if (response === undefined) {
+            throw new Error(`No response to mining queue ${method}`);
+        }
+
+        if (response.error !== undefined) {
+            throw new Error(response.error);
+        }
+
+        return response.result;
+    }
+}
@@ -0,0 +1,54 @@
+import { LocalTokenizerType, Tokenizer, TokenPart } from '@project/common/tokenizer';
+import ChromeExtension from './chrome-extension';
+
+/**
+ * Tokenizes text with a local tokenizer of the extension, since the dictionaries of local tokenizers are only bundled
+ * with the extension.
+ */
+export class ExtensionTokenizer implements Tokenizer {
+    private readonly _extension: ChromeExtension;
+    private readonly _type: LocalTokenizerType;
+    private readonly _cache = new Map<string, TokenPart[][]>();
+
+    constructor(extension: ChromeExtension, type: LocalTokenizerType) {
+        this._extension = extension;
+        this._type = type;
+    }
+
+    async tokenize(text: string): Promise<TokenPart[][]> {
+        const cached = this._cache.get(text);
+        if (cached) return cached;
+
+        const response = await this._extension.tokenize(text, this._type);
+
+        if (response.error !== undefined) {
+            throw new Error(response.error);
+        }
+
+        const tokens = response.tokens ?? [];
+        this._cache.set(text, tokens);
+        return tokens;
+    }
+
+    async isReady(): Promise<boolean> {
+        if (!this._extension.installed) {
+            return false;
+        }
+
+        try {
+            // Loads the dictionary without tokenizing anything
+            await this.tokenize('');
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    resetCache(): void {
+        this._cache.clear();
+    }
+
+    dispose(): void {
+        this._cache.clear();
+    }
+}
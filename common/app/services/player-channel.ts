@@ -30,9 +30,11 @@ import {
     SubtitlesToVideoMessage,
     SubtitlesUpdatedFromVideoMessage,
     ToggleSubtitleTrackInListFromVideoMessage,
+    MarkWordFromVideoMessage,
     SubtitlesUpdatedToVideoMessage,
 } from '@project/common';
 import { AnkiSettings, MiscSettings, SubtitleSettings } from '@project/common/settings';
+import type { KnownWordStatus } from '@project/common/known-words';
 
 export default class PlayerChannel {
     private channel?: BroadcastChannel;
@@ -44,7 +46,7 @@ export default class PlayerChannel {
     private closeCallbacks: (() => void)[];
     private subtitlesCallbacks: ((subtitles: SubtitleModel[], subtitleFileName: string) => void)[];
     private subtitlesUpdatedCallbacks: ((updatedSubtitles: RichSubtitleModel[]) => void)[];
-    private offsetCallbacks: ((offset: number) => void)[];
+    private offsetCallbacks: ((offset: number, drift: number) => void)[];
     private playbackRateCallbacks: ((playbackRate: number) => void)[];
     private playModeCallbacks: ((playMode: PlayMode) => void)[];
     private hideSubtitlePlayerToggleCallbacks: ((hidden: boolean) => void)[];
@@ -147,7 +149,7 @@ export default class PlayerChannel {
                     const offsetMessage = event.data as OffsetToVideoMessage;
 
                     for (const callback of that.offsetCallbacks) {
-                        callback(offsetMessage.value);
+                        callback(offsetMessage.value, offsetMessage.drift ?? 0);
                     }
                     break;
                 case 'playbackRate':
@@ -277,7 +279,7 @@ export default class PlayerChannel {
         return () => this._remove(callback, this.subtitlesUpdatedCallbacks);
     }
 
-    onOffset(callback: (offset: number) => void) {
+    onOffset(callback: (offset: number, drift: number) => void) {
         this.offsetCallbacks.push(callback);
         return () => this._remove(callback, this.offsetCallbacks);
     }
@@ -379,8 +381,8 @@ export default class PlayerChannel {
         this.channel?.postMessage(message);
     }
 
-    offset(offset: number) {
-        const message: OffsetFromVideoMessage = { command: 'offset', value: offset };
+    offset(offset: number, drift = 0) {
+        const message: OffsetFromVideoMessage = { command: 'offset', value: offset, drift };
         this.channel?.postMessage(message);
     }
 
@@ -434,6 +436,16 @@ export default class PlayerChannel {
         this.channel?.postMessage(message);
     }
 
+    markWord(track: number, word: string, status: KnownWordStatus) {
+        const message: MarkWordFromVideoMessage = {
+            command: 'markWord',
+            track,
+            word,
+            status,
+        };
+        this.channel?.postMessage(message);
+    }
+
     subtitlesUpdated(updatedSubtitles: RichSubtitleModel[]) {
         const message: SubtitlesUpdatedFromVideoMessage = {
             command: 'subtitlesUpdated',
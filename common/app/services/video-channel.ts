@@ -34,9 +34,11 @@ import {
     SubtitlesUpdatedFromVideoMessage,
     TakeScreenshotToVideoPlayerMessage,
     ToggleSubtitleTrackInListFromVideoMessage,
+    MarkWordFromVideoMessage,
     SubtitlesUpdatedToVideoMessage,
 } from '@project/common';
 import { AnkiSettings, MiscSettings, SubtitleSettings } from '@project/common/settings';
+import type { KnownWordStatus } from '@project/common/known-words';
 import { VideoProtocol } from './video-protocol';
 
 export default class VideoChannel {
@@ -49,7 +51,7 @@ export default class VideoChannel {
     private audioTrackSelectedCallbacks: ((audioTrack: string) => void)[];
     private currentTimeCallbacks: ((currentTime: number, echo: boolean) => void)[];
     private exitCallbacks: (() => void)[];
-    private offsetCallbacks: ((offset: number) => void)[];
+    private offsetCallbacks: ((offset: number, drift: number) => void)[];
     private playbackRateCallbacks: ((playbackRate: number, echo: boolean) => void)[];
     private popOutToggleCallbacks: (() => void)[];
     private copyCallbacks: ((
@@ -68,6 +70,7 @@ export default class VideoChannel {
     private appBarToggleCallbacks: (() => void)[];
     private ankiDialogRequestCallbacks: (() => void)[];
     private toggleSubtitleTrackInListCallbacks: ((track: number) => void)[];
+    private markWordCallbacks: ((track: number, word: string, status: KnownWordStatus) => void)[];
     private subtitlesUpdatedCallbacks: ((updatedSubtitles: RichSubtitleModel[]) => void)[];
     private loadFilesCallbacks: (() => void)[];
 
@@ -101,6 +104,7 @@ export default class VideoChannel {
         this.appBarToggleCallbacks = [];
         this.ankiDialogRequestCallbacks = [];
         this.toggleSubtitleTrackInListCallbacks = [];
+        this.markWordCallbacks = [];
         this.subtitlesUpdatedCallbacks = [];
         this.loadFilesCallbacks = [];
 
@@ -169,7 +173,7 @@ export default class VideoChannel {
                     const offsetMessage = event.data as OffsetFromVideoMessage;
 
                     for (let callback of that.offsetCallbacks) {
-                        callback(offsetMessage.value);
+                        callback(offsetMessage.value, offsetMessage.drift ?? 0);
                     }
                     break;
                 case 'playbackRate':
@@ -235,6 +239,13 @@ export default class VideoChannel {
                         callback(toggleSubtitleTrackInListMessage.track);
                     }
                     break;
+                case 'markWord':
+                    const markWordMessage = event.data as MarkWordFromVideoMessage;
+
+                    for (const callback of that.markWordCallbacks) {
+                        callback(markWordMessage.track, markWordMessage.word, markWordMessage.status);
+                    }
+                    break;
                 case 'subtitlesUpdated':
                     const subtitlesUpdatedMessage = event.data as SubtitlesUpdatedFromVideoMessage;
 
@@ -306,7 +317,7 @@ export default class VideoChannel {
         return () => this._remove(callback, this.exitCallbacks);
     }
 
-    onOffset(callback: (offset: number) => void) {
+    onOffset(callback: (offset: number, drift: number) => void) {
         this.offsetCallbacks.push(callback);
         return () => this._remove(callback, this.offsetCallbacks);
     }
@@ -363,6 +374,11 @@ export default class VideoChannel {
         return () => this._remove(callback, this.toggleSubtitleTrackInListCallbacks);
     }
 
+    onMarkWord(callback: (track: number, word: string, status: KnownWordStatus) => void) {
+        this.markWordCallbacks.push(callback);
+        return () => this._remove(callback, this.markWordCallbacks);
+    }
+
     onSubtitlesUpdated(callback: (updatedSubtitles: RichSubtitleModel[]) => void) {
         this.subtitlesUpdatedCallbacks.push(callback);
         return () => this._remove(callback, this.subtitlesUpdatedCallbacks);
@@ -397,12 +413,13 @@ export default class VideoChannel {
         this.protocol.postMessage(message);
     }
 
-    subtitles(subtitles: SubtitleModel[], subtitleFileNames: string[]) {
+    subtitles(subtitles: SubtitleModel[], subtitleFileNames: string[], edited = false) {
         this.protocol.postMessage({
             command: 'subtitles',
             value: subtitles,
             name: subtitleFileNames.length > 0 ? subtitleFileNames[0] : null,
             names: subtitleFileNames,
+            edited,
         } as SubtitlesToVideoMessage);
     }
 
@@ -413,8 +430,8 @@ export default class VideoChannel {
         } as SubtitlesUpdatedToVideoMessage);
     }
 
-    offset(offset: number) {
-        const message: OffsetToVideoMessage = { command: 'offset', value: offset };
+    offset(offset: number, drift = 0) {
+        const message: OffsetToVideoMessage = { command: 'offset', value: offset, drift };
         this.protocol.postMessage(message);
     }
 
@@ -512,6 +529,7 @@ export default class VideoChannel {
             track1Field,
             track2Field,
             track3Field,
+            translationField,
             customAnkiFields,
             tags,
             preferMp3,
@@ -541,6 +559,7 @@ export default class VideoChannel {
                 track1Field,
                 track2Field,
                 track3Field,
+                translationField,
                 customAnkiFields,
                 tags,
                 preferMp3,
@@ -566,15 +585,23 @@ export default class VideoChannel {
             seekDuration,
             speedChangeStep,
             fastForwardModePlaybackRate,
+            detectSpeechWithoutSubtitles,
             keyBindSet,
             rememberSubtitleOffset,
             autoCopyCurrentSubtitle,
             alwaysPlayOnSubtitleRepeat,
             subtitleRegexFilter,
             subtitleRegexFilterTextReplacement,
+            subtitleStyleFilter,
             subtitleHtml,
             convertNetflixRuby: convertNetflixRuby,
+            ocrImageSubtitles,
+            subtitleOverlapRepair,
+            subtitleMinimumDuration,
+            subtitleGapSnapThreshold,
+            removeDuplicateSubtitles,
             miningHistoryStorageLimit,
+            miningQueueStorageLimit,
             clickToMineDefaultAction,
             postMiningPlaybackState,
             language,
@@ -592,15 +619,23 @@ export default class VideoChannel {
                 seekDuration,
                 speedChangeStep,
                 fastForwardModePlaybackRate,
+                detectSpeechWithoutSubtitles,
                 keyBindSet,
                 rememberSubtitleOffset,
                 autoCopyCurrentSubtitle,
                 alwaysPlayOnSubtitleRepeat,
                 subtitleRegexFilter,
                 subtitleRegexFilterTextReplacement,
+                subtitleStyleFilter,
                 subtitleHtml,
                 convertNetflixRuby: convertNetflixRuby,
+                ocrImageSubtitles,
+                subtitleOverlapRepair,
+                subtitleMinimumDuration,
+                subtitleGapSnapThreshold,
+                removeDuplicateSubtitles,
                 miningHistoryStorageLimit,
+                miningQueueStorageLimit,
                 clickToMineDefaultAction,
                 postMiningPlaybackState,
                 language,
@@ -657,6 +692,7 @@ export default class VideoChannel {
         this.appBarToggleCallbacks = [];
         this.ankiDialogRequestCallbacks = [];
         this.toggleSubtitleTrackInListCallbacks = [];
+        this.markWordCallbacks = [];
         this.subtitlesUpdatedCallbacks = [];
         this.loadFilesCallbacks = [];
     }
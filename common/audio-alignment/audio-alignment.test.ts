@@ -0,0 +1,153 @@
+import {
+    alignSubtitlesToSpeech,
+    alignedTime,
+    appliedAlignment,
+    defaultAlignmentOptions,
+    detectSpeech,
+    LiveSpeechDetector,
+    speechIntervals,
+} from './audio-alignment';
+
+const sampleRate = 8000;
+
+// Lines of speech of irregular lengths and pauses, so that only one offset lines subtitles up with them
+const speechLines = (count: number) => {
+    const lines: { start: number; end: number }[] = [];
+    let time = 1000;
+
+    for (let i = 0; i < count; ++i) {
+        const duration = 800 + ((i * 370) % 1500);
+        lines.push({ start: time, end: time + duration });
+        time += duration + 400 + ((i * 530) % 1700);
+    }
+
+    return lines;
+};
+
+// Quiet noise, with a tone where there is speech
+const synthesizeAudio = (lines: { start: number; end: number }[], duration: number) => {
+    const samples = new Float32Array((duration * sampleRate) / 1000);
+    let seed = 1;
+
+    for (let i = 0; i < samples.length; ++i) {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        samples[i] = 0.005 * (seed / 2147483648 - 0.5);
+    }
+
+    for (const line of lines) {
+        for (let i = (line.start * sampleRate) / 1000; i < (line.end * sampleRate) / 1000; ++i) {
+            samples[i] += 0.3 * Math.sin((2 * Math.PI * 440 * i) / sampleRate);
+        }
+    }
+
+    return samples;
+};
+
+it('detects speech in audio', () => {
+    const lines = speechLines(3);
+    const activity = detectSpeech(synthesizeAudio(lines, 10000), sampleRate);
+    const voicedAt = (time: number) => activity.voiced[Math.floor(time / activity.frameDuration)];
+    expect(activity.frameDuration).toEqual(20);
+    expect(lines.every((line) => voicedAt(line.start + 100) === 1 && voicedAt(line.end - 100) === 1)).toBe(true);
+    expect(voicedAt(lines[0].start - 100)).toEqual(0);
+    expect(voicedAt(lines[0].end + 200)).toEqual(0);
+});
+
+it('detects no speech in silence', () => {
+    const activity = detectSpeech(synthesizeAudio([], 5000), sampleRate);
+    expect(activity.voiced.every((v) => v === 0)).toBe(true);
+    expect(alignSubtitlesToSpeech(activity, [{ originalStart: 1000, originalEnd: 2000 }])).toBeUndefined();
+});
+
+it('finds stretches of speech', () => {
+    const lines = speechLines(3);
+    const intervals = speechIntervals(detectSpeech(synthesizeAudio(lines, 10000), sampleRate), 100);
+    expect(intervals.length).toEqual(3);
+    intervals.forEach((interval, i) => {
+        expect(Math.abs(interval.start - (lines[i].start - 100))).toBeLessThanOrEqual(40);
+        expect(Math.abs(interval.end - (lines[i].end + 100))).toBeLessThanOrEqual(40);
+    });
+    expect(speechIntervals({ frameDuration: 20, voiced: new Uint8Array([1, 1, 0, 1]) }, 10)).toEqual([
+        { start: 0, end: 90 },
+    ]);
+});
+
+it('detects speech in audio received as it plays', () => {
+    const lines = speechLines(5);
+    const samples = synthesizeAudio(lines, 15000);
+    const detector = new LiveSpeechDetector();
+    const chunkDuration = 200;
+    const chunkLength = (chunkDuration * sampleRate) / 1000;
+
+    for (let start = 0; start < 15000; start += chunkDuration) {
+        const chunk = samples.subarray((start * sampleRate) / 1000, (start * sampleRate) / 1000 + chunkLength);
+        detector.push(chunk, sampleRate, start, start + chunkDuration);
+    }
+
+    const speechAt = (time: number) =>
+        detector.intervals.some((interval) => interval.start <= time && interval.end >= time);
+    expect(detector.heardSound).toBe(true);
+    expect(detector.receivedDuration).toEqual(15000);
+    expect(lines.slice(3).every((line) => speechAt((line.start + line.end) / 2))).toBe(true);
+    expect(speechAt(lines[3].end + 1000)).toBe(false);
+
+    // Nothing is detected before enough audio has been received to tell speech from silence
+    expect(speechAt((lines[0].start + lines[0].end) / 2)).toBe(false);
+});
+
+it('hears nothing in digital silence', () => {
+    const detector = new LiveSpeechDetector();
+
+    for (let start = 0; start < 10000; start += 200) {
+        expect(detector.push(new Float32Array(1600), sampleRate, start, start + 200)).toBe(false);
+    }
+
+    expect(detector.heardSound).toBe(false);
+    expect(detector.intervals).toEqual([]);
+});
+
+it('finds the offset of subtitles', () => {
+    const lines = speechLines(20);
+    const activity = detectSpeech(synthesizeAudio(lines, 60000), sampleRate);
+
+    for (const offset of [1500, -700]) {
+        const subtitles = lines.map((line) => ({ originalStart: line.start - offset, originalEnd: line.end - offset }));
+        const alignment = alignSubtitlesToSpeech(activity, subtitles)!;
+        expect(Math.abs(alignment.offset - offset)).toBeLessThanOrEqual(40);
+        expect(alignment.drift).toEqual(0);
+    }
+});
+
+it('corrects drift of subtitles', () => {
+    const lines = speechLines(48);
+    const activity = detectSpeech(synthesizeAudio(lines, lines[lines.length - 1].end + 2000), sampleRate);
+
+    // Subtitles timed for a version of the media that plays 1% faster, and starts 800ms earlier
+    const subtitles = lines.map((line) => ({
+        originalStart: (line.start - 800) / 1.01,
+        originalEnd: (line.end - 800) / 1.01,
+    }));
+    const alignment = alignSubtitlesToSpeech(activity, subtitles)!;
+    expect(Math.abs(alignment.drift - 0.01)).toBeLessThan(0.002);
+
+    for (let i = 0; i < lines.length; ++i) {
+        expect(Math.abs(alignedTime(subtitles[i].originalStart, alignment) - lines[i].start)).toBeLessThan(200);
+    }
+
+    expect(
+        alignSubtitlesToSpeech(activity, subtitles, { ...defaultAlignmentOptions, detectDrift: false })!.drift
+    ).toEqual(0);
+});
+
+it('recovers the alignment applied to subtitles', () => {
+    const alignment = { offset: 500, drift: 0.002 };
+    const subtitles = [1000, 5000, 20000].map((time) => ({
+        start: alignedTime(time, alignment),
+        originalStart: time,
+        originalEnd: time + 1000,
+    }));
+    const recovered = appliedAlignment(subtitles);
+    expect(recovered.offset).toBeCloseTo(500);
+    expect(recovered.drift).toBeCloseTo(0.002);
+    expect(appliedAlignment([])).toEqual({ offset: 0, drift: 0 });
+});
@@ -0,0 +1,538 @@
+/**
+ * Frames of audio, in order, marked as containing speech or not.
+ */
+export interface SpeechActivity {
+    /** Duration of a frame in milliseconds */
+    frameDuration: number;
+    /** 1 for frames with speech, 0 otherwise */
+    voiced: Uint8Array;
+}
+
+export interface SpeechDetectionOptions {
+    /** Duration of an analysis frame in milliseconds */
+    readonly frameDuration: number;
+    /** Position of the speech threshold between the noise floor and the loudest frames, from 0 to 1 */
+    readonly thresholdRatio: number;
+    /** Minimum difference in dB between the noise floor and the loudest frames for any speech to be detected */
+    readonly minDynamicRange: number;
+    /** Pauses shorter than this many milliseconds are considered part of the surrounding speech */
+    readonly minPause: number;
+    /** Sounds shorter than this many milliseconds are not considered speech */
+    readonly minSpeech: number;
+}
+
+export const defaultSpeechDetectionOptions: SpeechDetectionOptions = {
+    frameDuration: 20,
+    thresholdRatio: 0.4,
+    minDynamicRange: 6,
+    minPause: 200,
+    minSpeech: 100,
+};
+
+/**
+ * Timing correction of a subtitle track: a subtitle originally at time t is shown at t + offset + drift * t.
+ */
+export interface AudioAlignment {
+    /** Offset in milliseconds */
+    offset: number;
+    /** Linear drift, e.g. 0.001 delays subtitles by one more second every 1000 seconds */
+    drift: number;
+}
+
+export interface AlignmentOptions {
+    /** Largest offset searched for, in milliseconds */
+    readonly maxOffset: number;
+    /** Whether to correct a linear drift of the subtitles against the audio */
+    readonly detectDrift: boolean;
+    /** Number of stretches of subtitles whose offsets are compared to detect drift */
+    readonly driftSegments: number;
+    /** Largest difference from the global offset searched for in each stretch, in milliseconds */
+    readonly maxDriftOffset: number;
+}
+
+export const defaultAlignmentOptions: AlignmentOptions = {
+    maxOffset: 60000,
+    detectDrift: true,
+    driftSegments: 8,
+    maxDriftOffset: 10000,
+};
+
+/**
+ * Subset of a subtitle needed to align it, e.g. a SubtitleModel.
+ */
+export interface AlignableSubtitle {
+    originalStart: number;
+    originalEnd: number;
+}
+
+export const alignedTime = (time: number, alignment: AudioAlignment) =>
+    time + alignment.offset + alignment.drift * time;
+
+/**
+ * Original time of a subtitle shown at the given time, i.e. the inverse of alignedTime.
+ */
+export const unalignedTime = (time: number, alignment: AudioAlignment) =>
+    (time - alignment.offset) / (1 + alignment.drift);
+
+/**
+ * Alignment that was applied to subtitles, recovered from their shown and original timings.
+ */
+export const appliedAlignment = (subtitles: (AlignableSubtitle & { start: number })[]): AudioAlignment => {
+    if (subtitles.length === 0) {
+        return { offset: 0, drift: 0 };
+    }
+
+    const first = subtitles[0];
+    const last = subtitles[subtitles.length - 1];
+    const span = last.originalStart - first.originalStart;
+    const drift = span > 0 ? (last.start - last.originalStart - (first.start - first.originalStart)) / span : 0;
+    return { offset: first.start - first.originalStart - drift * first.originalStart, drift };
+};
+
+const percentile = (sorted: Float32Array, p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Flip runs of value shorter than minFrames that are surrounded by the other value
+const removeShortRuns = (voiced: Uint8Array, value: number, minFrames: number) => {
+    let runStart = -1;
+
+    for (let i = 0; i <= voiced.length; ++i) {
+        if (i < voiced.length && voiced[i] === value) {
+            if (runStart === -1) {
+                runStart = i;
+            }
+
+            continue;
+        }
+
+        if (runStart !== -1) {
+            if (i - runStart < minFrames && runStart > 0 && i < voiced.length) {
+                voiced.fill(1 - value, runStart, i);
+            }
+
+            runStart = -1;
+        }
+    }
+};
+
+// Energy in dB of each frame, with high frequencies emphasized so that speech stands out from low background noise
+const frameEnergies = (samples: Float32Array, frameLength: number) => {
+    const frameCount = Math.floor(samples.length / frameLength);
+    const energies = new Float32Array(frameCount);
+    let previous = 0;
+
+    for (let frame = 0; frame < frameCount; ++frame) {
+        let sum = 0;
+
+        for (let i = frame * frameLength; i < (frame + 1) * frameLength; ++i) {
+            const emphasized = samples[i] - 0.97 * previous;
+            previous = samples[i];
+            sum += emphasized * emphasized;
+        }
+
+        energies[frame] = 10 * Math.log10(sum / frameLength + 1e-10);
+    }
+
+    return energies;
+};
+
+/**
+ * Detect speech in mono audio from the energy of its frames. High frequencies are emphasized so that speech stands
+ * out from low background noise, and frames louder than a threshold adapted to the audio are considered speech.
+ */
+export const detectSpeech = (
+    samples: Float32Array,
+    sampleRate: number,
+    options: SpeechDetectionOptions = defaultSpeechDetectionOptions
+): SpeechActivity => {
+    const frameLength = Math.max(1, Math.round((sampleRate * options.frameDuration) / 1000));
+    const energies = frameEnergies(samples, frameLength);
+    const frameCount = energies.length;
+    const voiced = new Uint8Array(frameCount);
+    const activity = { frameDuration: (frameLength * 1000) / sampleRate, voiced };
+
+    if (frameCount === 0) {
+        return activity;
+    }
+
+    const sorted = energies.slice().sort();
+    const floor = percentile(sorted, 0.1);
+    const peak = percentile(sorted, 0.95);
+
+    if (peak - floor < options.minDynamicRange) {
+        return activity;
+    }
+
+    const threshold = floor + (peak - floor) * options.thresholdRatio;
+
+    for (let frame = 0; frame < frameCount; ++frame) {
+        voiced[frame] = energies[frame] > threshold ? 1 : 0;
+    }
+
+    removeShortRuns(voiced, 0, Math.round(options.minPause / activity.frameDuration));
+    removeShortRuns(voiced, 1, Math.round(options.minSpeech / activity.frameDuration));
+    return activity;
+};
+
+/**
+ * Stretch of speech in milliseconds.
+ */
+export interface SpeechInterval {
+    start: number;
+    end: number;
+}
+
+/**
+ * Stretches of speech in detected speech activity, e.g. to skip or fast forward through the silence between them
+ * when there are no subtitles.
+ * @param padding Milliseconds added before and after each stretch so that the edges of speech aren't cut off
+ */
+export const speechIntervals = (activity: SpeechActivity, padding = 200): SpeechInterval[] => {
+    const { voiced, frameDuration } = activity;
+    const intervals: SpeechInterval[] = [];
+    let runStart = -1;
+
+    for (let i = 0; i <= voiced.length; ++i) {
+        if (i < voiced.length && voiced[i] === 1) {
+            if (runStart === -1) {
+                runStart = i;
+            }
+
+            continue;
+        }
+
+        if (runStart === -1) {
+            continue;
+        }
+
+        const start = Math.max(0, runStart * frameDuration - padding);
+        const end = i * frameDuration + padding;
+        const last = intervals[intervals.length - 1];
+
+        if (last !== undefined && start <= last.end) {
+            last.end = end;
+        } else {
+            intervals.push({ start, end });
+        }
+
+        runStart = -1;
+    }
+
+    return intervals;
+};
+
+// Frame energies are counted in bins of this many dB between the energy of silence and that of the loudest audio
+const energyBinWidth = 0.5;
+const minEnergy = -100;
+const maxEnergy = 20;
+
+/**
+ * Detects speech in audio received in chunks as it plays, e.g. audio captured from a video, so that media doesn't have
+ * to be decoded up front. Speech is told apart from silence with the same measures as detectSpeech, against all of the
+ * audio received so far, and nothing is detected until enough audio has been received to do so.
+ */
+export class LiveSpeechDetector {
+    private readonly _options: SpeechDetectionOptions;
+    private readonly _padding: number;
+    private readonly _calibrationDuration: number;
+    private readonly _histogram = new Uint32Array(Math.ceil((maxEnergy - minEnergy) / energyBinWidth));
+    private _frameCount = 0;
+    private _receivedDuration = 0;
+    private _heardSound = false;
+    private _intervals: SpeechInterval[] = [];
+
+    /**
+     * @param padding Milliseconds added before and after each stretch of speech, see speechIntervals
+     * @param calibrationDuration Milliseconds of audio received before any speech is detected
+     */
+    constructor(options = defaultSpeechDetectionOptions, padding = 200, calibrationDuration = 5000) {
+        this._options = options;
+        this._padding = padding;
+        this._calibrationDuration = calibrationDuration;
+    }
+
+    /**
+     * Stretches of speech detected so far, in order of media time.
+     */
+    get intervals() {
+        return this._intervals;
+    }
+
+    /**
+     * Milliseconds of audio received so far.
+     */
+    get receivedDuration() {
+        return this._receivedDuration;
+    }
+
+    /**
+     * Whether any of the audio received so far isn't digital silence. Audio that can't be captured, e.g. because it
+     * is protected, is received as digital silence.
+     */
+    get heardSound() {
+        return this._heardSound;
+    }
+
+    /**
+     * @param start Media time in milliseconds at which the chunk starts
+     * @param end Media time in milliseconds at which the chunk ends, which differs from the duration of the samples
+     * when the media plays faster or slower than normal
+     * @returns Whether the stretches of speech changed
+     */
+    push(samples: Float32Array, sampleRate: number, start: number, end: number) {
+        const frameLength = Math.max(1, Math.round((sampleRate * this._options.frameDuration) / 1000));
+        const energies = frameEnergies(samples, frameLength);
+
+        for (const energy of energies) {
+            const bin = Math.floor((energy - minEnergy) / energyBinWidth);
+            ++this._histogram[Math.max(0, Math.min(this._histogram.length - 1, bin))];
+        }
+
+        this._frameCount += energies.length;
+        this._receivedDuration += (samples.length * 1000) / sampleRate;
+        this._heardSound ||= samples.some((sample) => sample !== 0);
+
+        if (energies.length === 0 || this._receivedDuration < this._calibrationDuration) {
+            return false;
+        }
+
+        const floor = this._percentile(0.1);
+        const peak = this._percentile(0.95);
+
+        if (peak - floor < this._options.minDynamicRange) {
+            return false;
+        }
+
+        // Chunks are about as short as the shortest speech, so a chunk is speech if most of it is
+        const threshold = floor + (peak - floor) * this._options.thresholdRatio;
+        const voicedFrames = energies.filter((energy) => energy > threshold).length;
+
+        if (voicedFrames * 2 < energies.length) {
+            return false;
+        }
+
+        return this._addSpeech(Math.max(0, start - this._padding), end + this._padding);
+    }
+
+    private _percentile(p: number) {
+        const target = Math.min(this._frameCount - 1, Math.floor(p * this._frameCount));
+        let count = 0;
+
+        for (let bin = 0; bin < this._histogram.length; ++bin) {
+            count += this._histogram[bin];
+
+            if (count > target) {
+                return minEnergy + (bin + 0.5) * energyBinWidth;
+            }
+        }
+
+        return maxEnergy;
+    }
+
+    // Stretches of speech separated by pauses shorter than the minimum pause are merged
+    private _addSpeech(start: number, end: number) {
+        if (this._intervals.some((interval) => interval.start <= start && interval.end >= end)) {
+            return false;
+        }
+
+        const merged = { start, end };
+        const intervals: SpeechInterval[] = [];
+
+        for (const interval of this._intervals) {
+            if (interval.end + this._options.minPause < start || interval.start - this._options.minPause > end) {
+                intervals.push(interval);
+            } else {
+                merged.start = Math.min(merged.start, interval.start);
+                merged.end = Math.max(merged.end, interval.end);
+            }
+        }
+
+        intervals.push(merged);
+        this._intervals = intervals.sort((a, b) => a.start - b.start);
+        return true;
+    }
+}
+
+class SpeechScorer {
+    private readonly _frameDuration: number;
+    private readonly _voicedBefore: Uint32Array;
+    private readonly _meanVoiced: number;
+
+    constructor(activity: SpeechActivity) {
+        const { voiced, frameDuration } = activity;
+        this._frameDuration = frameDuration;
+        this._voicedBefore = new Uint32Array(voiced.length + 1);
+
+        for (let i = 0; i < voiced.length; ++i) {
+            this._voicedBefore[i + 1] = this._voicedBefore[i] + voiced[i];
+        }
+
+        this._meanVoiced = voiced.length === 0 ? 0 : this._voicedBefore[voiced.length] / voiced.length;
+    }
+
+    get frameDuration() {
+        return this._frameDuration;
+    }
+
+    get hasSpeech() {
+        return this._meanVoiced > 0;
+    }
+
+    /**
+     * How much more speech there is while the subtitles are shown than there would be by chance.
+     * Time outside of the audio counts as silence.
+     */
+    score(subtitles: AlignableSubtitle[], alignment: AudioAlignment) {
+        const frameCount = this._voicedBefore.length - 1;
+        const clamp = (frame: number) => Math.max(0, Math.min(frameCount, frame));
+        let score = 0;
+
+        for (const subtitle of subtitles) {
+            const start = Math.round(alignedTime(subtitle.originalStart, alignment) / this._frameDuration);
+            const end = Math.round(alignedTime(subtitle.originalEnd, alignment) / this._frameDuration);
+
+            if (end <= start) {
+                continue;
+            }
+
+            const voiced = this._voicedBefore[clamp(end)] - this._voicedBefore[clamp(start)];
+            score += voiced - (end - start) * this._meanVoiced;
+        }
+
+        return score;
+    }
+
+    /**
+     * Search offsets around a center, a frame apart, for the one under which the subtitles best match the speech.
+     * Smaller changes from the center win ties.
+     */
+    bestOffset(subtitles: AlignableSubtitle[], center: number, radius: number, drift: number) {
+        const steps = Math.floor(radius / this._frameDuration);
+        let best = { offset: center, score: this.score(subtitles, { offset: center, drift }) };
+
+        for (let step = 1; step <= steps; ++step) {
+            for (const offset of [center - step * this._frameDuration, center + step * this._frameDuration]) {
+                const score = this.score(subtitles, { offset, drift });
+
+                if (score > best.score) {
+                    best = { offset, score };
+                }
+            }
+        }
+
+        return best;
+    }
+}
+
+// Least squares fit of offset = intercept + slope * time
+const fitLine = (points: { time: number; offset: number }[]) => {
+    const meanTime = points.reduce((sum, p) => sum + p.time, 0) / points.length;
+    const meanOffset = points.reduce((sum, p) => sum + p.offset, 0) / points.length;
+    let covariance = 0;
+    let variance = 0;
+
+    for (const p of points) {
+        covariance += (p.time - meanTime) * (p.offset - meanOffset);
+        variance += (p.time - meanTime) * (p.time - meanTime);
+    }
+
+    const slope = variance === 0 ? 0 : covariance / variance;
+    return { slope, intercept: meanOffset - slope * meanTime };
+};
+
+const detectDrift = (
+    scorer: SpeechScorer,
+    subtitles: AlignableSubtitle[],
+    global: { offset: number; score: number },
+    options: AlignmentOptions
+): AudioAlignment | undefined => {
+    const segmentSize = Math.floor(subtitles.length / options.driftSegments);
+
+    if (segmentSize < 2) {
+        return undefined;
+    }
+
+    const points: { time: number; offset: number }[] = [];
+
+    for (let segment = 0; segment < options.driftSegments; ++segment) {
+        const segmentSubtitles = subtitles.slice(segment * segmentSize, (segment + 1) * segmentSize);
+        const best = scorer.bestOffset(segmentSubtitles, global.offset, options.maxDriftOffset, 0);
+
+        // Stretches without matching speech, e.g. songs or sound effects, tell nothing about drift
+        if (best.score > 0) {
+            const time =
+                segmentSubtitles.reduce((sum, s) => sum + (s.originalStart + s.originalEnd) / 2, 0) /
+                segmentSubtitles.length;
+            points.push({ time, offset: best.offset });
+        }
+    }
+
+    if (points.length < 3) {
+        return undefined;
+    }
+
+    const { slope, intercept } = fitLine(points);
+    const span = subtitles[subtitles.length - 1].originalEnd - subtitles[0].originalStart;
+    const alignment = { offset: Math.round(intercept), drift: slope };
+
+    // Ignore drift that wouldn't move any subtitle by a frame, or that matches the speech worse than none
+    if (Math.abs(slope * span) < scorer.frameDuration || scorer.score(subtitles, alignment) <= global.score) {
+        return undefined;
+    }
+
+    return alignment;
+};
+
+/**
+ * Find the offset, and optionally the linear drift, under which subtitles best match the speech in the audio.
+ * @returns The alignment, or undefined if there is no speech or no subtitle matches it
+ */
+export const alignSubtitlesToSpeech = (
+    activity: SpeechActivity,
+    subtitles: AlignableSubtitle[],
+    options: AlignmentOptions = defaultAlignmentOptions
+): AudioAlignment | undefined => {
+    const scorer = new SpeechScorer(activity);
+
+    if (!scorer.hasSpeech || subtitles.length === 0) {
+        return undefined;
+    }
+
+    const sorted = [...subtitles].sort((a, b) => a.originalStart - b.originalStart);
+    const global = scorer.bestOffset(sorted, 0, options.maxOffset, 0);
+
+    if (global.score <= 0) {
+        return undefined;
+    }
+
+    return (options.detectDrift && detectDrift(scorer, sorted, global, options)) || { offset: global.offset, drift: 0 };
+};
+
+/**
+ * Decode the audio track of a media file into mono samples, resampled to a rate that keeps long files small.
+ */
+export const decodeAudio = async (data: ArrayBuffer, sampleRate = 8000) => {
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    const buffer = await context.decodeAudioData(data);
+    const samples = new Float32Array(buffer.length);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; ++channel) {
+        const channelData = buffer.getChannelData(channel);
+
+        for (let i = 0; i < samples.length; ++i) {
+            samples[i] += channelData[i] / buffer.numberOfChannels;
+        }
+    }
+
+    return { samples, sampleRate: buffer.sampleRate };
+};
+
+/**
+ * Decode the audio at the beginning of a media file, reading at most maxBytes of it so that long files aren't loaded
+ * into memory whole. Containers that keep their index at the end of the file can't be decoded from a window.
+ * @returns The samples, and the duration of the decoded window in milliseconds
+ */
+export const decodeAudioWindow = async (file: Blob, maxBytes: number, sampleRate = 8000) => {
+    const decoded = await decodeAudio(await file.slice(0, maxBytes).arrayBuffer(), sampleRate);
+    return { ...decoded, duration: (decoded.samples.length * 1000) / decoded.sampleRate };
+};
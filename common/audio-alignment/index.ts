@@ -0,0 +1,21 @@
+export type {
+    SpeechActivity,
+    SpeechDetectionOptions,
+    SpeechInterval,
+    AudioAlignment,
+    AlignmentOptions,
+    AlignableSubtitle,
+} from './audio-alignment';
+export {
+    defaultSpeechDetectionOptions,
+    defaultAlignmentOptions,
+    alignedTime,
+    unalignedTime,
+    appliedAlignment,
+    detectSpeech,
+    speechIntervals,
+    alignSubtitlesToSpeech,
+    decodeAudio,
+    decodeAudioWindow,
+    LiveSpeechDetector,
+} from './audio-alignment';
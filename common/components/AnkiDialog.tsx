@@ -11,6 +11,7 @@ import {
     extractText,
 } from '@project/common/util';
 import { AudioClip } from '@project/common/audio-clip';
+import { translationForTimestampInterval } from '@project/common/subtitle-collection';
 import Badge from '@mui/material/Badge';
 import Button from '@mui/material/Button';
 import TextField from '@mui/material/TextField';
@@ -173,6 +174,7 @@ export interface AnkiDialogState {
     track1: string;
     track2: string;
     track3: string;
+    translation: string;
     customFieldValues: { [key: string]: string };
     lastAppliedTimestampIntervalToText?: number[];
     lastAppliedTimestampIntervalToAudio?: number[];
@@ -246,6 +248,7 @@ const AnkiDialog = ({
     const [track1, setTrack1] = useState<string>('');
     const [track2, setTrack2] = useState<string>('');
     const [track3, setTrack3] = useState<string>('');
+    const [translation, setTranslation] = useState<string>('');
     const [customFieldValues, setCustomFieldValues] = useState<{ [key: string]: string }>({});
     const [timestampInterval, setTimestampInterval] = useState<number[]>();
     const [selectedSubtitles, setSelectedSubtitles] = useState<SubtitleModel[]>([]);
@@ -279,6 +282,7 @@ const AnkiDialog = ({
             track1,
             track2,
             track3,
+            translation,
             customFieldValues,
             initialTimestampInterval,
             timestampBoundaryInterval,
@@ -299,10 +303,17 @@ const AnkiDialog = ({
         [card.surroundingSubtitles]
     );
 
+    const translationForInterval = useCallback(
+        (timestampInterval: number[]) =>
+            translationForTimestampInterval(card.surroundingSubtitles, timestampInterval, card.subtitle.track),
+        [card.surroundingSubtitles, card.subtitle.track]
+    );
+
     const {
         text: initialText,
         definition: initialDefinition,
         word: initialWord,
+        translation: initialTranslation,
         customFieldValues: initialCustomFieldValues,
     } = card;
 
@@ -315,6 +326,7 @@ const AnkiDialog = ({
         setTrack1(extractText(card.subtitle, card.surroundingSubtitles, 0));
         setTrack2(extractText(card.subtitle, card.surroundingSubtitles, 1));
         setTrack3(extractText(card.subtitle, card.surroundingSubtitles, 2));
+        setTranslation(initialTranslation ?? translationForInterval([card.subtitle.start, card.subtitle.end]));
         setCustomFieldValues(initialCustomFieldValues ?? {});
     }, [
         card.subtitle,
@@ -325,7 +337,9 @@ const AnkiDialog = ({
         initialSource,
         initialDefinition,
         initialWord,
+        initialTranslation,
         initialCustomFieldValues,
+        translationForInterval,
     ]);
 
     useEffect(() => {
@@ -357,6 +371,9 @@ const AnkiDialog = ({
         setTrack1(trackText(0));
         setTrack2(trackText(1));
         setTrack3(trackText(2));
+        setTranslation(
+            initialTranslation ?? (timestampInterval === undefined ? '' : translationForInterval(timestampInterval))
+        );
         setTimestampInterval(timestampInterval);
         setSelectedSubtitles(selectedSubtitles);
         setInitialTimestampInterval(forceInitialTimestampInterval || timestampInterval);
@@ -369,6 +386,8 @@ const AnkiDialog = ({
         card.subtitle,
         card.surroundingSubtitles,
         initialText,
+        initialTranslation,
+        translationForInterval,
         forceInitialTimestampInterval,
         initialSelectedTimestampInterval,
         forceTimestampBoundaryInterval,
@@ -506,8 +525,30 @@ const AnkiDialog = ({
             applyTimestampIntervalToTrack(newTimestampInterval, track1, setTrack1, 0, force);
             applyTimestampIntervalToTrack(newTimestampInterval, track2, setTrack2, 1, force);
             applyTimestampIntervalToTrack(newTimestampInterval, track3, setTrack3, 2, force);
+
+            const expectedUnchangedTranslation =
+                lastAppliedTimestampIntervalToText === undefined
+                    ? undefined
+                    : translationForInterval(lastAppliedTimestampIntervalToText);
+
+            if (
+                force ||
+                expectedUnchangedTranslation === undefined ||
+                translation.trim() === expectedUnchangedTranslation.trim()
+            ) {
+                setTranslation(translationForInterval(newTimestampInterval));
+            }
         },
-        [applyTimestampIntervalToTrack, text, track1, track2, track3]
+        [
+            applyTimestampIntervalToTrack,
+            translationForInterval,
+            lastAppliedTimestampIntervalToText,
+            text,
+            track1,
+            track2,
+            track3,
+            translation,
+        ]
     );
 
     const handleApplyTimestampIntervalToText = useCallback(() => {
@@ -639,6 +680,11 @@ const AnkiDialog = ({
         setLastAppliedTimestampIntervalToText(undefined);
     }, []);
 
+    const handleTranslationTextChange = useCallback((text: string) => {
+        setTranslation(text);
+        setLastAppliedTimestampIntervalToText(undefined);
+    }, []);
+
     const updateLastButtonRef = useRef<HTMLButtonElement | null>(null);
     const openInAnkiButtonRef = useRef<HTMLButtonElement | null>(null);
     const exportButtonRef = useRef<HTMLButtonElement | null>(null);
@@ -687,6 +733,7 @@ const AnkiDialog = ({
                 track1,
                 track2,
                 track3,
+                translation,
                 definition,
                 audioClip,
                 image,
@@ -703,6 +750,7 @@ const AnkiDialog = ({
             track1,
             track2,
             track3,
+            translation,
             definition,
             audioClip,
             image,
@@ -885,6 +933,17 @@ const AnkiDialog = ({
                                             selectedSubtitles={selectedSubtitles.filter((s) => s.track === 2)}
                                         />
                                     )}
+                                    {!model.custom && model.key === 'translation' && model.field.display && (
+                                        <SentenceField
+                                            text={translation}
+                                            label={t('ankiDialog.translation')}
+                                            width={width}
+                                            onChangeText={handleTranslationTextChange}
+                                            selectedSubtitles={selectedSubtitles.filter(
+                                                (s) => s.track !== card.subtitle.track
+                                            )}
+                                        />
+                                    )}
                                     {model.custom && model.field.display && (
                                         <CustomField
                                             name={model.key}
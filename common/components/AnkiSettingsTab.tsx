@@ -180,6 +180,7 @@ const AnkiSettingsTab: React.FC<Props> = ({
         track1Field,
         track2Field,
         track3Field,
+        translationField,
         ankiFieldSettings,
         customAnkiFields,
         customAnkiFieldSettings,
@@ -612,6 +613,17 @@ const AnkiSettingsTab: React.FC<Props> = ({
                                     {...rest}
                                 />
                             )}
+                        {!model.custom &&
+                            model.key === 'translation' &&
+                            (!extensionInstalled || extensionSupportsOrderableAnkiFields) && (
+                                <AnkiSelect
+                                    label={t('settings.translationField')}
+                                    value={translationField}
+                                    selections={fieldNames}
+                                    onValueChange={(value) => onSettingChanged('translationField', value)}
+                                    {...rest}
+                                />
+                            )}
                         {model.custom && (
                             <AnkiSelect
                                 label={`${model.key}`}
@@ -2,6 +2,7 @@ import React, { useCallback, useState, useEffect, useMemo, useRef } from 'react'
 import { Trans, useTranslation } from 'react-i18next';
 import FormControl from '@mui/material/FormControl';
 import FormLabel from '@mui/material/FormLabel';
+import FormHelperText from '@mui/material/FormHelperText';
 import IconButton from '@mui/material/IconButton';
 import LabelWithHoverEffect from './LabelWithHoverEffect';
 import Radio from '@mui/material/Radio';
@@ -16,6 +17,7 @@ import {
     TokenReadingAnnotation,
     TokenStyling,
     getFullyKnownTokenStatus,
+    KnownWordsPrecedence,
     NUM_TOKEN_STYLINGS,
 } from '@project/common/settings';
 import Typography from '@mui/material/Typography';
@@ -32,6 +34,17 @@ import SettingsTextField from './SettingsTextField';
 import SettingsSection from './SettingsSection';
 import MuiAlert, { type AlertProps } from '@mui/material/Alert';
 import Link from '@mui/material/Link';
+import Button from '@mui/material/Button';
+import {
+    IndexedDBKnownWordsRepository,
+    KnownWordStatus,
+    knownWordStatuses,
+    readWordListFile,
+    studyResultWords,
+} from '../known-words';
+import { createRecognitionRepository } from '../study-mode';
+import { FrequencyDictionary, IndexedDBFrequencyRepository, readFrequencyFile } from '../frequency';
+import type { TokenizerType } from '../tokenizer';
 
 const Alert: React.FC<AlertProps> = ({ children, ...props }) => {
     return (
@@ -47,6 +60,14 @@ const Alert: React.FC<AlertProps> = ({ children, ...props }) => {
     );
 };
 
+const tokenizers: TokenizerType[] = ['yomitan', 'kuromoji', 'sudachi'];
+
+const knownWordStatusLocKeys: { [status in KnownWordStatus]: string } = {
+    known: 'settings.knownWordStatusKnown',
+    learning: 'settings.knownWordStatusLearning',
+    ignored: 'settings.knownWordStatusIgnored',
+};
+
 interface Props {
     settings: AsbplayerSettings;
     onSettingChanged: <K extends keyof AsbplayerSettings>(key: K, value: AsbplayerSettings[K]) => Promise<void>;
@@ -72,6 +93,99 @@ const DictionarySettingsTab: React.FC<Props> = ({ settings, onSettingChanged, an
         return getFullyKnownTokenStatus();
     }, [selectedDictionary.colorizeFullyKnownTokens]);
 
+    const knownWords = useMemo(() => new IndexedDBKnownWordsRepository(), []);
+    const [knownWordsCount, setKnownWordsCount] = useState<number>();
+    const [knownWordsImportStatus, setKnownWordsImportStatus] = useState<KnownWordStatus>('known');
+    const [knownWordsImported, setKnownWordsImported] = useState<number>();
+    const [knownWordsImportError, setKnownWordsImportError] = useState<string>();
+    const knownWordsFileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        knownWords.count().then(setKnownWordsCount).catch(console.error);
+    }, [knownWords, knownWordsImported]);
+
+    const importKnownWords = useCallback(async (importWords: () => Promise<number>) => {
+        try {
+            setKnownWordsImported(await importWords());
+            setKnownWordsImportError(undefined);
+        } catch (e) {
+            console.error(e);
+            setKnownWordsImportError(e instanceof Error ? e.message : String(e));
+        }
+    }, []);
+
+    const handleKnownWordsFileInputChange = useCallback(async () => {
+        const files = [...(knownWordsFileInputRef.current?.files ?? [])];
+
+        if (knownWordsFileInputRef.current) {
+            knownWordsFileInputRef.current.value = '';
+        }
+
+        await importKnownWords(async () => {
+            let imported = 0;
+
+            for (const file of files) {
+                imported += await knownWords.importWords(await readWordListFile(file), knownWordsImportStatus);
+            }
+
+            return imported;
+        });
+    }, [importKnownWords, knownWords, knownWordsImportStatus]);
+
+    const handleImportStudyResults = useCallback(async () => {
+        await importKnownWords(async () => {
+            const { known, learning } = studyResultWords(await createRecognitionRepository().fetchAll());
+            return (
+                (await knownWords.importWords(known, 'known')) + (await knownWords.importWords(learning, 'learning'))
+            );
+        });
+    }, [importKnownWords, knownWords]);
+
+    const frequencies = useMemo(() => new IndexedDBFrequencyRepository(), []);
+    const [frequencyDictionaries, setFrequencyDictionaries] = useState<FrequencyDictionary[]>();
+    const [frequencyImporting, setFrequencyImporting] = useState<boolean>(false);
+    const [frequencyImported, setFrequencyImported] = useState<number>();
+    const [frequencyImportError, setFrequencyImportError] = useState<string>();
+    const frequencyFileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        frequencies.dictionaries().then(setFrequencyDictionaries).catch(console.error);
+    }, [frequencies, frequencyImported]);
+
+    const handleFrequencyFileInputChange = useCallback(async () => {
+        const files = [...(frequencyFileInputRef.current?.files ?? [])];
+
+        if (frequencyFileInputRef.current) {
+            frequencyFileInputRef.current.value = '';
+        }
+
+        setFrequencyImporting(true);
+
+        try {
+            let imported = 0;
+
+            for (const file of files) {
+                const { title, entries } = await readFrequencyFile(file);
+                imported += await frequencies.importDictionary(title, entries);
+            }
+
+            setFrequencyImported(imported);
+            setFrequencyImportError(undefined);
+        } catch (e) {
+            console.error(e);
+            setFrequencyImportError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setFrequencyImporting(false);
+        }
+    }, [frequencies]);
+
+    const handleClearFrequencies = useCallback(async () => {
+        await frequencies.clear();
+        setFrequencyImported(undefined);
+        setFrequencyImportError(undefined);
+        setFrequencyDictionaries([]);
+    }, [frequencies]);
+
     const [dictionaryYomitanUrlError, setDictionaryYomitanUrlError] = useState<string>();
     const dictionaryRequestYomitan = useCallback(async () => {
         try {
@@ -503,6 +617,31 @@ const DictionarySettingsTab: React.FC<Props> = ({ settings, onSettingChanged, an
                     />
                 </RadioGroup>
             </FormControl>
+            <FormControl>
+                <FormLabel component="legend">{t('settings.dictionaryTokenizer')}</FormLabel>
+                <RadioGroup row={false}>
+                    {tokenizers.map((tokenizer) => (
+                        <LabelWithHoverEffect
+                            key={tokenizer}
+                            control={
+                                <Radio
+                                    checked={selectedDictionary.dictionaryTokenizer === tokenizer}
+                                    onChange={() => {
+                                        const newTracks = [...dictionaryTracks];
+                                        newTracks[selectedDictionaryTrack] = {
+                                            ...newTracks[selectedDictionaryTrack],
+                                            dictionaryTokenizer: tokenizer,
+                                        };
+                                        onSettingChanged('dictionaryTracks', newTracks);
+                                    }}
+                                />
+                            }
+                            label={t(`settings.dictionaryTokenizer_${tokenizer}`)}
+                        />
+                    ))}
+                </RadioGroup>
+                <FormHelperText>{t('settings.dictionaryTokenizerHelperText')}</FormHelperText>
+            </FormControl>
             <SettingsSection ref={yomitanSectionRef}>{t('settings.dictionaryYomitanSection')}</SettingsSection>
             <Alert severity="info">
                 <Trans
@@ -553,6 +692,193 @@ const DictionarySettingsTab: React.FC<Props> = ({ settings, onSettingChanged, an
                     htmlInput: { min: 1, max: 128, step: 1 },
                 }}
             />
+            <SettingsSection>{t('settings.knownWords')}</SettingsSection>
+            <FormControl>
+                <FormLabel component="legend">{t('settings.dictionaryKnownWordsPrecedence')}</FormLabel>
+                <RadioGroup row={false}>
+                    <LabelWithHoverEffect
+                        control={
+                            <Radio
+                                checked={
+                                    selectedDictionary.dictionaryKnownWordsPrecedence ===
+                                    KnownWordsPrecedence.KNOWN_WORDS
+                                }
+                                onChange={() => {
+                                    const newTracks = [...dictionaryTracks];
+                                    newTracks[selectedDictionaryTrack] = {
+                                        ...newTracks[selectedDictionaryTrack],
+                                        dictionaryKnownWordsPrecedence: KnownWordsPrecedence.KNOWN_WORDS,
+                                    };
+                                    onSettingChanged('dictionaryTracks', newTracks);
+                                }}
+                            />
+                        }
+                        label={t('settings.dictionaryKnownWordsPrecedenceKnownWords')}
+                    />
+                    <LabelWithHoverEffect
+                        control={
+                            <Radio
+                                checked={
+                                    selectedDictionary.dictionaryKnownWordsPrecedence === KnownWordsPrecedence.ANKI
+                                }
+                                onChange={() => {
+                                    const newTracks = [...dictionaryTracks];
+                                    newTracks[selectedDictionaryTrack] = {
+                                        ...newTracks[selectedDictionaryTrack],
+                                        dictionaryKnownWordsPrecedence: KnownWordsPrecedence.ANKI,
+                                    };
+                                    onSettingChanged('dictionaryTracks', newTracks);
+                                }}
+                            />
+                        }
+                        label={t('settings.dictionaryKnownWordsPrecedenceAnki')}
+                    />
+                    <LabelWithHoverEffect
+                        control={
+                            <Radio
+                                checked={
+                                    selectedDictionary.dictionaryKnownWordsPrecedence ===
+                                    KnownWordsPrecedence.BEST_KNOWN
+                                }
+                                onChange={() => {
+                                    const newTracks = [...dictionaryTracks];
+                                    newTracks[selectedDictionaryTrack] = {
+                                        ...newTracks[selectedDictionaryTrack],
+                                        dictionaryKnownWordsPrecedence: KnownWordsPrecedence.BEST_KNOWN,
+                                    };
+                                    onSettingChanged('dictionaryTracks', newTracks);
+                                }}
+                            />
+                        }
+                        label={t('settings.dictionaryKnownWordsPrecedenceBestKnown')}
+                    />
+                    <LabelWithHoverEffect
+                        control={
+                            <Radio
+                                checked={
+                                    selectedDictionary.dictionaryKnownWordsPrecedence ===
+                                    KnownWordsPrecedence.LEAST_KNOWN
+                                }
+                                onChange={() => {
+                                    const newTracks = [...dictionaryTracks];
+                                    newTracks[selectedDictionaryTrack] = {
+                                        ...newTracks[selectedDictionaryTrack],
+                                        dictionaryKnownWordsPrecedence: KnownWordsPrecedence.LEAST_KNOWN,
+                                    };
+                                    onSettingChanged('dictionaryTracks', newTracks);
+                                }}
+                            />
+                        }
+                        label={t('settings.dictionaryKnownWordsPrecedenceLeastKnown')}
+                    />
+                </RadioGroup>
+            </FormControl>
+            {knownWordsCount !== undefined && (
+                <Typography variant="body2">{t('settings.knownWordsCount', { count: knownWordsCount })}</Typography>
+            )}
+            <FormControl>
+                <FormLabel component="legend">{t('settings.knownWordsImportStatus')}</FormLabel>
+                <RadioGroup row>
+                    {knownWordStatuses.map((status) => (
+                        <LabelWithHoverEffect
+                            key={status}
+                            control={
+                                <Radio
+                                    checked={knownWordsImportStatus === status}
+                                    onChange={() => setKnownWordsImportStatus(status)}
+                                />
+                            }
+                            label={t(knownWordStatusLocKeys[status])}
+                        />
+                    ))}
+                </RadioGroup>
+            </FormControl>
+            <Button
+                variant="contained"
+                color="primary"
+                style={{ width: '100%' }}
+                onClick={() => knownWordsFileInputRef.current?.click()}
+            >
+                {t('settings.knownWordsImport')}
+            </Button>
+            <Typography variant="caption" color="textSecondary">
+                {t('settings.knownWordsImportHelp')}
+            </Typography>
+            <Button variant="contained" color="primary" style={{ width: '100%' }} onClick={handleImportStudyResults}>
+                {t('settings.knownWordsImportStudyResults')}
+            </Button>
+            {knownWordsImportError !== undefined && <Alert severity="error">{knownWordsImportError}</Alert>}
+            {knownWordsImportError === undefined && knownWordsImported !== undefined && (
+                <Alert severity="success">{t('settings.knownWordsImported', { count: knownWordsImported })}</Alert>
+            )}
+            <input
+                ref={knownWordsFileInputRef}
+                onChange={handleKnownWordsFileInputChange}
+                type="file"
+                accept=".txt,.csv,.tsv,.apkg"
+                multiple
+                hidden
+            />
+            <SettingsSection>{t('settings.frequencyLists')}</SettingsSection>
+            {frequencyDictionaries !== undefined && frequencyDictionaries.length === 0 && (
+                <Typography variant="body2">{t('settings.frequencyListsEmpty')}</Typography>
+            )}
+            {frequencyDictionaries?.map((dictionary) => (
+                <Typography key={dictionary.title} variant="body2">
+                    {t('settings.frequencyList', { title: dictionary.title, count: dictionary.count })}
+                </Typography>
+            ))}
+            <SettingsTextField
+                type="number"
+                label={t('settings.dictionaryFrequencyHighlightLimit')}
+                helperText={t('settings.dictionaryFrequencyHighlightLimitHelperText')}
+                value={selectedDictionary.dictionaryFrequencyHighlightLimit}
+                color="primary"
+                onChange={(e) => {
+                    const newTracks = [...dictionaryTracks];
+                    newTracks[selectedDictionaryTrack] = {
+                        ...newTracks[selectedDictionaryTrack],
+                        dictionaryFrequencyHighlightLimit: Math.max(0, Number(e.target.value)),
+                    };
+                    onSettingChanged('dictionaryTracks', newTracks);
+                }}
+                slotProps={{
+                    htmlInput: { min: 0, step: 1000 },
+                }}
+            />
+            <Button
+                variant="contained"
+                color="primary"
+                style={{ width: '100%' }}
+                disabled={frequencyImporting}
+                onClick={() => frequencyFileInputRef.current?.click()}
+            >
+                {t(frequencyImporting ? 'settings.frequencyListsImporting' : 'settings.frequencyListsImport')}
+            </Button>
+            <Typography variant="caption" color="textSecondary">
+                {t('settings.frequencyListsImportHelp')}
+            </Typography>
+            <Button
+                variant="contained"
+                color="primary"
+                style={{ width: '100%' }}
+                disabled={frequencyImporting || !frequencyDictionaries?.length}
+                onClick={handleClearFrequencies}
+            >
+                {t('settings.frequencyListsClear')}
+            </Button>
+            {frequencyImportError !== undefined && <Alert severity="error">{frequencyImportError}</Alert>}
+            {frequencyImportError === undefined && frequencyImported !== undefined && (
+                <Alert severity="success">{t('settings.frequencyListsImported', { count: frequencyImported })}</Alert>
+            )}
+            <input
+                ref={frequencyFileInputRef}
+                onChange={handleFrequencyFileInputChange}
+                type="file"
+                accept=".zip,.json,.txt,.csv,.tsv"
+                multiple
+                hidden
+            />
             <SettingsSection>{t('settings.anki')}</SettingsSection>
             <Autocomplete
                 multiple
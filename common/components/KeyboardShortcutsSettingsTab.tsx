@@ -236,6 +236,7 @@ const KeyboardShortcutsSettingsTab: React.FC<Props> = ({
     const {
         autoPausePreference,
         fastForwardModePlaybackRate,
+        detectSpeechWithoutSubtitles,
         seekDuration,
         alwaysPlayOnSubtitleRepeat,
         speedChangeStep,
@@ -309,7 +310,23 @@ const KeyboardShortcutsSettingsTab: React.FC<Props> = ({
                     />
                 ),
             },
-            toggleCondensedPlayback: { label: t('binds.toggleCondensedPlayback')!, boundViaChrome: false },
+            toggleCondensedPlayback: {
+                label: t('binds.toggleCondensedPlayback')!,
+                boundViaChrome: false,
+                additionalControl: (
+                    <KeyBindRelatedSetting
+                        label={t('settings.detectSpeechWithoutSubtitles')}
+                        control={
+                            <Switch
+                                checked={detectSpeechWithoutSubtitles}
+                                onChange={(event) =>
+                                    onSettingChanged('detectSpeechWithoutSubtitles', event.target.checked)
+                                }
+                            />
+                        }
+                    />
+                ),
+            },
             toggleFastForwardPlayback: {
                 label: t('binds.toggleFastForwardPlayback')!,
                 boundViaChrome: false,
@@ -470,6 +487,22 @@ const KeyboardShortcutsSettingsTab: React.FC<Props> = ({
                 label: t('binds.moveTopSubtitlesDown')!,
                 boundViaChrome: false,
             },
+            markHoveredWordKnown: {
+                label: t('binds.markHoveredWordKnown')!,
+                boundViaChrome: false,
+            },
+            markHoveredWordLearning: {
+                label: t('binds.markHoveredWordLearning')!,
+                boundViaChrome: false,
+            },
+            ignoreHoveredWord: {
+                label: t('binds.ignoreHoveredWord')!,
+                boundViaChrome: false,
+            },
+            markForMining: {
+                label: t('binds.markForMining')!,
+                boundViaChrome: false,
+            },
         }),
         [
             t,
@@ -482,6 +515,7 @@ const KeyboardShortcutsSettingsTab: React.FC<Props> = ({
             autoPausePreference,
             speedChangeStep,
             fastForwardModePlaybackRate,
+            detectSpeechWithoutSubtitles,
         ]
     );
 
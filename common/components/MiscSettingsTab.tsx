@@ -55,16 +55,24 @@ const MiscSettingTab: React.FC<Props> = ({
         rememberSubtitleOffset,
         autoCopyCurrentSubtitle,
         miningHistoryStorageLimit,
+        miningQueueStorageLimit,
         subtitleRegexFilter,
         tabName,
         subtitleRegexFilterTextReplacement,
+        subtitleStyleFilter,
         subtitleHtml,
         convertNetflixRuby,
+        ocrImageSubtitles,
+        subtitleOverlapRepair,
+        subtitleMinimumDuration,
+        subtitleGapSnapThreshold,
+        removeDuplicateSubtitles,
         pauseOnHoverMode,
         webSocketClientEnabled,
         webSocketServerUrl,
     } = settings;
     const validRegex = useMemo(() => regexIsValid(subtitleRegexFilter), [subtitleRegexFilter]);
+    const validStyleFilter = useMemo(() => regexIsValid(subtitleStyleFilter), [subtitleStyleFilter]);
     const [webSocketConnectionSucceeded, setWebSocketConnectionSucceeded] = useState<boolean>();
     const pingWebSocketServer = useCallback(() => {
         const client = new WebSocketClient();
@@ -197,6 +205,17 @@ const MiscSettingTab: React.FC<Props> = ({
                     color="primary"
                     onChange={(event) => onSettingChanged('subtitleRegexFilterTextReplacement', event.target.value)}
                 />
+                <SettingsTextField
+                    label={t('settings.subtitleStyleFilter')}
+                    fullWidth
+                    value={subtitleStyleFilter}
+                    color="primary"
+                    error={!validStyleFilter}
+                    helperText={
+                        validStyleFilter ? t('settings.subtitleStyleFilterHelperText') : 'Invalid regular expression'
+                    }
+                    onChange={(event) => onSettingChanged('subtitleStyleFilter', event.target.value)}
+                />
                 <FormControl>
                     <FormLabel>{t('settings.subtitleHtml')}</FormLabel>
                     <RadioGroup row>
@@ -236,6 +255,96 @@ const MiscSettingTab: React.FC<Props> = ({
                     label={t('settings.convertNetflixRuby')}
                     labelPlacement="start"
                 />
+                <SwitchLabelWithHoverEffect
+                    control={
+                        <Switch
+                            checked={ocrImageSubtitles}
+                            onChange={(event) => onSettingChanged('ocrImageSubtitles', event.target.checked)}
+                        />
+                    }
+                    label={t('settings.ocrImageSubtitles')}
+                    labelPlacement="start"
+                />
+                <SettingsSection>{t('settings.subtitleTimingRepair')}</SettingsSection>
+                <FormControl>
+                    <FormLabel>{t('settings.subtitleOverlapRepair')}</FormLabel>
+                    <RadioGroup row>
+                        <LabelWithHoverEffect
+                            control={
+                                <Radio
+                                    checked={subtitleOverlapRepair === 'none'}
+                                    value="none"
+                                    onChange={(event) =>
+                                        event.target.checked && onSettingChanged('subtitleOverlapRepair', 'none')
+                                    }
+                                />
+                            }
+                            label={t('settings.subtitleOverlapRepairNone')}
+                        />
+                        <LabelWithHoverEffect
+                            control={
+                                <Radio
+                                    checked={subtitleOverlapRepair === 'trim'}
+                                    value="trim"
+                                    onChange={(event) =>
+                                        event.target.checked && onSettingChanged('subtitleOverlapRepair', 'trim')
+                                    }
+                                />
+                            }
+                            label={t('settings.subtitleOverlapRepairTrim')}
+                        />
+                        <LabelWithHoverEffect
+                            control={
+                                <Radio
+                                    checked={subtitleOverlapRepair === 'merge'}
+                                    value="merge"
+                                    onChange={(event) =>
+                                        event.target.checked && onSettingChanged('subtitleOverlapRepair', 'merge')
+                                    }
+                                />
+                            }
+                            label={t('settings.subtitleOverlapRepairMerge')}
+                        />
+                    </RadioGroup>
+                </FormControl>
+                <SettingsTextField
+                    type="number"
+                    label={t('settings.subtitleMinimumDuration')}
+                    fullWidth
+                    value={subtitleMinimumDuration}
+                    color="primary"
+                    onChange={(event) => onSettingChanged('subtitleMinimumDuration', Number(event.target.value))}
+                    slotProps={{
+                        htmlInput: {
+                            min: 0,
+                            step: 100,
+                        },
+                    }}
+                />
+                <SettingsTextField
+                    type="number"
+                    label={t('settings.subtitleGapSnapThreshold')}
+                    fullWidth
+                    value={subtitleGapSnapThreshold}
+                    color="primary"
+                    onChange={(event) => onSettingChanged('subtitleGapSnapThreshold', Number(event.target.value))}
+                    slotProps={{
+                        htmlInput: {
+                            min: 0,
+                            step: 10,
+                        },
+                    }}
+                />
+                <SwitchLabelWithHoverEffect
+                    control={
+                        <Switch
+                            checked={removeDuplicateSubtitles}
+                            onChange={(event) => onSettingChanged('removeDuplicateSubtitles', event.target.checked)}
+                        />
+                    }
+                    label={t('settings.removeDuplicateSubtitles')}
+                    labelPlacement="start"
+                />
                 {(!extensionInstalled || extensionSupportsPauseOnHover) && (
                     <FormControl>
                         <FormLabel component="legend">{t('settings.pauseOnHoverMode')}</FormLabel>
@@ -329,6 +438,21 @@ const MiscSettingTab: React.FC<Props> = ({
                         },
                     }}
                 />
+                <SettingsTextField
+                    type="number"
+                    label={t('settings.miningQueueStorageLimit')}
+                    helperText={t('settings.miningQueueStorageLimitHelperText')}
+                    fullWidth
+                    value={miningQueueStorageLimit}
+                    color="primary"
+                    onChange={(event) => onSettingChanged('miningQueueStorageLimit', Number(event.target.value))}
+                    slotProps={{
+                        htmlInput: {
+                            min: 0,
+                            step: 1,
+                        },
+                    }}
+                />
                 {insideApp && (
                     <SettingsTextField
                         label={t('settings.tabName')}
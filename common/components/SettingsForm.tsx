@@ -22,6 +22,7 @@ import KeyboardShortcutsSettingsTab from './KeyboardShortcutsSettingsTab';
 import StreamingVideoSettingsTab from './StreamingVideoSettingsTab';
 import MiscSettingsTab from './MiscSettingsTab';
 import WatchTimeSettingsTab from './WatchTimeSettingsTab';
+import StudyModeSettingsTab from './StudyModeSettingsTab';
 import type ChromeExtension from '../app/services/chrome-extension';
 
 interface StylesProps {
@@ -151,6 +152,7 @@ type TabName =
     | 'keyboard-shortcuts'
     | 'streaming-video'
     | 'watch-time'
+    | 'study-mode'
     | 'misc-settings';
 
 interface SettingsFormPageConfig extends PageConfig {
@@ -247,6 +249,7 @@ export default function SettingsForm({
             'dictionary',
             'streaming-video',
             'watch-time',
+            'study-mode',
             'misc-settings',
             'about',
         ];
@@ -257,6 +260,7 @@ export default function SettingsForm({
 
         if (!extensionInstalled) {
             tabs.splice(tabs.indexOf('watch-time'), 1);
+            tabs.splice(tabs.indexOf('study-mode'), 1);
         }
 
         return Object.fromEntries(tabs.map((tab, i) => [tab, i]));
@@ -316,6 +320,7 @@ export default function SettingsForm({
                 {extensionInstalled && (
                     <Tab label={t('settings.watchTime', 'Statistics')} id="watch-time" />
                 )}
+                {extensionInstalled && <Tab label={t('settings.studyMode')} id="study-mode" />}
                 <Tab label={t('settings.misc')} id="misc-settings" />
                 <Tab label={t('about.title')} id="about" />
             </Tabs>
@@ -391,6 +396,11 @@ export default function SettingsForm({
                     />
                 </TabPanel>
             )}
+            {extensionInstalled && (
+                <TabPanel value={tabIndex} index={tabIndicesById['study-mode']} tabsOrientation={tabsOrientation}>
+                    <StudyModeSettingsTab anki={anki} settings={settings} onSettingChanged={handleSettingChanged} />
+                </TabPanel>
+            )}
             <TabPanel value={tabIndex} index={tabIndicesById['misc-settings']} tabsOrientation={tabsOrientation}>
                 <MiscSettingsTab
                     settings={settings}
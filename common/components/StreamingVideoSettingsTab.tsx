@@ -53,6 +53,7 @@ const StreamingVideoSettingsTab: React.FC<Props> = ({
         streamingEnableOverlay,
         streamingDisplaySubtitles,
         streamingRecordMedia,
+        streamingRecordQueuedMedia,
         streamingTakeScreenshot,
         streamingCleanScreenshot,
         streamingCropScreenshot,
@@ -60,6 +61,8 @@ const StreamingVideoSettingsTab: React.FC<Props> = ({
         streamingSubsDragAndDrop,
         streamingAutoSync,
         streamingAutoSyncPromptOnFailure,
+        streamingRememberSubtitles,
+        streamingAutoLoadRememberedSubtitles,
         streamingCondensedPlaybackMinimumSkipIntervalMs,
         streamingAppUrl,
         streamingPages,
@@ -143,6 +146,17 @@ const StreamingVideoSettingsTab: React.FC<Props> = ({
                     label={t('extension.settings.recordAudio')}
                     labelPlacement="start"
                 />
+                <SwitchLabelWithHoverEffect
+                    control={
+                        <Switch
+                            checked={streamingRecordQueuedMedia}
+                            disabled={!streamingRecordMedia}
+                            onChange={(e) => onSettingChanged('streamingRecordQueuedMedia', e.target.checked)}
+                        />
+                    }
+                    label={t('extension.settings.recordQueuedAudio')}
+                    labelPlacement="start"
+                />
                 <SwitchLabelWithHoverEffect
                     control={
                         <Switch
@@ -221,6 +235,27 @@ const StreamingVideoSettingsTab: React.FC<Props> = ({
                     label={t('extension.settings.autoLoadDetectedSubsFailure')}
                     labelPlacement="start"
                 />
+                <SwitchLabelWithHoverEffect
+                    control={
+                        <Switch
+                            checked={streamingRememberSubtitles}
+                            onChange={(e) => onSettingChanged('streamingRememberSubtitles', e.target.checked)}
+                        />
+                    }
+                    label={t('extension.settings.rememberSubtitles')}
+                    labelPlacement="start"
+                />
+                <SwitchLabelWithHoverEffect
+                    control={
+                        <Switch
+                            checked={streamingAutoLoadRememberedSubtitles}
+                            disabled={!streamingRememberSubtitles}
+                            onChange={(e) => onSettingChanged('streamingAutoLoadRememberedSubtitles', e.target.checked)}
+                        />
+                    }
+                    label={t('extension.settings.autoLoadRememberedSubtitles')}
+                    labelPlacement="start"
+                />
                 <SettingsSection>{t('settings.misc')}</SettingsSection>
                 <SettingsTextField
                     type="number"
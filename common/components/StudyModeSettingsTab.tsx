@@ -0,0 +1,412 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import Button from '@mui/material/Button';
+import FormControl from '@mui/material/FormControl';
+import FormHelperText from '@mui/material/FormHelperText';
+import FormLabel from '@mui/material/FormLabel';
+import Radio from '@mui/material/Radio';
+import RadioGroup from '@mui/material/RadioGroup';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import AddIcon from '@mui/icons-material/Add';
+import { AsbplayerSettings } from '../settings';
+import type {
+    FocusMode,
+    LineSelectionStrategy,
+    StudyDeckConfig,
+    StudyIntensity,
+    StudyTestType,
+    TokenBlankingStrategy,
+} from '../study-mode';
+import type { LocalTokenizerType, SudachiSplitMode } from '../tokenizer';
+import { Anki } from '../anki';
+import AnkiSelect from './AnkiSelect';
+import LabelWithHoverEffect from './LabelWithHoverEffect';
+import SettingsSection from './SettingsSection';
+import SettingsTextField from './SettingsTextField';
+import SwitchLabelWithHoverEffect from './SwitchLabelWithHoverEffect';
+
+const lineSelectionStrategies: LineSelectionStrategy[] = ['random', 'prioritize_unknown'];
+const tokenBlankingStrategies: TokenBlankingStrategy[] = ['random', 'prioritize_unknown'];
+const testTypes: StudyTestType[] = ['cloze', 'multiple_choice', 'dictation', 'reading'];
+const intensities: StudyIntensity[] = ['low', 'medium', 'high'];
+const focusModes: FocusMode[] = ['balanced', 'anki', 'recognition'];
+const tokenizers: LocalTokenizerType[] = ['kuromoji', 'sudachi'];
+const sudachiSplitModes: SudachiSplitMode[] = ['A', 'B', 'C'];
+
+interface Props {
+    settings: AsbplayerSettings;
+    onSettingChanged: <K extends keyof AsbplayerSettings>(key: K, value: AsbplayerSettings[K]) => Promise<void>;
+    anki: Anki;
+}
+
+const StudyModeSettingsTab: React.FC<Props> = ({ settings, onSettingChanged, anki }) => {
+    const { t } = useTranslation();
+    const {
+        ankiConnectUrl,
+        studyModeEnabled,
+        studyModeFrequency,
+        studyModeLineSelection,
+        studyModeTokenSelection,
+        studyModeTestType,
+        studyModeIncludeConjugations,
+        studyModeDecks,
+        studyModeTrackResults,
+        studyModeClipStorageLimit,
+        studyModeIntensity,
+        studyModeRateLimitSeconds,
+        studyModeFocusMode,
+        studyModeTokenizer,
+        studyModeSudachiSplitMode,
+        studyModeMatchLongVowels,
+        studyModeMatchYotsugana,
+        studyModeMatchSmallKana,
+        studyModeCloseAnswerDistance,
+        studyModeRomajiInput,
+    } = settings;
+    const [deckNames, setDeckNames] = useState<string[]>();
+    const [allFieldNames, setAllFieldNames] = useState<string[]>();
+    const [ankiError, setAnkiError] = useState<string>();
+
+    useEffect(() => {
+        (async () => {
+            try {
+                setDeckNames(await anki.deckNames(ankiConnectUrl));
+                const modelNames = await anki.modelNames(ankiConnectUrl);
+                const allFieldNamesSet = new Set<string>();
+                for (const modelName of modelNames) {
+                    const fieldNames = await anki.modelFieldNames(modelName, ankiConnectUrl);
+                    for (const fieldName of fieldNames) {
+                        allFieldNamesSet.add(fieldName);
+                    }
+                }
+                setAllFieldNames(Array.from(allFieldNamesSet).sort((a, b) => a.localeCompare(b)));
+                setAnkiError(undefined);
+            } catch (e) {
+                setDeckNames(undefined);
+                setAllFieldNames(undefined);
+                setAnkiError(e instanceof Error ? e.message : String(e));
+            }
+        })();
+    }, [anki, ankiConnectUrl]);
+
+    const handleDeckChanged = useCallback(
+        (index: number, deck: Partial<StudyDeckConfig>) => {
+            const newDecks = [...studyModeDecks];
+            newDecks[index] = { ...newDecks[index], ...deck };
+            onSettingChanged('studyModeDecks', newDecks);
+        },
+        [studyModeDecks, onSettingChanged]
+    );
+    const handleDeckRemoved = useCallback(
+        (index: number) => {
+            onSettingChanged(
+                'studyModeDecks',
+                studyModeDecks.filter((_, i) => i !== index)
+            );
+        },
+        [studyModeDecks, onSettingChanged]
+    );
+    const handleDeckAdded = useCallback(() => {
+        onSettingChanged('studyModeDecks', [...studyModeDecks, { name: '', wordField: '', enabled: true }]);
+    }, [studyModeDecks, onSettingChanged]);
+
+    return (
+        <Stack spacing={1}>
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeEnabled}
+                        onChange={(e) => onSettingChanged('studyModeEnabled', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeEnabled')}
+                labelPlacement="start"
+            />
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeTrackResults}
+                        onChange={(e) => onSettingChanged('studyModeTrackResults', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeTrackResults')}
+                labelPlacement="start"
+            />
+            <SettingsTextField
+                type="number"
+                label={t('settings.studyModeClipStorageLimit')}
+                fullWidth
+                value={studyModeClipStorageLimit}
+                color="primary"
+                onChange={(e) => onSettingChanged('studyModeClipStorageLimit', Number(e.target.value))}
+                slotProps={{
+                    htmlInput: {
+                        min: 0,
+                        step: 1,
+                    },
+                }}
+                helperText={t('settings.studyModeClipStorageLimitHelperText')}
+            />
+            <SettingsSection>{t('settings.studyModeLines')}</SettingsSection>
+            <FormControl>
+                <FormLabel component="legend">{t('settings.studyModeLineSelection')}</FormLabel>
+                <RadioGroup row={false}>
+                    {lineSelectionStrategies.map((strategy) => (
+                        <LabelWithHoverEffect
+                            key={strategy}
+                            control={
+                                <Radio
+                                    checked={studyModeLineSelection === strategy}
+                                    onChange={() => onSettingChanged('studyModeLineSelection', strategy)}
+                                />
+                            }
+                            label={t(`settings.studyModeLineSelection_${strategy}`)}
+                        />
+                    ))}
+                </RadioGroup>
+            </FormControl>
+            {studyModeLineSelection === 'random' && (
+                <SettingsTextField
+                    type="number"
+                    label={t('settings.studyModeFrequency')}
+                    fullWidth
+                    value={studyModeFrequency}
+                    color="primary"
+                    onChange={(e) => onSettingChanged('studyModeFrequency', Number(e.target.value))}
+                    slotProps={{
+                        htmlInput: {
+                            min: 1,
+                            step: 1,
+                        },
+                    }}
+                />
+            )}
+            {studyModeLineSelection === 'prioritize_unknown' && (
+                <FormControl>
+                    <FormLabel component="legend">{t('settings.studyModeIntensity')}</FormLabel>
+                    <RadioGroup row={false}>
+                        {intensities.map((intensity) => (
+                            <LabelWithHoverEffect
+                                key={intensity}
+                                control={
+                                    <Radio
+                                        checked={studyModeIntensity === intensity}
+                                        onChange={() => onSettingChanged('studyModeIntensity', intensity)}
+                                    />
+                                }
+                                label={t(`settings.studyModeIntensity_${intensity}`)}
+                            />
+                        ))}
+                    </RadioGroup>
+                </FormControl>
+            )}
+            <SettingsTextField
+                type="number"
+                label={t('settings.studyModeRateLimitSeconds')}
+                fullWidth
+                value={studyModeRateLimitSeconds}
+                color="primary"
+                onChange={(e) => onSettingChanged('studyModeRateLimitSeconds', Number(e.target.value))}
+                slotProps={{
+                    htmlInput: {
+                        min: 0,
+                        step: 1,
+                    },
+                }}
+                helperText={t('settings.studyModeRateLimitSecondsHelperText')}
+            />
+            <SettingsSection>{t('settings.studyModeBlanks')}</SettingsSection>
+            <FormControl>
+                <FormLabel component="legend">{t('settings.studyModeTestType')}</FormLabel>
+                <RadioGroup row={false}>
+                    {testTypes.map((testType) => (
+                        <LabelWithHoverEffect
+                            key={testType}
+                            control={
+                                <Radio
+                                    checked={studyModeTestType === testType}
+                                    onChange={() => onSettingChanged('studyModeTestType', testType)}
+                                />
+                            }
+                            label={t(`settings.studyModeTestType_${testType}`)}
+                        />
+                    ))}
+                </RadioGroup>
+            </FormControl>
+            <FormControl>
+                <FormLabel component="legend">{t('settings.studyModeTokenSelection')}</FormLabel>
+                <RadioGroup row={false}>
+                    {tokenBlankingStrategies.map((strategy) => (
+                        <LabelWithHoverEffect
+                            key={strategy}
+                            control={
+                                <Radio
+                                    checked={studyModeTokenSelection === strategy}
+                                    onChange={() => onSettingChanged('studyModeTokenSelection', strategy)}
+                                />
+                            }
+                            label={t(`settings.studyModeTokenSelection_${strategy}`)}
+                        />
+                    ))}
+                </RadioGroup>
+            </FormControl>
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeIncludeConjugations}
+                        onChange={(e) => onSettingChanged('studyModeIncludeConjugations', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeIncludeConjugations')}
+                labelPlacement="start"
+            />
+            <FormControl>
+                <FormLabel component="legend">{t('settings.studyModeFocusMode')}</FormLabel>
+                <RadioGroup row={false}>
+                    {focusModes.map((focusMode) => (
+                        <LabelWithHoverEffect
+                            key={focusMode}
+                            control={
+                                <Radio
+                                    checked={studyModeFocusMode === focusMode}
+                                    onChange={() => onSettingChanged('studyModeFocusMode', focusMode)}
+                                />
+                            }
+                            label={t(`settings.studyModeFocusMode_${focusMode}`)}
+                        />
+                    ))}
+                </RadioGroup>
+            </FormControl>
+            <SettingsSection>{t('settings.studyModeAnswers')}</SettingsSection>
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeRomajiInput}
+                        onChange={(e) => onSettingChanged('studyModeRomajiInput', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeRomajiInput')}
+                labelPlacement="start"
+            />
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeMatchLongVowels}
+                        onChange={(e) => onSettingChanged('studyModeMatchLongVowels', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeMatchLongVowels')}
+                labelPlacement="start"
+            />
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeMatchYotsugana}
+                        onChange={(e) => onSettingChanged('studyModeMatchYotsugana', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeMatchYotsugana')}
+                labelPlacement="start"
+            />
+            <SwitchLabelWithHoverEffect
+                control={
+                    <Switch
+                        checked={studyModeMatchSmallKana}
+                        onChange={(e) => onSettingChanged('studyModeMatchSmallKana', e.target.checked)}
+                    />
+                }
+                label={t('settings.studyModeMatchSmallKana')}
+                labelPlacement="start"
+            />
+            <SettingsTextField
+                type="number"
+                label={t('settings.studyModeCloseAnswerDistance')}
+                fullWidth
+                value={studyModeCloseAnswerDistance}
+                color="primary"
+                onChange={(e) => onSettingChanged('studyModeCloseAnswerDistance', Number(e.target.value))}
+                slotProps={{
+                    htmlInput: {
+                        min: 0,
+                        step: 1,
+                    },
+                }}
+                helperText={t('settings.studyModeCloseAnswerDistanceHelperText')}
+            />
+            <SettingsSection>{t('settings.studyModeWordAnalysis')}</SettingsSection>
+            <FormControl>
+                <FormLabel component="legend">{t('settings.studyModeTokenizer')}</FormLabel>
+                <RadioGroup row={false}>
+                    {tokenizers.map((tokenizer) => (
+                        <LabelWithHoverEffect
+                            key={tokenizer}
+                            control={
+                                <Radio
+                                    checked={studyModeTokenizer === tokenizer}
+                                    onChange={() => onSettingChanged('studyModeTokenizer', tokenizer)}
+                                />
+                            }
+                            label={t(`settings.studyModeTokenizer_${tokenizer}`)}
+                        />
+                    ))}
+                </RadioGroup>
+            </FormControl>
+            {studyModeTokenizer === 'sudachi' && (
+                <FormControl>
+                    <FormLabel component="legend">{t('settings.studyModeSudachiSplitMode')}</FormLabel>
+                    <RadioGroup row={false}>
+                        {sudachiSplitModes.map((splitMode) => (
+                            <LabelWithHoverEffect
+                                key={splitMode}
+                                control={
+                                    <Radio
+                                        checked={studyModeSudachiSplitMode === splitMode}
+                                        onChange={() => onSettingChanged('studyModeSudachiSplitMode', splitMode)}
+                                    />
+                                }
+                                label={t(`settings.studyModeSudachiSplitMode_${splitMode}`)}
+                            />
+                        ))}
+                    </RadioGroup>
+                </FormControl>
+            )}
+            <SettingsSection>{t('settings.studyModeDecks')}</SettingsSection>
+            <FormHelperText>{t('settings.studyModeDecksHelperText')}</FormHelperText>
+            {ankiError && <FormHelperText error>{ankiError}</FormHelperText>}
+            {studyModeDecks.map((deck, index) => (
+                <Stack key={index} spacing={1}>
+                    <AnkiSelect
+                        label={t('settings.deck')}
+                        value={deck.name}
+                        selections={deckNames}
+                        removable
+                        onRemoval={() => handleDeckRemoved(index)}
+                        onValueChange={(value) => handleDeckChanged(index, { name: value })}
+                    />
+                    <AnkiSelect
+                        label={t('settings.wordField')}
+                        value={deck.wordField}
+                        selections={allFieldNames}
+                        onValueChange={(value) => handleDeckChanged(index, { wordField: value })}
+                    />
+                    <SwitchLabelWithHoverEffect
+                        control={
+                            <Switch
+                                checked={deck.enabled}
+                                onChange={(e) => handleDeckChanged(index, { enabled: e.target.checked })}
+                            />
+                        }
+                        label={t('settings.studyModeDeckEnabled')}
+                        labelPlacement="start"
+                    />
+                </Stack>
+            ))}
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={handleDeckAdded}>
+                {t('settings.studyModeAddDeck')}
+            </Button>
+        </Stack>
+    );
+};
+
+export default StudyModeSettingsTab;
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Dialog from '@mui/material/Dialog';
+import Toolbar from '@mui/material/Toolbar';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import CloseIcon from '@mui/icons-material/Close';
+import IconButton from '@mui/material/IconButton';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import { useTranslation } from 'react-i18next';
+import {
+    ExportableSubtitle,
+    SubtitleExportFormat,
+    exportableSubtitles,
+    subtitleExportFormats,
+    subtitleExportMimeType,
+    subtitlesToFormat,
+} from '@project/common/subtitle-reader';
+import { download } from '@project/common/util';
+
+const allTracks = 'all';
+
+interface Props {
+    open: boolean;
+    subtitles: ExportableSubtitle[];
+    // Whether lines without text are exported, e.g. detected speech to be transcribed
+    emptyText?: boolean;
+    trackNames: string[];
+    fileName: string;
+    onClose: () => void;
+}
+
+const SubtitleExportDialog = ({ open, subtitles, emptyText = false, trackNames, fileName, onClose }: Props) => {
+    const { t } = useTranslation();
+    const [format, setFormat] = useState<SubtitleExportFormat>('srt');
+    const [track, setTrack] = useState<number | typeof allTracks>(0);
+    const trackCount = useMemo(() => subtitles.reduce((count, s) => Math.max(count, s.track + 1), 0), [subtitles]);
+
+    useEffect(() => {
+        if (track !== allTracks && track >= trackCount) {
+            setTrack(0);
+        }
+    }, [track, trackCount]);
+
+    const selectedTrack = track === allTracks ? undefined : track;
+    const empty = useMemo(
+        () => exportableSubtitles(subtitles, selectedTrack, emptyText).length === 0,
+        [subtitles, selectedTrack, emptyText]
+    );
+
+    const handleExport = useCallback(() => {
+        download(
+            new Blob([subtitlesToFormat(subtitles, format, selectedTrack, emptyText)], {
+                type: subtitleExportMimeType(format),
+            }),
+            `${fileName}.${format}`
+        );
+        onClose();
+    }, [subtitles, format, selectedTrack, emptyText, fileName, onClose]);
+
+    return (
+        <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+            <Toolbar>
+                <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                    {t('subtitleExport.title')}
+                </Typography>
+                <IconButton edge="end" onClick={onClose}>
+                    <CloseIcon />
+                </IconButton>
+            </Toolbar>
+            <DialogContent>
+                <Stack spacing={2}>
+                    <TextField
+                        select
+                        label={t('subtitleExport.format')}
+                        value={format}
+                        onChange={(e) => setFormat(e.target.value as SubtitleExportFormat)}
+                    >
+                        {subtitleExportFormats.map((f) => (
+                            <MenuItem key={f} value={f}>
+                                {t(`subtitleExport.formats.${f}`)}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                    {trackCount > 1 && (
+                        <TextField
+                            select
+                            label={t('subtitleExport.track')}
+                            value={track}
+                            onChange={(e) =>
+                                setTrack(e.target.value === allTracks ? allTracks : Number(e.target.value))
+                            }
+                        >
+                            {[...Array(trackCount).keys()].map((i) => (
+                                <MenuItem key={i} value={i}>
+                                    {trackNames[i] ?? t('settings.subtitleTrackChoice', { trackNumber: i + 1 })}
+                                </MenuItem>
+                            ))}
+                            <MenuItem value={allTracks}>{t('subtitleExport.allTracksMerged')}</MenuItem>
+                        </TextField>
+                    )}
+                    <Typography variant="caption" color="text.secondary">
+                        {t('subtitleExport.offsetApplied')}
+                    </Typography>
+                </Stack>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>{t('action.cancel')}</Button>
+                <Button onClick={handleExport} disabled={empty}>
+                    {t('subtitleExport.export')}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default SubtitleExportDialog;
@@ -0,0 +1,71 @@
+import { TokenStatus } from '@project/common/settings';
+import { comprehension, comprehensionReport } from './comprehension-report';
+
+const token = (lemma: string, status: TokenStatus) => ({ lemma, status });
+
+const line = (start: number, end: number, ...tokens: { lemma: string; status: TokenStatus }[]) => ({
+    start,
+    end,
+    tokens,
+});
+
+it('counts words that are at least graduated as known', () => {
+    const report = comprehensionReport([
+        line(
+            0,
+            1000,
+            token('猫', TokenStatus.MATURE),
+            token('が', TokenStatus.YOUNG),
+            token('走る', TokenStatus.GRADUATED),
+            token('速い', TokenStatus.LEARNING)
+        ),
+    ]);
+    expect(report.knownTokens).toEqual(3);
+    expect(report.totalTokens).toEqual(4);
+    expect(comprehension(report)).toEqual(0.75);
+    expect(report.unknownLemmas).toEqual([]);
+});
+
+it('ranks unknown lemmas by how often they appear', () => {
+    const report = comprehensionReport([
+        line(0, 1000, token('犬', TokenStatus.UNCOLLECTED), token('猫', TokenStatus.UNKNOWN)),
+        line(1000, 2000, token('猫', TokenStatus.UNKNOWN), token('鳥', TokenStatus.UNCOLLECTED)),
+        line(2000, 3000, token('鳥', TokenStatus.UNCOLLECTED), token('猫', TokenStatus.UNKNOWN)),
+    ]);
+    expect(report.unknownLemmas).toEqual([
+        { lemma: '猫', count: 3 },
+        { lemma: '鳥', count: 2 },
+        { lemma: '犬', count: 1 },
+    ]);
+});
+
+it('splits lines into scenes at long silences', () => {
+    const report = comprehensionReport(
+        [
+            line(6000, 7000, token('犬', TokenStatus.UNCOLLECTED)),
+            line(0, 1000, token('猫', TokenStatus.MATURE)),
+            line(1500, 3000, token('猫', TokenStatus.MATURE), token('犬', TokenStatus.UNCOLLECTED)),
+            line(20000, 21000),
+        ],
+        3000
+    );
+    expect(report.scenes).toEqual([
+        { start: 0, end: 3000, knownTokens: 2, totalTokens: 3 },
+        { start: 6000, end: 7000, knownTokens: 0, totalTokens: 1 },
+    ]);
+
+    const shortGapReport = comprehensionReport(
+        [line(0, 1000, token('猫', TokenStatus.MATURE)), line(1500, 3000, token('犬', TokenStatus.UNCOLLECTED))],
+        500
+    );
+    expect(shortGapReport.scenes).toEqual([
+        { start: 0, end: 1000, knownTokens: 1, totalTokens: 1 },
+        { start: 1500, end: 3000, knownTokens: 0, totalTokens: 1 },
+    ]);
+});
+
+it('has no comprehension without words', () => {
+    const report = comprehensionReport([line(0, 1000)]);
+    expect(comprehension(report)).toBeUndefined();
+    expect(report.scenes).toEqual([]);
+});
@@ -0,0 +1,102 @@
+import { TokenStatus } from '@project/common/settings';
+
+// Words at least this well known in Anki or the known words count as understood
+const KNOWN_TOKEN_STATUS = TokenStatus.GRADUATED;
+
+// Adjacent lines are in the same scene unless there is at least this much silence between them
+export const SCENE_GAP_MS = 5000;
+
+export interface ComprehensionToken {
+    readonly lemma: string;
+    readonly status: TokenStatus;
+}
+
+export interface ComprehensionSubtitle {
+    readonly start: number;
+    readonly end: number;
+    readonly tokens: ComprehensionToken[];
+}
+
+export interface UnknownLemma {
+    readonly lemma: string;
+    readonly count: number;
+}
+
+export interface SceneComprehension {
+    readonly start: number;
+    readonly end: number;
+    readonly knownTokens: number;
+    readonly totalTokens: number;
+}
+
+/**
+ * How much of a subtitle file is understood before watching it, to choose content at the right level and to mine
+ * the most frequent unknown words ahead of time.
+ */
+export interface ComprehensionReport {
+    readonly knownTokens: number;
+    readonly totalTokens: number;
+    // Uncollected and unknown words, the most frequent first
+    readonly unknownLemmas: UnknownLemma[];
+    // Scenes that have words in them, in order of time
+    readonly scenes: SceneComprehension[];
+}
+
+/**
+ * Share of words that are understood.
+ * @returns A number from 0 to 1, undefined if there are no words
+ */
+export const comprehension = ({ knownTokens, totalTokens }: { knownTokens: number; totalTokens: number }) =>
+    totalTokens === 0 ? undefined : knownTokens / totalTokens;
+
+const tokenKnown = (token: ComprehensionToken) => token.status >= KNOWN_TOKEN_STATUS;
+
+const tokenUnknown = (token: ComprehensionToken) => token.status <= TokenStatus.UNKNOWN;
+
+/**
+ * Summarize the statuses of the words in each line of a subtitle file.
+ * @param subtitles Lines of every track whose words were colored, in any order
+ * @param sceneGapMs Silence between lines that starts a new scene
+ */
+export const comprehensionReport = (
+    subtitles: ComprehensionSubtitle[],
+    sceneGapMs = SCENE_GAP_MS
+): ComprehensionReport => {
+    const sortedSubtitles = [...subtitles].sort((a, b) => a.start - b.start || a.end - b.end);
+    const unknownCounts = new Map<string, number>();
+    const scenes: SceneComprehension[] = [];
+    let knownTokens = 0;
+    let totalTokens = 0;
+    let scene: { start: number; end: number; knownTokens: number; totalTokens: number } | undefined;
+
+    for (const subtitle of sortedSubtitles) {
+        if (scene === undefined || subtitle.start - scene.end >= sceneGapMs) {
+            if (scene !== undefined && scene.totalTokens > 0) scenes.push(scene);
+            scene = { start: subtitle.start, end: subtitle.end, knownTokens: 0, totalTokens: 0 };
+        }
+
+        // Lines of other tracks can end after the next line starts
+        scene.end = Math.max(scene.end, subtitle.end);
+
+        for (const token of subtitle.tokens) {
+            const known = tokenKnown(token) ? 1 : 0;
+            knownTokens += known;
+            totalTokens += 1;
+            scene.knownTokens += known;
+            scene.totalTokens += 1;
+
+            if (tokenUnknown(token)) {
+                unknownCounts.set(token.lemma, (unknownCounts.get(token.lemma) ?? 0) + 1);
+            }
+        }
+    }
+
+    if (scene !== undefined && scene.totalTokens > 0) scenes.push(scene);
+
+    // Maps keep the order of insertion and the sort is stable, so words that are as frequent stay in order of appearance
+    const unknownLemmas = [...unknownCounts.entries()]
+        .map(([lemma, count]) => ({ lemma, count }))
+        .sort((a, b) => b.count - a.count);
+
+    return { knownTokens, totalTokens, unknownLemmas, scenes };
+};
@@ -0,0 +1,9 @@
+export type {
+    ComprehensionToken,
+    ComprehensionSubtitle,
+    UnknownLemma,
+    SceneComprehension,
+    ComprehensionReport,
+} from './comprehension-report';
+
+export { comprehension, comprehensionReport, SCENE_GAP_MS } from './comprehension-report';
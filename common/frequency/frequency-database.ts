@@ -0,0 +1,15 @@
+import Dexie from 'dexie';
+import { FrequencyDictionary, FrequencyEntry } from './types';
+
+export class FrequencyDatabase extends Dexie {
+    ranks!: Dexie.Table<FrequencyEntry, string>;
+    dictionaries!: Dexie.Table<FrequencyDictionary, string>;
+
+    constructor() {
+        super('FrequencyDatabase');
+        this.version(1).stores({
+            ranks: 'lemma',
+            dictionaries: 'title',
+        });
+    }
+}
@@ -0,0 +1,59 @@
+import { parseFrequencyList, yomitanFrequencies } from './frequency-import';
+
+it('ranks words by the number next to them', () => {
+    expect(parseFrequencyList('word\trank\n食べる\t120\n飲む\t340\n', 'ranks.tsv')).toEqual([
+        { lemma: '食べる', rank: 120 },
+        { lemma: '飲む', rank: 340 },
+    ]);
+    expect(parseFrequencyList('1,"の"\n2,に\n', 'ranks.csv')).toEqual([
+        { lemma: 'の', rank: 1 },
+        { lemma: 'に', rank: 2 },
+    ]);
+});
+
+it('reads readings and other columns next to the rank', () => {
+    expect(parseFrequencyList('食べる\tたべる\t120\n食べる\tたべる\t90\n', 'jpdb.tsv')).toEqual([
+        { lemma: '食べる', rank: 90 },
+    ]);
+});
+
+it('ranks words in the order they are listed when there are no numbers', () => {
+    expect(parseFrequencyList('の\n\nに\r\nは\n', 'words.txt')).toEqual([
+        { lemma: 'の', rank: 1 },
+        { lemma: 'に', rank: 2 },
+        { lemma: 'は', rank: 3 },
+    ]);
+});
+
+it('reads every kind of Yomitan frequency data', () => {
+    const termMeta = [
+        ['食べる', 'freq', 120],
+        ['飲む', 'freq', { value: 340, displayValue: '340' }],
+        ['見る', 'freq', { reading: 'みる', frequency: 50 }],
+        ['見る', 'freq', { reading: 'みる', frequency: { value: 20, displayValue: '20㋕' } }],
+        ['来る', 'freq', '75㋕'],
+        ['来る', 'pitch', { reading: 'くる', pitches: [{ position: 1 }] }],
+    ];
+    expect(yomitanFrequencies(termMeta)).toEqual([
+        { lemma: '食べる', rank: 120 },
+        { lemma: '飲む', rank: 340 },
+        { lemma: '見る', rank: 20 },
+        { lemma: '来る', rank: 75 },
+    ]);
+    expect(parseFrequencyList(JSON.stringify(termMeta), 'term_meta_bank_1.json')).toHaveLength(4);
+});
+
+it('ranks occurrence based frequencies by how often words occur', () => {
+    const termMeta = [
+        ['食べる', 'freq', 10],
+        ['の', 'freq', 5000],
+        ['に', 'freq', 3000],
+        ['は', 'freq', 3000],
+    ];
+    expect(yomitanFrequencies(termMeta, true)).toEqual([
+        { lemma: 'の', rank: 1 },
+        { lemma: 'に', rank: 2 },
+        { lemma: 'は', rank: 2 },
+        { lemma: '食べる', rank: 4 },
+    ]);
+});
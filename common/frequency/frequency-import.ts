@@ -0,0 +1,169 @@
+import { FrequencyEntry } from './types';
+import { readZip } from './zip';
+
+type YomitanFrequencyValue = number | string | { value: number; displayValue?: string };
+
+// Frequency data of a term in a Yomitan term meta bank, optionally for a single reading of the term
+type YomitanFrequencyData = YomitanFrequencyValue | { reading: string; frequency: YomitanFrequencyValue };
+
+const TERM_META_BANK_REGEX = /^term_meta_bank_\d+\.json$/;
+const RANK_REGEX = /^\d+$/;
+
+const frequencyValue = (value: YomitanFrequencyValue) => {
+    if (typeof value === 'number') {
+        return value;
+    }
+
+    if (typeof value === 'string') {
+        // Display values such as '1234㋕' mark the rank of the kana spelling
+        const parsed = parseInt(value, 10);
+        return Number.isNaN(parsed) ? undefined : parsed;
+    }
+
+    return value.value;
+};
+
+const yomitanFrequencyValue = (data: YomitanFrequencyData) => {
+    if (typeof data === 'object' && 'frequency' in data) {
+        return frequencyValue(data.frequency);
+    }
+
+    return frequencyValue(data);
+};
+
+// A word listed more than once, e.g. once per reading, keeps its best rank
+const bestRanks = (entries: FrequencyEntry[]) => {
+    const ranks = new Map<string, number>();
+
+    for (const { lemma, rank } of entries) {
+        const existing = ranks.get(lemma);
+
+        if (existing === undefined || rank < existing) {
+            ranks.set(lemma, rank);
+        }
+    }
+
+    return [...ranks.entries()].map(([lemma, rank]) => ({ lemma, rank }));
+};
+
+/**
+ * Read the frequencies of a Yomitan frequency dictionary.
+ * @param termMeta Rows of the dictionary's term meta banks, which also hold pitch accents and readings that are skipped
+ * @param occurrenceBased Whether the values count occurrences rather than rank words, in which case the words are
+ * ranked by how often they occur
+ */
+export const yomitanFrequencies = (termMeta: unknown[], occurrenceBased = false): FrequencyEntry[] => {
+    const entries: FrequencyEntry[] = [];
+
+    for (const row of termMeta) {
+        if (!Array.isArray(row) || row[1] !== 'freq' || typeof row[0] !== 'string') {
+            continue;
+        }
+
+        const value = yomitanFrequencyValue(row[2] as YomitanFrequencyData);
+
+        if (value !== undefined && value > 0) {
+            entries.push({ lemma: row[0], rank: value });
+        }
+    }
+
+    if (!occurrenceBased) {
+        return bestRanks(entries);
+    }
+
+    const occurrences = bestRanks(entries.map(({ lemma, rank }) => ({ lemma, rank: -rank })));
+    occurrences.sort((a, b) => a.rank - b.rank);
+    let rank = 0;
+    return occurrences.map((entry, i) => {
+        // Words that occur equally often share a rank
+        if (i === 0 || entry.rank !== occurrences[i - 1].rank) {
+            rank = i + 1;
+        }
+
+        return { lemma: entry.lemma, rank };
+    });
+};
+
+/**
+ * Read a plain frequency list. Lines with a number rank the word next to it, in either order and alongside other
+ * columns such as readings, and lines without one, such as headers, are skipped. A list without any numbers ranks its
+ * words in the order they are listed. A JSON file is read as a single Yomitan term meta bank.
+ * @param text Contents of the file
+ * @param fileName Name of the file, whose extension decides the separator of CSV files
+ */
+export const parseFrequencyList = (text: string, fileName: string): FrequencyEntry[] => {
+    text = text.replace(/^\uFEFF/, '');
+
+    if (fileName.toLowerCase().endsWith('.json')) {
+        return yomitanFrequencies(JSON.parse(text));
+    }
+
+    let separator: string | RegExp = /\s+/;
+
+    if (text.includes('\t')) {
+        separator = '\t';
+    } else if (fileName.toLowerCase().endsWith('.csv')) {
+        separator = ',';
+    }
+
+    const records = text
+        .split(/\r?\n/)
+        .map((line) =>
+            line
+                .trim()
+                .split(separator)
+                .map((column) => column.trim().replace(/^"(.*)"$/, '$1'))
+                .filter((column) => column !== '')
+        )
+        .filter((columns) => columns.length > 0);
+    const ranked = records.some((columns) => columns.some((column) => RANK_REGEX.test(column)));
+    const entries: FrequencyEntry[] = [];
+
+    for (const columns of records) {
+        const lemma = columns.find((column) => !RANK_REGEX.test(column));
+        const rank = ranked ? columns.find((column) => RANK_REGEX.test(column)) : String(entries.length + 1);
+
+        if (lemma !== undefined && rank !== undefined && Number(rank) > 0) {
+            entries.push({ lemma, rank: Number(rank) });
+        }
+    }
+
+    return bestRanks(entries);
+};
+
+/**
+ * Read a frequency list from a file, either a Yomitan frequency dictionary (.zip) or a list read by parseFrequencyList.
+ * @returns The title of the list, which is the title of the Yomitan dictionary or else the name of the file, and its
+ * words
+ */
+export const readFrequencyFile = async (file: File): Promise<{ title: string; entries: FrequencyEntry[] }> => {
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+        return { title: file.name, entries: parseFrequencyList(await file.text(), file.name) };
+    }
+
+    const files = await readZip(
+        await file.arrayBuffer(),
+        (name) => name === 'index.json' || TERM_META_BANK_REGEX.test(name)
+    );
+    const decoder = new TextDecoder();
+    const index = files.has('index.json') ? JSON.parse(decoder.decode(files.get('index.json'))) : {};
+    const termMeta: unknown[] = [];
+
+    for (const [name, contents] of files) {
+        if (!TERM_META_BANK_REGEX.test(name)) {
+            continue;
+        }
+
+        for (const row of JSON.parse(decoder.decode(contents))) {
+            termMeta.push(row);
+        }
+    }
+
+    const entries = yomitanFrequencies(termMeta, index.frequencyMode === 'occurrence-based');
+
+    if (entries.length === 0) {
+        throw new Error(`${file.name} is not a frequency dictionary`);
+    }
+
+    return { title: typeof index.title === 'string' ? index.title : file.name, entries };
+};
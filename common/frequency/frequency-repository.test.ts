@@ -0,0 +1,42 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { frequencyRank, IndexedDBFrequencyRepository } from './frequency-repository';
+
+beforeEach(async () => {
+    await new IndexedDBFrequencyRepository().clear();
+});
+
+it('ranks nothing before a list is imported', async () => {
+    const repository = new IndexedDBFrequencyRepository();
+    expect(await repository.ranks(['食べる'])).toBeUndefined();
+    expect(await frequencyRank(repository, ['食べる'])).toBeUndefined();
+});
+
+it('keeps the best rank of words ranked by several lists', async () => {
+    const repository = new IndexedDBFrequencyRepository();
+    await repository.importDictionary('A', [
+        { lemma: '食べる', rank: 120 },
+        { lemma: '飲む', rank: 340 },
+    ]);
+    await repository.importDictionary('B', [
+        { lemma: '食べる', rank: 200 },
+        { lemma: '飲む', rank: 100 },
+        { lemma: '見る', rank: 50 },
+    ]);
+    expect(await repository.ranks(['食べる', '飲む', '見る', '来る'])).toEqual([120, 100, 50, null]);
+    expect(await repository.count()).toEqual(3);
+    expect((await repository.dictionaries()).map((d) => [d.title, d.count])).toEqual([
+        ['A', 2],
+        ['B', 3],
+    ]);
+});
+
+it('finds the best rank among several forms of a word', async () => {
+    const repository = new IndexedDBFrequencyRepository();
+    await repository.importDictionary('A', [
+        { lemma: '食べる', rank: 120 },
+        { lemma: 'たべる', rank: 4000 },
+    ]);
+    expect(await frequencyRank(repository, ['食べた', '食べる', 'たべる'])).toEqual(120);
+    expect(await frequencyRank(repository, ['来た', '来る'])).toBeNull();
+});
@@ -0,0 +1,80 @@
+import { FrequencyDatabase } from './frequency-database';
+import { FrequencyDictionary, FrequencyEntry, FrequencyProvider } from './types';
+
+// Large lists are written in chunks so that a single transaction doesn't hold hundreds of thousands of words
+const IMPORT_CHUNK_SIZE = 10000;
+
+/**
+ * Repository of imported frequency lists. A word ranked by several lists keeps its best rank.
+ */
+export interface FrequencyRepository extends FrequencyProvider {
+    /**
+     * Import a frequency list. Words that are already ranked by another list keep their best rank.
+     * @returns Number of words ranked by the list
+     */
+    importDictionary: (title: string, entries: FrequencyEntry[]) => Promise<number>;
+    dictionaries: () => Promise<FrequencyDictionary[]>;
+    clear: () => Promise<void>;
+    count: () => Promise<number>;
+}
+
+export class IndexedDBFrequencyRepository implements FrequencyRepository {
+    private readonly _db = new FrequencyDatabase();
+
+    async ranks(lemmas: string[]) {
+        if ((await this._db.dictionaries.count()) === 0) {
+            return undefined;
+        }
+
+        if (lemmas.length === 0) {
+            return [];
+        }
+
+        return (await this._db.ranks.bulkGet(lemmas)).map((entry) => entry?.rank ?? null);
+    }
+
+    async importDictionary(title: string, entries: FrequencyEntry[]) {
+        for (let i = 0; i < entries.length; i += IMPORT_CHUNK_SIZE) {
+            const chunk = entries.slice(i, i + IMPORT_CHUNK_SIZE);
+            await this._db.transaction('rw', this._db.ranks, async () => {
+                const existing = await this._db.ranks.bulkGet(chunk.map((e) => e.lemma));
+                await this._db.ranks.bulkPut(
+                    chunk.filter((entry, j) => existing[j] === undefined || entry.rank < existing[j]!.rank)
+                );
+            });
+        }
+
+        await this._db.dictionaries.put({ title, count: entries.length, timestamp: Date.now() });
+        return entries.length;
+    }
+
+    async dictionaries() {
+        return await this._db.dictionaries.orderBy('title').toArray();
+    }
+
+    async clear() {
+        await this._db.transaction('rw', this._db.ranks, this._db.dictionaries, async () => {
+            await this._db.ranks.clear();
+            await this._db.dictionaries.clear();
+        });
+    }
+
+    async count() {
+        return await this._db.ranks.count();
+    }
+}
+
+/**
+ * Best rank among several forms of a word, e.g. as it is written and its dictionary form.
+ * @returns The best rank, null if none of the forms is ranked, undefined if no frequency list was imported
+ */
+export const frequencyRank = async (frequencies: FrequencyProvider, lemmas: string[]) => {
+    const ranks = await frequencies.ranks(lemmas);
+
+    if (ranks === undefined) {
+        return undefined;
+    }
+
+    const ranked = ranks.filter((rank): rank is number => rank !== null);
+    return ranked.length === 0 ? null : Math.min(...ranked);
+};
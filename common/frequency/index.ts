@@ -0,0 +1,8 @@
+export type { FrequencyEntry, FrequencyDictionary, FrequencyProvider } from './types';
+
+export type { FrequencyRepository } from './frequency-repository';
+export { IndexedDBFrequencyRepository, frequencyRank } from './frequency-repository';
+
+export { parseFrequencyList, yomitanFrequencies, readFrequencyFile } from './frequency-import';
+
+export { readZip } from './zip';
@@ -0,0 +1,32 @@
+/**
+ * Rank of a word in a frequency list, 1 being the most frequent word.
+ */
+export interface FrequencyEntry {
+    /** Dictionary form of the word */
+    lemma: string;
+    rank: number;
+}
+
+/**
+ * A frequency list imported into the frequency store.
+ */
+export interface FrequencyDictionary {
+    /** Title of the Yomitan dictionary, or the name of the file it was imported from */
+    title: string;
+    /** Number of words ranked by the list */
+    count: number;
+    /** Unix timestamp (ms) of when the list was imported */
+    timestamp: number;
+}
+
+/**
+ * Ranks words by how frequent they are, so that rare words can be given less weight than core vocabulary.
+ */
+export interface FrequencyProvider {
+    /**
+     * Look up the rank of several words at once.
+     * @returns Best rank of each word in the imported lists, in the order of the lemmas, null for words that aren't in
+     * any list, or undefined if no list was imported
+     */
+    ranks: (lemmas: string[]) => Promise<(number | null)[] | undefined>;
+}
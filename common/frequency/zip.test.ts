@@ -0,0 +1,90 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { readZip } from './zip';
+
+// jsdom doesn't provide a text encoder and decoder
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+// Zip archive of uncompressed files
+const storedZip = (files: { name: string; contents: string }[]) => {
+    const encoder = new TextEncoder();
+    const localHeaders: Uint8Array[] = [];
+    const centralHeaders: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const contents = encoder.encode(file.contents);
+        const local = new Uint8Array(30 + name.length + contents.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint32(18, contents.length, true);
+        localView.setUint32(22, contents.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, 30);
+        local.set(contents, 30 + name.length);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint32(20, contents.length, true);
+        centralView.setUint32(24, contents.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        localHeaders.push(local);
+        centralHeaders.push(central);
+        offset += local.length;
+    }
+
+    const centralSize = centralHeaders.reduce((size, header) => size + header.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    const zip = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+
+    for (const part of [...localHeaders, ...centralHeaders, end]) {
+        zip.set(part, position);
+        position += part.length;
+    }
+
+    return zip;
+};
+
+it('reads the included files', async () => {
+    const zip = storedZip([
+        { name: 'index.json', contents: '{}' },
+        { name: 'term_meta_bank_1.json', contents: '[]' },
+    ]);
+    const files = await readZip(zip.buffer, (name) => name === 'term_meta_bank_1.json');
+    expect([...files.keys()]).toEqual(['term_meta_bank_1.json']);
+    expect(new TextDecoder().decode(files.get('term_meta_bank_1.json'))).toEqual('[]');
+});
+
+it('rejects files that are not zip files', async () => {
+    await expect(readZip(new Uint8Array(100).buffer, () => true)).rejects.toThrow('Not a zip file');
+});
+
+it('rejects files with sizes that extend past the end of the file', async () => {
+    const zip = storedZip([{ name: 'index.json', contents: '{}' }]);
+
+    // Claim that the file is larger than the archive
+    new DataView(zip.buffer).setUint32(30 + 'index.json'.length + 2 + 20, 0x7fffffff, true);
+    await expect(readZip(zip.buffer, () => true)).rejects.toThrow(
+        'Corrupt zip file: index.json extends past the end of the file'
+    );
+});
+
+it('rejects central directories that extend past the end of the file', async () => {
+    const zip = storedZip([{ name: 'index.json', contents: '{}' }]);
+    new DataView(zip.buffer).setUint32(zip.length - 22 + 16, zip.length - 30, true);
+    await expect(readZip(zip.buffer, () => true)).rejects.toThrow(
+        'Corrupt zip file: central directory extends past the end of the file'
+    );
+});
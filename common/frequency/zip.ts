@@ -0,0 +1,97 @@
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+const inflate = async (data: Uint8Array) => {
+    const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Read the files of a zip archive, e.g. a Yomitan dictionary. Only stored and deflated files are supported, which is
+ * all that dictionary tools write.
+ * @param include Decides by name which files are read, so that large archives aren't decompressed entirely
+ * @returns Contents of the included files by name
+ */
+export const readZip = async (data: ArrayBuffer, include: (name: string) => boolean) => {
+    const view = new DataView(data);
+    const bytes = new Uint8Array(data);
+    const decoder = new TextDecoder();
+    let end = -1;
+
+    // Offsets and sizes are read from the file, so they are checked before anything is read at them
+    const ensureInBounds = (offset: number, length: number, what: string) => {
+        if (offset + length > data.byteLength) {
+            throw new Error(`Corrupt zip file: ${what} extends past the end of the file`);
+        }
+    };
+
+    // The end of central directory record is followed by a comment of up to 64 KiB
+    for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); --i) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            end = i;
+            break;
+        }
+    }
+
+    if (end === -1) {
+        throw new Error('Not a zip file');
+    }
+
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const files = new Map<string, Uint8Array>();
+
+    if (offset === 0xffffffff) {
+        throw new Error('Zip files larger than 4 GiB are not supported');
+    }
+
+    for (let i = 0; i < entryCount; ++i) {
+        ensureInBounds(offset, 46, 'central directory');
+
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE) {
+            throw new Error('Corrupt zip file');
+        }
+
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeaderOffset = view.getUint32(offset + 42, true);
+        ensureInBounds(offset + 46, nameLength + extraLength + commentLength, 'central directory');
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (!include(name)) {
+            continue;
+        }
+
+        ensureInBounds(localHeaderOffset, 30, name);
+
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+            throw new Error('Corrupt zip file');
+        }
+
+        // The local header can have a different extra field than the central directory
+        const dataOffset =
+            localHeaderOffset +
+            30 +
+            view.getUint16(localHeaderOffset + 26, true) +
+            view.getUint16(localHeaderOffset + 28, true);
+        ensureInBounds(dataOffset, compressedSize, name);
+        const compressed = bytes.subarray(dataOffset, dataOffset + compressedSize);
+
+        if (method === STORED) {
+            files.set(name, compressed);
+        } else if (method === DEFLATED) {
+            files.set(name, await inflate(compressed));
+        } else {
+            throw new Error(`Unsupported compression method ${method} of ${name}`);
+        }
+    }
+
+    return files;
+};
@@ -2,6 +2,9 @@ module.exports = {
     verbose: true,
     transform: {
         '^.+\\.ts?$': 'ts-jest',
+        // The SRT parser is only published as an ES module
+        '/@qgustavor/srt-parser/.+\\.js$': ['babel-jest', { plugins: ['@babel/plugin-transform-modules-commonjs'] }],
     },
+    transformIgnorePatterns: ['/node_modules/(?!@qgustavor/srt-parser/)'],
     testEnvironment: 'jsdom',
 };
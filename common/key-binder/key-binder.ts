@@ -1,6 +1,8 @@
 import { SubtitleModel } from '../src/model';
 import hotkeys from 'hotkeys-js';
 import { KeyBindSet } from '../settings/settings';
+import type { KnownWordStatus } from '../known-words';
+import { alignedTime, appliedAlignment } from '../audio-alignment';
 
 export function adjacentSubtitle(forward: boolean, time: number, subtitles: SubtitleModel[]) {
     const now = time;
@@ -161,6 +163,16 @@ export interface KeyBinder {
         disabledGetter: () => boolean,
         capture?: boolean
     ): () => void;
+    bindMarkHoveredWord(
+        onMarkHoveredWord: (event: KeyboardEvent, status: KnownWordStatus) => void,
+        disabledGetter: () => boolean,
+        capture?: boolean
+    ): () => void;
+    bindMarkForMining(
+        onMarkForMining: (event: KeyboardEvent) => void,
+        disabledGetter: () => boolean,
+        capture?: boolean
+    ): () => void;
 }
 
 export class DefaultKeyBinder implements KeyBinder {
@@ -498,7 +510,9 @@ export class DefaultKeyBinder implements KeyBinder {
             const subtitle = adjacentSubtitle(forward, time, subtitles);
 
             if (subtitle !== null) {
-                const subtitleStart = subtitle.originalStart;
+                // Only the offset changes, so the drift of auto-aligned subtitles is kept
+                const { drift } = appliedAlignment(subtitles);
+                const subtitleStart = alignedTime(subtitle.originalStart, { offset: 0, drift });
                 const newOffset = time - subtitleStart;
                 onOffsetChange(event, newOffset);
                 return true;
@@ -545,7 +559,7 @@ export class DefaultKeyBinder implements KeyBinder {
                 return false;
             }
 
-            const currentOffset = subtitles[0].start - subtitles[0].originalStart;
+            const currentOffset = appliedAlignment(subtitles).offset;
             const newOffset = currentOffset + (increase ? 100 : -100);
             onOffsetChange(event, newOffset);
             return true;
@@ -941,6 +955,51 @@ export class DefaultKeyBinder implements KeyBinder {
         return this._bind(shortcut, capture, handler);
     }
 
+    bindMarkHoveredWord(
+        onMarkHoveredWord: (event: KeyboardEvent, status: KnownWordStatus) => void,
+        disabledGetter: () => boolean,
+        capture = false
+    ) {
+        const shortcuts: [string, KnownWordStatus][] = [
+            [this.keyBindSet.markHoveredWordKnown.keys, 'known'],
+            [this.keyBindSet.markHoveredWordLearning.keys, 'learning'],
+            [this.keyBindSet.ignoreHoveredWord.keys, 'ignored'],
+        ];
+        const unbinds = shortcuts
+            .filter(([shortcut]) => shortcut)
+            .map(([shortcut, status]) =>
+                this._bind(shortcut, capture, (event) => {
+                    if (disabledGetter()) {
+                        return false;
+                    }
+
+                    onMarkHoveredWord(event, status);
+                    return true;
+                })
+            );
+
+        return () => unbinds.forEach((unbind) => unbind());
+    }
+
+    bindMarkForMining(onMarkForMining: (event: KeyboardEvent) => void, disabledGetter: () => boolean, capture = false) {
+        const shortcut = this.keyBindSet.markForMining.keys;
+
+        if (!shortcut) {
+            return () => {};
+        }
+
+        const handler = (event: KeyboardEvent) => {
+            if (disabledGetter()) {
+                return false;
+            }
+
+            onMarkForMining(event);
+            return true;
+        };
+
+        return this._bind(shortcut, capture, handler);
+    }
+
     private _bind(shortcut: string, capture: boolean, handler: (event: KeyboardEvent) => boolean) {
         let handled: boolean | undefined = undefined;
 
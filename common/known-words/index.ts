@@ -0,0 +1,15 @@
+export type { KnownWordStatus, KnownWord, ImportedWord } from './types';
+export { knownWordStatuses } from './types';
+
+export type { KnownWordsRepository } from './known-words-repository';
+export { IndexedDBKnownWordsRepository } from './known-words-repository';
+
+export {
+    parseWordList,
+    ankiCollectionWords,
+    readWordListFile,
+    studyResultWords,
+    STUDY_KNOWN_STREAK,
+} from './known-words-import';
+
+export { knownWordTokenStatus, mergedTokenStatus } from './known-word-status';
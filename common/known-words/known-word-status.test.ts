@@ -0,0 +1,31 @@
+import { KnownWordsPrecedence, TokenStatus } from '@project/common/settings';
+import { mergedTokenStatus } from './known-word-status';
+
+it('colors words by Anki alone when they are not marked', () => {
+    expect(mergedTokenStatus(TokenStatus.YOUNG, undefined, KnownWordsPrecedence.KNOWN_WORDS)).toEqual(
+        TokenStatus.YOUNG
+    );
+    expect(mergedTokenStatus(null, undefined, KnownWordsPrecedence.KNOWN_WORDS)).toBeNull();
+    expect(mergedTokenStatus(undefined, undefined, KnownWordsPrecedence.KNOWN_WORDS)).toEqual(TokenStatus.UNCOLLECTED);
+});
+
+it('colors marked words that are not collected in Anki by their mark', () => {
+    expect(mergedTokenStatus(undefined, 'known', KnownWordsPrecedence.ANKI)).toEqual(TokenStatus.MATURE);
+    expect(mergedTokenStatus(TokenStatus.UNCOLLECTED, 'learning', KnownWordsPrecedence.ANKI)).toEqual(
+        TokenStatus.LEARNING
+    );
+    expect(mergedTokenStatus(null, 'ignored', KnownWordsPrecedence.ANKI)).toEqual(TokenStatus.MATURE);
+});
+
+it('colors words that are both marked and collected by precedence', () => {
+    expect(mergedTokenStatus(TokenStatus.YOUNG, 'learning', KnownWordsPrecedence.KNOWN_WORDS)).toEqual(
+        TokenStatus.LEARNING
+    );
+    expect(mergedTokenStatus(TokenStatus.YOUNG, 'learning', KnownWordsPrecedence.ANKI)).toEqual(TokenStatus.YOUNG);
+    expect(mergedTokenStatus(TokenStatus.UNKNOWN, 'learning', KnownWordsPrecedence.BEST_KNOWN)).toEqual(
+        TokenStatus.LEARNING
+    );
+    expect(mergedTokenStatus(TokenStatus.UNKNOWN, 'known', KnownWordsPrecedence.LEAST_KNOWN)).toEqual(
+        TokenStatus.UNKNOWN
+    );
+});
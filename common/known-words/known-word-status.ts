@@ -0,0 +1,41 @@
+import { getFullyKnownTokenStatus, KnownWordsPrecedence, TokenStatus } from '@project/common/settings';
+import { KnownWordStatus } from './types';
+
+/**
+ * The status that colors a marked word.
+ */
+export const knownWordTokenStatus = (status: KnownWordStatus) =>
+    status === 'learning' ? TokenStatus.LEARNING : getFullyKnownTokenStatus();
+
+/**
+ * Combine the status of a word in Anki with how it is marked in the known words.
+ * @param ankiStatus Status of the word in Anki, undefined if Anki isn't used, null if Anki couldn't be queried
+ * @param knownWordStatus How the word is marked in the known words, undefined if it isn't
+ * @returns The status that colors the word, null if it can't be decided because Anki couldn't be queried
+ */
+export const mergedTokenStatus = (
+    ankiStatus: TokenStatus | null | undefined,
+    knownWordStatus: KnownWordStatus | undefined,
+    precedence: KnownWordsPrecedence
+): TokenStatus | null => {
+    if (knownWordStatus === undefined) {
+        return ankiStatus === undefined ? TokenStatus.UNCOLLECTED : ankiStatus;
+    }
+
+    const markedStatus = knownWordTokenStatus(knownWordStatus);
+
+    if (ankiStatus === undefined || ankiStatus === null || ankiStatus === TokenStatus.UNCOLLECTED) {
+        return markedStatus;
+    }
+
+    switch (precedence) {
+        case KnownWordsPrecedence.KNOWN_WORDS:
+            return markedStatus;
+        case KnownWordsPrecedence.ANKI:
+            return ankiStatus;
+        case KnownWordsPrecedence.BEST_KNOWN:
+            return Math.max(ankiStatus, markedStatus);
+        case KnownWordsPrecedence.LEAST_KNOWN:
+            return Math.min(ankiStatus, markedStatus);
+    }
+};
@@ -0,0 +1,13 @@
+import Dexie from 'dexie';
+import { KnownWord } from './types';
+
+export class KnownWordsDatabase extends Dexie {
+    words!: Dexie.Table<KnownWord, string>;
+
+    constructor() {
+        super('KnownWordsDatabase');
+        this.version(1).stores({
+            words: 'lemma,status,timestamp',
+        });
+    }
+}
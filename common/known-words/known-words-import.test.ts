@@ -0,0 +1,96 @@
+import { TextDecoder } from 'util';
+import { gunzipSync } from 'zlib';
+import { base64ToBuffer } from '@project/common/base64';
+import { ankiCollectionWords, parseWordList, studyResultWords } from './known-words-import';
+
+// jsdom doesn't provide a text decoder for reading SQLite databases
+Object.assign(globalThis, { TextDecoder });
+
+it('reads one word per line', () => {
+    expect(parseWordList('食べる\n\n飲む\r\n食べる\n', 'words.txt')).toEqual([
+        { lemma: '食べる', reading: '' },
+        { lemma: '飲む', reading: '' },
+    ]);
+});
+
+it('reads readings written in kana from the second column', () => {
+    expect(parseWordList('食べる\tたべる\n飲む\tto drink', 'words.txt')).toEqual([
+        { lemma: '食べる', reading: 'たべる' },
+        { lemma: '飲む', reading: '' },
+    ]);
+    expect(parseWordList('"食べる","たべる"\n"飲む, 呑む",のむ', 'words.csv')).toEqual([
+        { lemma: '食べる', reading: 'たべる' },
+        { lemma: '飲む, 呑む', reading: 'のむ' },
+    ]);
+});
+
+it('reads notes exported from Anki', () => {
+    const exported = [
+        '#separator:tab',
+        '#html:true',
+        '#notetype column:1',
+        '#deck column:2',
+        'Japanese\tMining\t<b>食べる</b>\t"to eat, ""consume"""',
+        'Japanese\tMining\t 飲[の]む\tto drink',
+    ].join('\n');
+    expect(parseWordList(exported, 'notes.txt')).toEqual([
+        { lemma: '食べる', reading: '' },
+        { lemma: '飲む', reading: 'のむ' },
+    ]);
+});
+
+// Gzipped Anki collection with 512 byte pages, so that its notes span interior, leaf and overflow pages. The notes
+// are 食べる, <b>飲む</b>, " 見[み]る" and 読む with a long definition, followed by 40 notes of filler words.
+const ankiCollection = new Uint8Array(
+    gunzipSync(
+        base64ToBuffer(
+            [
+                'H4sIAAAAAAACA+2XT2wbRRSH3yROnTYxUEIJTVu8hbZJoQLPjOPE9I8aqqiXXmh7q3pw6k0wcWxkb0TKAdUWAqTCCZA4lUMlDhVU',
+                'glurqr1wBfXImRVSKnEADpyQysyu05nHe1HbE0h4FHvfzjrfWt+b+a185o1TtSgMFputlUoUaBgAIeB4EADAoHmNgBsD5pXxzgU8',
+                'fAzCKxdELvlwDPbvXxjdCZEdHx8X749FlYV62GhGYTt5Gzhxen7u7Hxwdu71U/NBMhVM1apBrRGFS2EreLtVW6m0LgbL4cVDwdKq',
+                'uRKFa5H9YNBYrdcPBSveh73ZJje72m4ws1Flqf1P6mK9SubaZpL59wvt1RVmerFusXS+WokqmHxwyAjKipvW04j4U/wqfhY/iR/F',
+                '9+lUf/ynx7Zvb93//O6UqbYm1V5TDSfVhG1rUo2ZaktSjZpqKKls0zNJZfc0mHXdDFphpX/8vxzXr30Tdy9lz/2ww2bzoJgEcUMs',
+                'm0N/8ONoultGYftQRuSm92eGc0tKRB82LkF45ne4H6x/dflc3LlzPu5ezueN5nYY+nNW9cmEIXqMk5OWIT3GkYVj965+Z/py5NWF',
+                'Y/m4c92UFlVt1RrL6KKlHU9o0KPN5S2t4NHuXf0y7tywXyfubFQGFlaiB1ce9B92A1yB8/bgj9fSsOjdorzL3mLau8Uvn3yxfu2K',
+                'TG7Q/TTufJZ/p9mq9mYtPAVkEKBIAAUWULCAD04nhMFcSvi4ttMitIdIV3I+7n7Us9Xf3498tK23/c9CCcQd8Z44Cn/BTVgzpw8Z',
+                'h9MHyiiMucZKRTo7y3Z21nY2JYxggiSEGZYw4wjbMKFACCWWUHLLcytanmUCmGYB0w4wjACzBFBkAUUHyCLADAFoFqAdYAsClAhA',
+                'sQC1sf+zcADEbfGuKMEfcB3eMqds/I31XB/ek7imqiTvSiayUsbTmEFtSV6XLDrGdsygwiRvTGrHeAozqDPJS5PKMZ7EDCYaN8lG',
+                '6RhPYAZNR8nHoyy4PZDDe0ATRplFlF3/94G4JdZEEX6Dr+FNc8p0fwJ9U8Wssk2WmWdsJ2ZQY4o3pjxjz2EGNaZ4Y6rgGOOYQY1J',
+                'XpksO8azmEHTT/LxJ2cdYwdm0PyTfADKGcd4BjNoAko+AmXp8fq/F91HU2eKd6Y8ZwFmUGeKd6Y8Z3nMoM4U70x5zp7HDOpM8c5U',
+                'yTH2YO80DRWfhspLw92YQdNQ8WmovDTchRk0DRWfhko/Xv+n0H2K1JnmnWnP2ST2Tp1p3pn2nB3ADOpM886052w/ZjCP3E2eud4T',
+                'ZB9m0DzUfB5qLw9fxAyah5rPQ+3l4QuYQfNQ83moC+73X3Gj//3xyD8GX8b7geah5vNQe3n4EmbQPNR8HmovDw9iBs1DzeehTvLw',
+                'b9i/EigAFgAA',
+            ].join('')
+        )
+    )
+);
+
+it('reads the notes of an Anki collection', () => {
+    const words = ankiCollectionWords(ankiCollection);
+    expect(words.slice(0, 4)).toEqual([
+        { lemma: '食べる', reading: 'たべる' },
+        { lemma: '飲む', reading: 'のむ' },
+        { lemma: '見る', reading: 'みる' },
+        { lemma: '読む', reading: 'よむ' },
+    ]);
+    expect(words).toHaveLength(44);
+});
+
+it('rejects files that are not SQLite databases', () => {
+    expect(() => ankiCollectionWords(new Uint8Array(512))).toThrow('Not an SQLite database');
+});
+
+it('splits study mode results by how many times in a row words were recognized', () => {
+    const stats = (lemma: string, streak: number) => ({
+        lemma,
+        reading: '',
+        successCount: streak,
+        failureCount: 1,
+        streak,
+        lastAttempt: 0,
+    });
+    expect(studyResultWords([stats('食べる', 3), stats('飲む', 1)])).toEqual({
+        known: [{ lemma: '食べる', reading: '' }],
+        learning: [{ lemma: '飲む', reading: '' }],
+    });
+});
@@ -0,0 +1,218 @@
+import type { RecognitionStats } from '@project/common/study-mode';
+import { readZip } from '@project/common/frequency';
+import { isKanaOnly } from '@project/common/util';
+import { readSqliteTable } from './sqlite';
+import { ImportedWord } from './types';
+
+// Study mode words recognized this many times in a row are imported as known, others as learning
+export const STUDY_KNOWN_STREAK = 3;
+
+const ankiSeparators: { [name: string]: string } = {
+    tab: '\t',
+    comma: ',',
+    semicolon: ';',
+    space: ' ',
+    pipe: '|',
+    colon: ':',
+};
+
+const htmlEntities: { [entity: string]: string } = {
+    '&nbsp;': ' ',
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+};
+
+const plainText = (field: string) =>
+    field
+        .replace(/<[^>]*>/g, '')
+        .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => htmlEntities[entity])
+        .trim();
+
+// Anki furigana puts the reading of each kanji group in brackets after it, e.g. ' 食[た]べる'
+const FURIGANA_REGEX = / ?([^ [\]]*)\[([^\]]*)\]/g;
+
+const withoutFurigana = (text: string) => text.replace(FURIGANA_REGEX, '$1');
+
+const furiganaReading = (text: string) => text.replace(FURIGANA_REGEX, '$2').replace(/ /g, '');
+
+// Fields may be quoted, in which case they can contain the separator, line breaks and quotes written twice
+const records = (text: string, separator: string | undefined) => {
+    if (separator === undefined) {
+        return text.split(/\r?\n/).map((line) => [line]);
+    }
+
+    const result: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; ++i) {
+        const c = text[i];
+
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                ++i;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"' && field === '') {
+            quoted = true;
+        } else if (c === separator) {
+            record.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') {
+                ++i;
+            }
+
+            record.push(field);
+            result.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+
+    record.push(field);
+    result.push(record);
+    return result;
+};
+
+/**
+ * Read the words of a word list, one word per line, or of notes exported from Anki as plain text or CSV. The first
+ * column is the word and a second column is its reading if it is written in kana. Anki's header lines decide the
+ * separator and which columns hold the GUID, note type, deck and tags of each note, which are skipped.
+ * @param text Contents of the file
+ * @param fileName Name of the file, whose extension decides the separator of CSV files without a header
+ */
+export const parseWordList = (text: string, fileName: string): ImportedWord[] => {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const headers = new Map<string, string>();
+    let headerLines = 0;
+
+    for (const line of lines) {
+        const header = /^#([^:]+):(.*)$/.exec(line);
+
+        if (header === null) {
+            break;
+        }
+
+        headers.set(header[1].trim().toLowerCase(), header[2].trim());
+        ++headerLines;
+    }
+
+    const separatorHeader = headers.get('separator');
+    let separator: string | undefined;
+
+    if (separatorHeader !== undefined) {
+        separator = ankiSeparators[separatorHeader.toLowerCase()] ?? separatorHeader;
+    } else if (fileName.toLowerCase().endsWith('.csv')) {
+        separator = ',';
+    } else if (text.includes('\t')) {
+        separator = '\t';
+    }
+
+    const metadataColumns = new Set(
+        ['guid column', 'notetype column', 'deck column', 'tags column']
+            .map((header) => Number(headers.get(header)) - 1)
+            .filter((column) => column >= 0)
+    );
+    const body = lines.slice(headerLines).join('\n');
+    return recordWords(
+        records(body, separator).map((record) => record.filter((_, column) => !metadataColumns.has(column)))
+    );
+};
+
+// The first field of each record is the word and the second one its reading, as with Anki notes
+const recordWords = (records: string[][]) => {
+    const words = new Map<string, ImportedWord>();
+
+    for (const record of records) {
+        const [wordField, readingField] = record.slice(0, 2).map(plainText);
+
+        if (!wordField) {
+            continue;
+        }
+
+        const lemma = withoutFurigana(wordField);
+
+        if (lemma === '' || words.has(lemma)) {
+            continue;
+        }
+
+        let reading = '';
+
+        if (readingField && isKanaOnly(readingField)) {
+            reading = readingField;
+        } else if (lemma !== wordField && isKanaOnly(furiganaReading(wordField))) {
+            reading = furiganaReading(wordField);
+        }
+
+        words.set(lemma, { lemma, reading });
+    }
+
+    return [...words.values()];
+};
+
+// Fields of a note are kept in one column, separated by this character
+const ANKI_FIELD_SEPARATOR = '\x1f';
+const ANKI_FIELDS_COLUMN = 6;
+
+/**
+ * Read the words of the notes of an Anki collection, the SQLite database of an Anki package. The first field of each
+ * note is the word and a second field is its reading if it is written in kana, as for parseWordList.
+ */
+export const ankiCollectionWords = (collection: Uint8Array) =>
+    recordWords(
+        readSqliteTable(collection, 'notes').map((note) => {
+            const fields = note[ANKI_FIELDS_COLUMN];
+            return typeof fields === 'string' ? fields.split(ANKI_FIELD_SEPARATOR) : [];
+        })
+    );
+
+/**
+ * Read the words of a file, either an Anki package (.apkg) or a list read by parseWordList. Anki packages exported in
+ * the newest format have a compressed collection that can't be read, so they have to be exported with support for
+ * older Anki versions.
+ */
+export const readWordListFile = async (file: File): Promise<ImportedWord[]> => {
+    if (!file.name.toLowerCase().endsWith('.apkg')) {
+        return parseWordList(await file.text(), file.name);
+    }
+
+    // Packages for older versions of Anki have a collection.anki2 file too, which holds a placeholder note when there
+    // is a collection.anki21 file
+    const files = await readZip(await file.arrayBuffer(), (name) => /^collection\.anki2(1b?)?$/.test(name));
+    const collection =
+        files.get('collection.anki21') ?? (files.has('collection.anki21b') ? undefined : files.get('collection.anki2'));
+
+    if (collection === undefined) {
+        throw new Error(
+            `${file.name} can't be read. Export it from Anki again with "Support older Anki versions" checked.`
+        );
+    }
+
+    return ankiCollectionWords(collection);
+};
+
+/**
+ * Split the words tested in study mode into the ones that are known and the ones that are still being learned.
+ * Study mode keeps the reading of the tested form rather than of the dictionary form, so readings are left empty.
+ */
+export const studyResultWords = (stats: RecognitionStats[], knownStreak = STUDY_KNOWN_STREAK) => {
+    const known: ImportedWord[] = [];
+    const learning: ImportedWord[] = [];
+
+    for (const { lemma, streak } of stats) {
+        (streak >= knownStreak ? known : learning).push({ lemma, reading: '' });
+    }
+
+    return { known, learning };
+};
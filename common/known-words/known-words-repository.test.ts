@@ -0,0 +1,42 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBKnownWordsRepository } from './known-words-repository';
+
+beforeEach(async () => {
+    await new IndexedDBKnownWordsRepository().clear();
+});
+
+it('marks words, replacing how they were marked before', async () => {
+    const repository = new IndexedDBKnownWordsRepository();
+    await repository.mark('食べる', 'たべる', 'learning');
+    await repository.mark('食べる', 'たべる', 'known');
+    await repository.mark('東京', 'とうきょう', 'ignored');
+    const [taberu, missing, tokyo] = await repository.find(['食べる', '飲む', '東京']);
+    expect(taberu).toMatchObject({ lemma: '食べる', reading: 'たべる', status: 'known' });
+    expect(missing).toBeUndefined();
+    expect(tokyo).toMatchObject({ status: 'ignored' });
+    expect(await repository.count()).toEqual(2);
+});
+
+it('imports words without changing words that are already marked', async () => {
+    const repository = new IndexedDBKnownWordsRepository();
+    await repository.mark('食べる', '', 'learning');
+    const imported = await repository.importWords(
+        [
+            { lemma: '食べる', reading: 'たべる' },
+            { lemma: '飲む', reading: 'のむ' },
+        ],
+        'known'
+    );
+    expect(imported).toEqual(1);
+    const [taberu, nomu] = await repository.find(['食べる', '飲む']);
+    expect(taberu).toMatchObject({ reading: '', status: 'learning' });
+    expect(nomu).toMatchObject({ reading: 'のむ', status: 'known' });
+});
+
+it('deletes words', async () => {
+    const repository = new IndexedDBKnownWordsRepository();
+    await repository.mark('食べる', 'たべる', 'known');
+    await repository.delete('食べる');
+    expect(await repository.find(['食べる'])).toEqual([undefined]);
+});
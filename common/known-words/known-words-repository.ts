@@ -0,0 +1,70 @@
+import { KnownWordsDatabase } from './known-words-database';
+import { ImportedWord, KnownWord, KnownWordStatus } from './types';
+
+/**
+ * Repository of words marked as known, learning or ignored, independently of Anki.
+ */
+export interface KnownWordsRepository {
+    /**
+     * Mark a word, replacing however it was marked before.
+     */
+    mark: (lemma: string, reading: string, status: KnownWordStatus) => Promise<KnownWord>;
+    /**
+     * Look up several words at once.
+     * @returns The words that are marked, in the order of the lemmas, undefined for the ones that aren't
+     */
+    find: (lemmas: string[]) => Promise<(KnownWord | undefined)[]>;
+    /**
+     * Mark imported words with the same status. Words that are already marked keep their status, so that importing
+     * never undoes what was marked by hand.
+     * @returns Number of words that were marked
+     */
+    importWords: (words: ImportedWord[], status: KnownWordStatus) => Promise<number>;
+    delete: (lemma: string) => Promise<void>;
+    clear: () => Promise<void>;
+    count: () => Promise<number>;
+}
+
+export class IndexedDBKnownWordsRepository implements KnownWordsRepository {
+    private readonly _db = new KnownWordsDatabase();
+
+    async mark(lemma: string, reading: string, status: KnownWordStatus) {
+        const word: KnownWord = { lemma, reading, status, timestamp: Date.now() };
+        await this._db.words.put(word);
+        return word;
+    }
+
+    async find(lemmas: string[]) {
+        if (lemmas.length === 0) {
+            return [];
+        }
+
+        return await this._db.words.bulkGet(lemmas);
+    }
+
+    async importWords(words: ImportedWord[], status: KnownWordStatus) {
+        if (words.length === 0) {
+            return 0;
+        }
+
+        const timestamp = Date.now();
+        return await this._db.transaction('rw', this._db.words, async () => {
+            const existing = await this._db.words.bulkGet(words.map((w) => w.lemma));
+            const importedWords = words.filter((_, i) => existing[i] === undefined);
+            await this._db.words.bulkPut(importedWords.map((w) => ({ ...w, status, timestamp })));
+            return importedWords.length;
+        });
+    }
+
+    async delete(lemma: string) {
+        await this._db.words.delete(lemma);
+    }
+
+    async clear() {
+        await this._db.words.clear();
+    }
+
+    async count() {
+        return await this._db.words.count();
+    }
+}
@@ -0,0 +1,189 @@
+const HEADER = 'SQLite format 3\0';
+const INTERIOR_TABLE_PAGE = 0x05;
+const LEAF_TABLE_PAGE = 0x0d;
+const UTF8 = 1;
+
+export type SqliteValue = null | number | string | Uint8Array;
+
+class SqliteReader {
+    private readonly bytes: Uint8Array;
+    private readonly view: DataView;
+    private readonly pageSize: number;
+    private readonly usableSize: number;
+    private readonly decoder = new TextDecoder();
+
+    constructor(bytes: Uint8Array) {
+        if (bytes.length < 100 || this.decoder.decode(bytes.subarray(0, HEADER.length)) !== HEADER) {
+            throw new Error('Not an SQLite database');
+        }
+
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const pageSize = this.view.getUint16(16);
+        this.pageSize = pageSize === 1 ? 65536 : pageSize;
+        this.usableSize = this.pageSize - this.view.getUint8(20);
+
+        if (this.view.getUint32(56) > UTF8) {
+            throw new Error('Only UTF-8 SQLite databases are supported');
+        }
+    }
+
+    rows(rootPage: number) {
+        const rows: SqliteValue[][] = [];
+        this._readTablePage(rootPage, rows, new Set());
+        return rows;
+    }
+
+    private _pageOffset(page: number) {
+        const offset = (page - 1) * this.pageSize;
+
+        if (page < 1 || offset + this.pageSize > this.bytes.length) {
+            throw new Error(`Corrupt SQLite database: page ${page} is out of bounds`);
+        }
+
+        return offset;
+    }
+
+    // Interior pages point to the pages with the rows, and leaf pages hold the rows
+    private _readTablePage(page: number, rows: SqliteValue[][], visited: Set<number>) {
+        if (visited.has(page)) {
+            throw new Error(`Corrupt SQLite database: page ${page} is referenced twice`);
+        }
+
+        visited.add(page);
+        const pageOffset = this._pageOffset(page);
+
+        // The first page starts with the database header
+        const headerOffset = page === 1 ? pageOffset + 100 : pageOffset;
+        const type = this.view.getUint8(headerOffset);
+        const cellCount = this.view.getUint16(headerOffset + 3);
+
+        if (type === INTERIOR_TABLE_PAGE) {
+            for (let i = 0; i < cellCount; ++i) {
+                const cellOffset = pageOffset + this.view.getUint16(headerOffset + 12 + 2 * i);
+                this._readTablePage(this.view.getUint32(cellOffset), rows, visited);
+            }
+
+            this._readTablePage(this.view.getUint32(headerOffset + 8), rows, visited);
+        } else if (type === LEAF_TABLE_PAGE) {
+            for (let i = 0; i < cellCount; ++i) {
+                const cellOffset = pageOffset + this.view.getUint16(headerOffset + 8 + 2 * i);
+                const [payloadSize, rowIdOffset] = varint(this.bytes, cellOffset);
+                const [, payloadOffset] = varint(this.bytes, rowIdOffset);
+                rows.push(this._record(this._payload(payloadOffset, payloadSize)));
+            }
+        } else {
+            throw new Error(`Corrupt SQLite database: page ${page} is not a table page`);
+        }
+    }
+
+    // Payloads that don't fit on their page continue on a chain of overflow pages
+    private _payload(offset: number, size: number) {
+        const maxLocal = this.usableSize - 35;
+
+        if (size <= maxLocal) {
+            return this.bytes.subarray(offset, offset + size);
+        }
+
+        const minLocal = Math.floor(((this.usableSize - 12) * 32) / 255) - 23;
+        const surplus = minLocal + ((size - minLocal) % (this.usableSize - 4));
+        const local = surplus <= maxLocal ? surplus : minLocal;
+        const payload = new Uint8Array(size);
+        payload.set(this.bytes.subarray(offset, offset + local));
+        let written = local;
+        let page = this.view.getUint32(offset + local);
+
+        while (written < size) {
+            const pageOffset = this._pageOffset(page);
+            const length = Math.min(size - written, this.usableSize - 4);
+            payload.set(this.bytes.subarray(pageOffset + 4, pageOffset + 4 + length), written);
+            written += length;
+            page = this.view.getUint32(pageOffset);
+        }
+
+        return payload;
+    }
+
+    private _record(payload: Uint8Array) {
+        const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+        const [headerSize, typesOffset] = varint(payload, 0);
+        const types: number[] = [];
+
+        for (let offset = typesOffset; offset < headerSize; ) {
+            const [type, next] = varint(payload, offset);
+            types.push(type);
+            offset = next;
+        }
+
+        const values: SqliteValue[] = [];
+        let offset = headerSize;
+
+        for (const type of types) {
+            if (type === 0) {
+                values.push(null);
+            } else if (type <= 6) {
+                const length = [1, 2, 3, 4, 6, 8][type - 1];
+                let value = view.getInt8(offset);
+
+                for (let i = 1; i < length; ++i) {
+                    value = value * 256 + view.getUint8(offset + i);
+                }
+
+                values.push(value);
+                offset += length;
+            } else if (type === 7) {
+                values.push(view.getFloat64(offset));
+                offset += 8;
+            } else if (type === 8 || type === 9) {
+                values.push(type - 8);
+            } else if (type >= 12) {
+                const length = Math.floor((type - 12) / 2);
+                const bytes = payload.subarray(offset, offset + length);
+                values.push(type % 2 === 0 ? bytes : this.decoder.decode(bytes));
+                offset += length;
+            } else {
+                throw new Error(`Corrupt SQLite database: unknown serial type ${type}`);
+            }
+        }
+
+        return values;
+    }
+}
+
+// Big-endian integer of up to 9 bytes, with 7 bits in each byte but the last, which has 8
+const varint = (bytes: Uint8Array, offset: number): [number, number] => {
+    let value = 0;
+
+    if (offset + 9 > bytes.length && bytes.subarray(offset).every((byte) => byte >= 0x80)) {
+        throw new Error('Corrupt SQLite database: truncated integer');
+    }
+
+    for (let i = 0; i < 8; ++i) {
+        const byte = bytes[offset + i];
+        value = value * 128 + (byte & 0x7f);
+
+        if (byte < 0x80) {
+            return [value, offset + i + 1];
+        }
+    }
+
+    return [value * 256 + bytes[offset + 8], offset + 9];
+};
+
+/**
+ * Read the rows of a table of an SQLite database, e.g. the notes of an Anki collection. Only tables are read, without
+ * using indexes, and a column that is an alias of the row ID reads as null.
+ * @returns Values of the columns of each row, in the order the columns were declared
+ */
+export const readSqliteTable = (data: Uint8Array, table: string) => {
+    const reader = new SqliteReader(data);
+
+    // The schema table lists every table with its name and root page, and is itself rooted in the first page
+    const schema = reader.rows(1).find(([type, name]) => type === 'table' && name === table);
+
+    if (schema === undefined || typeof schema[3] !== 'number') {
+        throw new Error(`The database has no ${table} table`);
+    }
+
+    return reader.rows(schema[3]);
+};
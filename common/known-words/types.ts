@@ -0,0 +1,28 @@
+/**
+ * How a word in the known words was marked. Ignored words, e.g. names, are colored like known words so that they
+ * don't stand out.
+ */
+export type KnownWordStatus = 'known' | 'learning' | 'ignored';
+
+export const knownWordStatuses: KnownWordStatus[] = ['known', 'learning', 'ignored'];
+
+/**
+ * A word kept in the local vocabulary, which colors subtitles without Anki.
+ */
+export interface KnownWord {
+    /** Dictionary form of the word (e.g. '食べる' for '食べました') */
+    lemma: string;
+    /** Reading of the dictionary form, empty if unknown */
+    reading: string;
+    status: KnownWordStatus;
+    /** Unix timestamp (ms) of the last time the word was marked */
+    timestamp: number;
+}
+
+/**
+ * A word read from an imported file, before it is given a status.
+ */
+export interface ImportedWord {
+    lemma: string;
+    reading: string;
+}
@@ -0,0 +1,10 @@
+export type {
+    MiningQueueItem,
+    MiningQueueItemStatus,
+    MiningQueueItemChanges,
+    MiningQueueRepository,
+} from './mining-queue-repository';
+export { IndexedDBMiningQueueRepository } from './mining-queue-repository';
+
+export type { MiningQueueExportResult } from './mining-queue-export';
+export { exportMiningQueueItems } from './mining-queue-export';
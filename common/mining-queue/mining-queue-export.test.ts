@@ -0,0 +1,46 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBMiningQueueRepository, MiningQueueItem } from './mining-queue-repository';
+import { exportMiningQueueItems } from './mining-queue-export';
+
+const item = (id: string, timestamp: number): MiningQueueItem => ({
+    id,
+    timestamp,
+    status: 'pending',
+    subtitle: { text: `text ${id}`, start: 0, end: 1, originalStart: 0, originalEnd: 1, track: 0 },
+    surroundingSubtitles: [],
+    subtitleFileName: 'subtitle-file',
+    mediaTimestamp: 5678,
+});
+
+beforeEach(async () => {
+    await new IndexedDBMiningQueueRepository().clear();
+});
+
+it('keeps exporting after an item fails and records why it failed', async () => {
+    const repository = new IndexedDBMiningQueueRepository();
+    await repository.save(item('a', 1000));
+    await repository.save(item('b', 2000));
+    await repository.save(item('c', 3000));
+    const exporting: string[] = [];
+    const result = await exportMiningQueueItems(
+        repository,
+        await repository.fetch(),
+        async (i) => {
+            if (i.id === 'b') {
+                throw new Error('Anki is not running');
+            }
+        },
+        (i) => exporting.push(i.id)
+    );
+    expect(result).toEqual({ exported: 2, failed: 1 });
+    expect(exporting).toEqual(['a', 'b', 'c']);
+    expect((await repository.fetch()).map((i) => [i.id, i.status, i.exportError])).toEqual([
+        ['a', 'exported', undefined],
+        ['b', 'failed', 'Anki is not running'],
+        ['c', 'exported', undefined],
+    ]);
+
+    await repository.deleteExported();
+    expect((await repository.fetch()).map((i) => i.id)).toEqual(['b']);
+});
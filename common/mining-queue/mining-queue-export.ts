@@ -0,0 +1,38 @@
+import { MiningQueueItem, MiningQueueRepository } from './mining-queue-repository';
+
+export interface MiningQueueExportResult {
+    exported: number;
+    failed: number;
+}
+
+/**
+ * Export queued items one at a time, recording the outcome of each item in the repository. A failed item doesn't stop
+ * the export, and keeps its error so that it can be retried.
+ * @param exportItem Exports a single item to Anki, rejecting if it can't be exported
+ * @param onItemExporting Called before each item is exported, e.g. to show progress
+ */
+export const exportMiningQueueItems = async (
+    repository: MiningQueueRepository,
+    items: MiningQueueItem[],
+    exportItem: (item: MiningQueueItem) => Promise<unknown>,
+    onItemExporting?: (item: MiningQueueItem, index: number) => void
+): Promise<MiningQueueExportResult> => {
+    const result: MiningQueueExportResult = { exported: 0, failed: 0 };
+
+    for (let i = 0; i < items.length; ++i) {
+        const item = items[i];
+        onItemExporting?.(item, i);
+
+        try {
+            await exportItem(item);
+            await repository.update(item.id, { status: 'exported', exportError: undefined });
+            ++result.exported;
+        } catch (e) {
+            const exportError = e instanceof Error ? e.message : String(e);
+            await repository.update(item.id, { status: 'failed', exportError });
+            ++result.failed;
+        }
+    }
+
+    return result;
+};
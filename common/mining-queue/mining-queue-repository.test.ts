@@ -0,0 +1,64 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import type { AudioModel } from '@project/common';
+import { IndexedDBMiningQueueRepository, MiningQueueItem } from './mining-queue-repository';
+
+const item = (id: string, timestamp: number): MiningQueueItem => ({
+    id,
+    timestamp,
+    status: 'pending',
+    subtitle: { text: `text ${id}`, start: 0, end: 1, originalStart: 0, originalEnd: 1, track: 0 },
+    surroundingSubtitles: [],
+    subtitleFileName: 'subtitle-file',
+    mediaTimestamp: 5678,
+});
+
+beforeEach(async () => {
+    await new IndexedDBMiningQueueRepository().clear();
+});
+
+it('fetches items in the order they were marked', async () => {
+    const repository = new IndexedDBMiningQueueRepository();
+    await repository.save(item('b', 2000));
+    await repository.save(item('a', 1000));
+    expect((await repository.fetch()).map((i) => i.id)).toEqual(['a', 'b']);
+});
+
+it('saves only the card of an item', async () => {
+    const repository = new IndexedDBMiningQueueRepository();
+    await repository.save({ ...item('a', 1000), command: 'record-media-and-forward-subtitle' } as MiningQueueItem);
+    const [saved] = await repository.fetch();
+    expect(saved).toMatchObject(item('a', 1000));
+    expect(saved).not.toHaveProperty('command');
+});
+
+it('keeps the audio recorded when an item was marked', async () => {
+    const repository = new IndexedDBMiningQueueRepository();
+    const audio: AudioModel = {
+        base64: 'YXVkaW8=',
+        extension: 'mp3',
+        paddingStart: 0,
+        paddingEnd: 500,
+        playbackRate: 1,
+    };
+    await repository.save({ ...item('a', 1000), audio });
+    expect((await repository.fetch())[0].audio).toEqual(audio);
+});
+
+it('updates the word and definition of an item', async () => {
+    const repository = new IndexedDBMiningQueueRepository();
+    await repository.save(item('a', 1000));
+    await repository.update('a', { word: '食べる', definition: 'to eat' });
+    expect(await repository.fetch()).toEqual([{ ...item('a', 1000), word: '食べる', definition: 'to eat' }]);
+});
+
+it('prunes exported items first, then the least recently marked ones beyond the limit', async () => {
+    const repository = new IndexedDBMiningQueueRepository(2);
+    await repository.save(item('a', 1000));
+    await repository.save({ ...item('b', 2000), status: 'exported' });
+    await repository.save(item('c', 3000));
+    expect((await repository.fetch()).map((i) => i.id)).toEqual(['a', 'c']);
+
+    await repository.save(item('d', 4000));
+    expect((await repository.fetch()).map((i) => i.id)).toEqual(['c', 'd']);
+});
@@ -0,0 +1,130 @@
+import { CardModel } from '@project/common';
+import Dexie, { liveQuery } from 'dexie';
+
+export type MiningQueueItemStatus = 'pending' | 'exported' | 'failed';
+
+/**
+ * A subtitle marked for mining during playback, kept until it is reviewed and exported to Anki.
+ */
+export interface MiningQueueItem extends CardModel {
+    readonly id: string;
+    /** Unix timestamp (ms) of when the subtitle was marked */
+    readonly timestamp: number;
+    readonly status: MiningQueueItemStatus;
+    /** Why the last export of the item failed */
+    readonly exportError?: string;
+}
+
+export type MiningQueueItemChanges = Partial<
+    Pick<MiningQueueItem, 'word' | 'definition' | 'text' | 'status' | 'exportError'>
+>;
+
+class MiningQueueDatabase extends Dexie {
+    miningQueueItems!: Dexie.Table<MiningQueueItem, string>;
+
+    constructor() {
+        super('MiningQueueDatabase');
+        this.version(1).stores({
+            miningQueueItems: 'id,timestamp',
+        });
+    }
+}
+
+export interface MiningQueueRepository {
+    clear: () => Promise<void>;
+    fetch: () => Promise<MiningQueueItem[]>;
+    liveFetch: (callback: (items: MiningQueueItem[]) => void) => () => void;
+    save: (item: MiningQueueItem) => Promise<void>;
+    update: (id: string, changes: MiningQueueItemChanges) => Promise<void>;
+    delete: (id: string) => Promise<void>;
+    deleteExported: () => Promise<void>;
+}
+
+export class IndexedDBMiningQueueRepository implements MiningQueueRepository {
+    private readonly _db = new MiningQueueDatabase();
+    private _limit?: number;
+
+    /**
+     * @param limit Maximum number of items to keep, pruned on save. Exported items are pruned first, then the least
+     * recently marked ones. Unlimited if undefined.
+     */
+    constructor(limit?: number) {
+        this._limit = limit;
+    }
+
+    set limit(limit: number | undefined) {
+        this._limit = limit;
+    }
+
+    async clear() {
+        await this._db.miningQueueItems.clear();
+    }
+
+    async fetch(): Promise<MiningQueueItem[]> {
+        return await this._db.miningQueueItems.orderBy('timestamp').toArray();
+    }
+
+    liveFetch(callback: (items: MiningQueueItem[]) => void): () => void {
+        const observable = liveQuery(() => {
+            return this.fetch();
+        });
+        const subscription = observable.subscribe(callback);
+        return () => subscription.unsubscribe();
+    }
+
+    async save(item: MiningQueueItem) {
+        // Cards built from mining messages carry the rest of the message along with them
+        const record: MiningQueueItem = {
+            id: item.id,
+            timestamp: item.timestamp,
+            status: item.status,
+            exportError: item.exportError,
+            subtitle: item.subtitle,
+            surroundingSubtitles: item.surroundingSubtitles,
+            subtitleFileName: item.subtitleFileName,
+            url: item.url,
+            image: item.image,
+            audio: item.audio,
+            file: item.file,
+            mediaTimestamp: item.mediaTimestamp,
+            word: item.word,
+            definition: item.definition,
+            text: item.text,
+            translation: item.translation,
+            customFieldValues: item.customFieldValues,
+        };
+        await this._db.miningQueueItems.put(record);
+        await this._prune();
+    }
+
+    private async _prune() {
+        if (this._limit === undefined) {
+            return;
+        }
+
+        const size = await this._db.miningQueueItems.count();
+
+        if (size <= this._limit) {
+            return;
+        }
+
+        const items = await this.fetch();
+        const prunable = [
+            ...items.filter((item) => item.status === 'exported'),
+            ...items.filter((item) => item.status !== 'exported'),
+        ];
+        await this._db.miningQueueItems.bulkDelete(prunable.slice(0, size - this._limit).map((item) => item.id));
+    }
+
+    async update(id: string, changes: MiningQueueItemChanges) {
+        await this._db.miningQueueItems.update(id, changes);
+    }
+
+    async delete(id: string) {
+        await this._db.miningQueueItems.delete(id);
+    }
+
+    async deleteExported() {
+        await this._db.miningQueueItems.filter((item) => item.status === 'exported').delete();
+    }
+}
@@ -1,4 +1,5 @@
 import {
+    KnownWordsPrecedence,
     PauseOnHoverMode,
     TokenMatchStrategyPriority,
     TokenMatchStrategy,
@@ -80,6 +81,7 @@ it('validates exported settings', () => {
         seekDuration: 4,
         speedChangeStep: 0.2,
         fastForwardModePlaybackRate: 3,
+        detectSpeechWithoutSubtitles: true,
         keyBindSet: {
             adjustOffsetToNextSubtitle: { keys: '⇧+right' },
             adjustOffsetToPreviousSubtitle: { keys: '⇧+left' },
@@ -127,7 +129,13 @@ it('validates exported settings', () => {
         alwaysPlayOnSubtitleRepeat: true,
         subtitleRegexFilter: '',
         subtitleRegexFilterTextReplacement: '',
+        subtitleStyleFilter: '',
         convertNetflixRuby: false,
+        ocrImageSubtitles: false,
+        subtitleOverlapRepair: 'none',
+        subtitleMinimumDuration: 0,
+        subtitleGapSnapThreshold: 0,
+        removeDuplicateSubtitles: false,
         subtitleHtml: 1,
         language: 'en',
         customAnkiFields: {},
@@ -142,6 +150,8 @@ it('validates exported settings', () => {
         streamingSubsDragAndDrop: true,
         streamingAutoSync: true,
         streamingLastLanguagesSynced: { 'www.youtube.com': ['ja', '', ''] },
+        streamingRememberSubtitles: true,
+        streamingAutoLoadRememberedSubtitles: false,
         streamingCondensedPlaybackMinimumSkipIntervalMs: 1000,
         streamingScreenshotDelay: 1000,
         streamingSubtitleListPreference: 'app',
@@ -153,6 +163,7 @@ it('validates exported settings', () => {
                 dictionaryColorizeOnHoverOnly: true,
                 dictionaryTokenMatchStrategy: TokenMatchStrategy.ANY_FORM_COLLECTED,
                 dictionaryTokenMatchStrategyPriority: TokenMatchStrategyPriority.EXACT,
+                dictionaryTokenizer: 'yomitan',
                 dictionaryYomitanUrl: 'http://127.0.0.1:19633',
                 dictionaryYomitanScanLength: 16,
                 dictionaryTokenReadingAnnotation: TokenReadingAnnotation.UNKNOWN_OR_BELOW,
@@ -161,6 +172,8 @@ it('validates exported settings', () => {
                 dictionaryAnkiSentenceTokenMatchStrategy: TokenMatchStrategy.EXACT_FORM_COLLECTED,
                 dictionaryAnkiMatureCutoff: 21,
                 dictionaryAnkiTreatSuspended: 'NORMAL',
+                dictionaryKnownWordsPrecedence: KnownWordsPrecedence.KNOWN_WORDS,
+                dictionaryFrequencyHighlightLimit: 0,
                 tokenStyling: TokenStyling.UNDERLINE,
                 tokenStylingThickness: 1,
                 colorizeFullyKnownTokens: false,
@@ -171,6 +184,7 @@ it('validates exported settings', () => {
                 dictionaryColorizeOnHoverOnly: true,
                 dictionaryTokenMatchStrategy: TokenMatchStrategy.LEMMA_OR_EXACT_FORM_COLLECTED,
                 dictionaryTokenMatchStrategyPriority: TokenMatchStrategyPriority.LEMMA,
+                dictionaryTokenizer: 'kuromoji',
                 dictionaryYomitanUrl: 'http://127.0.0.1:19634',
                 dictionaryYomitanScanLength: 12,
                 dictionaryTokenReadingAnnotation: TokenReadingAnnotation.ALWAYS,
@@ -179,6 +193,8 @@ it('validates exported settings', () => {
                 dictionaryAnkiSentenceTokenMatchStrategy: TokenMatchStrategy.EXACT_FORM_COLLECTED,
                 dictionaryAnkiMatureCutoff: 30,
                 dictionaryAnkiTreatSuspended: 1,
+                dictionaryKnownWordsPrecedence: KnownWordsPrecedence.ANKI,
+                dictionaryFrequencyHighlightLimit: 20000,
                 tokenStyling: TokenStyling.UNDERLINE,
                 tokenStylingThickness: 1,
                 colorizeFullyKnownTokens: false,
@@ -189,6 +205,7 @@ it('validates exported settings', () => {
                 dictionaryColorizeOnHoverOnly: false,
                 dictionaryTokenMatchStrategy: TokenMatchStrategy.LEMMA_FORM_COLLECTED,
                 dictionaryTokenMatchStrategyPriority: TokenMatchStrategyPriority.BEST_KNOWN,
+                dictionaryTokenizer: 'sudachi',
                 dictionaryYomitanUrl: 'http://127.0.0.1:19635',
                 dictionaryYomitanScanLength: 8,
                 dictionaryTokenReadingAnnotation: TokenReadingAnnotation.NEVER,
@@ -197,6 +214,8 @@ it('validates exported settings', () => {
                 dictionaryAnkiSentenceTokenMatchStrategy: TokenMatchStrategy.EXACT_FORM_COLLECTED,
                 dictionaryAnkiMatureCutoff: 30,
                 dictionaryAnkiTreatSuspended: 2,
+                dictionaryKnownWordsPrecedence: KnownWordsPrecedence.LEAST_KNOWN,
+                dictionaryFrequencyHighlightLimit: 5000,
                 tokenStyling: TokenStyling.UNDERLINE,
                 tokenStylingThickness: 1,
                 colorizeFullyKnownTokens: false,
@@ -42,6 +42,9 @@ const dictionaryTrackSchema = {
         dictionaryTokenMatchStrategyPriority: {
             type: 'string',
         },
+        dictionaryTokenizer: {
+            type: 'string',
+        },
         dictionaryYomitanUrl: {
             type: 'string',
         },
@@ -72,6 +75,12 @@ const dictionaryTrackSchema = {
         dictionaryAnkiTreatSuspended: {
             type: ['string', 'number'],
         },
+        dictionaryKnownWordsPrecedence: {
+            type: 'string',
+        },
+        dictionaryFrequencyHighlightLimit: {
+            type: 'number',
+        },
         tokenStyling: {
             type: 'string',
         },
@@ -89,6 +98,22 @@ const dictionaryTrackSchema = {
         },
     },
 };
+const studyDeckConfigSchema = {
+    id: '/StudyDeckConfig',
+    type: 'object',
+    properties: {
+        name: {
+            type: 'string',
+        },
+        wordField: {
+            type: 'string',
+        },
+        enabled: {
+            type: 'boolean',
+        },
+    },
+    required: ['name', 'wordField', 'enabled'],
+};
 const textSubtitleSettingsSchema = {
     id: '/TextSubtitleSettings',
     type: 'object',
@@ -191,6 +216,9 @@ const settingsSchema = {
         track3Field: {
             type: 'string',
         },
+        translationField: {
+            type: 'string',
+        },
         ankiFieldSettings: {
             type: 'object',
             properties: {
@@ -204,6 +232,7 @@ const settingsSchema = {
                 track1: { $ref: '/AnkiField' },
                 track2: { $ref: '/AnkiField' },
                 track3: { $ref: '/AnkiField' },
+                translation: { $ref: '/AnkiField' },
             },
         },
         customAnkiFieldSettings: {
@@ -296,6 +325,9 @@ const settingsSchema = {
         fastForwardModePlaybackRate: {
             type: 'number',
         },
+        detectSpeechWithoutSubtitles: {
+            type: 'boolean',
+        },
         keyBindSet: {
             type: 'object',
             properties: {
@@ -337,6 +369,10 @@ const settingsSchema = {
                 moveBottomSubtitlesDown: { $ref: '/KeyBind' },
                 moveTopSubtitlesUp: { $ref: '/KeyBind' },
                 moveTopSubtitlesDown: { $ref: '/KeyBind' },
+                markHoveredWordKnown: { $ref: '/KeyBind' },
+                markHoveredWordLearning: { $ref: '/KeyBind' },
+                ignoreHoveredWord: { $ref: '/KeyBind' },
+                markForMining: { $ref: '/KeyBind' },
             },
         },
         recordWithAudioPlayback: {
@@ -351,6 +387,9 @@ const settingsSchema = {
         miningHistoryStorageLimit: {
             type: 'number',
         },
+        miningQueueStorageLimit: {
+            type: 'number',
+        },
         preCacheSubtitleDom: {
             type: 'boolean',
         },
@@ -384,9 +423,27 @@ const settingsSchema = {
         subtitleRegexFilterTextReplacement: {
             type: 'string',
         },
+        subtitleStyleFilter: {
+            type: 'string',
+        },
         convertNetflixRuby: {
             type: 'boolean',
         },
+        ocrImageSubtitles: {
+            type: 'boolean',
+        },
+        subtitleOverlapRepair: {
+            type: 'string',
+        },
+        subtitleMinimumDuration: {
+            type: 'number',
+        },
+        subtitleGapSnapThreshold: {
+            type: 'number',
+        },
+        removeDuplicateSubtitles: {
+            type: 'boolean',
+        },
         language: {
             type: 'string',
         },
@@ -431,6 +488,9 @@ const settingsSchema = {
         streamingRecordMedia: {
             type: 'boolean',
         },
+        streamingRecordQueuedMedia: {
+            type: 'boolean',
+        },
         streamingTakeScreenshot: {
             type: 'boolean',
         },
@@ -449,6 +509,12 @@ const settingsSchema = {
         streamingAutoSyncPromptOnFailure: {
             type: 'boolean',
         },
+        streamingRememberSubtitles: {
+            type: 'boolean',
+        },
+        streamingAutoLoadRememberedSubtitles: {
+            type: 'boolean',
+        },
         streamingLastLanguagesSynced: {
             type: 'object',
             additionalProperties: {
@@ -488,6 +554,69 @@ const settingsSchema = {
         watchTimeRetentionDays: {
             type: 'number',
         },
+        showStreakBadge: {
+            type: 'boolean',
+        },
+        studyModeEnabled: {
+            type: 'boolean',
+        },
+        studyModeFrequency: {
+            type: 'number',
+        },
+        studyModeLineSelection: {
+            type: 'string',
+        },
+        studyModeTokenSelection: {
+            type: 'string',
+        },
+        studyModeIncludeConjugations: {
+            type: 'boolean',
+        },
+        studyModeDecks: {
+            type: 'array',
+            items: {
+                $ref: '/StudyDeckConfig',
+            },
+        },
+        studyModeTrackResults: {
+            type: 'boolean',
+        },
+        studyModeIntensity: {
+            type: 'string',
+        },
+        studyModeRateLimitSeconds: {
+            type: 'number',
+        },
+        studyModeClipStorageLimit: {
+            type: 'number',
+        },
+        studyModeFocusMode: {
+            type: 'string',
+        },
+        studyModeTestType: {
+            type: 'string',
+        },
+        studyModeTokenizer: {
+            type: 'string',
+        },
+        studyModeSudachiSplitMode: {
+            type: 'string',
+        },
+        studyModeMatchLongVowels: {
+            type: 'boolean',
+        },
+        studyModeMatchYotsugana: {
+            type: 'boolean',
+        },
+        studyModeMatchSmallKana: {
+            type: 'boolean',
+        },
+        studyModeCloseAnswerDistance: {
+            type: 'number',
+        },
+        studyModeRomajiInput: {
+            type: 'boolean',
+        },
         dictionaryTracks: {
             type: 'array',
             items: {
@@ -531,6 +660,7 @@ export const validateSettings = (settings: any) => {
     validator.addSchema(ankiFieldSchema);
     validator.addSchema(dictionaryTrackSchema);
     validator.addSchema(textSubtitleSettingsSchema);
+    validator.addSchema(studyDeckConfigSchema);
     const result = validator.validate(copy, settingsSchema);
     validateAllKnownKeys(copy, []);
 
@@ -593,5 +723,9 @@ const schemaForRef = (ref: string) => {
         return textSubtitleSettingsSchema;
     }
 
+    if (ref === '/StudyDeckConfig') {
+        return studyDeckConfigSchema;
+    }
+
     return undefined;
 };
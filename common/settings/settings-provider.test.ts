@@ -140,6 +140,23 @@ it('provides default values for unpopulated, nested settings', async () => {
     });
 });
 
+it('fills in missing fields of study mode decks', async () => {
+    const storage = new MockSettingsStorage();
+    const provider = new SettingsProvider(storage);
+    storage.setData({
+        studyModeDecks: [
+            'Mining',
+            { name: 'Core', wordField: 'Expression' },
+            { name: 'Kanji', wordField: 'Kanji', enabled: false },
+        ],
+    });
+    expect(await provider.getSingle('studyModeDecks')).toEqual([
+        { name: 'Mining', wordField: '', enabled: true },
+        { name: 'Core', wordField: 'Expression', enabled: true },
+        { name: 'Kanji', wordField: 'Kanji', enabled: false },
+    ]);
+});
+
 it('removes corresponding field settings when custom anki fields are removed', async () => {
     const storage = new MockSettingsStorage();
     const provider = new SettingsProvider(storage);
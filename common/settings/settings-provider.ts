@@ -10,12 +10,14 @@ import {
     TextSubtitleSettings,
     textSubtitleSettingsKeys,
     TokenMatchStrategyPriority,
+    KnownWordsPrecedence,
     TokenMatchStrategy,
     TokenStyling,
     DictionaryTrack,
     TokenReadingAnnotation,
 } from '.';
 import { AutoPausePreference, PostMineAction, PostMinePlayback, SubtitleHtml } from '..';
+import type { StudyDeckConfig } from '../study-mode';
 
 // @ts-ignore
 const isMacOs = (navigator.userAgentData?.platform ?? navigator.platform)?.toUpperCase()?.indexOf('MAC') > -1;
@@ -41,6 +43,7 @@ const defaultDictionaryTrackSettings: DictionaryTrack = {
     dictionaryColorizeOnHoverOnly: false,
     dictionaryTokenMatchStrategy: TokenMatchStrategy.ANY_FORM_COLLECTED,
     dictionaryTokenMatchStrategyPriority: TokenMatchStrategyPriority.EXACT,
+    dictionaryTokenizer: 'yomitan',
     dictionaryYomitanUrl: 'http://127.0.0.1:19633',
     dictionaryYomitanScanLength: 16,
     dictionaryTokenReadingAnnotation: TokenReadingAnnotation.UNKNOWN_OR_BELOW,
@@ -49,6 +52,8 @@ const defaultDictionaryTrackSettings: DictionaryTrack = {
     dictionaryAnkiSentenceTokenMatchStrategy: TokenMatchStrategy.EXACT_FORM_COLLECTED,
     dictionaryAnkiMatureCutoff: 21,
     dictionaryAnkiTreatSuspended: 'NORMAL',
+    dictionaryKnownWordsPrecedence: KnownWordsPrecedence.KNOWN_WORDS,
+    dictionaryFrequencyHighlightLimit: 0,
     tokenStyling: TokenStyling.UNDERLINE,
     tokenStylingThickness: 3,
     colorizeFullyKnownTokens: false,
@@ -69,6 +74,7 @@ export const defaultSettings: AsbplayerSettings = {
     track1Field: '',
     track2Field: '',
     track3Field: '',
+    translationField: '',
     ankiFieldSettings: {
         sentence: { order: 1, display: true },
         definition: { order: 2, display: true },
@@ -80,6 +86,7 @@ export const defaultSettings: AsbplayerSettings = {
         track1: { order: 8, display: false },
         track2: { order: 9, display: false },
         track3: { order: 10, display: false },
+        translation: { order: 11, display: false },
     },
     customAnkiFieldSettings: {},
     ...defaultSubtitleTextSettings,
@@ -99,6 +106,7 @@ export const defaultSettings: AsbplayerSettings = {
     seekDuration: 3,
     speedChangeStep: 0.1,
     fastForwardModePlaybackRate: 2.7,
+    detectSpeechWithoutSubtitles: true,
     keyBindSet: {
         togglePlay: { keys: 'space' },
         toggleAutoPause: { keys: isMacOs ? '⇧+P' : 'shift+P' },
@@ -138,11 +146,16 @@ export const defaultSettings: AsbplayerSettings = {
         moveBottomSubtitlesDown: { keys: '' },
         moveTopSubtitlesUp: { keys: '' },
         moveTopSubtitlesDown: { keys: '' },
+        markHoveredWordKnown: { keys: isMacOs ? '⇧+K' : 'shift+K' },
+        markHoveredWordLearning: { keys: isMacOs ? '⇧+L' : 'shift+L' },
+        ignoreHoveredWord: { keys: isMacOs ? '⇧+I' : 'shift+I' },
+        markForMining: { keys: isMacOs ? '⇧+M' : 'shift+M' },
     },
     recordWithAudioPlayback: true,
     preferMp3: true,
     tabName: 'asbplayer',
     miningHistoryStorageLimit: 25,
+    miningQueueStorageLimit: 200,
     clickToMineDefaultAction: PostMineAction.showAnkiDialog,
     postMiningPlaybackState: PostMinePlayback.remember,
     themeType: 'dark',
@@ -153,7 +166,13 @@ export const defaultSettings: AsbplayerSettings = {
     alwaysPlayOnSubtitleRepeat: true,
     subtitleRegexFilter: '',
     subtitleRegexFilterTextReplacement: '',
+    subtitleStyleFilter: '^(signs?|ts|typeset(ting)?)\\b',
     convertNetflixRuby: false,
+    ocrImageSubtitles: false,
+    subtitleOverlapRepair: 'none',
+    subtitleMinimumDuration: 0,
+    subtitleGapSnapThreshold: 0,
+    removeDuplicateSubtitles: false,
     language: 'en',
     customAnkiFields: {},
     tags: [],
@@ -161,6 +180,7 @@ export const defaultSettings: AsbplayerSettings = {
     streamingAppUrl: 'https://app.asbplayer.dev',
     streamingDisplaySubtitles: true,
     streamingRecordMedia: true,
+    streamingRecordQueuedMedia: false,
     streamingTakeScreenshot: true,
     streamingCleanScreenshot: true,
     streamingCropScreenshot: true,
@@ -168,6 +188,8 @@ export const defaultSettings: AsbplayerSettings = {
     streamingAutoSync: false,
     streamingAutoSyncPromptOnFailure: false,
     streamingLastLanguagesSynced: {},
+    streamingRememberSubtitles: true,
+    streamingAutoLoadRememberedSubtitles: false,
     streamingCondensedPlaybackMinimumSkipIntervalMs: 1000,
     streamingScreenshotDelay: 1000,
     streamingSubtitleListPreference: SubtitleListPreference.noSubtitleList,
@@ -203,6 +225,23 @@ export const defaultSettings: AsbplayerSettings = {
     showStreakBadge: true,
     studyModeEnabled: false,
     studyModeFrequency: 3,
+    studyModeLineSelection: 'random',
+    studyModeTokenSelection: 'random',
+    studyModeIncludeConjugations: true,
+    studyModeDecks: [],
+    studyModeTrackResults: true,
+    studyModeClipStorageLimit: 200,
+    studyModeIntensity: 'medium',
+    studyModeRateLimitSeconds: 10,
+    studyModeFocusMode: 'balanced',
+    studyModeTestType: 'cloze',
+    studyModeTokenizer: 'kuromoji',
+    studyModeSudachiSplitMode: 'B',
+    studyModeMatchLongVowels: true,
+    studyModeMatchYotsugana: true,
+    studyModeMatchSmallKana: false,
+    studyModeCloseAnswerDistance: 1,
+    studyModeRomajiInput: false,
     dictionaryTracks: [defaultDictionaryTrackSettings, defaultDictionaryTrackSettings, defaultDictionaryTrackSettings],
 };
 
@@ -430,6 +469,8 @@ export const ensureConsistencyOnRead = (settings: Partial<AsbplayerSettings>) =>
     let newKeyBindSet: any = {};
     let ankiFieldSettingsModified = false;
     let newAnkiFieldSettings: any = {};
+    let studyModeDecksModified = false;
+    let newStudyModeDecks: StudyDeckConfig[] = [];
 
     if (settings.keyBindSet !== undefined) {
         const keyBindSet = settings.keyBindSet;
@@ -461,11 +502,31 @@ export const ensureConsistencyOnRead = (settings: Partial<AsbplayerSettings>) =>
         }
     }
 
-    if (!ankiFieldSettingsModified && !keyBindSetModified) {
+    if (settings.studyModeDecks !== undefined) {
+        // Decks may have been stored as bare names, or without all of their fields
+        for (const deck of settings.studyModeDecks as (StudyDeckConfig | string)[]) {
+            if (typeof deck === 'string') {
+                newStudyModeDecks.push({ name: deck, wordField: '', enabled: true });
+                studyModeDecksModified = true;
+            } else if (deck.wordField === undefined || deck.enabled === undefined) {
+                newStudyModeDecks.push({ ...deck, wordField: deck.wordField ?? '', enabled: deck.enabled ?? true });
+                studyModeDecksModified = true;
+            } else {
+                newStudyModeDecks.push(deck);
+            }
+        }
+    }
+
+    if (!ankiFieldSettingsModified && !keyBindSetModified && !studyModeDecksModified) {
         return settings;
     }
 
-    return { ...settings, ...{ ankiFieldSettings: newAnkiFieldSettings }, ...{ keyBindSet: newKeyBindSet } };
+    return {
+        ...settings,
+        ...(ankiFieldSettingsModified && { ankiFieldSettings: newAnkiFieldSettings }),
+        ...(keyBindSetModified && { keyBindSet: newKeyBindSet }),
+        ...(studyModeDecksModified && { studyModeDecks: newStudyModeDecks }),
+    };
 };
 
 type SettingsKey = keyof AsbplayerSettings;
@@ -1,4 +1,14 @@
 import { AnkiExportMode, AutoPausePreference, PostMineAction, PostMinePlayback, SubtitleHtml } from '../src/model';
+import type {
+    FocusMode,
+    LineSelectionStrategy,
+    StudyDeckConfig,
+    StudyIntensity,
+    StudyTestType,
+    TokenBlankingStrategy,
+} from '../study-mode';
+import type { SubtitleOverlapRepair } from '../subtitle-repair';
+import type { LocalTokenizerType, SudachiSplitMode, TokenizerType } from '../tokenizer';
 
 export enum PauseOnHoverMode {
     disabled = 0,
@@ -13,6 +23,8 @@ export interface MiscSettings {
     readonly seekDuration: number;
     readonly speedChangeStep: number;
     readonly fastForwardModePlaybackRate: number;
+    // Condensed and fast forward playback skip the silence found in the audio when there are no subtitles
+    readonly detectSpeechWithoutSubtitles: boolean;
     readonly keyBindSet: KeyBindSet;
     readonly rememberSubtitleOffset: boolean;
     readonly autoCopyCurrentSubtitle: boolean;
@@ -20,8 +32,18 @@ export interface MiscSettings {
     readonly subtitleHtml: SubtitleHtml;
     readonly subtitleRegexFilter: string;
     readonly subtitleRegexFilterTextReplacement: string;
+    // Subtitles written in styles matching this regex are left out, e.g. typeset signs in ASS files
+    readonly subtitleStyleFilter: string;
     readonly convertNetflixRuby: boolean;
+    // Text of image-based subtitles (PGS, VobSub) is recognized when they are loaded, keeping the images as a fallback
+    readonly ocrImageSubtitles: boolean;
+    // Timing of loaded subtitles is repaired by these rules, see repairSubtitleTiming
+    readonly subtitleOverlapRepair: SubtitleOverlapRepair;
+    readonly subtitleMinimumDuration: number;
+    readonly subtitleGapSnapThreshold: number;
+    readonly removeDuplicateSubtitles: boolean;
     readonly miningHistoryStorageLimit: number;
+    readonly miningQueueStorageLimit: number;
     readonly language: string;
     readonly clickToMineDefaultAction: PostMineAction;
     readonly postMiningPlaybackState: PostMinePlayback;
@@ -29,11 +51,6 @@ export interface MiscSettings {
     readonly lastSelectedAnkiExportMode: AnkiExportMode;
     readonly tabName: string;
     readonly pauseOnHoverMode: PauseOnHoverMode;
-    readonly watchTimeTrackingEnabled: boolean;
-    readonly watchTimeRetentionDays: number;
-    readonly showStreakBadge: boolean;
-    readonly studyModeEnabled: boolean;
-    readonly studyModeFrequency: number;
 }
 
 /*
@@ -101,6 +118,14 @@ export enum TokenReadingAnnotation {
     NEVER = 'NEVER',
 }
 
+// Which status colors a word that is both marked in the known words and collected in Anki
+export enum KnownWordsPrecedence {
+    KNOWN_WORDS = 'KNOWN_WORDS',
+    ANKI = 'ANKI',
+    BEST_KNOWN = 'BEST_KNOWN',
+    LEAST_KNOWN = 'LEAST_KNOWN',
+}
+
 export function dictionaryTrackEnabled(dt: DictionaryTrack): boolean {
     return dt.dictionaryColorizeSubtitles;
 }
@@ -115,6 +140,7 @@ export interface DictionaryTrack {
     readonly dictionaryColorizeOnHoverOnly: boolean;
     readonly dictionaryTokenMatchStrategy: TokenMatchStrategy;
     readonly dictionaryTokenMatchStrategyPriority: TokenMatchStrategyPriority;
+    readonly dictionaryTokenizer: TokenizerType;
     readonly dictionaryYomitanUrl: string;
     readonly dictionaryYomitanScanLength: number;
     readonly dictionaryTokenReadingAnnotation: TokenReadingAnnotation;
@@ -123,6 +149,9 @@ export interface DictionaryTrack {
     readonly dictionaryAnkiSentenceTokenMatchStrategy: TokenMatchStrategy;
     readonly dictionaryAnkiMatureCutoff: number;
     readonly dictionaryAnkiTreatSuspended: TokenStatus | 'NORMAL';
+    readonly dictionaryKnownWordsPrecedence: KnownWordsPrecedence;
+    // Unknown words ranked below this in the frequency lists aren't highlighted, 0 highlights all of them
+    readonly dictionaryFrequencyHighlightLimit: number;
     readonly tokenStyling: TokenStyling;
     readonly tokenStylingThickness: number;
     readonly colorizeFullyKnownTokens: boolean;
@@ -143,7 +172,8 @@ export type AnkiSettingsFieldKey =
     | 'urlField'
     | 'track1Field'
     | 'track2Field'
-    | 'track3Field';
+    | 'track3Field'
+    | 'translationField';
 
 export interface AnkiSettings {
     readonly ankiConnectUrl: string;
@@ -159,6 +189,8 @@ export interface AnkiSettings {
     readonly track1Field: string;
     readonly track2Field: string;
     readonly track3Field: string;
+    // Lines of the other tracks paired with the mined line
+    readonly translationField: string;
     readonly customAnkiFields: { [key: string]: string };
     readonly tags: string[];
     readonly recordWithAudioPlayback: boolean;
@@ -189,6 +221,7 @@ export interface AnkiFieldSettings {
     readonly track1: AnkiField;
     readonly track2: AnkiField;
     readonly track3: AnkiField;
+    readonly translation: AnkiField;
 }
 
 export type CustomAnkiFieldSettings = { [key: string]: AnkiField };
@@ -207,6 +240,7 @@ const ankiSettingsKeysObject: { [key in keyof AnkiSettings]: boolean } = {
     track1Field: true,
     track2Field: true,
     track3Field: true,
+    translationField: true,
     customAnkiFields: true,
     tags: true,
     recordWithAudioPlayback: true,
@@ -344,6 +378,10 @@ export interface KeyBindSet {
     readonly moveBottomSubtitlesDown: KeyBind;
     readonly moveTopSubtitlesUp: KeyBind;
     readonly moveTopSubtitlesDown: KeyBind;
+    readonly markHoveredWordKnown: KeyBind;
+    readonly markHoveredWordLearning: KeyBind;
+    readonly ignoreHoveredWord: KeyBind;
+    readonly markForMining: KeyBind;
 
     // Bound from Chrome if extension is installed
     readonly copySubtitle: KeyBind;
@@ -420,6 +458,9 @@ export interface StreamingVideoSettings {
     readonly streamingAppUrl: string;
     readonly streamingDisplaySubtitles: boolean;
     readonly streamingRecordMedia: boolean;
+    // Subtitles marked for the mining queue only have their audio recorded if this is on, and only when playback is
+    // already at the subtitle
+    readonly streamingRecordQueuedMedia: boolean;
     readonly streamingTakeScreenshot: boolean;
     readonly streamingCleanScreenshot: boolean;
     readonly streamingCropScreenshot: boolean;
@@ -429,6 +470,9 @@ export interface StreamingVideoSettings {
     // Last language selected in subtitle track selector, keyed by domain
     // Used to auto-selecting a language in subtitle track selector, if it's available
     readonly streamingLastLanguagesSynced: { [key: string]: string[] };
+    // Subtitles loaded onto a video are remembered, along with their offset, for the next time the video is opened
+    readonly streamingRememberSubtitles: boolean;
+    readonly streamingAutoLoadRememberedSubtitles: boolean;
     readonly streamingCondensedPlaybackMinimumSkipIntervalMs: number;
     readonly streamingScreenshotDelay: number;
     readonly streamingSubtitleListPreference: SubtitleListPreference;
@@ -436,6 +480,42 @@ export interface StreamingVideoSettings {
     readonly streamingPages: PageSettings;
 }
 
+export interface StudyModeSettings {
+    readonly studyModeEnabled: boolean;
+    // Test every Nth line when line selection is random
+    readonly studyModeFrequency: number;
+    readonly studyModeLineSelection: LineSelectionStrategy;
+    readonly studyModeTokenSelection: TokenBlankingStrategy;
+    readonly studyModeIncludeConjugations: boolean;
+    // Anki decks used to determine how well words are known
+    readonly studyModeDecks: StudyDeckConfig[];
+    readonly studyModeTrackResults: boolean;
+    // Number of tested lines whose audio is kept for review, 0 to disable audio capture
+    readonly studyModeClipStorageLimit: number;
+    readonly studyModeIntensity: StudyIntensity;
+    // Minimum number of seconds between study tests
+    readonly studyModeRateLimitSeconds: number;
+    readonly studyModeFocusMode: FocusMode;
+    readonly studyModeTestType: StudyTestType;
+    // Morphological analyzer used to split lines into testable words
+    readonly studyModeTokenizer: LocalTokenizerType;
+    readonly studyModeSudachiSplitMode: SudachiSplitMode;
+    // Answer matching rules, see AnswerMatchingOptions
+    readonly studyModeMatchLongVowels: boolean;
+    readonly studyModeMatchYotsugana: boolean;
+    readonly studyModeMatchSmallKana: boolean;
+    readonly studyModeCloseAnswerDistance: number;
+    // Convert romaji typed into study inputs to kana, for typing answers without an IME
+    readonly studyModeRomajiInput: boolean;
+}
+
+// Watch time is tracked by the extension and isn't sent to the video
+export interface WatchTimeSettings {
+    readonly watchTimeTrackingEnabled: boolean;
+    readonly watchTimeRetentionDays: number;
+    readonly showStreakBadge: boolean;
+}
+
 export type KeyBindName = keyof KeyBindSet;
 
 export interface AsbplayerSettings
@@ -444,7 +524,9 @@ export interface AsbplayerSettings
         SubtitleSettings,
         DictionarySettings,
         StreamingVideoSettings,
-        WebSocketClientSettings {
+        WebSocketClientSettings,
+        StudyModeSettings,
+        WatchTimeSettings {
     readonly subtitlePreview: string;
 }
 
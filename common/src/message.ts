@@ -7,6 +7,9 @@ import type {
     SubtitleSettings,
 } from '../settings/settings';
 import type { GlobalState } from '../global-state';
+import type { KnownWordStatus } from '../known-words';
+import type { ComprehensionReport } from '../comprehension';
+import type { LocalTokenizerType, SudachiSplitMode, TokenPart } from '../tokenizer';
 import {
     RectModel,
     SubtitleModel,
@@ -216,6 +219,11 @@ export interface CardSavedMessage extends Message, CardModel {
     readonly cardName: string;
 }
 
+export interface CardQueuedMessage extends Message {
+    readonly command: 'card-queued';
+    readonly cardName: string;
+}
+
 export interface ScreenshotTakenMessage extends Message {
     readonly command: 'screenshot-taken';
     readonly ankiUiState?: AnkiUiSavedState;
@@ -296,12 +304,14 @@ export interface ExtensionSyncMessage extends Message {
 export interface OffsetFromVideoMessage extends Message {
     readonly command: 'offset';
     readonly value: number;
+    readonly drift?: number;
 }
 
 export interface OffsetToVideoMessage extends Message {
     readonly command: 'offset';
     readonly value: number;
     readonly echo?: boolean;
+    readonly drift?: number;
 }
 
 export interface PlaybackRateToVideoMessage extends Message {
@@ -381,11 +391,20 @@ export interface ToggleSubtitleTrackInListFromVideoMessage extends Message {
     readonly track: number;
 }
 
+export interface MarkWordFromVideoMessage extends Message {
+    readonly command: 'markWord';
+    readonly track: number;
+    readonly word: string;
+    readonly status: KnownWordStatus;
+}
+
 export interface SubtitlesToVideoMessage extends Message {
     readonly command: 'subtitles';
     readonly value: SubtitleModel[];
     readonly name?: string;
     readonly names: string[];
+    /** Whether the subtitles are edits of the subtitles already loaded, rather than newly loaded subtitles */
+    readonly edited?: boolean;
 }
 
 export interface SubtitlesUpdatedToVideoMessage extends Message {
@@ -401,6 +420,10 @@ export interface RequestSubtitlesMessage extends Message {
     readonly command: 'request-subtitles';
 }
 
+export interface RequestComprehensionReportMessage extends Message {
+    readonly command: 'request-comprehension-report';
+}
+
 export interface SubtitlesUpdatedFromVideoMessage extends Message {
     readonly command: 'subtitlesUpdated';
     readonly updatedSubtitles: RichSubtitleModel[];
@@ -707,6 +730,11 @@ export interface RequestCurrentSubtitleResponse {
     readonly currentSubtitleIndex: number | null;
 }
 
+export interface RequestComprehensionReportResponse {
+    readonly report?: ComprehensionReport;
+    readonly error?: string;
+}
+
 export interface JumpToSubtitleMessage extends Message {
     readonly command: 'jump-to-subtitle';
     readonly subtitle: SubtitleModel;
@@ -822,3 +850,74 @@ export interface DeleteOldWatchTimeMessage extends MessageWithId {
 export interface DeleteOldWatchTimeResponse {
     readonly deletedCount: number;
 }
+
+// Repository Messages
+
+/**
+ * Invokes a method of a repository in the extension's origin, where data shared by every website is kept instead of
+ * the origin of each website. The command names the repository, e.g. 'subtitle-library-repository'.
+ */
+export interface RepositoryMessage extends Message {
+    readonly method: string;
+    readonly args: any[];
+}
+
+export interface RepositoryResponse {
+    readonly result?: any;
+    readonly error?: string;
+}
+
+/**
+ * Invokes a method of the mining queue in the extension's origin on behalf of the app, so that lines marked in the
+ * app and in the extension end up in the same queue.
+ */
+export interface MiningQueueRepositoryMessage extends RepositoryMessage, MessageWithId {
+    readonly command: 'mining-queue-repository';
+}
+
+/**
+ * Records the audio of a line as it is being tested and stores it for study mode review.
+ * The video should already be playing from the start of the padded line.
+ */
+export interface RecordStudyClipMessage extends Message {
+    readonly command: 'record-study-clip';
+    /** Media timestamp (ms) at which the tested line starts */
+    readonly start: number;
+    /** Media timestamp (ms) at which the tested line ends */
+    readonly end: number;
+    readonly audioPaddingStart: number;
+    readonly audioPaddingEnd: number;
+    readonly playbackRate: number;
+}
+
+export interface RecordStudyClipResponse {
+    /** ID of the stored clip, undefined if no audio could be recorded */
+    readonly clipId?: number;
+    readonly error?: string;
+}
+
+export interface TokenizeWithSudachiMessage extends Message {
+    readonly command: 'tokenize-sudachi';
+    readonly text: string;
+    readonly splitMode: SudachiSplitMode;
+}
+
+export interface TokenizeWithSudachiResponse {
+    readonly tokens?: TokenPart[][];
+    readonly error?: string;
+}
+
+/**
+ * Tokenizes text for the app with a local tokenizer of the extension, which bundles the dictionaries of local
+ * tokenizers.
+ */
+export interface TokenizeMessage extends MessageWithId {
+    readonly command: 'tokenize';
+    readonly text: string;
+    readonly tokenizerType: LocalTokenizerType;
+}
+
+export interface TokenizeResponse {
+    readonly tokens?: TokenPart[][];
+    readonly error?: string;
+}
@@ -20,6 +20,41 @@ export interface SubtitleTextImage {
     readonly image: DimensionsModel;
 }
 
+/**
+ * Placement of a subtitle on the video, e.g. from the \an and \pos tags of ASS subtitles.
+ */
+export interface SubtitlePosition {
+    /** Numpad alignment: 1-3 bottom, 4-6 middle, 7-9 top, each row from left to right */
+    readonly alignment: number;
+    /** Horizontal position of the anchor as a fraction of the video width, if placed explicitly */
+    readonly x?: number;
+    /** Vertical position of the anchor as a fraction of the video height, if placed explicitly */
+    readonly y?: number;
+}
+
+export interface StyledSubtitleFragment {
+    readonly text: string;
+    /** CSS color */
+    readonly color?: string;
+    readonly bold?: boolean;
+    readonly italic?: boolean;
+    readonly underline?: boolean;
+    readonly strikeout?: boolean;
+    /** Time when the syllable is sung, in milliseconds from the start of the subtitle */
+    readonly karaoke?: { readonly start: number; readonly end: number };
+}
+
+/**
+ * Styling kept from subtitle formats that carry it, such as ASS.
+ */
+export interface SubtitleStyling {
+    /** Name of the style the subtitle was written in */
+    readonly styleName: string;
+    readonly position?: SubtitlePosition;
+    /** Text of the subtitle split by style, undefined if the text was changed by filters */
+    readonly fragments?: StyledSubtitleFragment[];
+}
+
 export interface SubtitleModel {
     readonly text: string;
     readonly textImage?: SubtitleTextImage;
@@ -30,6 +65,7 @@ export interface SubtitleModel {
     readonly track: number;
     readonly index?: number;
     readonly richText?: string;
+    readonly styling?: SubtitleStyling;
 }
 
 export interface IndexedSubtitleModel extends SubtitleModel {
@@ -44,6 +80,8 @@ export interface CardTextFieldValues {
     readonly word?: string;
     readonly definition?: string;
     readonly text?: string;
+    // Lines of the other tracks paired with the line, e.g. the native-language translation of a target-language line
+    readonly translation?: string;
     readonly customFieldValues?: { [fieldName: string]: string };
 }
 
@@ -209,6 +247,8 @@ export interface VideoDataUiModel {
     settings: VideoDataUiSettings;
     hasSeenFtue: boolean;
     hideRememberTrackPreferenceToggle: boolean;
+    // Names of the files previously loaded onto the video, if they were remembered
+    rememberedSubtitles?: string[];
 }
 
 export interface VideoTabModel {
@@ -238,6 +278,8 @@ export enum PostMineAction {
     showAnkiDialog = 1,
     updateLastCard = 2,
     exportCard = 3,
+    // Saved to the mining queue to be reviewed and exported later
+    queueForMining = 4,
 }
 
 export enum PostMinePlayback {
@@ -281,6 +323,7 @@ export interface MobileOverlayModel {
     playMode: PlayMode;
     studyModeEnabled?: boolean;
     studyModeLinesUntilTest?: number;
+    studyModeType?: 'regular' | 'smart';
 }
 
 export enum ControlType {
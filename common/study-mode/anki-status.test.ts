@@ -0,0 +1,66 @@
+import { AnkiApi, AnkiCardInfo, getAnkiStatus, studyDeckQuery } from './anki-status';
+import { StudyDeckConfig } from './types';
+
+const deck: StudyDeckConfig = { name: 'Mining', wordField: 'Word', enabled: true };
+
+const card = (cardId: number, type: number, interval: number): AnkiCardInfo => ({
+    cardId,
+    type,
+    queue: type,
+    interval,
+});
+
+const mockAnkiApi = (cards: AnkiCardInfo[]) => {
+    const queries: string[] = [];
+    const api: AnkiApi = {
+        findCards: async (query: string) => {
+            queries.push(query);
+            return cards.map((c) => c.cardId);
+        },
+        cardsInfo: async (cardIds: number[]) => cards.filter((c) => cardIds.includes(c.cardId)),
+    };
+    return { api, queries };
+};
+
+it('returns uncollected when no cards match', async () => {
+    const { api } = mockAnkiApi([]);
+    expect(await getAnkiStatus(api, [deck], '食べる')).toEqual('uncollected');
+});
+
+it('returns uncollected without querying when no decks are enabled', async () => {
+    const { api, queries } = mockAnkiApi([card(1, 2, 100)]);
+    expect(await getAnkiStatus(api, [{ ...deck, enabled: false }], '食べる')).toEqual('uncollected');
+    expect(queries).toEqual([]);
+});
+
+it('maps card type and interval to status', async () => {
+    const status = async (c: AnkiCardInfo) => await getAnkiStatus(mockAnkiApi([c]).api, [deck], '食べる');
+    expect(await status(card(1, 0, 0))).toEqual('new');
+    expect(await status(card(1, 1, -600))).toEqual('learning');
+    expect(await status(card(1, 3, 1))).toEqual('learning');
+    expect(await status(card(1, 2, 5))).toEqual('young');
+    expect(await status(card(1, 2, 21))).toEqual('mature');
+});
+
+it('returns most known status across matching cards', async () => {
+    const { api } = mockAnkiApi([card(1, 0, 0), card(2, 2, 30), card(3, 1, 0)]);
+    expect(await getAnkiStatus(api, [deck], '食べる')).toEqual('mature');
+});
+
+it('searches every candidate form in every enabled deck', async () => {
+    const { api, queries } = mockAnkiApi([]);
+    await getAnkiStatus(
+        api,
+        [deck, { name: 'Core', wordField: 'Expression', enabled: true }, { ...deck, name: 'Old', enabled: false }],
+        ['食べる', 'たべる', '']
+    );
+    expect(queries).toEqual([
+        '("deck:Mining" "Word:食べる") OR ("deck:Mining" "Word:たべる") OR ("deck:Core" "Expression:食べる") OR ("deck:Core" "Expression:たべる")',
+    ]);
+});
+
+it('escapes special characters in queries', () => {
+    expect(studyDeckQuery({ name: 'Deck::Sub_1', wordField: 'Word', enabled: true }, '"a*b"')).toEqual(
+        '"deck:Deck::Sub\\_1" "Word:\\"a\\*b\\""'
+    );
+});
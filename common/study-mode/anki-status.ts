@@ -0,0 +1,101 @@
+import { AnkiCardStatus, ankiCardStatuses, StudyDeckConfig } from './types';
+
+/**
+ * Subset of the AnkiConnect API needed to look up card status. Satisfied by the Anki class.
+ */
+export interface AnkiApi {
+    findCards: (query: string) => Promise<number[]>;
+    cardsInfo: (cardIds: number[]) => Promise<AnkiCardInfo[]>;
+}
+
+/**
+ * Subset of the card info returned by AnkiConnect's cardsInfo action.
+ */
+export interface AnkiCardInfo {
+    cardId: number;
+    /** 0 = new, 1 = learning, 2 = review, 3 = relearning */
+    type: number;
+    /** -1 = suspended, -2/-3 = buried, otherwise mirrors type */
+    queue: number;
+    /** Current interval in days (negative values are seconds, for cards in learning) */
+    interval: number;
+}
+
+/**
+ * Interval, in days, at or above which a review card is considered mature. Matches Anki's own definition.
+ */
+export const MATURE_INTERVAL_DAYS = 21;
+
+const ankiQuerySpecialCharacters = ['"', '*', '_', '\\', ':'];
+
+const escapeQuery = (query: string, specialCharacters = ankiQuerySpecialCharacters) => {
+    let escaped = '';
+
+    for (const char of query) {
+        escaped += specialCharacters.includes(char) ? `\\${char}` : char;
+    }
+
+    return escaped;
+};
+
+// Colons separate subdecks (e.g. 'Japanese::Mining') so they are left as-is in deck names
+const deckNameSpecialCharacters = ankiQuerySpecialCharacters.filter((c) => c !== ':');
+
+export const studyDeckQuery = (deck: StudyDeckConfig, word: string) => {
+    return `"deck:${escapeQuery(deck.name, deckNameSpecialCharacters)}" "${deck.wordField}:${escapeQuery(word)}"`;
+};
+
+export const cardStatus = (card: AnkiCardInfo): AnkiCardStatus => {
+    switch (card.type) {
+        case 0:
+            return 'new';
+        case 1:
+        case 3:
+            return 'learning';
+        default:
+            return card.interval >= MATURE_INTERVAL_DAYS ? 'mature' : 'young';
+    }
+};
+
+const moreKnown = (a: AnkiCardStatus, b: AnkiCardStatus) =>
+    ankiCardStatuses.indexOf(a) >= ankiCardStatuses.indexOf(b) ? a : b;
+
+/**
+ * Determine how well a word is known from the cards in the enabled study decks.
+ * When several candidate forms of the word are given (e.g. the dictionary form and the reading), or several cards
+ * match, the most known status wins.
+ *
+ * @param ankiApi AnkiConnect client
+ * @param decks Decks to search, disabled decks are skipped
+ * @param lemma Word, or candidate forms of the word, to search for
+ */
+export async function getAnkiStatus(
+    ankiApi: AnkiApi,
+    decks: StudyDeckConfig[],
+    lemma: string | string[]
+): Promise<AnkiCardStatus> {
+    const candidates = (typeof lemma === 'string' ? [lemma] : lemma).filter((c) => c.trim() !== '');
+    const enabledDecks = decks.filter((d) => d.enabled && d.name && d.wordField);
+
+    if (candidates.length === 0 || enabledDecks.length === 0) {
+        return 'uncollected';
+    }
+
+    const query = enabledDecks
+        .flatMap((deck) => candidates.map((candidate) => `(${studyDeckQuery(deck, candidate)})`))
+        .join(' OR ');
+    const cardIds = await ankiApi.findCards(query);
+
+    if (cardIds.length === 0) {
+        return 'uncollected';
+    }
+
+    const cards = await ankiApi.cardsInfo(cardIds);
+    let status: AnkiCardStatus = 'uncollected';
+
+    for (const card of cards) {
+        status = moreKnown(status, cardStatus(card));
+    }
+
+    return status;
+}
@@ -0,0 +1,75 @@
+import {
+    AnswerMatchingOptions,
+    betterGrade,
+    defaultAnswerMatchingOptions,
+    editDistance,
+    gradeAnswer,
+    normalizeAnswer,
+} from './answer-matching';
+
+const strict: AnswerMatchingOptions = { longVowels: false, yotsugana: false, smallKana: false, closeDistance: 0 };
+const lenient: AnswerMatchingOptions = { longVowels: true, yotsugana: true, smallKana: true, closeDistance: 1 };
+
+const tokyo = { text: '東京', reading: 'トウキョウ', pronunciation: 'トーキョー' };
+
+it('accepts the surface form and the reading in either kana', () => {
+    expect(gradeAnswer('東京', tokyo, strict)).toEqual('correct');
+    expect(gradeAnswer('とうきょう', tokyo, strict)).toEqual('correct');
+    expect(gradeAnswer(' トウキョウ ', tokyo, strict)).toEqual('correct');
+    expect(gradeAnswer('きょうと', tokyo, strict)).toEqual('wrong');
+    expect(gradeAnswer('', tokyo, lenient)).toEqual('wrong');
+});
+
+it('accepts the pronunciation', () => {
+    expect(gradeAnswer('とーきょー', tokyo, strict)).toEqual('correct');
+});
+
+it('accepts long vowels spelled as pronounced', () => {
+    expect(gradeAnswer('とおきょお', tokyo, strict)).toEqual('wrong');
+    expect(gradeAnswer('とおきょお', tokyo, lenient)).toEqual('correct');
+    expect(gradeAnswer('とーきょう', { text: '東京', reading: 'トウキョウ' }, lenient)).toEqual('correct');
+    expect(gradeAnswer('せんせー', { text: '先生', reading: 'センセイ' }, lenient)).toEqual('correct');
+    expect(normalizeAnswer('きゃー', lenient)).toEqual('きやあ');
+});
+
+it('merges ぢ into じ and づ into ず', () => {
+    const tsuzuku = { text: '続く', reading: 'ツヅク' };
+    expect(gradeAnswer('つずく', tsuzuku, strict)).toEqual('wrong');
+    expect(gradeAnswer('つずく', tsuzuku, lenient)).toEqual('correct');
+    expect(gradeAnswer('はなじ', { text: '鼻血', reading: 'ハナヂ' }, lenient)).toEqual('correct');
+});
+
+it('accepts full-size kana for small kana', () => {
+    const kyou = { text: '今日', reading: 'キョウ' };
+    expect(gradeAnswer('きよう', kyou, strict)).toEqual('wrong');
+    expect(gradeAnswer('きよう', kyou, lenient)).toEqual('correct');
+    expect(gradeAnswer('がつこう', { text: '学校', reading: 'ガッコウ' }, lenient)).toEqual('correct');
+});
+
+it('grades near misses as close', () => {
+    const taberu = { text: '食べる', reading: 'タベル' };
+    expect(gradeAnswer('たべう', taberu, lenient)).toEqual('close');
+    expect(gradeAnswer('たべう', taberu, defaultAnswerMatchingOptions)).toEqual('close');
+    expect(gradeAnswer('たべう', taberu, strict)).toEqual('wrong');
+    expect(gradeAnswer('たべられる', taberu, lenient)).toEqual('wrong');
+});
+
+it('never grades single character words as close', () => {
+    expect(gradeAnswer('め', { text: '目', reading: 'メ' }, lenient)).toEqual('correct');
+    expect(gradeAnswer('て', { text: '目', reading: 'メ' }, { ...lenient, closeDistance: 3 })).toEqual('wrong');
+    expect(gradeAnswer('ひ', { text: '火', reading: 'ヒ' }, { ...lenient, closeDistance: 3 })).toEqual('correct');
+});
+
+it('computes edit distance', () => {
+    expect(editDistance('たべる', 'たべる')).toEqual(0);
+    expect(editDistance('たべる', 'たべう')).toEqual(1);
+    expect(editDistance('たべる', 'たべた')).toEqual(1);
+    expect(editDistance('', 'たべる')).toEqual(3);
+    expect(editDistance('たべる', 'たべられる')).toEqual(2);
+});
+
+it('picks the better grade', () => {
+    expect(betterGrade('wrong', 'close')).toEqual('close');
+    expect(betterGrade('correct', 'close')).toEqual('correct');
+    expect(betterGrade('wrong', 'wrong')).toEqual('wrong');
+});
@@ -0,0 +1,153 @@
+import { enlargeSmallKana, katakanaToHiragana, mergeYotsugana, normalizeLongVowels } from './kana';
+import { ReviewRating, StudyResult } from './types';
+
+/**
+ * Grade of an answer to a blank. Close answers are near misses, such as a typo in the reading.
+ */
+export type AnswerGrade = 'correct' | 'close' | 'wrong';
+
+export interface AnswerMatchingOptions {
+    /** Accept long vowels spelled as pronounced, e.g. とーきょー or とおきょお for とうきょう */
+    readonly longVowels: boolean;
+    /** Accept じ for ぢ and ず for づ */
+    readonly yotsugana: boolean;
+    /** Accept full-size kana in place of small kana, e.g. きよう for きょう */
+    readonly smallKana: boolean;
+    /** Maximum number of edits for a wrong answer to be graded close, 0 disables the close grade */
+    readonly closeDistance: number;
+}
+
+export const defaultAnswerMatchingOptions: AnswerMatchingOptions = {
+    longVowels: true,
+    yotsugana: true,
+    smallKana: false,
+    closeDistance: 1,
+};
+
+/**
+ * The word an answer is checked against.
+ */
+export interface AnswerTarget {
+    /** Surface form of the word */
+    text: string;
+    /** Reading, in katakana or hiragana */
+    reading?: string;
+    /** Pronunciation, in katakana or hiragana, as given by analyzers that provide it */
+    pronunciation?: string;
+}
+
+const gradeRanks: { [key in AnswerGrade]: number } = {
+    wrong: 0,
+    close: 1,
+    correct: 2,
+};
+
+/**
+ * Normalize an answer or reading for comparison, according to the enabled rules.
+ */
+export const normalizeAnswer = (text: string, options: AnswerMatchingOptions) => {
+    let normalized = katakanaToHiragana(text.trim());
+
+    if (options.yotsugana) {
+        normalized = mergeYotsugana(normalized);
+    }
+
+    // Long vowels are spelled out before small kana are enlarged, since ゃ, ゅ and ょ decide which vowel ー lengthens
+    if (options.longVowels) {
+        normalized = normalizeLongVowels(normalized);
+    }
+
+    if (options.smallKana) {
+        normalized = enlargeSmallKana(normalized);
+    }
+
+    return normalized;
+};
+
+/**
+ * Levenshtein distance between two strings, counted in characters.
+ */
+export const editDistance = (a: string, b: string) => {
+    const source = [...a];
+    const target = [...b];
+    let previous = Array.from({ length: target.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= source.length; ++i) {
+        const current = [i];
+
+        for (let j = 1; j <= target.length; ++j) {
+            const substitution = previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+
+        previous = current;
+    }
+
+    return previous[target.length];
+};
+
+/**
+ * Grade an answer against the surface form, reading and pronunciation of a word. An answer is correct if it matches
+ * any of them after normalization, and close if it is within the configured edit distance of one of them.
+ * Single character words are never graded close, since any other character would be.
+ */
+export const gradeAnswer = (answer: string, target: AnswerTarget, options: AnswerMatchingOptions): AnswerGrade => {
+    const normalizedAnswer = normalizeAnswer(answer, options);
+
+    if (normalizedAnswer === '') {
+        return 'wrong';
+    }
+
+    const candidates = [target.text, target.reading, target.pronunciation]
+        .filter((candidate): candidate is string => candidate !== undefined && candidate.trim() !== '')
+        .map((candidate) => normalizeAnswer(candidate, options));
+
+    if (candidates.includes(normalizedAnswer)) {
+        return 'correct';
+    }
+
+    if (options.closeDistance <= 0) {
+        return 'wrong';
+    }
+
+    const close = candidates.some((candidate) => {
+        const length = [...candidate].length;
+        return length > 1 && editDistance(normalizedAnswer, candidate) <= Math.min(options.closeDistance, length - 1);
+    });
+    return close ? 'close' : 'wrong';
+};
+
+/**
+ * The better of two grades, e.g. of an answer as typed and of its reading.
+ */
+export const betterGrade = (a: AnswerGrade, b: AnswerGrade) => (gradeRanks[a] >= gradeRanks[b] ? a : b);
+
+/**
+ * Whether an answer counts towards passing a test. Close answers do, so a typo doesn't fail the whole line.
+ */
+export const isPassingGrade = (grade: AnswerGrade) => grade !== 'wrong';
+
+export const studyResultForGrade = (grade: AnswerGrade): StudyResult => {
+    switch (grade) {
+        case 'correct':
+            return 'correct';
+        case 'close':
+            return 'close';
+        case 'wrong':
+            return 'incorrect';
+    }
+};
+
+/**
+ * Close answers are scheduled as hard reviews, so the word comes back sooner than if it had been answered correctly.
+ */
+export const reviewRatingForGrade = (grade: AnswerGrade): ReviewRating => {
+    switch (grade) {
+        case 'correct':
+            return 'good';
+        case 'close':
+            return 'hard';
+        case 'wrong':
+            return 'again';
+    }
+};
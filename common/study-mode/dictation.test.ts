@@ -0,0 +1,43 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { defaultAnswerMatchingOptions } from './answer-matching';
+import { diffDictation } from './dictation';
+
+const token = (text: string, reading = text): TokenPart => ({ text, reading });
+
+// ご飯を食べました。
+const line = [
+    token('ご飯', 'ゴハン'),
+    token('を'),
+    token('食べ', 'タベ'),
+    token('まし', 'マシ'),
+    token('た'),
+    token('。'),
+];
+
+it('matches a line typed as written or in kana', () => {
+    const typed = [token('ご飯'), token('を'), token('たべ'), token('まし'), token('た')];
+    const { ops, matched } = diffDictation(line, typed, defaultAnswerMatchingOptions);
+    expect(matched).toEqual([true, true, true, true, true, true]);
+    expect(ops.map((op) => op.type)).toEqual(['equal', 'equal', 'equal', 'equal', 'equal', 'equal']);
+    expect(ops.map((op) => op.text).join('')).toEqual('ご飯を食べました。');
+});
+
+it('reports missing and extra words', () => {
+    const typed = [token('ごはん'), token('が'), token('たべ'), token('た')];
+    const { ops, matched } = diffDictation(line, typed, defaultAnswerMatchingOptions);
+    expect(matched).toEqual([true, false, true, false, true, true]);
+    expect(ops).toEqual([
+        { type: 'equal', text: 'ご飯' },
+        { type: 'extra', text: 'が' },
+        { type: 'missing', text: 'を' },
+        { type: 'equal', text: '食べ' },
+        { type: 'missing', text: 'まし' },
+        { type: 'equal', text: 'た' },
+        { type: 'equal', text: '。' },
+    ]);
+});
+
+it('reports every word missing when nothing matches', () => {
+    const { matched } = diffDictation(line, [], defaultAnswerMatchingOptions);
+    expect(matched).toEqual([false, false, false, false, false, true]);
+});
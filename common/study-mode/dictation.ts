@@ -0,0 +1,94 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { AnswerMatchingOptions, gradeAnswer } from './answer-matching';
+
+const HAS_LETTER_REGEX = /\p{L}/u;
+
+/**
+ * A step of the word by word comparison of a dictated line with the subtitle.
+ * - equal: the word was typed, or is punctuation which doesn't need to be
+ * - missing: the word of the subtitle wasn't typed
+ * - extra: the typed word isn't in the subtitle
+ */
+export interface DictationOp {
+    type: 'equal' | 'missing' | 'extra';
+    text: string;
+}
+
+export interface DictationDiff {
+    ops: DictationOp[];
+    /** For each token of the subtitle, whether it was typed */
+    matched: boolean[];
+}
+
+const typedAs = (typed: TokenPart, expected: TokenPart, options: AnswerMatchingOptions) => {
+    return (
+        gradeAnswer(typed.text, expected, options) === 'correct' ||
+        (typed.reading !== '' && gradeAnswer(typed.reading, expected, options) === 'correct')
+    );
+};
+
+/**
+ * Compare the tokens of a dictated line with the tokens of the subtitle, finding the longest common sequence of
+ * words. Typed words match a subtitle word by surface form, reading or pronunciation, so a line can be typed in kana.
+ * Punctuation and whitespace are left out of the comparison.
+ */
+export const diffDictation = (
+    expected: TokenPart[],
+    typed: TokenPart[],
+    options: AnswerMatchingOptions
+): DictationDiff => {
+    const expectedWords = expected.map((_, i) => i).filter((i) => HAS_LETTER_REGEX.test(expected[i].text));
+    const typedWords = typed.filter((token) => HAS_LETTER_REGEX.test(token.text));
+
+    // lengths[i][j] is the length of the longest common sequence of expectedWords[i:] and typedWords[j:]
+    const lengths = Array.from({ length: expectedWords.length + 1 }, () => new Array(typedWords.length + 1).fill(0));
+
+    for (let i = expectedWords.length - 1; i >= 0; --i) {
+        for (let j = typedWords.length - 1; j >= 0; --j) {
+            lengths[i][j] = typedAs(typedWords[j], expected[expectedWords[i]], options)
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const ops: DictationOp[] = [];
+    const matched = expected.map((token) => !HAS_LETTER_REGEX.test(token.text));
+    let expectedIndex = 0;
+    let i = 0;
+    let j = 0;
+
+    // Emits the punctuation of the subtitle up to the next word, so that the diff reads like the line
+    const emitPunctuationBefore = (end: number) => {
+        for (; expectedIndex < end; ++expectedIndex) {
+            ops.push({ type: 'equal', text: expected[expectedIndex].text });
+        }
+    };
+
+    while (i < expectedWords.length || j < typedWords.length) {
+        if (i < expectedWords.length) {
+            emitPunctuationBefore(expectedWords[i]);
+        }
+
+        if (
+            i < expectedWords.length &&
+            j < typedWords.length &&
+            typedAs(typedWords[j], expected[expectedWords[i]], options)
+        ) {
+            ops.push({ type: 'equal', text: expected[expectedWords[i]].text });
+            matched[expectedWords[i]] = true;
+            expectedIndex = expectedWords[i] + 1;
+            ++i;
+            ++j;
+        } else if (j < typedWords.length && (i === expectedWords.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+            ops.push({ type: 'extra', text: typedWords[j].text });
+            ++j;
+        } else {
+            ops.push({ type: 'missing', text: expected[expectedWords[i]].text });
+            expectedIndex = expectedWords[i] + 1;
+            ++i;
+        }
+    }
+
+    emitPunctuationBefore(expected.length);
+    return { ops, matched };
+};
@@ -0,0 +1,64 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { DistractorPool } from './distractors';
+
+const token = (text: string, pos: string, extra: Partial<TokenPart> = {}): TokenPart => ({
+    text,
+    reading: text,
+    pos,
+    wordType: 'KNOWN',
+    ...extra,
+});
+
+const sequence = (...values: number[]) => {
+    let i = 0;
+    return () => values[i++ % values.length];
+};
+
+it('picks words of the same part of speech', () => {
+    const pool = new DistractorPool();
+    pool.add([
+        token('猫', '名詞'),
+        token('が', '助詞'),
+        token('走る', '動詞'),
+        token('犬', '名詞'),
+        token('。', '記号'),
+    ]);
+    pool.add([token('鳥', '名詞'), token('猫', '名詞')]);
+    expect(pool.size).toEqual(5);
+    expect(pool.pick(token('魚', '名詞'), 5).sort()).toEqual(['犬', '猫', '鳥']);
+    expect(pool.pick(token('泳ぐ', '動詞'), 3)).toEqual(['走る']);
+    expect(pool.pick(token('、', '記号'), 3)).toEqual([]);
+});
+
+it('never picks the tested word or its other forms', () => {
+    const pool = new DistractorPool();
+    pool.add([
+        token('食べ', '動詞', { basicForm: '食べる' }),
+        token('食べる', '動詞', { basicForm: '食べる' }),
+        token('飲む', '動詞', { basicForm: '飲む' }),
+    ]);
+    expect(pool.pick(token('食べ', '動詞', { basicForm: '食べる' }), 3)).toEqual(['飲む']);
+});
+
+it('prefers words with the same conjugated form', () => {
+    const pool = new DistractorPool(sequence(0));
+    pool.add([
+        token('飲む', '動詞', { posDetail1: '自立', conjugatedForm: '基本形' }),
+        token('飲ん', '動詞', { posDetail1: '自立', conjugatedForm: '連用タ接続' }),
+        token('走っ', '動詞', { posDetail1: '自立', conjugatedForm: '連用タ接続' }),
+    ]);
+    const picked = pool.pick(token('食べ', '動詞', { posDetail1: '自立', conjugatedForm: '連用タ接続' }), 2);
+    expect(picked.slice().sort()).toEqual(['走っ', '飲ん']);
+    expect(pool.pick(token('食べ', '動詞', { posDetail1: '自立', conjugatedForm: '連用タ接続' }), 3)[2]).toEqual(
+        '飲む'
+    );
+});
+
+it('shuffles the tested word among its distractors', () => {
+    const pool = new DistractorPool();
+    pool.add([token('猫', '名詞'), token('犬', '名詞'), token('鳥', '名詞')]);
+    const choices = pool.choices(token('魚', '名詞'), 3)!;
+    expect(choices).toHaveLength(3);
+    expect(choices).toContain('魚');
+    expect(pool.choices(token('走る', '動詞'), 3)).toBeUndefined();
+});
@@ -0,0 +1,97 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { isTestableToken, tokenLemma } from './token-grouping';
+
+/**
+ * Words seen in a subtitle file, by part of speech, from which wrong options of multiple choice tests are drawn.
+ */
+export class DistractorPool {
+    private readonly _random: () => number;
+    private readonly _tokensByPos = new Map<string, TokenPart[]>();
+    private readonly _texts = new Set<string>();
+
+    constructor(random: () => number = Math.random) {
+        this._random = random;
+    }
+
+    get size() {
+        return this._texts.size;
+    }
+
+    /**
+     * Add the testable tokens of a line to the pool. Tokens without a part of speech can't be matched and are ignored.
+     */
+    add(tokens: TokenPart[]) {
+        for (const token of tokens) {
+            if (token.pos === undefined || !isTestableToken(token) || this._texts.has(token.text)) {
+                continue;
+            }
+
+            this._texts.add(token.text);
+            const samePos = this._tokensByPos.get(token.pos);
+
+            if (samePos === undefined) {
+                this._tokensByPos.set(token.pos, [token]);
+            } else {
+                samePos.push(token);
+            }
+        }
+    }
+
+    /**
+     * Pick distinct wrong options for a token among words of the same part of speech. Words that also share its
+     * subcategory and conjugated form are preferred, so that a distractor for 食べ in 食べた is a verb stem too.
+     * @returns Up to count surface forms, fewer if the pool doesn't have enough words of the same part of speech
+     */
+    pick(token: TokenPart, count: number): string[] {
+        if (token.pos === undefined) {
+            return [];
+        }
+
+        const lemma = tokenLemma(token);
+        const candidates = (this._tokensByPos.get(token.pos) ?? []).filter(
+            (candidate) => candidate.text !== token.text && tokenLemma(candidate) !== lemma
+        );
+        const similar = (candidate: TokenPart) =>
+            candidate.posDetail1 === token.posDetail1 && candidate.conjugatedForm === token.conjugatedForm;
+        const preferred = this._shuffle(candidates.filter(similar));
+        const others = this._shuffle(candidates.filter((candidate) => !similar(candidate)));
+        const picked: string[] = [];
+
+        for (const candidate of [...preferred, ...others]) {
+            if (picked.length >= count) {
+                break;
+            }
+
+            if (!picked.includes(candidate.text)) {
+                picked.push(candidate.text);
+            }
+        }
+
+        return picked;
+    }
+
+    /**
+     * Options of a multiple choice test for a token: its surface form among distractors, in random order.
+     * @returns The options, or undefined if there are no distractors for the token
+     */
+    choices(token: TokenPart, count: number): string[] | undefined {
+        const distractors = this.pick(token, count - 1);
+
+        if (distractors.length === 0) {
+            return undefined;
+        }
+
+        return this._shuffle([token.text, ...distractors]);
+    }
+
+    private _shuffle<T>(values: T[]) {
+        const shuffled = [...values];
+
+        for (let i = shuffled.length - 1; i > 0; --i) {
+            const j = Math.floor(this._random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+
+        return shuffled;
+    }
+}
@@ -0,0 +1,92 @@
+export type {
+    StudyIntensity,
+    FocusMode,
+    LineSelectionStrategy,
+    TokenBlankingStrategy,
+    AnkiCardStatus,
+    StudyDeckConfig,
+    StudyResult,
+    StudyTestType,
+    StudyRecord,
+    StudyClip,
+    StudyStats,
+    RecognitionStats,
+    RecognitionAttempt,
+    ReviewRating,
+    ScheduledReview,
+    WordSchedule,
+    WordKnowledge,
+    KnowledgeGetter,
+    VideoSession,
+} from './types';
+export { ankiCardStatuses } from './types';
+
+export type { StudyRepository, StudyRecordQueryOptions } from './study-repository';
+export { IndexedDBStudyRepository } from './study-repository';
+
+export type { StudyClipRepository } from './study-clip-repository';
+export { IndexedDBStudyClipRepository } from './study-clip-repository';
+
+export type { RecognitionRepository } from './recognition-repository';
+export { IndexedDBRecognitionRepository, createRecognitionRepository } from './recognition-repository';
+
+export type { ScheduleRepository } from './schedule-repository';
+export { IndexedDBScheduleRepository, createScheduleRepository } from './schedule-repository';
+
+export type { SchedulerOptions } from './scheduler';
+export { FsrsScheduler, DEFAULT_FSRS_WEIGHTS, retrievability, isDue, schedulePriority } from './scheduler';
+
+export type { ReviewItem, ClozeDrill } from './review-queue';
+export { fetchReviewItems, groupReviewItems, clozeDrill, gradeReviewAnswer, scheduledReviews } from './review-queue';
+
+export { katakanaToHiragana, normalizeLongVowels, mergeYotsugana, enlargeSmallKana } from './kana';
+
+export type { RomajiConversionOptions } from './romaji';
+export { romajiToKana } from './romaji';
+
+export type { AnswerGrade, AnswerMatchingOptions, AnswerTarget } from './answer-matching';
+export {
+    defaultAnswerMatchingOptions,
+    normalizeAnswer,
+    editDistance,
+    gradeAnswer,
+    betterGrade,
+    isPassingGrade,
+    studyResultForGrade,
+    reviewRatingForGrade,
+} from './answer-matching';
+
+export type { WordPriority } from './priority-calculator';
+export {
+    PriorityCalculator,
+    INTENSITY_THRESHOLDS,
+    ANKI_STATUS_PRIORITIES,
+    CORE_VOCABULARY_RANK,
+    frequencyPriority,
+} from './priority-calculator';
+
+export type { AnkiApi, AnkiCardInfo } from './anki-status';
+export { getAnkiStatus, MATURE_INTERVAL_DAYS } from './anki-status';
+
+export { createKnowledgeGetter } from './knowledge';
+
+export type { TokenGroup } from './token-grouping';
+export {
+    groupTokens,
+    contentGroups,
+    getTestableIndices,
+    isTestableToken,
+    isContentToken,
+    tokenLemma,
+} from './token-grouping';
+
+export { DistractorPool } from './distractors';
+
+export type { DictationOp, DictationDiff } from './dictation';
+export { diffDictation } from './dictation';
+
+export type { TokenSelectionOptions } from './token-selector';
+export { TokenSelector } from './token-selector';
+
+export type { LineAssessment, LineSelectorOptions } from './line-selector';
+export { LineSelector } from './line-selector';
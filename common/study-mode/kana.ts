@@ -0,0 +1,61 @@
+// Katakana ァ (U+30A1) to ヶ (U+30F6) map onto hiragana ぁ (U+3041) to ゖ (U+3096)
+const KATAKANA_REGEX = /[ァ-ヶ]/g;
+const KATAKANA_HIRAGANA_OFFSET = 0x60;
+
+/**
+ * Convert katakana to hiragana, leaving everything else as-is. Analyzers return readings in katakana,
+ * but users typically type them in hiragana.
+ */
+export const katakanaToHiragana = (text: string) => {
+    return text.replace(KATAKANA_REGEX, (char) => String.fromCharCode(char.charCodeAt(0) - KATAKANA_HIRAGANA_OFFSET));
+};
+
+// Vowel each hiragana ends in, used to spell out the long vowel mark
+const kanaVowels: { [vowel: string]: string } = {
+    あ: 'あかさたなはまやらわがざだばぱぁゃゎ',
+    い: 'いきしちにひみりぎじぢびぴぃ',
+    う: 'うくすつぬふむゆるぐずづぶぷぅゅ',
+    え: 'えけせてねへめれげぜでべぺぇ',
+    お: 'おこそとのほもよろをごぞどぼぽぉょ',
+};
+
+const vowelOf = (kana: string) => Object.keys(kanaVowels).find((vowel) => kanaVowels[vowel].includes(kana));
+
+/**
+ * Spell long vowels the way they are pronounced: ー becomes the vowel it lengthens, and う after an o-row kana
+ * and い after an e-row kana become お and え, so that とうきょう, とーきょー and とおきょお are equal.
+ */
+export const normalizeLongVowels = (hiragana: string) => {
+    let normalized = '';
+
+    for (const char of hiragana) {
+        const previousVowel = normalized.length > 0 ? vowelOf(normalized[normalized.length - 1]) : undefined;
+
+        if (char === 'ー' && previousVowel !== undefined) {
+            normalized += previousVowel;
+        } else if (char === 'う' && previousVowel === 'お') {
+            normalized += 'お';
+        } else if (char === 'い' && previousVowel === 'え') {
+            normalized += 'え';
+        } else {
+            normalized += char;
+        }
+    }
+
+    return normalized;
+};
+
+/**
+ * Merge ぢ into じ and づ into ず, which are pronounced the same in standard Japanese.
+ */
+export const mergeYotsugana = (hiragana: string) => hiragana.replace(/ぢ/g, 'じ').replace(/づ/g, 'ず');
+
+const smallKana = 'ぁぃぅぇぉっゃゅょゎゕゖ';
+const largeKana = 'あいうえおつやゆよわかけ';
+
+/**
+ * Replace small kana with their full-size counterparts, e.g. きょう becomes きよう.
+ */
+export const enlargeSmallKana = (hiragana: string) => {
+    return hiragana.replace(/[ぁぃぅぇぉっゃゅょゎゕゖ]/g, (char) => largeKana[smallKana.indexOf(char)]);
+};
@@ -0,0 +1,37 @@
+import { AnkiCardStatus, KnowledgeGetter, StudyStats } from './types';
+
+/**
+ * Combine Anki status and local study stats into a single knowledge lookup.
+ * Anki status is cached per lemma since it requires round trips to AnkiConnect and rarely changes while watching.
+ * Lookups that fail are treated as uncollected and are not cached so that they can be retried.
+ */
+export function createKnowledgeGetter(
+    getAnkiStatus: (lemma: string) => Promise<AnkiCardStatus>,
+    getStudyStats: (lemma: string) => Promise<StudyStats | undefined>
+): KnowledgeGetter {
+    const ankiStatusCache = new Map<string, AnkiCardStatus>();
+
+    return async (lemma: string) => {
+        let ankiStatus = ankiStatusCache.get(lemma);
+
+        if (ankiStatus === undefined) {
+            try {
+                ankiStatus = await getAnkiStatus(lemma);
+                ankiStatusCache.set(lemma, ankiStatus);
+            } catch (e) {
+                console.warn(`Failed to get Anki status for ${lemma}:`, e);
+                ankiStatus = 'uncollected';
+            }
+        }
+
+        let studyStats: StudyStats | undefined;
+
+        try {
+            studyStats = await getStudyStats(lemma);
+        } catch (e) {
+            console.warn(`Failed to get study stats for ${lemma}:`, e);
+        }
+
+        return { lemma, ankiStatus, studyStats };
+    };
+}
@@ -0,0 +1,79 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { createKnowledgeGetter } from './knowledge';
+import { LineSelector } from './line-selector';
+import { AnkiCardStatus, StudyStats } from './types';
+
+const token = (text: string, pos: string, basicForm = text): TokenPart => ({
+    text,
+    reading: text,
+    pos,
+    basicForm,
+    wordType: 'KNOWN',
+});
+
+// 猫が魚を食べた
+const tokens = [
+    token('猫', '名詞'),
+    token('が', '助詞'),
+    token('魚', '名詞'),
+    token('を', '助詞'),
+    token('食べ', '動詞', '食べる'),
+    token('た', '助動詞'),
+];
+
+const knowledgeGetter = (statuses: { [lemma: string]: AnkiCardStatus }, stats: { [lemma: string]: StudyStats } = {}) =>
+    createKnowledgeGetter(
+        async (lemma) => statuses[lemma] ?? 'uncollected',
+        async (lemma) => stats[lemma]
+    );
+
+it('selects line with exactly one unknown word', async () => {
+    const selector = new LineSelector(knowledgeGetter({ 猫: 'mature', 魚: 'new', 食べる: 'young' }));
+    const assessment = await selector.assessLine(tokens);
+    expect(assessment).toEqual({
+        testableCount: 5,
+        unknownLemmas: ['魚'],
+        knownLemmas: ['猫', '食べる'],
+        selected: true,
+    });
+});
+
+it('does not select line without unknown words', async () => {
+    const selector = new LineSelector(knowledgeGetter({ 猫: 'mature', 魚: 'young' }));
+    expect((await selector.assessLine(tokens)).selected).toBe(false);
+});
+
+it('does not select line with too many unknown words', async () => {
+    const getter = knowledgeGetter({ 猫: 'learning', 魚: 'new' });
+    expect((await new LineSelector(getter).assessLine(tokens)).selected).toBe(false);
+    expect((await new LineSelector(getter, { maxUnknownWords: 2 }).assessLine(tokens)).selected).toBe(true);
+});
+
+it('treats frequently missed words as unknown', async () => {
+    const selector = new LineSelector(
+        knowledgeGetter({ 猫: 'mature', 魚: 'mature' }, { 猫: { lemma: '猫', correctCount: 1, incorrectCount: 3 } })
+    );
+    const assessment = await selector.assessLine(tokens);
+    expect(assessment.unknownLemmas).toEqual(['猫']);
+    expect(assessment.knownLemmas).toEqual(['魚']);
+});
+
+it('caches Anki status but not failures', async () => {
+    let calls = 0;
+    const getter = createKnowledgeGetter(
+        async () => {
+            if (++calls === 1) {
+                throw new Error('AnkiConnect unavailable');
+            }
+
+            return 'young';
+        },
+        async () => undefined
+    );
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect((await getter('猫')).ankiStatus).toEqual('uncollected');
+    expect((await getter('猫')).ankiStatus).toEqual('young');
+    expect((await getter('猫')).ankiStatus).toEqual('young');
+    expect(calls).toEqual(2);
+    warn.mockRestore();
+});
@@ -0,0 +1,76 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { groupTokens } from './token-grouping';
+import { KnowledgeGetter, WordKnowledge } from './types';
+
+export interface LineSelectorOptions {
+    /** Maximum number of unknown words a line may contain to be selected. 1 selects strictly i+1 lines. */
+    maxUnknownWords: number;
+}
+
+export interface LineAssessment {
+    /** Number of testable words in the line */
+    testableCount: number;
+    /** Words that are new or still being learned, or that are missed more often than not in study mode */
+    unknownLemmas: string[];
+    /** Words that are young or mature in Anki and not being missed in study mode */
+    knownLemmas: string[];
+    /** Whether the line contains at least one and at most maxUnknownWords unknown words */
+    selected: boolean;
+}
+
+const defaultOptions: LineSelectorOptions = { maxUnknownWords: 1 };
+
+export const isUnknown = (knowledge: WordKnowledge) => {
+    const { ankiStatus, studyStats } = knowledge;
+
+    if (studyStats && studyStats.incorrectCount > studyStats.correctCount) {
+        return true;
+    }
+
+    return ankiStatus === 'new' || ankiStatus === 'learning';
+};
+
+export const isKnown = (knowledge: WordKnowledge) => {
+    return (knowledge.ankiStatus === 'young' || knowledge.ankiStatus === 'mature') && !isUnknown(knowledge);
+};
+
+/**
+ * Selects lines that are comprehensible but still challenging (i+1), based on how well their words are known.
+ * Words that aren't collected in Anki and haven't been missed in study mode count as neither known nor unknown.
+ */
+export class LineSelector {
+    private readonly _knowledgeGetter: KnowledgeGetter;
+    private readonly _options: LineSelectorOptions;
+
+    constructor(knowledgeGetter: KnowledgeGetter, options: Partial<LineSelectorOptions> = {}) {
+        this._knowledgeGetter = knowledgeGetter;
+        this._options = { ...defaultOptions, ...options };
+    }
+
+    async assessLine(tokens: TokenPart[]): Promise<LineAssessment> {
+        const lemmas = new Set(
+            groupTokens(tokens, true)
+                .filter((g) => g.testable)
+                .map((g) => g.lemma)
+        );
+        const unknownLemmas: string[] = [];
+        const knownLemmas: string[] = [];
+
+        for (const lemma of lemmas) {
+            const knowledge = await this._knowledgeGetter(lemma);
+
+            if (isUnknown(knowledge)) {
+                unknownLemmas.push(lemma);
+            } else if (isKnown(knowledge)) {
+                knownLemmas.push(lemma);
+            }
+        }
+
+        return {
+            testableCount: lemmas.size,
+            unknownLemmas,
+            knownLemmas,
+            selected: unknownLemmas.length > 0 && unknownLemmas.length <= this._options.maxUnknownWords,
+        };
+    }
+}
@@ -0,0 +1,101 @@
+import {
+    CORE_VOCABULARY_RANK,
+    frequencyPriority,
+    INTENSITY_THRESHOLDS,
+    PriorityCalculator,
+    recognitionPriority,
+} from './priority-calculator';
+import { RecognitionStats, WordSchedule } from './types';
+
+const stats = (successCount: number, failureCount: number, streak: number): RecognitionStats => ({
+    lemma: '食べる',
+    reading: 'たべる',
+    successCount,
+    failureCount,
+    streak,
+    lastAttempt: 0,
+});
+
+it('prioritizes words being learned over mature and uncollected words', () => {
+    const calculator = new PriorityCalculator('balanced');
+    const priority = (status: 'uncollected' | 'new' | 'learning' | 'young' | 'mature') =>
+        calculator.calculatePriority('食べる', status).finalPriority;
+    expect(priority('new')).toBeGreaterThan(priority('learning'));
+    expect(priority('learning')).toBeGreaterThan(priority('young'));
+    expect(priority('young')).toBeGreaterThan(priority('uncollected'));
+    expect(priority('uncollected')).toBeGreaterThan(priority('mature'));
+});
+
+it('prioritizes frequently missed words', () => {
+    expect(recognitionPriority(stats(0, 3, 0))).toBeGreaterThan(recognitionPriority(undefined));
+    expect(recognitionPriority(undefined)).toBeGreaterThan(recognitionPriority(stats(3, 0, 3)));
+});
+
+it('decays recognition priority with success streak', () => {
+    expect(recognitionPriority(stats(3, 3, 0))).toBeGreaterThan(recognitionPriority(stats(3, 3, 2)));
+});
+
+it('weights tiers by focus mode', () => {
+    const missedMatureWord = (calculator: PriorityCalculator) =>
+        calculator.calculatePriority('食べる', 'mature', stats(0, 5, 0)).finalPriority;
+    const anki = new PriorityCalculator('anki');
+    const balanced = new PriorityCalculator('balanced');
+    const recognition = new PriorityCalculator('recognition');
+    expect(missedMatureWord(recognition)).toBeGreaterThan(missedMatureWord(balanced));
+    expect(missedMatureWord(balanced)).toBeGreaterThan(missedMatureWord(anki));
+
+    anki.setFocusMode('recognition');
+    expect(missedMatureWord(anki)).toEqual(missedMatureWord(recognition));
+});
+
+it('keeps final priority between 0 and 1', () => {
+    const calculator = new PriorityCalculator('recognition');
+    const { finalPriority } = calculator.calculatePriority('食べる', 'new', stats(0, 100, 0));
+    expect(finalPriority).toBeGreaterThan(0);
+    expect(finalPriority).toBeLessThanOrEqual(1);
+});
+
+it('triggers study card when line score reaches intensity threshold', () => {
+    const calculator = new PriorityCalculator();
+    expect(calculator.shouldTriggerStudyCard(INTENSITY_THRESHOLDS.medium, 'medium')).toBe(true);
+    expect(calculator.shouldTriggerStudyCard(INTENSITY_THRESHOLDS.medium - 0.01, 'medium')).toBe(false);
+    expect(INTENSITY_THRESHOLDS.high).toBeLessThan(INTENSITY_THRESHOLDS.medium);
+    expect(INTENSITY_THRESHOLDS.medium).toBeLessThan(INTENSITY_THRESHOLDS.low);
+});
+
+it('uses the schedule in place of recognition results when present', () => {
+    const calculator = new PriorityCalculator('recognition');
+    const now = 10 * 86400000;
+    const schedule = (due: number): WordSchedule => ({
+        lemma: '食べる',
+        reading: 'たべる',
+        stability: 5,
+        difficulty: 5,
+        due,
+        lastReview: now - 5 * 86400000,
+        reps: 2,
+        lapses: 0,
+    });
+    const due = calculator.calculatePriority('食べる', 'mature', stats(5, 0, 5), schedule(now), now);
+    const notDue = calculator.calculatePriority('食べる', 'mature', stats(0, 5, 0), schedule(now + 5 * 86400000), now);
+    expect(due.recognitionPriority).toEqual(1);
+    expect(notDue.recognitionPriority).toBeCloseTo(0.5);
+});
+
+it('lowers the priority of rare words when a frequency list is used', () => {
+    const calculator = new PriorityCalculator();
+    const priority = (rank?: number | null) =>
+        calculator.calculatePriority('食べる', 'new', undefined, undefined, 0, rank).finalPriority;
+    expect(priority(CORE_VOCABULARY_RANK)).toEqual(priority(undefined));
+    expect(priority(CORE_VOCABULARY_RANK)).toBeGreaterThan(priority(20000));
+    expect(priority(20000)).toBeGreaterThan(priority(null));
+    expect(priority(null)).toBeCloseTo(priority(undefined) / 2);
+});
+
+it('gives core vocabulary the full frequency priority', () => {
+    expect(frequencyPriority(1)).toEqual(1);
+    expect(frequencyPriority(CORE_VOCABULARY_RANK)).toEqual(1);
+    expect(frequencyPriority(CORE_VOCABULARY_RANK * 10)).toBeCloseTo(0.5);
+    expect(frequencyPriority(CORE_VOCABULARY_RANK * 1000)).toEqual(0);
+    expect(frequencyPriority(null)).toEqual(0);
+});
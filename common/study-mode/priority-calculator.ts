@@ -0,0 +1,147 @@
+import { schedulePriority } from './scheduler';
+import { AnkiCardStatus, FocusMode, RecognitionStats, StudyIntensity, WordSchedule } from './types';
+
+/**
+ * Minimum summed word priority a line must reach before a study card is triggered for it.
+ */
+export const INTENSITY_THRESHOLDS: { [key in StudyIntensity]: number } = {
+    low: 3.5,
+    medium: 2.5,
+    high: 1.5,
+};
+
+/**
+ * Priority of a word based only on its Anki status. Words being learned are the most valuable to test,
+ * while mature words and words that aren't collected at all (most often grammar and function words) are the least.
+ */
+export const ANKI_STATUS_PRIORITIES: { [key in AnkiCardStatus]: number } = {
+    uncollected: 0.3,
+    new: 1,
+    learning: 0.9,
+    young: 0.6,
+    mature: 0.1,
+};
+
+/**
+ * Priority of a word that has never been tested in study mode.
+ */
+export const UNTESTED_RECOGNITION_PRIORITY = 0.5;
+
+// Each consecutive successful recognition reduces the recognition priority of a word by this factor
+const STREAK_DECAY = 0.7;
+
+/**
+ * Words ranked this high in the frequency lists are core vocabulary and keep their full priority.
+ */
+export const CORE_VOCABULARY_RANK = 1000;
+
+// Words ranked this many orders of magnitude below the core vocabulary, or not ranked at all, have the lowest
+// frequency priority
+const FREQUENCY_PRIORITY_DECADES = 2;
+
+// Share of the final priority that depends on frequency, so that rare words are tested less often but still tested
+const FREQUENCY_WEIGHT = 0.5;
+
+const focusModeWeights: { [key in FocusMode]: { anki: number; recognition: number } } = {
+    balanced: { anki: 0.5, recognition: 0.5 },
+    anki: { anki: 0.8, recognition: 0.2 },
+    recognition: { anki: 0.2, recognition: 0.8 },
+};
+
+export interface WordPriority {
+    lemma: string;
+    ankiStatus: AnkiCardStatus;
+    /** Priority from the first tier: Anki status, between 0 and 1 */
+    ankiPriority: number;
+    /** Priority from the second tier: study mode schedule or recognition results, between 0 and 1 */
+    recognitionPriority: number;
+    /** Priority from the frequency lists, between 0 and 1, undefined if no frequency list is used */
+    frequencyPriority?: number;
+    /** Weighted combination of both tiers according to the focus mode, lowered for rare words, between 0 and 1 */
+    finalPriority: number;
+}
+
+export const recognitionPriority = (stats?: RecognitionStats) => {
+    if (stats === undefined || stats.successCount + stats.failureCount === 0) {
+        return UNTESTED_RECOGNITION_PRIORITY;
+    }
+
+    // Laplace-smoothed failure rate so that a single attempt doesn't pin the priority to 0 or 1
+    const failureRate = (stats.failureCount + 1) / (stats.successCount + stats.failureCount + 2);
+    return failureRate * Math.pow(STREAK_DECAY, stats.streak);
+};
+
+/**
+ * @param rank Rank of the word in the frequency lists, null if it isn't in any of them
+ */
+export const frequencyPriority = (rank: number | null) => {
+    if (rank === null) {
+        return 0;
+    }
+
+    if (rank <= CORE_VOCABULARY_RANK) {
+        return 1;
+    }
+
+    return Math.max(0, 1 - Math.log10(rank / CORE_VOCABULARY_RANK) / FREQUENCY_PRIORITY_DECADES);
+};
+
+/**
+ * Two-tier priority model. The first tier is how well the word is known in Anki, the second is how reliably
+ * it has been recognized in study mode. The focus mode decides how the tiers are weighted.
+ */
+export class PriorityCalculator {
+    private _focusMode: FocusMode;
+
+    constructor(focusMode: FocusMode = 'balanced') {
+        this._focusMode = focusMode;
+    }
+
+    get focusMode() {
+        return this._focusMode;
+    }
+
+    setFocusMode(focusMode: FocusMode) {
+        this._focusMode = focusMode;
+    }
+
+    /**
+     * @param schedule Spaced repetition state of the word. When present, how close the word is to being due takes
+     * the place of its recognition results in the second tier.
+     * @param now Unix timestamp (ms) used to evaluate the schedule
+     * @param frequencyRank Rank of the word in the frequency lists, null if it isn't in any of them, undefined if no
+     * frequency list is used. Rare words are given a lower priority than core vocabulary.
+     */
+    calculatePriority(
+        lemma: string,
+        ankiStatus: AnkiCardStatus,
+        recognitionStats?: RecognitionStats,
+        schedule?: WordSchedule,
+        now = Date.now(),
+        frequencyRank?: number | null
+    ): WordPriority {
+        const weights = focusModeWeights[this._focusMode] ?? focusModeWeights.balanced;
+        const ankiPriority = ANKI_STATUS_PRIORITIES[ankiStatus];
+        const recognition =
+            schedule === undefined ? recognitionPriority(recognitionStats) : schedulePriority(schedule, now);
+        const tierPriority = weights.anki * ankiPriority + weights.recognition * recognition;
+
+        if (frequencyRank === undefined) {
+            return { lemma, ankiStatus, ankiPriority, recognitionPriority: recognition, finalPriority: tierPriority };
+        }
+
+        const frequency = frequencyPriority(frequencyRank);
+        return {
+            lemma,
+            ankiStatus,
+            ankiPriority,
+            recognitionPriority: recognition,
+            frequencyPriority: frequency,
+            finalPriority: tierPriority * (1 - FREQUENCY_WEIGHT + FREQUENCY_WEIGHT * frequency),
+        };
+    }
+
+    shouldTriggerStudyCard(lineScore: number, intensity: StudyIntensity) {
+        return lineScore >= INTENSITY_THRESHOLDS[intensity];
+    }
+}
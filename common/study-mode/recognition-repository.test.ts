@@ -0,0 +1,55 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBRecognitionRepository, updatedRecognitionStats } from './recognition-repository';
+
+beforeEach(async () => {
+    await new IndexedDBRecognitionRepository().clear();
+});
+
+it('records first attempt', async () => {
+    const repository = new IndexedDBRecognitionRepository();
+    await repository.recordAttempt({ lemma: '食べる', reading: 'たべ', success: true });
+    expect(await repository.getStats('食べる')).toMatchObject({
+        lemma: '食べる',
+        reading: 'たべ',
+        successCount: 1,
+        failureCount: 0,
+        streak: 1,
+    });
+});
+
+it('accumulates attempts for the same lemma within a batch', async () => {
+    const repository = new IndexedDBRecognitionRepository();
+    await repository.recordAttemptsBatch([
+        { lemma: '食べる', reading: 'たべ', success: true },
+        { lemma: '飲む', reading: 'のみ', success: false },
+        { lemma: '食べる', reading: 'たべる', success: true },
+    ]);
+    expect(await repository.getStats('食べる')).toMatchObject({ successCount: 2, failureCount: 0, streak: 2 });
+    expect(await repository.getStats('飲む')).toMatchObject({ successCount: 0, failureCount: 1, streak: 0 });
+    expect((await repository.fetchAll()).length).toEqual(2);
+});
+
+it('resets streak on failure', async () => {
+    const repository = new IndexedDBRecognitionRepository();
+    await repository.recordAttempt({ lemma: '食べる', reading: 'たべ', success: true });
+    await repository.recordAttempt({ lemma: '食べる', reading: 'たべ', success: true });
+    await repository.recordAttempt({ lemma: '食べる', reading: 'たべ', success: false });
+    expect(await repository.getStats('食べる')).toMatchObject({ successCount: 2, failureCount: 1, streak: 0 });
+});
+
+it('returns no stats for untested lemma', async () => {
+    const repository = new IndexedDBRecognitionRepository();
+    expect(await repository.getStats('食べる')).toBeUndefined();
+});
+
+it('updates stats without existing record', () => {
+    expect(updatedRecognitionStats(undefined, { lemma: '見る', reading: 'み', success: false }, 1234)).toEqual({
+        lemma: '見る',
+        reading: 'み',
+        successCount: 0,
+        failureCount: 1,
+        streak: 0,
+        lastAttempt: 1234,
+    });
+});
@@ -0,0 +1,77 @@
+import { StudyModeDatabase } from './study-mode-database';
+import { RecognitionAttempt, RecognitionStats } from './types';
+
+/**
+ * Repository of per-lemma recognition tallies. Unlike the study repository, which keeps every tested word,
+ * this keeps a single running record per lemma so that it can be looked up cheaply while scoring lines.
+ */
+export interface RecognitionRepository {
+    recordAttempt: (attempt: RecognitionAttempt) => Promise<RecognitionStats>;
+    recordAttemptsBatch: (attempts: RecognitionAttempt[]) => Promise<RecognitionStats[]>;
+    getStats: (lemma: string) => Promise<RecognitionStats | undefined>;
+    fetchAll: () => Promise<RecognitionStats[]>;
+    clear: () => Promise<void>;
+}
+
+export const updatedRecognitionStats = (
+    existing: RecognitionStats | undefined,
+    attempt: RecognitionAttempt,
+    timestamp: number
+): RecognitionStats => {
+    const successCount = (existing?.successCount ?? 0) + (attempt.success ? 1 : 0);
+    const failureCount = (existing?.failureCount ?? 0) + (attempt.success ? 0 : 1);
+    const streak = attempt.success ? (existing?.streak ?? 0) + 1 : 0;
+    return {
+        lemma: attempt.lemma,
+        reading: attempt.reading,
+        successCount,
+        failureCount,
+        streak,
+        lastAttempt: timestamp,
+    };
+};
+
+export class IndexedDBRecognitionRepository implements RecognitionRepository {
+    private readonly _db = new StudyModeDatabase();
+
+    async recordAttempt(attempt: RecognitionAttempt) {
+        return (await this.recordAttemptsBatch([attempt]))[0];
+    }
+
+    async recordAttemptsBatch(attempts: RecognitionAttempt[]) {
+        if (attempts.length === 0) {
+            return [];
+        }
+
+        const timestamp = Date.now();
+        return await this._db.transaction('rw', this._db.recognitionStats, async () => {
+            // The same lemma can be blanked more than once in a line so updates are accumulated in order
+            const updated = new Map<string, RecognitionStats>();
+            const results: RecognitionStats[] = [];
+
+            for (const attempt of attempts) {
+                const existing = updated.get(attempt.lemma) ?? (await this._db.recognitionStats.get(attempt.lemma));
+                const stats = updatedRecognitionStats(existing, attempt, timestamp);
+                updated.set(attempt.lemma, stats);
+                results.push(stats);
+            }
+
+            await this._db.recognitionStats.bulkPut([...updated.values()]);
+            return results;
+        });
+    }
+
+    async getStats(lemma: string) {
+        return await this._db.recognitionStats.get(lemma);
+    }
+
+    async fetchAll() {
+        return await this._db.recognitionStats.toArray();
+    }
+
+    async clear() {
+        await this._db.recognitionStats.clear();
+    }
+}
+
+export const createRecognitionRepository = (): RecognitionRepository => new IndexedDBRecognitionRepository();
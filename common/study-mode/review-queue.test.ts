@@ -0,0 +1,106 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { defaultAnswerMatchingOptions } from './answer-matching';
+import { clozeDrill, fetchReviewItems, groupReviewItems, gradeReviewAnswer, scheduledReviews } from './review-queue';
+import { IndexedDBScheduleRepository } from './schedule-repository';
+import { IndexedDBStudyRepository } from './study-repository';
+import { StudyRecord } from './types';
+
+const record = (
+    lemma: string,
+    surfaceForm: string,
+    result: StudyRecord['result'],
+    timestamp: number,
+    sentenceContext = 'ご飯を食べました'
+): StudyRecord => ({
+    lemma,
+    reading: 'たべ',
+    surfaceForm,
+    result,
+    timestamp,
+    sentenceContext,
+    mediaSource: 'https://example.com/video',
+});
+
+beforeEach(async () => {
+    await new IndexedDBStudyRepository().clear();
+    await new IndexedDBScheduleRepository().clear();
+});
+
+it('groups records of the same line', () => {
+    const items = groupReviewItems([
+        record('食べる', '食べ', 'incorrect', 1000),
+        record('見る', '見', 'incorrect', 2000, '映画を見た'),
+        { ...record('ご飯', 'ご飯', 'incorrect', 1000), clipId: 3 },
+    ]);
+    expect(items.map((i) => i.sentence)).toEqual(['ご飯を食べました', '映画を見た']);
+    expect(items[0].records.map((r) => r.lemma)).toEqual(['食べる', 'ご飯']);
+    expect(items[0].clipId).toEqual(3);
+});
+
+it('fetches due words first, then missed words that are not scheduled', async () => {
+    const studyRepository = new IndexedDBStudyRepository();
+    const scheduleRepository = new IndexedDBScheduleRepository();
+    await studyRepository.save(record('食べる', '食べ', 'correct', 1000));
+    await studyRepository.save(record('食べる', '食べ', 'incorrect', 2000, '食べたい'));
+    await studyRepository.save(record('見る', '見', 'incorrect', 3000, '映画を見た'));
+    await studyRepository.save(record('飲む', '飲み', 'incorrect', 4000, '水を飲みます'));
+    await scheduleRepository.recordReviewsBatch([
+        { lemma: '食べる', reading: 'たべ', rating: 'again' },
+        { lemma: '飲む', reading: 'のみ', rating: 'good' },
+    ]);
+
+    const inAnHour = Date.now() + 60 * 60 * 1000;
+    const items = await fetchReviewItems(studyRepository, scheduleRepository, inAnHour);
+    expect(items.map((i) => i.sentence)).toEqual(['食べたい', '映画を見た']);
+    expect((await fetchReviewItems(studyRepository, scheduleRepository, inAnHour, 1)).length).toEqual(1);
+});
+
+it('rebuilds cloze tests from stored sentences', () => {
+    const [item] = groupReviewItems([
+        record('食べる', '食べ', 'incorrect', 1000),
+        record('ご飯', 'ご飯', 'incorrect', 1000),
+        record('寝る', '寝', 'incorrect', 1000),
+    ]);
+    const drill = clozeDrill(item);
+    expect(drill.tokens.map((t) => t.text)).toEqual(['ご飯', 'を', '食べ', 'ました']);
+    expect(drill.blankedIndices).toEqual([0, 2]);
+    expect(drill.records.map((r) => r.lemma)).toEqual(['ご飯', '食べる']);
+});
+
+it('grades answers by surface form or reading', () => {
+    const tested = record('食べる', '食べ', 'incorrect', 1000);
+    expect(gradeReviewAnswer(tested, '食べ', defaultAnswerMatchingOptions)).toEqual('correct');
+    expect(gradeReviewAnswer(tested, ' タベ ', defaultAnswerMatchingOptions)).toEqual('correct');
+    expect(gradeReviewAnswer(tested, 'たべる', defaultAnswerMatchingOptions)).toEqual('close');
+    expect(gradeReviewAnswer(tested, 'のむ', defaultAnswerMatchingOptions)).toEqual('wrong');
+});
+
+it('leaves out missed words that were not scheduled when tested', async () => {
+    const studyRepository = new IndexedDBStudyRepository();
+    const scheduleRepository = new IndexedDBScheduleRepository();
+    await studyRepository.save({ ...record('を', 'を', 'incorrect', 1000), scheduled: false });
+    await studyRepository.save({ ...record('食べる', '食べ', 'incorrect', 1000), scheduled: true });
+
+    const [item] = await fetchReviewItems(studyRepository, scheduleRepository, Date.now());
+    expect(item.records.map((r) => r.lemma)).toEqual(['食べる']);
+});
+
+it('schedules only drilled words that were scheduled when tested', async () => {
+    const scheduleRepository = new IndexedDBScheduleRepository();
+    await scheduleRepository.recordReviewsBatch([{ lemma: '見る', reading: 'み', rating: 'good' }]);
+    const [item] = groupReviewItems([
+        { ...record('ご飯', 'ご飯', 'incorrect', 1000), scheduled: true },
+        { ...record('を', 'を', 'incorrect', 1000), scheduled: false },
+        record('食べる', '食べ', 'incorrect', 1000),
+    ]);
+    const { records } = clozeDrill(item);
+    const reviews = await scheduledReviews(scheduleRepository, records, ['correct', 'wrong', 'wrong']);
+    expect(reviews.map((r) => r.lemma)).toEqual(['ご飯']);
+    expect(await scheduleRepository.getSchedule('を')).toBeUndefined();
+
+    // Records from before scheduling was tracked only review words that already have a schedule
+    const [legacyItem] = groupReviewItems([record('見る', '見', 'incorrect', 2000, '映画を見た')]);
+    const legacyReviews = await scheduledReviews(scheduleRepository, clozeDrill(legacyItem).records, ['correct']);
+    expect(legacyReviews).toEqual([{ lemma: '見る', reading: 'たべ', rating: 'good' }]);
+});
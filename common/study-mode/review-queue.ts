@@ -0,0 +1,169 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { AnswerGrade, AnswerMatchingOptions, gradeAnswer, reviewRatingForGrade } from './answer-matching';
+import { ScheduleRepository } from './schedule-repository';
+import { StudyRepository } from './study-repository';
+import { ScheduledReview, StudyRecord } from './types';
+
+/**
+ * A previously tested line to drill again, with the records of the words to blank in it.
+ */
+export interface ReviewItem {
+    sentence: string;
+    mediaSource: string;
+    /** Unix timestamp (ms) of the original test */
+    timestamp: number;
+    records: StudyRecord[];
+    /** ID of the audio clip captured during the original test, if any */
+    clipId?: number;
+    translation?: string;
+}
+
+/**
+ * A cloze test rebuilt from a stored sentence. Text between blanks is kept as single unanalyzed tokens.
+ */
+export interface ClozeDrill {
+    tokens: TokenPart[];
+    blankedIndices: number[];
+    /** Record of each blank, in the same order as blankedIndices */
+    records: StudyRecord[];
+}
+
+const reviewItemKey = (record: StudyRecord) => `${record.mediaSource}\n${record.timestamp}\n${record.sentenceContext}`;
+
+/**
+ * Group records into review items, one per tested line. Items are returned in the order their first record is given.
+ */
+export const groupReviewItems = (records: StudyRecord[]): ReviewItem[] => {
+    const items = new Map<string, ReviewItem>();
+
+    for (const record of records) {
+        const key = reviewItemKey(record);
+        const item = items.get(key);
+
+        if (item === undefined) {
+            items.set(key, {
+                sentence: record.sentenceContext,
+                mediaSource: record.mediaSource,
+                timestamp: record.timestamp,
+                records: [record],
+                clipId: record.clipId,
+                translation: record.translation,
+            });
+        } else if (!item.records.some((r) => r.lemma === record.lemma)) {
+            item.records.push(record);
+            item.clipId = item.clipId ?? record.clipId;
+        }
+    }
+
+    return [...items.values()];
+};
+
+/**
+ * Fetch lines to review: the most recent line of every word that is due, followed by the most recent line of
+ * every missed word that has not been scheduled yet. Missed words whose test didn't schedule them, such as
+ * particles, are left out.
+ *
+ * @param now Unix timestamp (ms) at which words are considered due
+ * @param limit Maximum number of lines to return
+ */
+export async function fetchReviewItems(
+    studyRepository: StudyRepository,
+    scheduleRepository: ScheduleRepository,
+    now: number,
+    limit?: number
+): Promise<ReviewItem[]> {
+    const records: StudyRecord[] = [];
+
+    for (const schedule of await scheduleRepository.fetchDue(now)) {
+        const [latest] = await studyRepository.fetch({ lemma: schedule.lemma, limit: 1 });
+
+        if (latest !== undefined) {
+            records.push(latest);
+        }
+    }
+
+    const seenLemmas = new Set(records.map((r) => r.lemma));
+
+    for (const record of await studyRepository.fetch({ result: 'incorrect' })) {
+        if (seenLemmas.has(record.lemma) || record.scheduled === false) {
+            continue;
+        }
+
+        seenLemmas.add(record.lemma);
+
+        if ((await scheduleRepository.getSchedule(record.lemma)) === undefined) {
+            records.push(record);
+        }
+    }
+
+    const items = groupReviewItems(records);
+    return limit === undefined ? items : items.slice(0, limit);
+}
+
+/**
+ * Rebuild the cloze test of a review item by locating each tested word in the stored sentence.
+ * Words that can no longer be found, or that overlap a word found earlier, are left out.
+ */
+export const clozeDrill = (item: ReviewItem): ClozeDrill => {
+    const { sentence } = item;
+    const located = item.records
+        .map((record) => ({ record, index: sentence.indexOf(record.surfaceForm) }))
+        .filter(({ record, index }) => index !== -1 && record.surfaceForm !== '')
+        .sort((a, b) => a.index - b.index);
+    const tokens: TokenPart[] = [];
+    const blankedIndices: number[] = [];
+    const records: StudyRecord[] = [];
+    let cursor = 0;
+
+    for (const { record } of located) {
+        const index = sentence.indexOf(record.surfaceForm, cursor);
+
+        if (index === -1) {
+            continue;
+        }
+
+        if (index > cursor) {
+            tokens.push({ text: sentence.substring(cursor, index), reading: '' });
+        }
+
+        blankedIndices.push(tokens.length);
+        records.push(record);
+        tokens.push({ text: record.surfaceForm, reading: record.reading });
+        cursor = index + record.surfaceForm.length;
+    }
+
+    if (cursor < sentence.length) {
+        tokens.push({ text: sentence.substring(cursor), reading: '' });
+    }
+
+    return { tokens, blankedIndices, records };
+};
+
+/**
+ * Grade an answer to a blank against the tested word, either as written or by its reading.
+ */
+export const gradeReviewAnswer = (record: StudyRecord, answer: string, options: AnswerMatchingOptions) => {
+    return gradeAnswer(answer, { text: record.surfaceForm, reading: record.reading }, options);
+};
+
+/**
+ * Reviews to schedule after drilling records. Like the original tests, only words that were scheduled when tested
+ * are reviewed. Records saved before that was tracked only review words that already have a schedule.
+ */
+export async function scheduledReviews(
+    scheduleRepository: ScheduleRepository,
+    records: StudyRecord[],
+    grades: AnswerGrade[]
+): Promise<ScheduledReview[]> {
+    const reviews: ScheduledReview[] = [];
+
+    for (let i = 0; i < records.length; ++i) {
+        const { lemma, reading, scheduled } = records[i];
+
+        if (scheduled ?? (await scheduleRepository.getSchedule(lemma)) !== undefined) {
+            reviews.push({ lemma, reading, rating: reviewRatingForGrade(grades[i]) });
+        }
+    }
+
+    return reviews;
+}
@@ -0,0 +1,48 @@
+import { romajiToKana } from './romaji';
+
+it('converts romaji syllables to hiragana', () => {
+    expect(romajiToKana('taberu')).toEqual('たべる');
+    expect(romajiToKana('shinbun', { final: true })).toEqual('しんぶん');
+    expect(romajiToKana('tsukue')).toEqual('つくえ');
+    expect(romajiToKana('kyou')).toEqual('きょう');
+    expect(romajiToKana('chotto')).toEqual('ちょっと');
+    expect(romajiToKana('fuji')).toEqual('ふじ');
+    expect(romajiToKana('ra-men')).toEqual('らーめn');
+});
+
+it('converts uppercase romaji to katakana', () => {
+    expect(romajiToKana('TEREBI')).toEqual('テレビ');
+    expect(romajiToKana('KOUHI-')).toEqual('コウヒー');
+});
+
+it('handles n and nn', () => {
+    expect(romajiToKana('kanji')).toEqual('かんじ');
+    expect(romajiToKana('konnnichiha')).toEqual('こんにちは');
+    expect(romajiToKana('onnna')).toEqual('おんな');
+    expect(romajiToKana("kin'enn")).toEqual('きんえん');
+    expect(romajiToKana('kinen', { final: true })).toEqual('きねん');
+    expect(romajiToKana('konnyaku')).toEqual('こんやく');
+    expect(romajiToKana('konnnyaku')).toEqual('こんにゃく');
+});
+
+it('leaves a trailing n until the input is complete', () => {
+    expect(romajiToKana('hon')).toEqual('ほn');
+    expect(romajiToKana('hon', { final: true })).toEqual('ほん');
+    expect(romajiToKana('honn')).toEqual('ほん');
+});
+
+it('doubles consonants into sokuon', () => {
+    expect(romajiToKana('kitte')).toEqual('きって');
+    expect(romajiToKana('matcha')).toEqual('まっちゃ');
+    expect(romajiToKana('zasshi')).toEqual('ざっし');
+    expect(romajiToKana('ippai')).toEqual('いっぱい');
+});
+
+it('leaves partly typed syllables and converted kana as-is', () => {
+    expect(romajiToKana('たべr')).toEqual('たべr');
+    expect(romajiToKana('たべru')).toEqual('たべる');
+    expect(romajiToKana('ky')).toEqual('ky');
+    expect(romajiToKana('tt')).toEqual('っt');
+    expect(romajiToKana('食べru')).toEqual('食べる');
+    expect(romajiToKana('')).toEqual('');
+});
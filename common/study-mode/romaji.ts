@@ -0,0 +1,182 @@
+const vowels = ['a', 'i', 'u', 'e', 'o'];
+
+// Kana of each consonant followed by a, i, u, e and o
+const gojuon: { [consonant: string]: string[] } = {
+    '': ['あ', 'い', 'う', 'え', 'お'],
+    k: ['か', 'き', 'く', 'け', 'こ'],
+    s: ['さ', 'し', 'す', 'せ', 'そ'],
+    t: ['た', 'ち', 'つ', 'て', 'と'],
+    n: ['な', 'に', 'ぬ', 'ね', 'の'],
+    h: ['は', 'ひ', 'ふ', 'へ', 'ほ'],
+    m: ['ま', 'み', 'む', 'め', 'も'],
+    y: ['や', 'い', 'ゆ', 'いぇ', 'よ'],
+    r: ['ら', 'り', 'る', 'れ', 'ろ'],
+    l: ['ら', 'り', 'る', 'れ', 'ろ'],
+    w: ['わ', 'うぃ', 'う', 'うぇ', 'を'],
+    g: ['が', 'ぎ', 'ぐ', 'げ', 'ご'],
+    z: ['ざ', 'じ', 'ず', 'ぜ', 'ぞ'],
+    d: ['だ', 'ぢ', 'づ', 'で', 'ど'],
+    b: ['ば', 'び', 'ぶ', 'べ', 'ぼ'],
+    p: ['ぱ', 'ぴ', 'ぷ', 'ぺ', 'ぽ'],
+    v: ['ゔぁ', 'ゔぃ', 'ゔ', 'ゔぇ', 'ゔぉ'],
+    f: ['ふぁ', 'ふぃ', 'ふ', 'ふぇ', 'ふぉ'],
+    j: ['じゃ', 'じ', 'じゅ', 'じぇ', 'じょ'],
+    ts: ['つぁ', 'つぃ', 'つ', 'つぇ', 'つぉ'],
+    x: ['ぁ', 'ぃ', 'ぅ', 'ぇ', 'ぉ'],
+};
+
+// Kana that combine with a small vowel, e.g. ky + a is き + ゃ
+const yoon: { [consonant: string]: string } = {
+    ky: 'き',
+    sh: 'し',
+    sy: 'し',
+    ch: 'ち',
+    ty: 'ち',
+    cy: 'ち',
+    ny: 'に',
+    hy: 'ひ',
+    my: 'み',
+    ry: 'り',
+    ly: 'り',
+    gy: 'ぎ',
+    jy: 'じ',
+    zy: 'じ',
+    dy: 'ぢ',
+    by: 'び',
+    py: 'ぴ',
+    fy: 'ふ',
+    th: 'て',
+    dh: 'で',
+};
+const smallVowels = ['ゃ', 'ぃ', 'ゅ', 'ぇ', 'ょ'];
+
+const romajiToHiragana: { [romaji: string]: string } = {
+    shi: 'し',
+    chi: 'ち',
+    fu: 'ふ',
+    dzu: 'づ',
+    xya: 'ゃ',
+    xyu: 'ゅ',
+    xyo: 'ょ',
+    xtu: 'っ',
+    xtsu: 'っ',
+    xwa: 'ゎ',
+    nn: 'ん',
+    "n'": 'ん',
+    xn: 'ん',
+    '-': 'ー',
+};
+
+for (const consonant of Object.keys(gojuon)) {
+    vowels.forEach((vowel, i) => {
+        romajiToHiragana[consonant + vowel] = gojuon[consonant][i];
+    });
+}
+
+for (const consonant of Object.keys(yoon)) {
+    vowels.forEach((vowel, i) => {
+        romajiToHiragana[consonant + vowel] ??= yoon[consonant] + smallVowels[i];
+    });
+}
+
+const longestRomaji = Math.max(...Object.keys(romajiToHiragana).map((romaji) => romaji.length));
+
+// Every prefix of a romaji syllable, used to leave partly typed syllables unconverted
+const romajiPrefixes = new Set(
+    Object.keys(romajiToHiragana).flatMap((romaji) => [...romaji].map((_, i) => romaji.substring(0, i + 1)))
+);
+
+const consonants = 'bcdfghjklmpqrstvwxyz';
+
+// Hiragana ぁ (U+3041) to ゖ (U+3096) map onto katakana ァ (U+30A1) to ヶ (U+30F6)
+const hiraganaToKatakana = (text: string) => {
+    return text.replace(/[ぁ-ゖ]/g, (char) => String.fromCharCode(char.charCodeAt(0) + 0x60));
+};
+
+export interface RomajiConversionOptions {
+    /**
+     * Whether the input is complete. While typing, a trailing n is left as-is since it may start な, にゃ etc.,
+     * and is only converted to ん once the input is complete.
+     */
+    final?: boolean;
+}
+
+/**
+ * Convert romaji to kana as an IME would while typing. Lowercase romaji becomes hiragana and uppercase romaji
+ * becomes katakana. Syllables that are still being typed are left as romaji, and anything that isn't romaji,
+ * such as kana that were already converted, is kept as-is.
+ *
+ * n becomes ん before a consonant other than y, and nn or n' always become ん, so おんな is typed onnna.
+ * A doubled consonant other than n becomes っ, e.g. kitte becomes きって and matcha becomes まっちゃ.
+ */
+export const romajiToKana = (text: string, options: RomajiConversionOptions = {}) => {
+    let kana = '';
+    let i = 0;
+
+    const emit = (hiragana: string, romaji: string) => {
+        kana +=
+            romaji === romaji.toUpperCase() && romaji !== romaji.toLowerCase()
+                ? hiraganaToKatakana(hiragana)
+                : hiragana;
+    };
+
+    while (i < text.length) {
+        const char = text[i].toLowerCase();
+        const next = text[i + 1]?.toLowerCase();
+
+        // Sokuon: a doubled consonant, or t before ch
+        if (
+            next !== undefined &&
+            consonants.includes(char) &&
+            char !== 'n' &&
+            (next === char || (char === 't' && next === 'c'))
+        ) {
+            emit('っ', text[i]);
+            ++i;
+            continue;
+        }
+
+        // ん before a consonant that can't follow n in a syllable
+        if (char === 'n' && next !== undefined && consonants.includes(next) && next !== 'y') {
+            emit('ん', text[i]);
+            ++i;
+            continue;
+        }
+
+        let matched = false;
+
+        for (let length = Math.min(longestRomaji, text.length - i); length > 0; --length) {
+            const romaji = text.substring(i, i + length);
+            const hiragana = romajiToHiragana[romaji.toLowerCase()];
+
+            if (hiragana !== undefined) {
+                emit(hiragana, romaji);
+                i += length;
+                matched = true;
+                break;
+            }
+        }
+
+        if (matched) {
+            continue;
+        }
+
+        const rest = text.substring(i).toLowerCase();
+
+        if (romajiPrefixes.has(rest)) {
+            // The syllable is still being typed
+            if (options.final && rest === 'n') {
+                emit('ん', text.substring(i));
+            } else {
+                kana += text.substring(i);
+            }
+
+            break;
+        }
+
+        kana += text[i];
+        ++i;
+    }
+
+    return kana;
+};
@@ -0,0 +1,45 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBScheduleRepository } from './schedule-repository';
+
+const day = 24 * 60 * 60 * 1000;
+
+beforeEach(async () => {
+    await new IndexedDBScheduleRepository().clear();
+});
+
+it('schedules first review', async () => {
+    const repository = new IndexedDBScheduleRepository();
+    const schedule = await repository.recordReview({ lemma: '食べる', reading: 'たべ', rating: 'good' });
+    expect(await repository.getSchedule('食べる')).toEqual(schedule);
+    expect(schedule.reps).toEqual(1);
+    expect(schedule.due).toBeGreaterThan(Date.now());
+});
+
+it('applies reviews of the same lemma within a batch in order', async () => {
+    const repository = new IndexedDBScheduleRepository();
+    const results = await repository.recordReviewsBatch([
+        { lemma: '食べる', reading: 'たべ', rating: 'good' },
+        { lemma: '飲む', reading: 'のみ', rating: 'again' },
+        { lemma: '食べる', reading: 'たべる', rating: 'again' },
+    ]);
+    expect(results.length).toEqual(3);
+    expect(await repository.getSchedule('食べる')).toMatchObject({ reading: 'たべる', reps: 2, lapses: 1 });
+    expect(await repository.getSchedule('飲む')).toMatchObject({ reps: 1, lapses: 0 });
+    expect((await repository.fetchAll()).length).toEqual(2);
+});
+
+it('fetches due words, most overdue first', async () => {
+    const repository = new IndexedDBScheduleRepository();
+    await repository.recordReviewsBatch([
+        { lemma: '食べる', reading: 'たべる', rating: 'easy' },
+        { lemma: '飲む', reading: 'のむ', rating: 'again' },
+        { lemma: '見る', reading: 'みる', rating: 'good' },
+    ]);
+    const inAnHour = Date.now() + 60 * 60 * 1000;
+    expect((await repository.fetchDue(inAnHour)).map((s) => s.lemma)).toEqual(['飲む']);
+
+    const inAMonth = Date.now() + 30 * day;
+    expect((await repository.fetchDue(inAMonth)).map((s) => s.lemma)).toEqual(['飲む', '見る', '食べる']);
+    expect((await repository.fetchDue(inAMonth, 2)).map((s) => s.lemma)).toEqual(['飲む', '見る']);
+});
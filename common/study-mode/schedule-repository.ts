@@ -0,0 +1,73 @@
+import { FsrsScheduler } from './scheduler';
+import { StudyModeDatabase } from './study-mode-database';
+import { ScheduledReview, WordSchedule } from './types';
+
+/**
+ * Repository of per-lemma spaced repetition state. Reviews are scheduled as they are recorded.
+ */
+export interface ScheduleRepository {
+    recordReview: (review: ScheduledReview) => Promise<WordSchedule>;
+    recordReviewsBatch: (reviews: ScheduledReview[]) => Promise<WordSchedule[]>;
+    getSchedule: (lemma: string) => Promise<WordSchedule | undefined>;
+    /**
+     * @returns Words that are due at the given time, most overdue first
+     */
+    fetchDue: (now: number, limit?: number) => Promise<WordSchedule[]>;
+    fetchAll: () => Promise<WordSchedule[]>;
+    clear: () => Promise<void>;
+}
+
+export class IndexedDBScheduleRepository implements ScheduleRepository {
+    private readonly _db = new StudyModeDatabase();
+    private readonly _scheduler: FsrsScheduler;
+
+    constructor(scheduler = new FsrsScheduler()) {
+        this._scheduler = scheduler;
+    }
+
+    async recordReview(review: ScheduledReview) {
+        return (await this.recordReviewsBatch([review]))[0];
+    }
+
+    async recordReviewsBatch(reviews: ScheduledReview[]) {
+        if (reviews.length === 0) {
+            return [];
+        }
+
+        const now = Date.now();
+        return await this._db.transaction('rw', this._db.wordSchedules, async () => {
+            // The same lemma can be blanked more than once in a line so reviews are applied in order
+            const updated = new Map<string, WordSchedule>();
+            const results: WordSchedule[] = [];
+
+            for (const review of reviews) {
+                const existing = updated.get(review.lemma) ?? (await this._db.wordSchedules.get(review.lemma));
+                const schedule = this._scheduler.review(existing, review, now);
+                updated.set(review.lemma, schedule);
+                results.push(schedule);
+            }
+
+            await this._db.wordSchedules.bulkPut([...updated.values()]);
+            return results;
+        });
+    }
+
+    async getSchedule(lemma: string) {
+        return await this._db.wordSchedules.get(lemma);
+    }
+
+    async fetchDue(now: number, limit?: number) {
+        const collection = this._db.wordSchedules.where('due').belowOrEqual(now);
+        return await (limit === undefined ? collection : collection.limit(limit)).toArray();
+    }
+
+    async fetchAll() {
+        return await this._db.wordSchedules.toArray();
+    }
+
+    async clear() {
+        await this._db.wordSchedules.clear();
+    }
+}
+
+export const createScheduleRepository = (): ScheduleRepository => new IndexedDBScheduleRepository();
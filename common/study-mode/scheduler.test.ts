@@ -0,0 +1,86 @@
+import { DEFAULT_FSRS_WEIGHTS, FsrsScheduler, isDue, retrievability, schedulePriority } from './scheduler';
+import { ReviewRating } from './types';
+
+const day = 24 * 60 * 60 * 1000;
+const now = 100 * day;
+const review = (rating: ReviewRating) => ({ lemma: '食べる', reading: 'たべる', rating });
+
+it('schedules a new word from its first rating', () => {
+    const scheduler = new FsrsScheduler();
+    const schedule = scheduler.review(undefined, review('good'), now);
+    expect(schedule).toMatchObject({
+        lemma: '食べる',
+        reading: 'たべる',
+        stability: DEFAULT_FSRS_WEIGHTS[2],
+        difficulty: DEFAULT_FSRS_WEIGHTS[4],
+        lastReview: now,
+        reps: 1,
+        lapses: 0,
+    });
+    expect(schedule.due).toEqual(now + 4 * day);
+});
+
+it('schedules easier ratings further out', () => {
+    const scheduler = new FsrsScheduler();
+    const hard = scheduler.review(undefined, review('hard'), now);
+    const good = scheduler.review(undefined, review('good'), now);
+    const easy = scheduler.review(undefined, review('easy'), now);
+    expect(hard.due).toBeLessThan(good.due);
+    expect(good.due).toBeLessThan(easy.due);
+    expect(hard.difficulty).toBeGreaterThan(good.difficulty);
+    expect(good.difficulty).toBeGreaterThan(easy.difficulty);
+});
+
+it('makes a forgotten word due again shortly', () => {
+    const scheduler = new FsrsScheduler({ relearningDelayMinutes: 5 });
+    const schedule = scheduler.review(undefined, review('again'), now);
+    expect(schedule.due).toEqual(now + 5 * 60 * 1000);
+    expect(schedule.lapses).toEqual(0);
+});
+
+it('grows stability when a due word is recalled', () => {
+    const scheduler = new FsrsScheduler();
+    const first = scheduler.review(undefined, review('good'), now);
+    const second = scheduler.review(first, review('good'), first.due);
+    expect(second.stability).toBeGreaterThan(first.stability);
+    expect(second.due - second.lastReview).toBeGreaterThan(first.due - first.lastReview);
+    expect(second.reps).toEqual(2);
+});
+
+it('grows stability less when a word is reviewed early', () => {
+    const scheduler = new FsrsScheduler();
+    const first = scheduler.review(undefined, review('good'), now);
+    const early = scheduler.review(first, review('good'), now + 60 * 1000);
+    const onTime = scheduler.review(first, review('good'), first.due);
+    expect(early.stability).toBeLessThan(onTime.stability);
+});
+
+it('shrinks stability and counts a lapse when a word is forgotten', () => {
+    const scheduler = new FsrsScheduler();
+    const first = scheduler.review(undefined, review('good'), now);
+    const second = scheduler.review(first, review('good'), first.due);
+    const forgotten = scheduler.review(second, review('again'), second.due);
+    expect(forgotten.stability).toBeLessThan(second.stability);
+    expect(forgotten.difficulty).toBeGreaterThan(second.difficulty);
+    expect(forgotten.lapses).toEqual(1);
+});
+
+it('bounds intervals', () => {
+    const scheduler = new FsrsScheduler({ maximumInterval: 30 });
+    expect(scheduler.interval(0.1)).toEqual(1);
+    expect(scheduler.interval(1000)).toEqual(30);
+});
+
+it('reaches 90% retrievability after one stability', () => {
+    expect(retrievability(0, 5)).toEqual(1);
+    expect(retrievability(5, 5)).toBeCloseTo(0.9);
+});
+
+it('ramps schedule priority up to the due date', () => {
+    const schedule = new FsrsScheduler().review(undefined, review('good'), now);
+    expect(schedulePriority(schedule, now)).toEqual(0);
+    expect(schedulePriority(schedule, now + 2 * day)).toBeCloseTo(0.5);
+    expect(schedulePriority(schedule, now + 10 * day)).toEqual(1);
+    expect(isDue(schedule, now + 2 * day)).toBe(false);
+    expect(isDue(schedule, schedule.due)).toBe(true);
+});
@@ -0,0 +1,170 @@
+import { ReviewRating, ScheduledReview, WordSchedule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Shape of the FSRS forgetting curve, chosen so that retrievability is 90% after exactly one stability
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+/**
+ * Default FSRS-4.5 parameters, fitted by the FSRS project on a large body of Anki review logs.
+ */
+export const DEFAULT_FSRS_WEIGHTS = [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246,
+    1.587, 0.2272, 2.8755,
+];
+
+const ratingGrades: { [key in ReviewRating]: number } = {
+    again: 1,
+    hard: 2,
+    good: 3,
+    easy: 4,
+};
+
+export interface SchedulerOptions {
+    /** Probability of recall at which a word becomes due. Higher values mean shorter intervals. */
+    desiredRetention: number;
+    /** Longest possible interval, in days */
+    maximumInterval: number;
+    /** Delay before a forgotten word is due again, in minutes */
+    relearningDelayMinutes: number;
+    weights: number[];
+}
+
+const defaultOptions: SchedulerOptions = {
+    desiredRetention: 0.9,
+    maximumInterval: 36500,
+    relearningDelayMinutes: 10,
+    weights: DEFAULT_FSRS_WEIGHTS,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Probability of recalling a word the given number of days after its last review.
+ */
+export const retrievability = (elapsedDays: number, stability: number) => {
+    return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+};
+
+export const isDue = (schedule: WordSchedule, now: number) => schedule.due <= now;
+
+/**
+ * How close a word is to being due, from 0 right after a review to 1 once it is due.
+ */
+export const schedulePriority = (schedule: WordSchedule, now: number) => {
+    const interval = schedule.due - schedule.lastReview;
+
+    if (interval <= 0) {
+        return 1;
+    }
+
+    return clamp((now - schedule.lastReview) / interval, 0, 1);
+};
+
+/**
+ * Per-lemma spaced repetition scheduler implementing FSRS-4.5.
+ * Every study test is a review: the stability and difficulty of the word are updated from the result and
+ * the time since the previous review, and the word is scheduled for when its retrievability is expected
+ * to drop to the desired retention.
+ */
+export class FsrsScheduler {
+    private readonly _options: SchedulerOptions;
+
+    constructor(options: Partial<SchedulerOptions> = {}) {
+        this._options = { ...defaultOptions, ...options };
+    }
+
+    /**
+     * @param existing Current schedule of the word, or undefined if it has never been reviewed
+     * @param review Result of the review
+     * @param now Unix timestamp (ms) of the review
+     */
+    review(existing: WordSchedule | undefined, review: ScheduledReview, now: number): WordSchedule {
+        const grade = ratingGrades[review.rating];
+        let stability: number;
+        let difficulty: number;
+        let lapses = existing?.lapses ?? 0;
+
+        if (existing === undefined) {
+            stability = this._initialStability(grade);
+            difficulty = this._initialDifficulty(grade);
+        } else {
+            const elapsedDays = Math.max(0, (now - existing.lastReview) / DAY_MS);
+            const r = retrievability(elapsedDays, existing.stability);
+            difficulty = this._nextDifficulty(existing.difficulty, grade);
+
+            if (grade === ratingGrades.again) {
+                stability = this._forgetStability(existing.difficulty, existing.stability, r);
+                ++lapses;
+            } else {
+                stability = this._recallStability(existing.difficulty, existing.stability, r, grade);
+            }
+        }
+
+        const due =
+            grade === ratingGrades.again
+                ? now + this._options.relearningDelayMinutes * MINUTE_MS
+                : now + this.interval(stability) * DAY_MS;
+
+        return {
+            lemma: review.lemma,
+            reading: review.reading,
+            stability,
+            difficulty,
+            due,
+            lastReview: now,
+            reps: (existing?.reps ?? 0) + 1,
+            lapses,
+        };
+    }
+
+    /**
+     * Number of whole days after which a word with the given stability drops to the desired retention.
+     */
+    interval(stability: number) {
+        const days = (stability / FACTOR) * (Math.pow(this._options.desiredRetention, 1 / DECAY) - 1);
+        return clamp(Math.round(days), 1, this._options.maximumInterval);
+    }
+
+    private _initialStability(grade: number) {
+        return Math.max(this._options.weights[grade - 1], 0.1);
+    }
+
+    private _initialDifficulty(grade: number) {
+        const w = this._options.weights;
+        return clamp(w[4] - w[5] * (grade - 3), 1, 10);
+    }
+
+    private _nextDifficulty(difficulty: number, grade: number) {
+        const w = this._options.weights;
+        const next = difficulty - w[6] * (grade - 3);
+        // Mean reversion towards the difficulty of a new word rated 'good' keeps difficulty from drifting to the bounds
+        return clamp(w[7] * this._initialDifficulty(3) + (1 - w[7]) * next, 1, 10);
+    }
+
+    private _recallStability(difficulty: number, stability: number, r: number, grade: number) {
+        const w = this._options.weights;
+        const hardPenalty = grade === ratingGrades.hard ? w[15] : 1;
+        const easyBonus = grade === ratingGrades.easy ? w[16] : 1;
+        return (
+            stability *
+            (1 +
+                Math.exp(w[8]) *
+                    (11 - difficulty) *
+                    Math.pow(stability, -w[9]) *
+                    (Math.exp((1 - r) * w[10]) - 1) *
+                    hardPenalty *
+                    easyBonus)
+        );
+    }
+
+    private _forgetStability(difficulty: number, stability: number, r: number) {
+        const w = this._options.weights;
+        const next =
+            w[11] * Math.pow(difficulty, -w[12]) * (Math.pow(stability + 1, w[13]) - 1) * Math.exp((1 - r) * w[14]);
+        // Forgetting a word should never make it more stable
+        return Math.min(next, stability);
+    }
+}
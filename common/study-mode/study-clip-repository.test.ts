@@ -0,0 +1,38 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBStudyClipRepository } from './study-clip-repository';
+import { StudyClip } from './types';
+
+const clip = (timestamp: number): StudyClip => ({
+    timestamp,
+    mediaSource: 'https://example.com/video',
+    start: 1000,
+    end: 2000,
+    audio: { base64: 'AAAA', extension: 'webm', paddingStart: 0, paddingEnd: 500 },
+});
+
+beforeEach(async () => {
+    await new IndexedDBStudyClipRepository().clear();
+});
+
+it('saves and gets clips by ID', async () => {
+    const repository = new IndexedDBStudyClipRepository();
+    const id = await repository.save(clip(1000));
+    expect(await repository.get(id)).toMatchObject(clip(1000));
+    expect(await repository.get(id + 1)).toBeUndefined();
+});
+
+it('prunes the oldest clips beyond the limit', async () => {
+    const repository = new IndexedDBStudyClipRepository(2);
+    const first = await repository.save(clip(1000));
+    const second = await repository.save(clip(2000));
+    const third = await repository.save(clip(3000));
+    expect(await repository.count()).toEqual(2);
+    expect(await repository.get(first)).toBeUndefined();
+    expect(await repository.get(second)).toBeDefined();
+    expect(await repository.get(third)).toBeDefined();
+
+    repository.limit = 1;
+    await repository.save(clip(4000));
+    expect(await repository.count()).toEqual(1);
+});
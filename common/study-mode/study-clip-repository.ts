@@ -0,0 +1,62 @@
+import { StudyModeDatabase } from './study-mode-database';
+import { StudyClip } from './types';
+
+/**
+ * Repository of the audio of tested lines, referenced by study records through their clip ID.
+ */
+export interface StudyClipRepository {
+    save: (clip: StudyClip) => Promise<number>;
+    get: (id: number) => Promise<StudyClip | undefined>;
+    clear: () => Promise<void>;
+    count: () => Promise<number>;
+}
+
+export class IndexedDBStudyClipRepository implements StudyClipRepository {
+    private readonly _db = new StudyModeDatabase();
+    private _limit?: number;
+
+    /**
+     * @param limit Maximum number of clips to keep, oldest clips are pruned on save. Unlimited if undefined.
+     */
+    constructor(limit?: number) {
+        this._limit = limit;
+    }
+
+    set limit(limit: number | undefined) {
+        this._limit = limit;
+    }
+
+    async save(clip: StudyClip) {
+        const id = await this._db.studyClips.put({ ...clip });
+        await this._prune();
+        return id;
+    }
+
+    private async _prune() {
+        if (this._limit === undefined) {
+            return;
+        }
+
+        const size = await this._db.studyClips.count();
+
+        if (size > this._limit) {
+            const keys = await this._db.studyClips
+                .orderBy('timestamp')
+                .limit(size - this._limit)
+                .primaryKeys();
+            await this._db.studyClips.bulkDelete(keys);
+        }
+    }
+
+    async get(id: number) {
+        return await this._db.studyClips.get(id);
+    }
+
+    async clear() {
+        await this._db.studyClips.clear();
+    }
+
+    async count() {
+        return await this._db.studyClips.count();
+    }
+}
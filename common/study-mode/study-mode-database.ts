@@ -0,0 +1,26 @@
+import Dexie from 'dexie';
+import { RecognitionStats, StudyClip, StudyRecord, WordSchedule } from './types';
+
+/**
+ * Dexie database shared by the study mode repositories.
+ */
+export class StudyModeDatabase extends Dexie {
+    studyRecords!: Dexie.Table<StudyRecord, number>;
+    recognitionStats!: Dexie.Table<RecognitionStats, string>;
+    wordSchedules!: Dexie.Table<WordSchedule, string>;
+    studyClips!: Dexie.Table<StudyClip, number>;
+
+    constructor() {
+        super('StudyModeDatabase');
+        this.version(1).stores({
+            studyRecords: '++id,lemma,timestamp,mediaSource',
+            recognitionStats: 'lemma,lastAttempt',
+        });
+        this.version(2).stores({
+            wordSchedules: 'lemma,due',
+        });
+        this.version(3).stores({
+            studyClips: '++id,timestamp',
+        });
+    }
+}
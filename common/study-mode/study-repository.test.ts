@@ -0,0 +1,68 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBStudyRepository } from './study-repository';
+import { StudyRecord } from './types';
+
+const record = (lemma: string, result: StudyRecord['result'], timestamp: number): StudyRecord => ({
+    lemma,
+    reading: 'たべる',
+    surfaceForm: lemma,
+    result,
+    timestamp,
+    sentenceContext: 'ご飯を食べました',
+    mediaSource: 'https://example.com/video',
+});
+
+beforeEach(async () => {
+    await new IndexedDBStudyRepository().clear();
+});
+
+it('saves and fetches', async () => {
+    const repository = new IndexedDBStudyRepository();
+    const item = record('食べる', 'correct', 1000);
+    await repository.save(item);
+    const records = await repository.fetch();
+    expect(records.length).toEqual(1);
+    expect(records[0]).toMatchObject(item);
+    expect(await repository.count()).toEqual(1);
+});
+
+it('fetches most recent records first', async () => {
+    const repository = new IndexedDBStudyRepository();
+    await repository.save(record('食べる', 'correct', 1000));
+    await repository.save(record('飲む', 'incorrect', 3000));
+    await repository.save(record('見る', 'correct', 2000));
+    const records = await repository.fetch({ limit: 2 });
+    expect(records.map((r) => r.lemma)).toEqual(['飲む', '見る']);
+});
+
+it('filters fetched records by lemma and result', async () => {
+    const repository = new IndexedDBStudyRepository();
+    await repository.save(record('食べる', 'incorrect', 2000));
+    await repository.save(record('食べる', 'correct', 1000));
+    await repository.save(record('食べる', 'incorrect', 3000));
+    await repository.save(record('飲む', 'incorrect', 4000));
+    const records = await repository.fetch({ lemma: '食べる', result: 'incorrect' });
+    expect(records.map((r) => r.timestamp)).toEqual([3000, 2000]);
+});
+
+it('aggregates stats for a lemma', async () => {
+    const repository = new IndexedDBStudyRepository();
+    await repository.save(record('食べる', 'incorrect', 3000));
+    await repository.save(record('食べる', 'correct', 1000));
+    await repository.save(record('食べる', 'correct', 2000));
+    await repository.save(record('飲む', 'incorrect', 4000));
+    expect(await repository.getStats('食べる')).toEqual({
+        lemma: '食べる',
+        correctCount: 2,
+        incorrectCount: 1,
+        lastStudied: 3000,
+        lastResult: 'incorrect',
+    });
+});
+
+it('returns no stats for untested lemma', async () => {
+    const repository = new IndexedDBStudyRepository();
+    await repository.save(record('食べる', 'correct', 1000));
+    expect(await repository.getStats('飲む')).toBeUndefined();
+});
@@ -0,0 +1,96 @@
+import { StudyModeDatabase } from './study-mode-database';
+import { StudyRecord, StudyStats } from './types';
+
+export interface StudyRecordQueryOptions {
+    /** Only return records for this lemma */
+    lemma?: string;
+    /** Only return records with this result */
+    result?: StudyRecord['result'];
+    /** Maximum number of records to return, most recent first */
+    limit?: number;
+}
+
+/**
+ * Repository of every word tested in study mode.
+ */
+export interface StudyRepository {
+    save: (record: StudyRecord) => Promise<number>;
+    fetch: (options?: StudyRecordQueryOptions) => Promise<StudyRecord[]>;
+    getStats: (lemma: string) => Promise<StudyStats | undefined>;
+    clear: () => Promise<void>;
+    count: () => Promise<number>;
+}
+
+export class IndexedDBStudyRepository implements StudyRepository {
+    private readonly _db = new StudyModeDatabase();
+
+    async save(record: StudyRecord) {
+        return await this._db.studyRecords.put({ ...record });
+    }
+
+    async fetch(options: StudyRecordQueryOptions = {}): Promise<StudyRecord[]> {
+        const { lemma, result, limit } = options;
+
+        if (limit !== undefined && limit <= 0) {
+            return [];
+        }
+
+        let collection =
+            lemma === undefined
+                ? this._db.studyRecords.orderBy('timestamp').reverse()
+                : this._db.studyRecords.where('lemma').equals(lemma).reverse();
+
+        if (result !== undefined) {
+            collection = collection.filter((r) => r.result === result);
+        }
+
+        const records = await collection.toArray();
+
+        if (lemma !== undefined) {
+            // Primary key order is insertion order, which is not necessarily timestamp order
+            records.sort((a, b) => b.timestamp - a.timestamp);
+        }
+
+        return limit === undefined ? records : records.slice(0, limit);
+    }
+
+    async getStats(lemma: string): Promise<StudyStats | undefined> {
+        const records = await this._db.studyRecords.where('lemma').equals(lemma).toArray();
+
+        if (records.length === 0) {
+            return undefined;
+        }
+
+        let correctCount = 0;
+        let incorrectCount = 0;
+        let last = records[0];
+
+        for (const record of records) {
+            if (record.result !== 'incorrect') {
+                ++correctCount;
+            } else {
+                ++incorrectCount;
+            }
+
+            if (record.timestamp >= last.timestamp) {
+                last = record;
+            }
+        }
+
+        return {
+            lemma,
+            correctCount,
+            incorrectCount,
+            lastStudied: last.timestamp,
+            lastResult: last.result,
+        };
+    }
+
+    async clear() {
+        await this._db.studyRecords.clear();
+    }
+
+    async count() {
+        return await this._db.studyRecords.count();
+    }
+}
@@ -0,0 +1,99 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { contentGroups, getTestableIndices, groupTokens, isContentToken, tokenLemma } from './token-grouping';
+
+const token = (text: string, pos: string, basicForm = text): TokenPart => ({
+    text,
+    reading: text,
+    pos,
+    basicForm,
+    wordType: 'KNOWN',
+});
+
+// ご飯を食べました。
+const politePast = [
+    token('ご飯', '名詞'),
+    token('を', '助詞'),
+    token('食べ', '動詞', '食べる'),
+    token('まし', '助動詞', 'ます'),
+    token('た', '助動詞'),
+    token('。', '記号'),
+];
+
+it('groups verb with auxiliaries when conjugations are included', () => {
+    const groups = groupTokens(politePast, true);
+    expect(groups.map((g) => g.indices)).toEqual([[0], [1], [2, 3, 4], [5]]);
+    expect(groups[2]).toMatchObject({ lemma: '食べる', text: '食べました', testable: true });
+    expect(groups[3].testable).toBe(false);
+});
+
+it('does not group when conjugations are excluded', () => {
+    expect(groupTokens(politePast, false).map((g) => g.indices)).toEqual([[0], [1], [2], [3], [4], [5]]);
+});
+
+it('groups te-form with auxiliary verb', () => {
+    // 忘れてしまった
+    const tokens = [
+        token('忘れ', '動詞', '忘れる'),
+        token('て', '助詞'),
+        token('しまっ', '動詞', 'しまう'),
+        token('た', '助動詞'),
+    ];
+    expect(groupTokens(tokens, true).map((g) => g.text)).toEqual(['忘れてしまった']);
+});
+
+it('groups verb with passive suffix', () => {
+    // 食べられない
+    const tokens = [token('食べ', '動詞', '食べる'), token('られ', '動詞', 'られる'), token('ない', '助動詞')];
+    expect(groupTokens(tokens, true).map((g) => g.text)).toEqual(['食べられない']);
+});
+
+it('does not group independent verbs or case particles', () => {
+    // 見て帰る / 高いのが
+    const tokens = [
+        token('見', '動詞', '見る'),
+        token('て', '助詞'),
+        token('帰る', '動詞'),
+        token('高い', '形容詞'),
+        token('の', '名詞'),
+        token('が', '助詞'),
+    ];
+    expect(groupTokens(tokens, true).map((g) => g.text)).toEqual(['見て', '帰る', '高い', 'の', 'が']);
+});
+
+it('groups non-independent verbs and adjectives tagged by the analyzer', () => {
+    // 読んでおられる / 来てほしい
+    const tokens = [
+        token('読ん', '動詞', '読む'),
+        token('で', '助詞'),
+        { ...token('おら', '動詞', 'おる'), posDetail1: '非自立' },
+        { ...token('れる', '動詞'), posDetail1: '接尾' },
+        token('来', '動詞', '来る'),
+        token('て', '助詞'),
+        { ...token('ほしい', '形容詞'), posDetail1: '非自立' },
+    ];
+    expect(groupTokens(tokens, true).map((g) => g.text)).toEqual(['読んでおられる', '来てほしい']);
+});
+
+it('finds testable indices', () => {
+    const tokens = [...politePast, token('　', '名詞'), { ...token('ｗｗ', '名詞'), wordType: 'UNKNOWN' as const }];
+    expect(getTestableIndices(tokens)).toEqual([0, 1, 2, 3, 4]);
+});
+
+it('excludes punctuation tagged by either dictionary', () => {
+    const tokens = [token('はい', '感動詞'), token('。', '記号'), token('、', '補助記号')];
+    expect(getTestableIndices(tokens)).toEqual([0]);
+});
+
+it('excludes particles and auxiliaries from content words', () => {
+    expect(politePast.map(isContentToken)).toEqual([true, false, true, false, false, false]);
+});
+
+it('finds groups headed by content words', () => {
+    expect(contentGroups(politePast, true).map((g) => g.lemma)).toEqual(['ご飯', '食べる']);
+    expect(contentGroups(politePast, false).map((g) => g.lemma)).toEqual(['ご飯', '食べる']);
+});
+
+it('falls back to surface form when lemma is unknown', () => {
+    expect(tokenLemma(token('ぴえん', '名詞', '*'))).toEqual('ぴえん');
+    expect(tokenLemma({ text: 'ぴえん', reading: '' })).toEqual('ぴえん');
+});
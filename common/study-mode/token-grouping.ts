@@ -0,0 +1,154 @@
+import { morphologicalFeature, TokenPart } from '@project/common/tokenizer';
+
+const HAS_LETTER_REGEX = /\p{L}/u;
+
+// Particles that join a verb or adjective to what follows it, e.g. 食べ + て, 食べれ + ば
+const conjunctiveParticles = ['て', 'で', 'ちゃ', 'じゃ', 'ば', 'たり', 'だり'];
+
+// Verbs that follow て/で to form compound conjugations, e.g. 食べ + て + いる, 忘れ + て + しまう.
+// Used when the analyzer doesn't tag them as non-independent (非自立)
+const auxiliaryVerbs = [
+    'いる',
+    'ある',
+    'いく',
+    'くる',
+    'しまう',
+    'おく',
+    'みる',
+    'もらう',
+    'くれる',
+    'あげる',
+    'ちゃう',
+];
+
+// Verbs that attach directly to a verb stem, e.g. 食べ + られる, 行か + せる.
+// Used when the analyzer doesn't tag them as suffixes (接尾)
+const verbSuffixes = ['れる', 'られる', 'せる', 'させる'];
+
+const conjugatingPos = ['動詞', '形容詞'];
+
+// Punctuation and symbols are tagged 記号 by IPADIC (Kuromoji) and 補助記号 by UniDic (Sudachi)
+const symbolPos = ['記号', '補助記号'];
+
+// Particles and auxiliaries carry grammar rather than vocabulary
+const functionWordPos = ['助詞', '助動詞'];
+
+/**
+ * A unit of one or more adjacent tokens that is tested as a whole.
+ */
+export interface TokenGroup {
+    /** Indices into the token array, in order */
+    indices: number[];
+    /** Dictionary form of the head token */
+    lemma: string;
+    /** Concatenated surface form of all tokens in the group */
+    text: string;
+    /** Whether the head token can be tested */
+    testable: boolean;
+}
+
+/**
+ * Dictionary form of a token, falling back to the surface form when the analyzer doesn't know it.
+ */
+export const tokenLemma = (token: TokenPart) => {
+    return morphologicalFeature(token.basicForm) ?? token.text;
+};
+
+export const isTestableToken = (token: TokenPart) => {
+    return (
+        (token.pos === undefined || !symbolPos.includes(token.pos)) &&
+        token.text.trim() !== '' &&
+        token.wordType !== 'UNKNOWN' &&
+        HAS_LETTER_REGEX.test(token.text)
+    );
+};
+
+/**
+ * Whether a token is a word worth learning on its own, as opposed to punctuation, particles and auxiliaries.
+ */
+export const isContentToken = (token: TokenPart) => {
+    return isTestableToken(token) && (token.pos === undefined || !functionWordPos.includes(token.pos));
+};
+
+/**
+ * Indices of tokens that can be blanked: words, excluding punctuation, whitespace and words the analyzer doesn't know.
+ */
+export const getTestableIndices = (tokens: TokenPart[]): number[] => {
+    const indices: number[] = [];
+
+    for (let i = 0; i < tokens.length; ++i) {
+        if (isTestableToken(tokens[i])) {
+            indices.push(i);
+        }
+    }
+
+    return indices;
+};
+
+const continuesConjugation = (token: TokenPart, previous: TokenPart) => {
+    if (token.pos === '助動詞') {
+        return true;
+    }
+
+    if (token.pos === '助詞') {
+        return conjunctiveParticles.includes(token.text);
+    }
+
+    const followsTe = previous.pos === '助詞' && ['て', 'で'].includes(previous.text);
+
+    if (token.pos === '動詞') {
+        const lemma = tokenLemma(token);
+
+        if (token.posDetail1 === '接尾' || verbSuffixes.includes(lemma)) {
+            return true;
+        }
+
+        return followsTe && (token.posDetail1 === '非自立' || auxiliaryVerbs.includes(lemma));
+    }
+
+    if (token.pos === '形容詞') {
+        // e.g. 食べ + て + ほしい
+        return followsTe && token.posDetail1 === '非自立';
+    }
+
+    return false;
+};
+
+/**
+ * Group tokens into testable units. When conjugations are included, a verb or adjective is grouped with the
+ * auxiliaries and conjunctive particles that inflect it, so that 食べ + まし + た is tested as one unit.
+ * Otherwise every token is its own group.
+ */
+export const groupTokens = (tokens: TokenPart[], includeConjugations: boolean): TokenGroup[] => {
+    const groups: TokenGroup[] = [];
+    let i = 0;
+
+    while (i < tokens.length) {
+        const head = tokens[i];
+        const indices = [i];
+        ++i;
+
+        if (includeConjugations && head.pos !== undefined && conjugatingPos.includes(head.pos)) {
+            while (i < tokens.length && continuesConjugation(tokens[i], tokens[i - 1])) {
+                indices.push(i);
+                ++i;
+            }
+        }
+
+        groups.push({
+            indices,
+            lemma: tokenLemma(head),
+            text: indices.map((index) => tokens[index].text).join(''),
+            testable: isTestableToken(head),
+        });
+    }
+
+    return groups;
+};
+
+/**
+ * Groups whose head is a content word, i.e. the words of a line that are scheduled for review.
+ */
+export const contentGroups = (tokens: TokenPart[], includeConjugations: boolean): TokenGroup[] => {
+    return groupTokens(tokens, includeConjugations).filter((g) => isContentToken(tokens[g.indices[0]]));
+};
@@ -0,0 +1,161 @@
+import { TokenPart } from '@project/common/tokenizer';
+import { RecognitionRepository } from './recognition-repository';
+import { TokenSelector } from './token-selector';
+import { AnkiCardStatus, RecognitionStats, WordSchedule } from './types';
+
+const token = (text: string, pos: string, basicForm = text): TokenPart => ({
+    text,
+    reading: text,
+    pos,
+    basicForm,
+    wordType: 'KNOWN',
+});
+
+// 昨日、ご飯を食べました。
+const tokens = [
+    token('昨日', '名詞'),
+    token('、', '記号'),
+    token('ご飯', '名詞'),
+    token('を', '助詞'),
+    token('食べ', '動詞', '食べる'),
+    token('まし', '助動詞', 'ます'),
+    token('た', '助動詞'),
+    token('。', '記号'),
+];
+
+const sequence = (...values: number[]) => {
+    let i = 0;
+    return () => values[i++ % values.length];
+};
+
+const mockRecognitionRepository = (stats: { [lemma: string]: RecognitionStats }): RecognitionRepository => ({
+    recordAttempt: async () => {
+        throw new Error('unsupported');
+    },
+    recordAttemptsBatch: async () => [],
+    getStats: async (lemma) => stats[lemma],
+    fetchAll: async () => Object.values(stats),
+    clear: async () => {},
+});
+
+it('returns no blanks when nothing is testable', async () => {
+    const selector = new TokenSelector();
+    const blanks = await selector.selectTokensToBlank([token('。', '記号')], {
+        strategy: 'random',
+        includeConjugations: true,
+        maxBlanks: 3,
+    });
+    expect(blanks).toEqual([]);
+});
+
+it('blanks a random run of consecutive testable words', async () => {
+    // Start at the third testable group (を) and aim for 3 blanks
+    const selector = new TokenSelector(sequence(0.4, 0.99));
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'random',
+        includeConjugations: false,
+        maxBlanks: 3,
+    });
+    expect(blanks).toEqual([3, 4, 5]);
+});
+
+it('does not extend random run across punctuation', async () => {
+    // Start at 昨日 and aim for 3 blanks
+    const selector = new TokenSelector(sequence(0, 0.99));
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'random',
+        includeConjugations: false,
+        maxBlanks: 3,
+    });
+    expect(blanks).toEqual([0]);
+});
+
+it('starts random run at a due word', async () => {
+    // Aim for 1 blank, starting wherever the random number would otherwise put it
+    const selector = new TokenSelector(sequence(0, 0));
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'random',
+        includeConjugations: true,
+        maxBlanks: 3,
+        dueLemmas: ['食べる'],
+    });
+    expect(blanks).toEqual([4, 5, 6]);
+});
+
+it('blanks conjugations together with their verb', async () => {
+    // Start at the last testable group (食べました) and aim for 1 blank
+    const selector = new TokenSelector(sequence(0.99, 0));
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'random',
+        includeConjugations: true,
+        maxBlanks: 1,
+    });
+    expect(blanks).toEqual([4, 5, 6]);
+});
+
+it('blanks highest priority words first', async () => {
+    const statuses: { [lemma: string]: AnkiCardStatus } = { 食べる: 'mature', ご飯: 'new', 昨日: 'learning' };
+    const selector = new TokenSelector();
+    selector.setKnowledgeGetter(async (lemma) => ({ lemma, ankiStatus: statuses[lemma] ?? 'uncollected' }));
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'prioritize_unknown',
+        includeConjugations: true,
+        maxBlanks: 2,
+    });
+    expect(blanks).toEqual([0, 2]);
+});
+
+it('uses recognition results when prioritizing', async () => {
+    const selector = new TokenSelector();
+    selector.setFocusMode('recognition');
+    selector.setRecognitionRepository(
+        mockRecognitionRepository({
+            食べる: { lemma: '食べる', reading: 'たべ', successCount: 0, failureCount: 4, streak: 0, lastAttempt: 0 },
+        })
+    );
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'prioritize_unknown',
+        includeConjugations: true,
+        maxBlanks: 3,
+    });
+    expect(blanks).toEqual([4, 5, 6]);
+});
+
+it('blanks due words first', async () => {
+    const now = Date.now();
+    const schedule = (lemma: string, due: number): WordSchedule => ({
+        lemma,
+        reading: lemma,
+        stability: 1,
+        difficulty: 5,
+        due,
+        lastReview: now - 86400000,
+        reps: 1,
+        lapses: 0,
+    });
+    const schedules: { [lemma: string]: WordSchedule } = {
+        昨日: schedule('昨日', now + 86400000),
+        ご飯: schedule('ご飯', now - 1000),
+    };
+    const selector = new TokenSelector();
+    selector.setFocusMode('recognition');
+    selector.setScheduleRepository({ getSchedule: async (lemma) => schedules[lemma] });
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'prioritize_unknown',
+        includeConjugations: true,
+        maxBlanks: 1,
+    });
+    expect(blanks).toEqual([2]);
+});
+
+it('blanks frequent words before rare ones', async () => {
+    const ranks: { [lemma: string]: number } = { ご飯: 500, 昨日: 50000 };
+    const selector = new TokenSelector();
+    selector.setFrequencyProvider({ ranks: async (lemmas) => lemmas.map((lemma) => ranks[lemma] ?? null) });
+    const blanks = await selector.selectTokensToBlank(tokens, {
+        strategy: 'prioritize_unknown',
+        includeConjugations: true,
+        maxBlanks: 1,
+    });
+    expect(blanks).toEqual([2]);
+});
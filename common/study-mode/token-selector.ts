@@ -0,0 +1,170 @@
+import { FrequencyProvider, frequencyRank } from '@project/common/frequency';
+import { TokenPart } from '@project/common/tokenizer';
+import { PriorityCalculator } from './priority-calculator';
+import { RecognitionRepository } from './recognition-repository';
+import { ScheduleRepository } from './schedule-repository';
+import { groupTokens, TokenGroup } from './token-grouping';
+import { AnkiCardStatus, FocusMode, KnowledgeGetter, TokenBlankingStrategy } from './types';
+
+export interface TokenSelectionOptions {
+    strategy: TokenBlankingStrategy;
+    /** Whether conjugations are blanked together with the word they inflect */
+    includeConjugations: boolean;
+    /** Maximum number of tokens to blank. A single group larger than this is still blanked as a whole. */
+    maxBlanks: number;
+    /** Lemmas due for review. A random run starts at one of them when the line contains it. */
+    dueLemmas?: string[];
+}
+
+/**
+ * Chooses which tokens of a line to blank in a study test.
+ */
+export class TokenSelector {
+    private readonly _random: () => number;
+    private readonly _priorityCalculator = new PriorityCalculator();
+    private _knowledgeGetter?: KnowledgeGetter;
+    private _recognitionRepository?: Pick<RecognitionRepository, 'getStats'>;
+    private _scheduleRepository?: Pick<ScheduleRepository, 'getSchedule'>;
+    private _frequencyProvider?: FrequencyProvider;
+
+    constructor(random: () => number = Math.random) {
+        this._random = random;
+    }
+
+    setKnowledgeGetter(knowledgeGetter: KnowledgeGetter | undefined) {
+        this._knowledgeGetter = knowledgeGetter;
+    }
+
+    setRecognitionRepository(recognitionRepository: Pick<RecognitionRepository, 'getStats'> | undefined) {
+        this._recognitionRepository = recognitionRepository;
+    }
+
+    setScheduleRepository(scheduleRepository: Pick<ScheduleRepository, 'getSchedule'> | undefined) {
+        this._scheduleRepository = scheduleRepository;
+    }
+
+    setFrequencyProvider(frequencyProvider: FrequencyProvider | undefined) {
+        this._frequencyProvider = frequencyProvider;
+    }
+
+    setFocusMode(focusMode: FocusMode) {
+        this._priorityCalculator.setFocusMode(focusMode);
+    }
+
+    /**
+     * @returns Sorted indices of the tokens to blank, or an empty array if nothing in the line can be tested
+     */
+    async selectTokensToBlank(tokens: TokenPart[], options: TokenSelectionOptions): Promise<number[]> {
+        const groups = groupTokens(tokens, options.includeConjugations);
+
+        if (!groups.some((g) => g.testable)) {
+            return [];
+        }
+
+        const maxBlanks = Math.max(1, options.maxBlanks);
+        let selected: TokenGroup[];
+
+        if (
+            options.strategy === 'prioritize_unknown' &&
+            (this._knowledgeGetter !== undefined ||
+                this._recognitionRepository !== undefined ||
+                this._scheduleRepository !== undefined ||
+                this._frequencyProvider !== undefined)
+        ) {
+            selected = await this._selectByPriority(groups, maxBlanks);
+        } else {
+            selected = this._selectRandomRun(groups, maxBlanks, options.dueLemmas ?? []);
+        }
+
+        return selected.flatMap((g) => g.indices).sort((a, b) => a - b);
+    }
+
+    private _selectRandomRun(groups: TokenGroup[], maxBlanks: number, dueLemmas: string[]) {
+        const testableGroupIndices = groups.map((g, i) => (g.testable ? i : -1)).filter((i) => i !== -1);
+        const dueGroupIndices = testableGroupIndices.filter((i) => dueLemmas.includes(groups[i].lemma));
+        const startCandidates = dueGroupIndices.length > 0 ? dueGroupIndices : testableGroupIndices;
+        const start = startCandidates[Math.floor(this._random() * startCandidates.length)];
+        const targetBlanks = 1 + Math.floor(this._random() * maxBlanks);
+        const selected = [groups[start]];
+        let blankCount = groups[start].indices.length;
+
+        for (let i = start + 1; i < groups.length; ++i) {
+            const group = groups[i];
+
+            if (!group.testable || blankCount + group.indices.length > targetBlanks) {
+                break;
+            }
+
+            selected.push(group);
+            blankCount += group.indices.length;
+        }
+
+        return selected;
+    }
+
+    private async _selectByPriority(groups: TokenGroup[], maxBlanks: number) {
+        const scored: { group: TokenGroup; priority: number }[] = [];
+
+        for (const group of groups) {
+            if (!group.testable) {
+                continue;
+            }
+
+            scored.push({ group, priority: await this._priority(group.lemma) });
+        }
+
+        // Stable sort keeps earlier groups first when priorities tie
+        scored.sort((a, b) => b.priority - a.priority);
+        const selected: TokenGroup[] = [];
+        let blankCount = 0;
+
+        for (const { group } of scored) {
+            if (selected.length > 0 && blankCount + group.indices.length > maxBlanks) {
+                continue;
+            }
+
+            selected.push(group);
+            blankCount += group.indices.length;
+
+            if (blankCount >= maxBlanks) {
+                break;
+            }
+        }
+
+        return selected;
+    }
+
+    private async _priority(lemma: string) {
+        let ankiStatus: AnkiCardStatus = 'uncollected';
+
+        if (this._knowledgeGetter) {
+            ankiStatus = (await this._knowledgeGetter(lemma)).ankiStatus;
+        }
+
+        let recognitionStats;
+        let schedule;
+        let rank;
+
+        try {
+            recognitionStats = await this._recognitionRepository?.getStats(lemma);
+            schedule = await this._scheduleRepository?.getSchedule(lemma);
+        } catch (e) {
+            console.warn(`Failed to get study stats for ${lemma}:`, e);
+        }
+
+        try {
+            rank = this._frequencyProvider && (await frequencyRank(this._frequencyProvider, [lemma]));
+        } catch (e) {
+            console.warn(`Failed to get frequency rank for ${lemma}:`, e);
+        }
+
+        return this._priorityCalculator.calculatePriority(
+            lemma,
+            ankiStatus,
+            recognitionStats,
+            schedule,
+            undefined,
+            rank
+        ).finalPriority;
+    }
+}
@@ -0,0 +1,196 @@
+import { AudioModel } from '@project/common';
+
+/**
+ * How often study cards are triggered when lines are scored by priority.
+ */
+export type StudyIntensity = 'low' | 'medium' | 'high';
+
+/**
+ * Which signal should dominate word priority.
+ * - balanced: Anki status and study mode recognition results are weighted equally
+ * - anki: favour words that are new or still being learned in Anki
+ * - recognition: favour words that have been missed in previous study tests
+ */
+export type FocusMode = 'balanced' | 'anki' | 'recognition';
+
+/**
+ * How lines are chosen for testing.
+ * - random: test every Nth line (see studyModeFrequency)
+ * - prioritize_unknown: test lines whose words score above the intensity threshold
+ */
+export type LineSelectionStrategy = 'random' | 'prioritize_unknown';
+
+/**
+ * How tokens are chosen for blanking within a tested line.
+ * - random: blank a random run of consecutive words
+ * - prioritize_unknown: blank the words with the highest priority
+ */
+export type TokenBlankingStrategy = 'random' | 'prioritize_unknown';
+
+/**
+ * Format of study tests.
+ * - cloze: type the blanked words
+ * - multiple_choice: pick each blanked word among words of the same part of speech from the same subtitles
+ * - dictation: type the whole line, which is compared with the subtitle word by word
+ * - reading: type the reading of words written in kanji
+ */
+export type StudyTestType = 'cloze' | 'multiple_choice' | 'dictation' | 'reading';
+
+/**
+ * Learning status of a word, derived from the Anki cards that contain it.
+ * Ordered from least to most known.
+ */
+export type AnkiCardStatus = 'uncollected' | 'new' | 'learning' | 'young' | 'mature';
+
+export const ankiCardStatuses: AnkiCardStatus[] = ['uncollected', 'new', 'learning', 'young', 'mature'];
+
+/**
+ * An Anki deck that study mode consults to determine how well a word is known.
+ */
+export interface StudyDeckConfig {
+    /** Name of the deck as returned by AnkiConnect's deckNames */
+    readonly name: string;
+    /** Note field containing the target word (e.g. 'Word' or 'Expression') */
+    readonly wordField: string;
+    /** Whether the deck should be consulted */
+    readonly enabled: boolean;
+}
+
+/**
+ * Result of a single blank in a study test. Close answers are near misses that still count as correct.
+ */
+export type StudyResult = 'correct' | 'close' | 'incorrect';
+
+/**
+ * Record of a single tested word.
+ */
+export interface StudyRecord {
+    /** Auto-incremented primary key */
+    id?: number;
+    /** Dictionary form of the tested word (e.g. '食べる' for '食べました') */
+    lemma: string;
+    /** Reading of the tested surface form, in hiragana */
+    reading: string;
+    /** Surface form of the word as it appeared in the subtitle */
+    surfaceForm: string;
+    result: StudyResult;
+    /** Unix timestamp (ms) of the test */
+    timestamp: number;
+    /** Full text of the subtitle the word was tested in */
+    sentenceContext: string;
+    /** Lines of the other subtitle tracks paired with the tested subtitle, if any */
+    translation?: string;
+    /** Source of the media the subtitle was shown over */
+    mediaSource: string;
+    /** ID of the audio clip of the tested line, if one was captured */
+    clipId?: number;
+    /** Format of the test the word was tested in, cloze if undefined */
+    testType?: StudyTestType;
+    /**
+     * Whether the test scheduled a review of the word. Particles and auxiliaries blanked along with words, and words
+     * tested by dictation before they were scheduled, are not. Undefined for records saved before this was tracked.
+     */
+    scheduled?: boolean;
+}
+
+/**
+ * Audio of a line tested in study mode, shared by the records of every word blanked in it.
+ */
+export interface StudyClip {
+    id?: number;
+    /** Unix timestamp (ms) of the test */
+    timestamp: number;
+    mediaSource: string;
+    /** Media timestamp (ms) at which the tested line starts */
+    start: number;
+    /** Media timestamp (ms) at which the tested line ends */
+    end: number;
+    audio: AudioModel;
+}
+
+/**
+ * Aggregated study results for a lemma.
+ */
+export interface StudyStats {
+    lemma: string;
+    correctCount: number;
+    incorrectCount: number;
+    /** Unix timestamp (ms) of the most recent test, if any */
+    lastStudied?: number;
+    lastResult?: StudyResult;
+}
+
+/**
+ * Running recognition tally for a lemma, updated after every study test.
+ */
+export interface RecognitionStats {
+    lemma: string;
+    /** Most recently tested reading, in hiragana */
+    reading: string;
+    successCount: number;
+    failureCount: number;
+    /** Number of consecutive successes since the last failure */
+    streak: number;
+    /** Unix timestamp (ms) of the most recent attempt */
+    lastAttempt: number;
+}
+
+export interface RecognitionAttempt {
+    lemma: string;
+    reading: string;
+    success: boolean;
+}
+
+/**
+ * How well a word was recalled in a review, following the FSRS grades.
+ */
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ScheduledReview {
+    lemma: string;
+    reading: string;
+    rating: ReviewRating;
+}
+
+/**
+ * Spaced repetition state of a lemma, scheduled by FSRS.
+ */
+export interface WordSchedule {
+    lemma: string;
+    /** Most recently reviewed reading, in hiragana */
+    reading: string;
+    /** Number of days after which the probability of recalling the word drops to 90% */
+    stability: number;
+    /** Between 1 (easiest) and 10 (hardest) */
+    difficulty: number;
+    /** Unix timestamp (ms) at which the word is next due */
+    due: number;
+    /** Unix timestamp (ms) of the most recent review */
+    lastReview: number;
+    reps: number;
+    /** Number of times the word was forgotten after having been recalled at least once */
+    lapses: number;
+}
+
+/**
+ * Everything study mode knows about a word.
+ */
+export interface WordKnowledge {
+    lemma: string;
+    ankiStatus: AnkiCardStatus;
+    studyStats?: StudyStats;
+}
+
+export type KnowledgeGetter = (lemma: string) => Promise<WordKnowledge>;
+
+/**
+ * In-memory state tracked while study mode runs over a single video.
+ */
+export interface VideoSession {
+    videoSrc: string;
+    /** Subtitle indices that have already been tested in this session */
+    studiedLineIndices: Set<number>;
+    cardsShownCount: number;
+    /** Unix timestamp (ms) of the last study card, or 0 if none has been shown */
+    lastCardTime: number;
+}
@@ -1 +1,2 @@
 export * from './subtitle-collection';
+export * from './subtitle-pairing';
@@ -0,0 +1,49 @@
+import { pairSubtitleTracks, subtitleTranslations, translationForTimestampInterval } from './subtitle-pairing';
+
+const subtitle = (text: string, start: number, end: number, track: number) => ({
+    text,
+    start,
+    end,
+    originalStart: start,
+    originalEnd: end,
+    track,
+});
+
+const target = [
+    subtitle('こんにちは', 0, 2000, 0),
+    subtitle('元気ですか', 2000, 4000, 0),
+    subtitle('はい', 6000, 7000, 0),
+];
+const translations = [
+    subtitle('Hello, how are you?', 100, 3900, 1),
+    subtitle('Fine', 2500, 3000, 2),
+    subtitle('Yes', 6100, 6500, 1),
+    subtitle('Yeah', 6500, 7200, 1),
+    subtitle('Unrelated', 4500, 5500, 1),
+];
+const subtitles = [...target, ...translations];
+
+it('pairs each translation with the line it overlaps the most', () => {
+    const pairs = pairSubtitleTracks(subtitles, 0);
+    expect(pairs.get(target[0])!.map((s) => s.text)).toEqual(['Hello, how are you?']);
+    expect(pairs.get(target[1])!.map((s) => s.text)).toEqual(['Fine']);
+    expect(pairs.get(target[2])!.map((s) => s.text)).toEqual(['Yes', 'Yeah']);
+});
+
+it('leaves lines without overlapping translations out', () => {
+    const translationsByLine = subtitleTranslations(subtitles, 0);
+    expect(translationsByLine.get(target[2])).toEqual('Yes\nYeah');
+    expect([...translationsByLine.keys()]).toEqual(target);
+    expect(subtitleTranslations(target, 0).size).toEqual(0);
+});
+
+it('pairs lines of any track', () => {
+    const pairs = pairSubtitleTracks(subtitles, 1);
+    expect(pairs.get(translations[0])!.map((s) => s.text)).toEqual(['こんにちは', '元気ですか', 'Fine']);
+    expect(pairs.get(translations[4])).toEqual([]);
+});
+
+it('finds the translation of the lines within an interval', () => {
+    expect(translationForTimestampInterval(subtitles, [2000, 7000], 0)).toEqual('Yes\nYeah\nFine');
+    expect(translationForTimestampInterval(subtitles, [4000, 6000], 0)).toEqual('');
+});
@@ -0,0 +1,80 @@
+import IntervalTree from '@flatten-js/interval-tree';
+import { SubtitleModel } from '../src/model';
+import { joinSubtitles, subtitleIntersectsTimeInterval } from '../util/util';
+
+const overlap = (a: SubtitleModel, b: SubtitleModel) => Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+const byTrackAndTime = (a: SubtitleModel, b: SubtitleModel) => a.track - b.track || a.start - b.start;
+
+/**
+ * Pair each line of a track, e.g. the target-language track, with the overlapping lines of the other tracks, e.g.
+ * translations. Since tracks are rarely split into lines the same way, each line of the other tracks is paired with
+ * the line it overlaps the most, so that no translation is repeated across lines or lost.
+ * @returns Paired lines of the other tracks, in order of track and time, keyed by the lines of the track
+ */
+export const pairSubtitleTracks = <T extends SubtitleModel>(subtitles: T[], track: number): Map<T, T[]> => {
+    const tree = new IntervalTree<T>();
+    const pairs = new Map<T, T[]>();
+
+    for (const s of subtitles) {
+        if (s.track === track && s.start < s.end) {
+            tree.insert([s.start, s.end - 1], s);
+            pairs.set(s, []);
+        }
+    }
+
+    for (const s of subtitles) {
+        if (s.track === track || s.start >= s.end || s.text.trim() === '') {
+            continue;
+        }
+
+        let best: T | undefined;
+
+        for (const candidate of tree.search([s.start, s.end - 1]) as T[]) {
+            if (
+                best === undefined ||
+                overlap(candidate, s) > overlap(best, s) ||
+                (overlap(candidate, s) === overlap(best, s) && candidate.start < best.start)
+            ) {
+                best = candidate;
+            }
+        }
+
+        if (best !== undefined) {
+            pairs.get(best)!.push(s);
+        }
+    }
+
+    for (const paired of pairs.values()) {
+        paired.sort(byTrackAndTime);
+    }
+
+    return pairs;
+};
+
+/**
+ * Text of the lines paired with each line of a track.
+ */
+export const subtitleTranslations = <T extends SubtitleModel>(subtitles: T[], track: number): Map<T, string> => {
+    const translations = new Map<T, string>();
+
+    for (const [subtitle, paired] of pairSubtitleTracks(subtitles, track)) {
+        if (paired.length > 0) {
+            translations.set(subtitle, joinSubtitles(paired));
+        }
+    }
+
+    return translations;
+};
+
+/**
+ * Text of the lines paired with the lines of a track within a time interval, e.g. the translation of the lines of a card.
+ * @param subtitles Subtitles around the interval on every track
+ */
+export const translationForTimestampInterval = (subtitles: SubtitleModel[], interval: number[], track: number) => {
+    const paired = [...pairSubtitleTracks(subtitles, track)]
+        .filter(([subtitle]) => subtitleIntersectsTimeInterval(subtitle, interval))
+        .flatMap(([, paired]) => paired)
+        .sort(byTrackAndTime);
+    return joinSubtitles(paired);
+};
@@ -1,5 +1,8 @@
 import { Fetcher, RichSubtitleModel } from '@project/common';
 import { Anki } from '@project/common/anki';
+import { ComprehensionReport, comprehensionReport } from '@project/common/comprehension';
+import { FrequencyProvider, frequencyRank } from '@project/common/frequency';
+import { KnownWord, KnownWordsRepository, KnownWordStatus, mergedTokenStatus } from '@project/common/known-words';
 import {
     AsbplayerSettings,
     DictionaryTrack,
@@ -13,8 +16,10 @@ import {
     TokenStyling,
 } from '@project/common/settings';
 import { SubtitleCollection, SubtitleCollectionOptions } from '@project/common/subtitle-collection';
-import { arrayEquals, filterAsync, inBatches } from '@project/common/util';
-import { TokenPart, Yomitan } from '@project/common/yomitan/yomitan';
+import { arrayEquals, filterAsync, inBatches, isKanaOnly } from '@project/common/util';
+import { LocalTokenizerType, Tokenizer, TokenPart } from '@project/common/tokenizer';
+import { groupTokens, isContentToken } from '@project/common/study-mode';
+import { Yomitan } from '@project/common/yomitan/yomitan';
 
 const TOKEN_CACHE_BUILD_AHEAD = 50;
 const TOKEN_CACHE_BATCH_SIZE = 1; // Processing more than 1 at a time is slower
@@ -23,13 +28,29 @@ const ANKI_RECENTLY_MODIFIED_INTERVAL = 10000;
 const MAX_CARD_INFOS = 10;
 const HAS_LETTER_REGEX = /\p{L}/u;
 
+// Particles, auxiliaries and punctuation found by morphological analyzers are grammar rather than words to color.
+// Yomitan only finds words, without their part of speech.
+const isWord = (tokenParts: TokenPart[]) => tokenParts[0]?.pos === undefined || isContentToken(tokenParts[0]);
+const COMPREHENSION_REPORT_BUILD_ATTEMPTS = 100;
+
+const attributeValue = (text: string) => text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+interface ColoredToken {
+    token: string;
+    status: TokenStatus;
+}
+
 interface TrackState {
     track: number;
     dt: DictionaryTrack;
-    yt: Yomitan | undefined;
+    yt: Yomitan | undefined; // Only set for tracks tokenized by Yomitan
+    tokenizer: Tokenizer | undefined;
+    lemmaCache: Map<string, string[]>;
     tokenStatusCache: Map<string, TokenStatus | null>;
     ankiCardIdStatuses: Map<number, TokenStatus>;
     ankiSuspendedCardIds: Set<number>;
+    knownWordStatusCache: Map<string, KnownWordStatus | null>;
+    frequencyRankCache: Map<string, number | null | undefined>;
 }
 
 export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
@@ -42,8 +63,14 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
 
     private anki: Anki | undefined;
     private readonly fetcher?: Fetcher;
+    private readonly knownWords?: Pick<KnownWordsRepository, 'mark' | 'find'>;
+    private readonly createTokenizer?: (type: LocalTokenizerType) => Promise<Tokenizer>;
+    private readonly localTokenizers: Map<LocalTokenizerType, Tokenizer>;
+    private readonly frequencies?: FrequencyProvider;
+    private ankiLastFailure: number;
     private trackStates: TrackState[];
     private erroredCache: Set<number>;
+    private coloredTokens: Map<number, ColoredToken[]>; // Words of each colored subtitle, for comprehension reports
     private uncollectedCache: Set<number>;
     private uncollectedNeedsRefresh: boolean;
     private ankiRecentlyModifiedCardIds: Set<number>;
@@ -63,17 +90,26 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
         options: SubtitleCollectionOptions,
         subtitleColorsUpdated: (updatedSubtitles: RichSubtitleModel[]) => void,
         getMediaTimeMs?: () => number,
-        fetcher?: Fetcher
+        fetcher?: Fetcher,
+        knownWords?: Pick<KnownWordsRepository, 'mark' | 'find'>,
+        createTokenizer?: (type: LocalTokenizerType) => Promise<Tokenizer>,
+        frequencies?: FrequencyProvider
     ) {
         super({ ...options, returnNextToShow: true });
         this._subtitles = [];
         this.initialSettings = initialSettings;
         this.fetcher = fetcher;
+        this.knownWords = knownWords;
+        this.createTokenizer = createTokenizer;
+        this.localTokenizers = new Map();
+        this.frequencies = frequencies;
+        this.ankiLastFailure = 0;
         this.trackStates = [];
         this.subtitleColorsUpdated = subtitleColorsUpdated;
         this.getMediaTimeMs = getMediaTimeMs;
         this.showingNeedsRefreshCount = 0;
         this.erroredCache = new Set();
+        this.coloredTokens = new Map();
         this.uncollectedCache = new Set();
         this.uncollectedNeedsRefresh = false;
         this.ankiRecentlyModifiedCardIds = new Set();
@@ -107,8 +143,10 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
         if (this.colorCacheBuilding) this.shouldCancelBuild = true;
         if (settings) this.settings = settings;
         this.anki = undefined;
+        this.ankiLastFailure = 0;
         this.trackStates = [];
         this.erroredCache.clear();
+        this.coloredTokens.clear();
         this.uncollectedCache.clear();
         this.ankiRecentlyModifiedCardIds.clear();
         this.ankiRecentlyModifiedFirstCheck = true;
@@ -123,6 +161,63 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
         this.uncollectedNeedsRefresh = true;
     }
 
+    knownWordsWereUpdated() {
+        if (this.colorCacheBuilding) this.shouldCancelBuild = true;
+        this.trackStates.forEach((ts) => ts.knownWordStatusCache.clear());
+        this.coloredTokens.clear();
+        this._subtitles.forEach((s) => (s.richText = undefined));
+        this.showingNeedsRefreshCount++;
+    }
+
+    /**
+     * Mark a word in the known words by its dictionary form, or as it is written if the tokenizer can't find one.
+     * @param track Track of the subtitle the word was found in, whose tokenizer finds the dictionary form
+     * @returns The marked word, undefined if there are no known words to mark it in
+     */
+    async markWord(track: number, word: string, status: KnownWordStatus): Promise<KnownWord | undefined> {
+        if (!this.knownWords) return undefined;
+        const ts = this.trackStates[track];
+        const lemmas = ts?.yt || ts?.tokenizer ? await this._lemmatize(ts, word) : [];
+        const lemma = lemmas[0] ?? word;
+        const reading = lemmas.slice(1).find((l) => l !== lemma && isKanaOnly(l)) ?? '';
+        const knownWord = await this.knownWords.mark(lemma, reading, status);
+        this.knownWordsWereUpdated();
+        return knownWord;
+    }
+
+    /**
+     * Color every subtitle, not only the ones around the current time, and summarize how well their words are known.
+     */
+    async comprehensionReport(): Promise<ComprehensionReport> {
+        for (let attempt = 0; attempt < COMPREHENSION_REPORT_BUILD_ATTEMPTS; ++attempt) {
+            // Builds are cancelled when the showing subtitles need coloring first, but keep what they have colored
+            if (await this._buildColorCache(this._subtitles)) break;
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+
+        const subtitles = [];
+        for (const { index, start, end, track } of this._subtitles) {
+            const coloredTokens = this.coloredTokens.get(index);
+            const ts = this.trackStates[track];
+            if (!coloredTokens || !ts) continue;
+            const tokens = [];
+            for (const { token, status } of coloredTokens) {
+                // Only the unknown words are ranked, so the others are left as they are written
+                let lemma = token;
+                if (status <= TokenStatus.UNKNOWN) {
+                    try {
+                        lemma = (await this._lemmatize(ts, token))[0] ?? token;
+                    } catch (e) {
+                        console.warn(`Failed to lemmatize "${token}" for Track${track + 1}:`, e);
+                    }
+                }
+                tokens.push({ lemma, status });
+            }
+            subtitles.push({ start, end, tokens });
+        }
+        return comprehensionReport(subtitles);
+    }
+
     hoverOnly(track: number) {
         return dictionaryTrackHoverOnly(this.trackStates[track].dt);
     }
@@ -281,9 +376,13 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
                 track,
                 dt,
                 yt: undefined,
+                tokenizer: undefined,
+                lemmaCache: new Map(),
                 tokenStatusCache: new Map(),
                 ankiCardIdStatuses: new Map(),
                 ankiSuspendedCardIds: new Set(),
+                knownWordStatusCache: new Map(),
+                frequencyRankCache: new Map(),
             }));
         }
         if (this.trackStates.every((t) => !dictionaryTrackEnabled(t.dt))) return true;
@@ -295,7 +394,12 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
             this.colorCacheBuilding = true;
             this.tokenRequestFailed = false;
             for (const ts of this.trackStates) {
-                if (!dictionaryTrackEnabled(ts.dt) || ts.yt) continue;
+                if (!dictionaryTrackEnabled(ts.dt) || ts.yt || ts.tokenizer) continue;
+                const type = ts.dt.dictionaryTokenizer;
+                if (type !== 'yomitan') {
+                    ts.tokenizer = await this._localTokenizer(type);
+                    continue;
+                }
                 try {
                     const yt = new Yomitan(ts.dt, this.fetcher);
                     await yt.version();
@@ -304,7 +408,12 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
                     console.warn(`YomitanTrack${ts.track + 1} version request failed:`, e);
                 }
             }
-            if (!this.anki && this.trackStates.some((t) => dictionaryTrackEnabled(t.dt))) {
+            // Subtitles are colored by the known words alone while Anki is closed, so it isn't asked again on every build
+            if (
+                !this.anki &&
+                this.trackStates.some((t) => dictionaryTrackEnabled(t.dt)) &&
+                Date.now() - this.ankiLastFailure >= TOKEN_CACHE_ERROR_REFRESH_INTERVAL
+            ) {
                 try {
                     this.anki = new Anki(this.settings!, this.fetcher);
                     const permission = (await this.anki.requestPermission()).permission;
@@ -313,6 +422,7 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
                 } catch (e) {
                     console.warn('Anki permission request failed:', e);
                     this.anki = undefined;
+                    this.ankiLastFailure = Date.now();
                 }
             }
 
@@ -387,19 +497,68 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
         return !buildWasCancelled;
     }
 
+    // Local tokenizers load a large dictionary, so they are kept across cache resets and shared between tracks
+    private async _localTokenizer(type: LocalTokenizerType): Promise<Tokenizer | undefined> {
+        const existing = this.localTokenizers.get(type);
+        if (existing) return existing;
+        if (!this.createTokenizer) {
+            console.warn(`Tokenizer ${type} is not available here`);
+            return undefined;
+        }
+        try {
+            const tokenizer = await this.createTokenizer(type);
+            this.localTokenizers.set(type, tokenizer);
+            return tokenizer;
+        } catch (e) {
+            console.warn(`Failed to initialize ${type} tokenizer:`, e);
+            return undefined;
+        }
+    }
+
+    private async _tokenize(ts: TrackState, text: string): Promise<TokenPart[][]> {
+        if (ts.yt) return await ts.yt.tokenize(text);
+        if (!ts.tokenizer) throw new Error(`Tokenizer not initialized for Track${ts.track + 1}`);
+        const morphemes = (await ts.tokenizer.tokenize(text)).flat();
+
+        // Morphological analyzers split conjugations into several morphemes, e.g. 食べ + まし + た, which are colored
+        // as one word. The dictionary form of each word is found in the context of the line it is in.
+        const words: TokenPart[][] = [];
+        for (const group of groupTokens(morphemes, true)) {
+            const parts = group.indices.map((i) => morphemes[i]);
+            const token = group.text.trim();
+            if (isWord(parts) && !ts.lemmaCache.has(token)) ts.lemmaCache.set(token, [group.lemma]);
+            words.push(parts);
+        }
+        return words;
+    }
+
+    private async _lemmatize(ts: TrackState, token: string): Promise<string[]> {
+        if (ts.yt) return await ts.yt.lemmatize(token);
+        const cachedLemmas = ts.lemmaCache.get(token);
+        if (cachedLemmas) return cachedLemmas;
+
+        // Words that weren't seen in a line are analyzed on their own
+        await this._tokenize(ts, token);
+        const lemmas = ts.lemmaCache.get(token) ?? [];
+        ts.lemmaCache.set(token, lemmas);
+        return lemmas;
+    }
+
     private async _colorizeText(options: { text: string; index: number; ts: TrackState }): Promise<string | undefined> {
         const { text, index, ts } = options;
         try {
-            if (!this.anki) throw new Error('Anki not initialized');
-            if (!ts.yt) throw new Error(`Yomitan not initialized for Track${ts.track + 1}`);
-            if (!ts.dt.dictionaryAnkiWordFields.length && !ts.dt.dictionaryAnkiSentenceFields.length) {
-                throw new Error('No Anki fields defined');
-            }
+            if (!this.anki && !this.knownWords) throw new Error('Anki not initialized');
+            if (!ts.yt && !ts.tokenizer) throw new Error(`Tokenizer not initialized for Track${ts.track + 1}`);
+            const ankiConfigured =
+                ts.dt.dictionaryAnkiWordFields.length > 0 || ts.dt.dictionaryAnkiSentenceFields.length > 0;
+            if (!ankiConfigured && !this.knownWords) throw new Error('No Anki fields defined');
+            const useAnki = ankiConfigured && this.anki !== undefined;
 
             let richText: string = '';
             let textHasError = false;
             let textHasUncollected = false;
-            const tokenizeRes = await ts.yt.tokenize(text);
+            const coloredTokens: ColoredToken[] = [];
+            const tokenizeRes = await this._tokenize(ts, text);
             if (this.shouldCancelBuild) return;
             for (const rawTokenParts of tokenizeRes) {
                 const trimmedToken = rawTokenParts
@@ -407,55 +566,68 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
                     .join('')
                     .trim();
 
-                // Token is already cached or not a word
-                const cachedTokenStatus = ts.tokenStatusCache.get(trimmedToken);
-                if (this._tokenStatusValid(cachedTokenStatus)) {
-                    richText += this._applyTokenStyle({ rawTokenParts, tokenStatus: cachedTokenStatus!, dt: ts.dt });
-                    if (cachedTokenStatus === TokenStatus.UNCOLLECTED) textHasUncollected = true;
-                    else if (cachedTokenStatus === null) textHasError = true;
-                    continue;
-                }
-                if (!HAS_LETTER_REGEX.test(trimmedToken)) {
-                    const fullyKnownTokenStatus = getFullyKnownTokenStatus();
-                    richText += this._applyTokenStyle({ rawTokenParts, tokenStatus: fullyKnownTokenStatus, dt: ts.dt });
-                    ts.tokenStatusCache.set(trimmedToken, fullyKnownTokenStatus);
+                if (!HAS_LETTER_REGEX.test(trimmedToken) || !isWord(rawTokenParts)) {
+                    richText += this._applyTokenStyle({
+                        rawTokenParts,
+                        tokenStatus: getFullyKnownTokenStatus(),
+                        dt: ts.dt,
+                    });
                     continue;
                 }
 
-                let tokenStatus: TokenStatus | null = null;
-                switch (ts.dt.dictionaryTokenMatchStrategyPriority) {
-                    case TokenMatchStrategyPriority.EXACT:
-                        tokenStatus = await this._handlePriorityExact({ trimmedToken, ts });
-                        break;
-                    case TokenMatchStrategyPriority.LEMMA:
-                        tokenStatus = await this._handlePriorityLemma({ trimmedToken, ts });
-                        break;
-                    case TokenMatchStrategyPriority.BEST_KNOWN:
-                        tokenStatus = await this._handlePriorityKnown({
-                            trimmedToken,
-                            ts,
-                            cmp: (a, b) => (a > b ? a : b),
-                        });
-                        break;
-                    case TokenMatchStrategyPriority.LEAST_KNOWN:
-                        tokenStatus = await this._handlePriorityKnown({
-                            trimmedToken,
-                            ts,
-                            cmp: (a, b) => (a < b ? a : b),
-                        });
-                        break;
-                    default:
-                        throw new Error(`Unknown strategy priority: ${ts.dt.dictionaryTokenMatchStrategyPriority}`);
+                // Only the Anki status is cached here, since the known words can change independently of Anki
+                let ankiStatus: TokenStatus | null | undefined = undefined;
+                const cachedTokenStatus = ts.tokenStatusCache.get(trimmedToken);
+                if (this._tokenStatusValid(cachedTokenStatus)) {
+                    ankiStatus = cachedTokenStatus;
+                } else if (useAnki) {
+                    switch (ts.dt.dictionaryTokenMatchStrategyPriority) {
+                        case TokenMatchStrategyPriority.EXACT:
+                            ankiStatus = await this._handlePriorityExact({ trimmedToken, ts });
+                            break;
+                        case TokenMatchStrategyPriority.LEMMA:
+                            ankiStatus = await this._handlePriorityLemma({ trimmedToken, ts });
+                            break;
+                        case TokenMatchStrategyPriority.BEST_KNOWN:
+                            ankiStatus = await this._handlePriorityKnown({
+                                trimmedToken,
+                                ts,
+                                cmp: (a, b) => (a > b ? a : b),
+                            });
+                            break;
+                        case TokenMatchStrategyPriority.LEAST_KNOWN:
+                            ankiStatus = await this._handlePriorityKnown({
+                                trimmedToken,
+                                ts,
+                                cmp: (a, b) => (a < b ? a : b),
+                            });
+                            break;
+                        default:
+                            throw new Error(`Unknown strategy priority: ${ts.dt.dictionaryTokenMatchStrategyPriority}`);
+                    }
+                    if (this.shouldCancelBuild) return;
+                    ts.tokenStatusCache.set(trimmedToken, ankiStatus);
                 }
-                if (this.shouldCancelBuild) return;
 
-                richText += this._applyTokenStyle({ rawTokenParts, tokenStatus, dt: ts.dt });
+                const knownWordStatus = await this._knownWordStatus({ trimmedToken, ts });
+                if (this.shouldCancelBuild) return;
+                const tokenStatus = mergedTokenStatus(
+                    ankiStatus,
+                    knownWordStatus,
+                    ts.dt.dictionaryKnownWordsPrecedence
+                );
+                const highlighted = await this._frequencyHighlighted({ trimmedToken, tokenStatus, ts });
+                if (this.shouldCancelBuild) return;
+                richText += this._applyTokenStyle({ rawTokenParts, tokenStatus, dt: ts.dt, highlighted });
                 if (tokenStatus === TokenStatus.UNCOLLECTED) textHasUncollected = true;
                 else if (tokenStatus === null) textHasError = true;
-                ts.tokenStatusCache.set(trimmedToken, tokenStatus);
+                if (tokenStatus !== null) coloredTokens.push({ token: trimmedToken, status: tokenStatus });
             }
 
+            // Colored without Anki while it is closed, so it is colored again once Anki is back
+            if (ankiConfigured && !useAnki) textHasError = true;
             textHasError ? this.erroredCache.add(index) : this.erroredCache.delete(index);
+            this.coloredTokens.set(index, coloredTokens);
             textHasUncollected ? this.uncollectedCache.add(index) : this.uncollectedCache.delete(index);
             return richText;
         } catch (error) {
@@ -602,7 +774,7 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
     }): Promise<TokenStatus | null> {
         const { trimmedToken, ts, cacheUncollected, getFieldColor } = options;
 
-        const tokenLemmas = await ts.yt!.lemmatize(trimmedToken);
+        const tokenLemmas = await this._lemmatize(ts, trimmedToken);
         if (this.shouldCancelBuild) return null;
         for (const tokenLemma of tokenLemmas) {
             const cachedTokenLemma = ts.tokenStatusCache.get(tokenLemma);
@@ -620,6 +792,62 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
         return TokenStatus.UNCOLLECTED;
     }
 
+    private async _knownWordStatus(options: {
+        trimmedToken: string;
+        ts: TrackState;
+    }): Promise<KnownWordStatus | undefined> {
+        const { trimmedToken, ts } = options;
+        if (!this.knownWords) return undefined;
+        const cachedStatus = ts.knownWordStatusCache.get(trimmedToken);
+        if (cachedStatus !== undefined) return cachedStatus ?? undefined;
+
+        // Words are marked by their lemma, but a word list may also hold the form as it is written
+        const tokenLemmas = await this._lemmatize(ts, trimmedToken);
+        if (this.shouldCancelBuild) return undefined;
+        try {
+            const knownWords = await this.knownWords.find([
+                trimmedToken,
+                ...tokenLemmas.filter((l) => l !== trimmedToken),
+            ]);
+            const status = knownWords.find((w) => w !== undefined)?.status;
+            ts.knownWordStatusCache.set(trimmedToken, status ?? null);
+            return status;
+        } catch (error) {
+            console.error(`Error looking up known word for Track${ts.track + 1} for token "${trimmedToken}":`, error);
+            return undefined;
+        }
+    }
+
+    // Unknown words rarer than the frequency limit aren't highlighted, so that the words worth learning first stand out
+    private async _frequencyHighlighted(options: {
+        trimmedToken: string;
+        tokenStatus: TokenStatus | null;
+        ts: TrackState;
+    }): Promise<boolean> {
+        const { trimmedToken, tokenStatus, ts } = options;
+        const limit = ts.dt.dictionaryFrequencyHighlightLimit;
+        if (!this.frequencies || !limit || tokenStatus === null || tokenStatus > TokenStatus.UNKNOWN) return true;
+        if (!ts.frequencyRankCache.has(trimmedToken)) {
+            const tokenLemmas = await this._lemmatize(ts, trimmedToken);
+            if (this.shouldCancelBuild) return true;
+            try {
+                const rank = await frequencyRank(this.frequencies, [
+                    trimmedToken,
+                    ...tokenLemmas.filter((l) => l !== trimmedToken),
+                ]);
+                ts.frequencyRankCache.set(trimmedToken, rank);
+            } catch (error) {
+                console.error(
+                    `Error looking up frequency for Track${ts.track + 1} for token "${trimmedToken}":`,
+                    error
+                );
+                return true;
+            }
+        }
+        const rank = ts.frequencyRankCache.get(trimmedToken);
+        return rank === undefined || (rank !== null && rank <= limit); // Everything is highlighted without a list
+    }
+
     private async _getWordFieldColor(options: { trimmedToken: string; ts: TrackState }): Promise<TokenStatus | null> {
         const { trimmedToken, ts } = options;
         try {
@@ -678,7 +906,7 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
                     for (const sentenceField of ts.dt.dictionaryAnkiSentenceFields) {
                         const field = cardInfo.fields[sentenceField];
                         if (!field) continue;
-                        const fieldTokens = (await ts.yt!.tokenize(field.value)).map((t) =>
+                        const fieldTokens = (await this._tokenize(ts, field.value)).map((t) =>
                             t
                                 .map((p) => p.text)
                                 .join('')
@@ -690,7 +918,7 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
                             continue;
                         }
                         for (const fieldToken of fieldTokens) {
-                            const fieldTokenLemmas = await ts.yt!.lemmatize(fieldToken);
+                            const fieldTokenLemmas = await this._lemmatize(ts, fieldToken);
                             if (this.shouldCancelBuild) return false;
                             if (fieldTokenLemmas.includes(trimmedToken)) return true;
                         }
@@ -761,25 +989,35 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
         rawTokenParts: TokenPart[];
         tokenStatus: TokenStatus | null;
         dt: DictionaryTrack;
+        highlighted?: boolean;
     }): string {
-        const { rawTokenParts, tokenStatus, dt } = options;
+        const { rawTokenParts, tokenStatus, dt, highlighted = true } = options;
         const token = this._applyReadingAnnotation({ rawTokenParts, tokenStatus, dt });
         if (tokenStatus === null) return `<span style="text-decoration: line-through red 3px;">${token}</span>`;
-        if (!dt.colorizeFullyKnownTokens && tokenStatus === getFullyKnownTokenStatus()) return token;
+
+        // Words can be marked in the known words by hovering them
+        const word = rawTokenParts
+            .map((p) => p.text)
+            .join('')
+            .trim();
+        const w = HAS_LETTER_REGEX.test(word) ? ` data-word="${attributeValue(word)}"` : '';
+        if (!highlighted || (!dt.colorizeFullyKnownTokens && tokenStatus === getFullyKnownTokenStatus())) {
+            return w ? `<span${w}>${token}</span>` : token;
+        }
         const c = dt.tokenStatusColors[tokenStatus];
         const t = dt.tokenStylingThickness;
         switch (dt.tokenStyling) {
             case TokenStyling.TEXT:
-                return `<span style="-webkit-text-fill-color: ${c};">${token}</span>`;
+                return `<span${w} style="-webkit-text-fill-color: ${c};">${token}</span>`;
             case TokenStyling.BACKGROUND:
-                return `<span style="background-color: ${c};">${token}</span>`;
+                return `<span${w} style="background-color: ${c};">${token}</span>`;
             case TokenStyling.UNDERLINE:
             case TokenStyling.OVERLINE:
-                return `<span style="text-decoration: ${dt.tokenStyling} ${c} ${t}px;">${token}</span>`;
+                return `<span${w} style="text-decoration: ${dt.tokenStyling} ${c} ${t}px;">${token}</span>`;
             case TokenStyling.OUTLINE:
-                return `<span style="-webkit-text-stroke: ${t}px ${c};">${token}</span>`;
+                return `<span${w} style="-webkit-text-stroke: ${t}px ${c};">${token}</span>`;
             default:
-                return `<span style="text-decoration: line-through red 3px double;">${token}</span>`;
+                return `<span${w} style="text-decoration: line-through red 3px double;">${token}</span>`;
         }
     }
 
@@ -813,5 +1051,7 @@ export class SubtitleColoring extends SubtitleCollection<RichSubtitleModel> {
             this.subtitlesInterval = undefined;
         }
         this.resetCache();
+        this.localTokenizers.forEach((tokenizer) => tokenizer.dispose());
+        this.localTokenizers.clear();
     }
 }
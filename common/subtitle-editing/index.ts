@@ -0,0 +1,2 @@
+export type { SubtitleEdit } from './subtitle-editing';
+export { editSubtitles, mergeableSubtitleIndex, realignedSubtitles } from './subtitle-editing';
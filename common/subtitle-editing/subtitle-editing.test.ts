@@ -0,0 +1,87 @@
+import { editSubtitles, realignedSubtitles } from './subtitle-editing';
+
+const alignment = { offset: 1000, drift: 0 };
+
+const subtitle = (text: string, originalStart: number, originalEnd: number, track = 0) => ({
+    text,
+    start: originalStart + alignment.offset,
+    end: originalEnd + alignment.offset,
+    originalStart,
+    originalEnd,
+    track,
+});
+
+const subtitles = [
+    { ...subtitle('one', 0, 1000), index: 0, richText: '<b>one</b>' },
+    { ...subtitle('uno', 500, 1500, 1), index: 1 },
+    { ...subtitle('two three', 2000, 2900), index: 2 },
+    { ...subtitle('four', 4000, 5000), index: 3 },
+];
+
+it('edits text and drops stale coloring', () => {
+    const edited = editSubtitles(subtitles, { type: 'text', index: 0, text: 'won' }, alignment);
+    expect(edited[0]).toEqual({ ...subtitles[0], text: 'won', richText: undefined, styling: undefined });
+    expect(edited[1]).toEqual(subtitles[1]);
+    expect(editSubtitles(subtitles, { type: 'text', index: 0, text: 'one' }, alignment)).toBe(subtitles);
+});
+
+it('retimes subtitles, keeping them in order of time', () => {
+    const edited = editSubtitles(subtitles, { type: 'timing', index: 0, start: 2200, end: 2600 }, alignment);
+    expect(edited.map((s) => [s.text, s.index])).toEqual([
+        ['uno', 0],
+        ['one', 1],
+        ['two three', 2],
+        ['four', 3],
+    ]);
+    expect(edited[1]).toMatchObject({ start: 2200, end: 2600, originalStart: 1200, originalEnd: 1600 });
+    expect(editSubtitles(subtitles, { type: 'timing', index: 0, start: 2000, end: 1000 }, alignment)).toBe(subtitles);
+});
+
+it('splits subtitles at a position in the text', () => {
+    const edited = editSubtitles(subtitles, { type: 'split', index: 2, position: 3 }, alignment);
+    expect(edited.map((s) => [s.text, s.start, s.end, s.originalStart, s.index])).toEqual([
+        ['one', 1000, 2000, 0, 0],
+        ['uno', 1500, 2500, 500, 1],
+        ['two', 3000, 3300, 2000, 2],
+        ['three', 3300, 3900, 2300, 3],
+        ['four', 5000, 6000, 4000, 4],
+    ]);
+    expect(editSubtitles(subtitles, { type: 'split', index: 2, position: 0 }, alignment)).toBe(subtitles);
+});
+
+it('merges subtitles with the next subtitle on the same track', () => {
+    const edited = editSubtitles(subtitles, { type: 'merge', index: 0 }, alignment);
+    expect(edited.map((s) => [s.text, s.start, s.end, s.index])).toEqual([
+        ['one\ntwo three', 1000, 3900, 0],
+        ['uno', 1500, 2500, 1],
+        ['four', 5000, 6000, 2],
+    ]);
+    expect(editSubtitles(subtitles, { type: 'merge', index: 3 }, alignment)).toBe(subtitles);
+});
+
+it('edits the recognized text of image-based subtitles but not subtitles that are only an image', () => {
+    const textImage = { dataUrl: '', image: { width: 1, height: 1 }, screen: { width: 1, height: 1 } };
+    const imageSubtitles = [
+        { ...subtitle('', 0, 1000), index: 0, textImage },
+        { ...subtitle('recognized', 2000, 3000), index: 1, textImage },
+    ];
+    expect(editSubtitles(imageSubtitles, { type: 'text', index: 0, text: 'typed' }, alignment)).toBe(imageSubtitles);
+    expect(editSubtitles(imageSubtitles, { type: 'merge', index: 0 }, alignment)).toBe(imageSubtitles);
+    const edited = editSubtitles(imageSubtitles, { type: 'text', index: 1, text: 'corrected' }, alignment);
+    expect(edited[1]).toMatchObject({ text: 'corrected', textImage: undefined });
+});
+
+it('deletes subtitles', () => {
+    const edited = editSubtitles(subtitles, { type: 'delete', index: 1 }, alignment);
+    expect(edited.map((s) => [s.text, s.index])).toEqual([
+        ['one', 0],
+        ['two three', 1],
+        ['four', 2],
+    ]);
+});
+
+it('realigns edited subtitles to a changed offset', () => {
+    const edited = editSubtitles(subtitles, { type: 'timing', index: 3, start: 5500, end: 6000 }, alignment);
+    const realigned = realignedSubtitles(edited, { offset: 0, drift: 0.1 });
+    expect(realigned[3]).toMatchObject({ start: 4950, end: 5500 });
+});
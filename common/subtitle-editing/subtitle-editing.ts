@@ -0,0 +1,145 @@
+import type { SubtitleModel } from '@project/common';
+import { AudioAlignment, alignedTime, unalignedTime } from '@project/common/audio-alignment';
+
+/**
+ * A change to one subtitle in a list of subtitles. Subtitles are referred to by their position in the list, and times
+ * are the shown times, i.e. with the current offset applied.
+ */
+export type SubtitleEdit =
+    | { readonly type: 'text'; readonly index: number; readonly text: string }
+    | { readonly type: 'timing'; readonly index: number; readonly start: number; readonly end: number }
+    | { readonly type: 'split'; readonly index: number; readonly position: number }
+    | { readonly type: 'merge'; readonly index: number }
+    | { readonly type: 'delete'; readonly index: number };
+
+// Edited text no longer matches the cached coloring, the styled fragments it was rendered from or the image it was
+// recognized from
+const withText = <T extends SubtitleModel>(subtitle: T, text: string): T => ({
+    ...subtitle,
+    text,
+    textImage: undefined,
+    richText: undefined,
+    styling: subtitle.styling === undefined ? undefined : { ...subtitle.styling, fragments: undefined },
+});
+
+// Image-based subtitles have no text to edit unless it was recognized from the image
+const imageOnly = (subtitle: SubtitleModel) => subtitle.textImage !== undefined && subtitle.text === '';
+
+const withTiming = <T extends SubtitleModel>(
+    subtitle: T,
+    start: number,
+    end: number,
+    alignment: AudioAlignment
+): T => ({
+    ...subtitle,
+    start,
+    end,
+    originalStart: unalignedTime(start, alignment),
+    originalEnd: unalignedTime(end, alignment),
+});
+
+/**
+ * Position of the next subtitle on the same track, which a subtitle is merged with.
+ */
+export const mergeableSubtitleIndex = (subtitles: SubtitleModel[], index: number) => {
+    const subtitle = subtitles[index];
+
+    for (let i = index + 1; i < subtitles.length; ++i) {
+        if (subtitles[i].track === subtitle.track) {
+            return !imageOnly(subtitles[i]) && !imageOnly(subtitle) ? i : undefined;
+        }
+    }
+
+    return undefined;
+};
+
+const edited = <T extends SubtitleModel>(subtitles: T[], edit: SubtitleEdit, alignment: AudioAlignment): T[] => {
+    const subtitle = subtitles[edit.index];
+
+    switch (edit.type) {
+        case 'text':
+            if (imageOnly(subtitle) || subtitle.text === edit.text) {
+                return subtitles;
+            }
+
+            return subtitles.map((s, i) => (i === edit.index ? withText(s, edit.text) : s));
+        case 'timing':
+            if (edit.end < edit.start || (edit.start === subtitle.start && edit.end === subtitle.end)) {
+                return subtitles;
+            }
+
+            return subtitles.map((s, i) => (i === edit.index ? withTiming(s, edit.start, edit.end, alignment) : s));
+        case 'split': {
+            const before = subtitle.text.substring(0, edit.position).trim();
+            const after = subtitle.text.substring(edit.position).trim();
+
+            if (before === '' || after === '') {
+                return subtitles;
+            }
+
+            // Time is divided in proportion to the length of the text on either side
+            const splitTime = subtitle.start + ((subtitle.end - subtitle.start) * edit.position) / subtitle.text.length;
+            return [
+                ...subtitles.slice(0, edit.index),
+                withTiming(withText(subtitle, before), subtitle.start, splitTime, alignment),
+                withTiming(withText(subtitle, after), splitTime, subtitle.end, alignment),
+                ...subtitles.slice(edit.index + 1),
+            ];
+        }
+        case 'merge': {
+            const nextIndex = mergeableSubtitleIndex(subtitles, edit.index);
+
+            if (nextIndex === undefined) {
+                return subtitles;
+            }
+
+            const next = subtitles[nextIndex];
+            const merged = {
+                ...withText(subtitle, `${subtitle.text}\n${next.text}`),
+                start: Math.min(subtitle.start, next.start),
+                end: Math.max(subtitle.end, next.end),
+                originalStart: Math.min(subtitle.originalStart, next.originalStart),
+                originalEnd: Math.max(subtitle.originalEnd, next.originalEnd),
+            };
+            return subtitles.flatMap((s, i) => (i === edit.index ? [merged] : i === nextIndex ? [] : [s]));
+        }
+        case 'delete':
+            return subtitles.filter((_, i) => i !== edit.index);
+    }
+};
+
+/**
+ * Apply an edit to subtitles. The edited subtitles are kept in order of time, and re-indexed by their position.
+ * @param alignment The alignment applied to the subtitles, to keep their original timing consistent with edited times
+ * @returns The edited subtitles, or the same subtitles if the edit does not change anything
+ */
+export const editSubtitles = <T extends SubtitleModel>(
+    subtitles: T[],
+    edit: SubtitleEdit,
+    alignment: AudioAlignment
+): T[] => {
+    if (edit.index < 0 || edit.index >= subtitles.length) {
+        return subtitles;
+    }
+
+    const editedSubtitles = edited(subtitles, edit, alignment);
+
+    if (editedSubtitles === subtitles) {
+        return subtitles;
+    }
+
+    return editedSubtitles
+        .map((s, i) => ({ s, i }))
+        .sort((a, b) => a.s.start - b.s.start || a.i - b.i)
+        .map(({ s }, index) => ({ ...s, index }));
+};
+
+/**
+ * Show subtitles from an earlier point in the edit history at the current alignment, which may have since changed.
+ */
+export const realignedSubtitles = <T extends SubtitleModel>(subtitles: T[], alignment: AudioAlignment): T[] =>
+    subtitles.map((s) => ({
+        ...s,
+        start: alignedTime(s.originalStart, alignment),
+        end: alignedTime(s.originalEnd, alignment),
+    }));
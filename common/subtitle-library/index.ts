@@ -0,0 +1,4 @@
+export type { SubtitleLibraryEntry, SubtitleLibraryKey } from './types';
+export type { SubtitleLibraryData, SubtitleLibraryRepository } from './subtitle-library-repository';
+
+export { IndexedDBSubtitleLibraryRepository } from './subtitle-library-repository';
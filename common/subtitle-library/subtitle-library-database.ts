@@ -0,0 +1,13 @@
+import Dexie from 'dexie';
+import { SubtitleLibraryEntry } from './types';
+
+export class SubtitleLibraryDatabase extends Dexie {
+    entries!: Dexie.Table<SubtitleLibraryEntry, number>;
+
+    constructor() {
+        super('SubtitleLibraryDatabase');
+        this.version(1).stores({
+            entries: '++id,url,title,fileName,timestamp',
+        });
+    }
+}
@@ -0,0 +1,74 @@
+import 'core-js/stable/structured-clone'; // fake-indexeddb requires structured clone polyfill
+import 'fake-indexeddb/auto';
+import { IndexedDBSubtitleLibraryRepository } from './subtitle-library-repository';
+
+const data = (name: string, offset = 0) => ({ files: [{ name, base64: 'AAAA' }], flatten: false, offset });
+
+beforeEach(async () => {
+    await new IndexedDBSubtitleLibraryRepository().clear();
+});
+
+it('finds subtitles by file name, then url', async () => {
+    const repository = new IndexedDBSubtitleLibraryRepository();
+    await repository.save({ url: 'https://example.com/watch?v=1', title: 'Episode 1' }, data('url.srt'));
+    await repository.save({ url: 'file:///videos/ep1.mkv', fileName: 'ep1.mkv', title: 'Other' }, data('file.srt'));
+
+    expect((await repository.find({ url: 'https://example.com/watch?v=1#t=10' }))?.files[0].name).toEqual('url.srt');
+    expect((await repository.find({ url: 'file:///moved/ep1.mkv', fileName: 'ep1.mkv' }))?.files[0].name).toEqual(
+        'file.srt'
+    );
+    expect(await repository.find({ url: 'https://example.com/other', title: 'Episode 2' })).toBeUndefined();
+});
+
+it('finds subtitles by url regardless of the hash and non-identifying query parameters', async () => {
+    const repository = new IndexedDBSubtitleLibraryRepository();
+    await repository.save({ url: 'https://example.com/watch?v=1&utm_source=feed#comments' }, data('url.srt'));
+
+    expect((await repository.find({ url: 'https://example.com/watch?t=95&v=1&si=abc' }))?.files[0].name).toEqual(
+        'url.srt'
+    );
+    expect((await repository.find({ url: 'https://example.com/watch?v=1#t=10' }))?.files[0].name).toEqual('url.srt');
+    expect(await repository.find({ url: 'https://example.com/watch?v=2&utm_source=feed' })).toBeUndefined();
+});
+
+it('does not find subtitles by title alone', async () => {
+    const repository = new IndexedDBSubtitleLibraryRepository();
+    await repository.save({ url: 'https://example.com/watch?v=1', title: 'Episode 1' }, data('url.srt'));
+    expect(await repository.find({ url: 'https://example.com/watch?v=2', title: 'Episode 1' })).toBeUndefined();
+});
+
+it('replaces subtitles saved for the same video only', async () => {
+    const repository = new IndexedDBSubtitleLibraryRepository();
+    await repository.save({ url: 'https://example.com/1', title: 'Site' }, data('first.srt'));
+    await repository.save({ url: 'https://example.com/2', title: 'Site' }, data('second.srt'));
+    await repository.save({ url: 'https://example.com/1', title: 'Site' }, data('third.srt'));
+
+    expect(await repository.count()).toEqual(2);
+    expect((await repository.find({ url: 'https://example.com/1' }))?.files[0].name).toEqual('third.srt');
+    expect((await repository.find({ url: 'https://example.com/2' }))?.files[0].name).toEqual('second.srt');
+});
+
+it('updates the offset of saved subtitles', async () => {
+    const repository = new IndexedDBSubtitleLibraryRepository();
+    const id = await repository.save({ fileName: 'ep1.mkv' }, data('ep1.srt', 500));
+    await repository.updateOffset(id, -1200);
+    expect(await repository.find({ fileName: 'ep1.mkv' })).toMatchObject({ id, offset: -1200, flatten: false });
+});
+
+it('prunes the least recently loaded subtitles beyond the limit', async () => {
+    const repository = new IndexedDBSubtitleLibraryRepository(2);
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await repository.save({ fileName: 'ep1.mkv' }, data('ep1.srt'));
+    now.mockReturnValue(2000);
+    await repository.save({ fileName: 'ep2.mkv' }, data('ep2.srt'));
+    now.mockReturnValue(3000);
+    await repository.save({ fileName: 'ep1.mkv' }, data('ep1.srt'));
+    now.mockReturnValue(4000);
+    await repository.save({ fileName: 'ep3.mkv' }, data('ep3.srt'));
+    now.mockRestore();
+
+    expect(await repository.count()).toEqual(2);
+    expect(await repository.find({ fileName: 'ep2.mkv' })).toBeUndefined();
+    expect(await repository.find({ fileName: 'ep1.mkv' })).toBeDefined();
+});
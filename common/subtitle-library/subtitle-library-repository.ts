@@ -0,0 +1,168 @@
+import { SubtitleLibraryDatabase } from './subtitle-library-database';
+import { SubtitleLibraryEntry, SubtitleLibraryKey } from './types';
+
+export type SubtitleLibraryData = Pick<SubtitleLibraryEntry, 'files' | 'flatten' | 'offset'>;
+
+/**
+ * Repository of subtitles previously loaded onto videos.
+ */
+export interface SubtitleLibraryRepository {
+    /**
+     * Remember subtitles loaded onto a video, replacing any subtitles remembered for the same video.
+     * @returns ID of the saved entry
+     */
+    save: (key: SubtitleLibraryKey, data: SubtitleLibraryData) => Promise<number>;
+    /**
+     * Find the subtitles remembered for a video. Matching file names take precedence over matching URLs, which are
+     * compared without their hash and query parameters that don't identify the video, such as tracking parameters.
+     * Titles are not matched, since different videos often share the title of the website they are on.
+     */
+    find: (key: SubtitleLibraryKey) => Promise<SubtitleLibraryEntry | undefined>;
+    updateOffset: (id: number, offset: number) => Promise<void>;
+    delete: (id: number) => Promise<void>;
+    clear: () => Promise<void>;
+    count: () => Promise<number>;
+}
+
+type KeyField = keyof SubtitleLibraryKey;
+
+// Fields that identify a video, most specific first
+const keyFields: KeyField[] = ['fileName', 'url'];
+
+// Query parameters that say where a link was shared from or where playback starts, rather than which video it is
+const nonIdentifyingParams = ['t', 'start', 'time_continue', 'si', 'feature', 'ref', 'fbclid', 'gclid'];
+
+const isNonIdentifyingParam = (name: string) => name.startsWith('utm_') || nonIdentifyingParams.includes(name);
+
+const normalizedUrl = (url: string) => {
+    let parsed: URL;
+
+    try {
+        parsed = new URL(url);
+    } catch (e) {
+        return url.split('#')[0];
+    }
+
+    parsed.hash = '';
+
+    for (const name of [...parsed.searchParams.keys()]) {
+        if (isNonIdentifyingParam(name)) {
+            parsed.searchParams.delete(name);
+        }
+    }
+
+    return parsed.href;
+};
+
+const normalizedSubtitleLibraryKey = ({ url, title, fileName }: SubtitleLibraryKey): SubtitleLibraryKey => {
+    const trimmedTitle = title?.trim();
+    const trimmedFileName = fileName?.trim();
+    return {
+        url: url ? normalizedUrl(url) : undefined,
+        title: trimmedTitle ? trimmedTitle : undefined,
+        fileName: trimmedFileName ? trimmedFileName : undefined,
+    };
+};
+
+export class IndexedDBSubtitleLibraryRepository implements SubtitleLibraryRepository {
+    private readonly _db = new SubtitleLibraryDatabase();
+    private _limit?: number;
+
+    /**
+     * @param limit Maximum number of entries to keep, least recently loaded entries are pruned on save. Unlimited if undefined.
+     */
+    constructor(limit?: number) {
+        this._limit = limit;
+    }
+
+    set limit(limit: number | undefined) {
+        this._limit = limit;
+    }
+
+    async save(key: SubtitleLibraryKey, data: SubtitleLibraryData) {
+        const normalizedKey = normalizedSubtitleLibraryKey(key);
+        const existing = await this._findBy(normalizedKey, this._identifyingField(normalizedKey));
+        const entry: SubtitleLibraryEntry = {
+            ...normalizedKey,
+            files: data.files,
+            flatten: data.flatten,
+            offset: data.offset,
+            timestamp: Date.now(),
+        };
+
+        if (existing?.id !== undefined) {
+            entry.id = existing.id;
+        }
+
+        const id = await this._db.entries.put(entry);
+        await this._prune();
+        return id;
+    }
+
+    // The field that decides whether two keys refer to the same video, so that saving does not replace the
+    // subtitles of a different video that merely shares a less specific field, e.g. the title of a website
+    private _identifyingField(key: SubtitleLibraryKey) {
+        return keyFields.find((field) => key[field] !== undefined);
+    }
+
+    private async _findBy(key: SubtitleLibraryKey, field: KeyField | undefined) {
+        if (field === undefined) {
+            return undefined;
+        }
+
+        const value = key[field];
+
+        if (value === undefined) {
+            return undefined;
+        }
+
+        const entries = await this._db.entries.where(field).equals(value).sortBy('timestamp');
+        return entries.length === 0 ? undefined : entries[entries.length - 1];
+    }
+
+    private async _prune() {
+        if (this._limit === undefined) {
+            return;
+        }
+
+        const size = await this._db.entries.count();
+
+        if (size > this._limit) {
+            const keys = await this._db.entries
+                .orderBy('timestamp')
+                .limit(size - this._limit)
+                .primaryKeys();
+            await this._db.entries.bulkDelete(keys);
+        }
+    }
+
+    async find(key: SubtitleLibraryKey) {
+        const normalizedKey = normalizedSubtitleLibraryKey(key);
+
+        for (const field of keyFields) {
+            const entry = await this._findBy(normalizedKey, field);
+
+            if (entry !== undefined) {
+                return entry;
+            }
+        }
+
+        return undefined;
+    }
+
+    async updateOffset(id: number, offset: number) {
+        await this._db.entries.update(id, { offset });
+    }
+
+    async delete(id: number) {
+        await this._db.entries.delete(id);
+    }
+
+    async clear() {
+        await this._db.entries.clear();
+    }
+
+    async count() {
+        return await this._db.entries.count();
+    }
+}
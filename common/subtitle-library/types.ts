@@ -0,0 +1,30 @@
+import type { SerializedSubtitleFile } from '@project/common';
+
+/**
+ * Identifies the video that subtitles were loaded onto. Any of the fields may be missing, e.g. there is no file name
+ * for videos streamed from a website.
+ */
+export interface SubtitleLibraryKey {
+    /** URL of the page the video is on, without the hash */
+    url?: string;
+    /** Title of the video or the page it is on */
+    title?: string;
+    /** Name of the video file, for local videos */
+    fileName?: string;
+}
+
+/**
+ * Subtitles that were loaded onto a video, kept so that they can be loaded again the next time the video is opened.
+ */
+export interface SubtitleLibraryEntry extends SubtitleLibraryKey {
+    /** Auto-incremented primary key */
+    id?: number;
+    /** The loaded subtitle files, one per chosen track */
+    files: SerializedSubtitleFile[];
+    /** Whether the tracks were flattened into one when loaded */
+    flatten: boolean;
+    /** Last subtitle offset in milliseconds */
+    offset: number;
+    /** Unix timestamp (ms) when the subtitles were last loaded */
+    timestamp: number;
+}
@@ -0,0 +1,5 @@
+export type { RgbaImage, SubtitleTextRecognizer } from './subtitle-ocr';
+export type { TesseractPaths } from './tesseract-text-recognizer';
+
+export { cleanedOcrText, ocrReadyImage } from './subtitle-ocr';
+export { TesseractTextRecognizer } from './tesseract-text-recognizer';
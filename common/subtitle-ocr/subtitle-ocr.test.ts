@@ -0,0 +1,27 @@
+import { cleanedOcrText, ocrReadyImage } from './subtitle-ocr';
+
+it('makes light opaque pixels black and everything else white, with some margin', () => {
+    const white = [255, 255, 255, 255];
+    const outline = [0, 0, 0, 255];
+    const transparent = [255, 255, 255, 0];
+    const image = ocrReadyImage({
+        data: new Uint8ClampedArray([...white, ...outline, ...transparent]),
+        width: 3,
+        height: 1,
+    });
+    const pixel = (x: number, y: number) => [
+        ...image.data.slice((y * image.width + x) * 4, (y * image.width + x + 1) * 4),
+    ];
+    const margin = (image.width - 3) / 2;
+
+    expect(image.height).toEqual(1 + 2 * margin);
+    expect(pixel(margin, margin)).toEqual([0, 0, 0, 255]);
+    expect(pixel(margin + 1, margin)).toEqual([255, 255, 255, 255]);
+    expect(pixel(margin + 2, margin)).toEqual([255, 255, 255, 255]);
+    expect(pixel(0, 0)).toEqual([255, 255, 255, 255]);
+});
+
+it('drops spaces between CJK characters and empty lines', () => {
+    expect(cleanedOcrText(' こ ん に ち は 、 世 界 ！\n\n Hello world \n')).toEqual('こんにちは、世界！\nHello world');
+    expect(cleanedOcrText('テスト 123 です')).toEqual('テスト 123 です');
+});
@@ -0,0 +1,63 @@
+/**
+ * Pixels of a subtitle image, four bytes (RGBA) per pixel.
+ */
+export interface RgbaImage {
+    readonly data: Uint8ClampedArray;
+    readonly width: number;
+    readonly height: number;
+}
+
+/**
+ * Recognizes the text of image-based subtitles.
+ */
+export interface SubtitleTextRecognizer {
+    /**
+     * @returns The text in the image, or an empty string if none could be recognized with confidence
+     */
+    recognize(image: RgbaImage): Promise<string>;
+    terminate(): Promise<void>;
+}
+
+// OCR engines read dark text on a light background best, and with some margin around the text
+const ocrPadding = 16;
+const inkAlpha = 128;
+const inkLuminance = 128;
+
+const cjkCharacter = '[\\p{sc=Hira}\\p{sc=Kana}\\p{sc=Han}ー々〆ヶ、。，．・！？「」『』（）…―〜]';
+const cjkSpaceRegex = new RegExp(`(?<=${cjkCharacter})[ \\t]+(?=${cjkCharacter})`, 'gu');
+
+/**
+ * Subtitle image with its text made black and everything else white. Subtitle text is usually light with a dark
+ * outline, on a transparent background.
+ */
+export const ocrReadyImage = ({ data, width, height }: RgbaImage): RgbaImage => {
+    const paddedWidth = width + 2 * ocrPadding;
+    const paddedHeight = height + 2 * ocrPadding;
+    const ocrData = new Uint8ClampedArray(paddedWidth * paddedHeight * 4).fill(255);
+
+    for (let y = 0; y < height; ++y) {
+        for (let x = 0; x < width; ++x) {
+            const i = (y * width + x) * 4;
+            const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+            if (data[i + 3] >= inkAlpha && luminance >= inkLuminance) {
+                const j = ((y + ocrPadding) * paddedWidth + x + ocrPadding) * 4;
+                ocrData[j] = 0;
+                ocrData[j + 1] = 0;
+                ocrData[j + 2] = 0;
+            }
+        }
+    }
+
+    return { data: ocrData, width: paddedWidth, height: paddedHeight };
+};
+
+/**
+ * Recognized text without empty lines, and without the spaces OCR engines put between CJK characters.
+ */
+export const cleanedOcrText = (text: string) =>
+    text
+        .split('\n')
+        .map((line) => line.replace(cjkSpaceRegex, '').trim())
+        .filter((line) => line !== '')
+        .join('\n');
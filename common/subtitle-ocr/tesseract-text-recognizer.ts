@@ -0,0 +1,59 @@
+import { createWorker, OEM, PSM, Worker } from 'tesseract.js';
+import { cleanedOcrText, ocrReadyImage, RgbaImage, SubtitleTextRecognizer } from './subtitle-ocr';
+
+// Below this, recognized text is more likely to be noise than the subtitle
+const minConfidence = 40;
+
+export interface TesseractPaths {
+    /** URL of the Tesseract worker script */
+    workerPath: string;
+    /** URL of the directory with the Tesseract WASM core */
+    corePath: string;
+    /** URL of the directory with the gzipped traineddata of each language */
+    langPath: string;
+}
+
+/**
+ * Recognizes subtitle text with Tesseract, from the bundled core and traineddata so that nothing is downloaded.
+ */
+export class TesseractTextRecognizer implements SubtitleTextRecognizer {
+    private readonly _paths: TesseractPaths;
+    private readonly _language: string;
+    private _worker?: Promise<Worker>;
+
+    constructor(paths: TesseractPaths, language = 'jpn') {
+        this._paths = paths;
+        this._language = language;
+    }
+
+    async recognize(image: RgbaImage) {
+        const ocrImage = ocrReadyImage(image);
+        const canvas = new OffscreenCanvas(ocrImage.width, ocrImage.height);
+        canvas.getContext('2d')!.putImageData(new ImageData(ocrImage.data, ocrImage.width, ocrImage.height), 0, 0);
+        const { data } = await (await this._recognizer()).recognize(canvas);
+        return data.confidence < minConfidence ? '' : cleanedOcrText(data.text);
+    }
+
+    async terminate() {
+        if (this._worker === undefined) {
+            return;
+        }
+
+        const worker = this._worker;
+        this._worker = undefined;
+        await (await worker).terminate();
+    }
+
+    private _recognizer() {
+        if (this._worker === undefined) {
+            this._worker = (async () => {
+                const worker = await createWorker(this._language, OEM.LSTM_ONLY, this._paths);
+                // Subtitles are a few lines of text in a single block
+                await worker.setParameters({ tessedit_pageseg_mode: PSM.SINGLE_BLOCK });
+                return worker;
+            })();
+        }
+
+        return this._worker;
+    }
+}
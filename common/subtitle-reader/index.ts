@@ -1 +1,10 @@
 export { default as SubtitleReader } from './subtitle-reader';
+export { subtitleTrackFiles } from './subtitle-format';
+export { positionedAtTop, positionTextAlign, styledSubtitleHtml, styleFilterRegex } from './subtitle-styling';
+export type { ExportableSubtitle, SubtitleExportFormat } from './subtitle-export';
+export {
+    exportableSubtitles,
+    subtitleExportFormats,
+    subtitleExportMimeType,
+    subtitlesToFormat,
+} from './subtitle-export';
@@ -0,0 +1,51 @@
+import { exportableSubtitles, subtitlesToFormat } from './subtitle-export';
+
+const subtitles = [
+    { text: 'second', start: 3723456, end: 3725000, track: 0 },
+    { text: '<i>first</i>\nline', start: 1000, end: 2500, track: 0 },
+    { text: 'other\ttrack', start: 1500, end: 2000, track: 1 },
+    { text: '', start: 4000, end: 5000, track: 0 },
+    { text: 'before start', start: -2000, end: -500, track: 0 },
+    { text: 'partly before start', start: -500, end: 500, track: 1 },
+];
+
+it('exports the subtitles of a track in order of time', () => {
+    expect(exportableSubtitles(subtitles, 0).map((s) => s.text)).toEqual(['<i>first</i>\nline', 'second']);
+    expect(exportableSubtitles(subtitles).map((s) => [s.text, s.start])).toEqual([
+        ['partly before start', 0],
+        ['<i>first</i>\nline', 1000],
+        ['other\ttrack', 1500],
+        ['second', 3723456],
+    ]);
+    expect(exportableSubtitles(subtitles, 0, true).map((s) => s.text)).toEqual(['<i>first</i>\nline', '', 'second']);
+});
+
+it('exports to srt', () => {
+    expect(subtitlesToFormat(subtitles, 'srt', 0)).toEqual(
+        '1\n00:00:01,000 --> 00:00:02,500\n<i>first</i>\nline\n\n2\n01:02:03,456 --> 01:02:05,000\nsecond\n'
+    );
+});
+
+it('exports to vtt', () => {
+    expect(subtitlesToFormat(subtitles, 'vtt', 0)).toEqual(
+        'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\n<i>first</i>\nline\n\n01:02:03.456 --> 01:02:05.000\nsecond\n'
+    );
+});
+
+it('exports to ass', () => {
+    const events = subtitlesToFormat(subtitles, 'ass', 0).split('[Events]\n')[1];
+    expect(events).toEqual(
+        'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n' +
+            'Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,{\\i1}first{\\i0}\\Nline\n' +
+            'Dialogue: 0,1:02:03.46,1:02:05.00,Default,,0,0,0,,second\n'
+    );
+});
+
+it('exports all tracks merged to tsv', () => {
+    expect(subtitlesToFormat(subtitles, 'tsv')).toEqual(
+        '0.000\t0.500\tpartly before start\n' +
+            '1.000\t2.500\t<i>first</i> line\n' +
+            '1.500\t2.000\tother track\n' +
+            '3723.456\t3725.000\tsecond\n'
+    );
+});
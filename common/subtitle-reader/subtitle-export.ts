@@ -0,0 +1,129 @@
+import type { SubtitleModel } from '@project/common';
+
+export type SubtitleExportFormat = 'srt' | 'vtt' | 'ass' | 'tsv';
+
+export const subtitleExportFormats: SubtitleExportFormat[] = ['srt', 'vtt', 'ass', 'tsv'];
+
+/**
+ * Subset of a subtitle needed to export it. Subtitles are exported at their shown timing, i.e. with any offset applied.
+ */
+export type ExportableSubtitle = Pick<SubtitleModel, 'text' | 'start' | 'end' | 'track'>;
+
+const pad = (n: number, length: number) => String(n).padStart(length, '0');
+
+const timestamp = (ms: number, fractionSeparator: string, fractionDigits: number, hourDigits = 2) => {
+    const fractionUnit = 10 ** (3 - fractionDigits);
+    const totalFraction = Math.round(ms / fractionUnit);
+    const fraction = totalFraction % 10 ** fractionDigits;
+    const totalSeconds = Math.floor(totalFraction / 10 ** fractionDigits);
+    const seconds = totalSeconds % 60;
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const hours = Math.floor(totalSeconds / 3600);
+    return `${pad(hours, hourDigits)}:${pad(minutes, 2)}:${pad(seconds, 2)}${fractionSeparator}${pad(fraction, fractionDigits)}`;
+};
+
+const toSrt = (subtitles: ExportableSubtitle[]) =>
+    subtitles
+        .map((s, i) => `${i + 1}\n${timestamp(s.start, ',', 3)} --> ${timestamp(s.end, ',', 3)}\n${s.text}\n`)
+        .join('\n');
+
+const toVtt = (subtitles: ExportableSubtitle[]) =>
+    [
+        'WEBVTT\n',
+        ...subtitles.map((s) => `${timestamp(s.start, '.', 3)} --> ${timestamp(s.end, '.', 3)}\n${s.text}\n`),
+    ].join('\n');
+
+const assTagByHtmlTag: { [tag: string]: string } = {
+    '<i>': '{\\i1}',
+    '</i>': '{\\i0}',
+    '<b>': '{\\b1}',
+    '</b>': '{\\b0}',
+    '<u>': '{\\u1}',
+    '</u>': '{\\u0}',
+    '<s>': '{\\s1}',
+    '</s>': '{\\s0}',
+};
+
+const assText = (text: string) =>
+    text.replace(/<[^>]*>/g, (tag) => assTagByHtmlTag[tag.toLowerCase()] ?? '').replace(/\r?\n/g, '\\N');
+
+const toAss = (subtitles: ExportableSubtitle[]) =>
+    [
+        '[Script Info]',
+        'ScriptType: v4.00+',
+        'PlayResX: 1920',
+        'PlayResY: 1080',
+        '',
+        '[V4+ Styles]',
+        'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+        'Style: Default,Arial,72,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,0,2,40,40,40,1',
+        '',
+        '[Events]',
+        'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+        ...subtitles.map(
+            (s) =>
+                `Dialogue: 0,${timestamp(s.start, '.', 2, 1)},${timestamp(s.end, '.', 2, 1)},Default,,0,0,0,,${assText(s.text)}`
+        ),
+        '',
+    ].join('\n');
+
+// Seconds and text separated by tabs, which is also the format of Audacity label tracks
+const toTsv = (subtitles: ExportableSubtitle[]) =>
+    subtitles
+        .map(
+            (s) =>
+                `${(s.start / 1000).toFixed(3)}\t${(s.end / 1000).toFixed(3)}\t${s.text.replace(/[\t\r\n]+/g, ' ')}\n`
+        )
+        .join('');
+
+/**
+ * Subtitles to export, in order of time. Subtitles without text (e.g. image-based ones) and subtitles moved
+ * entirely before the start of the media are left out.
+ * @param track The track to export, or undefined to merge all tracks
+ * @param emptyText Whether subtitles without text are exported too, e.g. detected speech to be transcribed later
+ */
+export const exportableSubtitles = <T extends ExportableSubtitle>(
+    subtitles: T[],
+    track?: number,
+    emptyText = false
+): T[] =>
+    subtitles
+        .filter((s) => (track === undefined || s.track === track) && (emptyText || s.text !== '') && s.end > 0)
+        .map((s) => (s.start < 0 ? { ...s, start: 0 } : s))
+        .sort((a, b) => a.start - b.start || a.track - b.track);
+
+/**
+ * Write subtitles to a file in the given format.
+ * @param track The track to export, or undefined to merge all tracks
+ * @param emptyText Whether subtitles without text are exported too
+ */
+export const subtitlesToFormat = (
+    subtitles: ExportableSubtitle[],
+    format: SubtitleExportFormat,
+    track?: number,
+    emptyText = false
+) => {
+    const exported = exportableSubtitles(subtitles, track, emptyText);
+
+    switch (format) {
+        case 'srt':
+            return toSrt(exported);
+        case 'vtt':
+            return toVtt(exported);
+        case 'ass':
+            return toAss(exported);
+        case 'tsv':
+            return toTsv(exported);
+    }
+};
+
+export const subtitleExportMimeType = (format: SubtitleExportFormat) => {
+    switch (format) {
+        case 'vtt':
+            return 'text/vtt';
+        case 'tsv':
+            return 'text/tab-separated-values';
+        default:
+            return 'text/plain';
+    }
+};
@@ -0,0 +1,22 @@
+import { subtitleFormat, subtitleFormatFromFileName, subtitleTrackFiles, vobSubImageFile } from './subtitle-format';
+
+it('finds the format from the extension', () => {
+    expect(subtitleFormatFromFileName('Episode 1.ja.SSA')).toEqual('ass');
+    expect(subtitleFormatFromFileName('episode.sami')).toEqual('smi');
+    expect(subtitleFormatFromFileName('episode.txt')).toBeUndefined();
+    expect(subtitleFormatFromFileName('episode')).toBeUndefined();
+});
+
+it('prefers the format of the content to the extension', () => {
+    expect(subtitleFormat('episode.srt', '﻿WEBVTT\n\n00:00.000 --> 00:01.000\nline')).toEqual('vtt');
+    expect(subtitleFormat('episode.nfvtt', 'WEBVTT\n\n00:00.000 --> 00:01.000\nline')).toEqual('nfvtt');
+    expect(subtitleFormat('episode.json', '{"events":[]}')).toEqual('json3');
+    expect(subtitleFormat('episode.ass', 'unrecognizable')).toEqual('ass');
+    expect(subtitleFormat('episode.txt', 'unrecognizable')).toBeUndefined();
+});
+
+it('reads VobSub .sub files together with their .idx files', () => {
+    const files = [{ name: 'movie.IDX' }, { name: 'movie.sub' }, { name: 'other.sub' }, { name: 'movie.srt' }];
+    expect(vobSubImageFile(files[0], files)).toBe(files[1]);
+    expect(subtitleTrackFiles(files)).toEqual([files[0], files[2], files[3]]);
+});
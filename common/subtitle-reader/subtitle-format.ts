@@ -0,0 +1,140 @@
+/**
+ * Formats that subtitle files are read as. SSA files are read as ASS, DFXP as TTML, and SAMI files may have either
+ * of the .smi and .sami extensions.
+ */
+export type SubtitleFormat =
+    | 'srt'
+    | 'vtt'
+    | 'nfvtt'
+    | 'ass'
+    | 'ytsrv3'
+    | 'ytxml'
+    | 'sup'
+    | 'ttml'
+    | 'bbjson'
+    | 'lrc'
+    | 'sbv'
+    | 'smi'
+    | 'json3'
+    | 'vobsub';
+
+const formatByExtension: { [extension: string]: SubtitleFormat } = {
+    srt: 'srt',
+    subrip: 'srt',
+    vtt: 'vtt',
+    nfvtt: 'nfvtt',
+    ass: 'ass',
+    ssa: 'ass',
+    ytsrv3: 'ytsrv3',
+    ytxml: 'ytxml',
+    sup: 'sup',
+    dfxp: 'ttml',
+    ttml2: 'ttml',
+    bbjson: 'bbjson',
+    lrc: 'lrc',
+    sbv: 'sbv',
+    smi: 'smi',
+    sami: 'smi',
+    json3: 'json3',
+    idx: 'vobsub',
+};
+
+// Checked in order, so that the more specific signatures are checked before the looser ones
+const formatSignatures: [SubtitleFormat, RegExp][] = [
+    ['sup', /^PG/],
+    ['vtt', /^WEBVTT/],
+    ['vobsub', /^# VobSub index file/],
+    ['ass', /^\[Script Info\]/i],
+    ['smi', /^<SAMI[\s>]/i],
+    ['ytsrv3', /^(<\?xml[^>]*>\s*)?<timedtext[\s>]/],
+    ['ytxml', /^(<\?xml[^>]*>\s*)?<transcript[\s>]/],
+    ['ttml', /^(<\?xml[^>]*>\s*)?<(\w+:)?tt[\s>]/],
+    ['srt', /^\d+[ \t]*\r?\n\s*\d+:\d{2}:\d{2}[,.]\d{1,3}\s*-->/],
+    ['sbv', /^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}[ \t]*$/m],
+    ['lrc', /^\[\d+:\d{2}(\.\d+)?\]/m],
+];
+
+const jsonFormat = (text: string): SubtitleFormat | undefined => {
+    try {
+        const json = JSON.parse(text);
+
+        if (Array.isArray(json?.events)) {
+            return 'json3';
+        }
+
+        if (Array.isArray(json?.body)) {
+            return 'bbjson';
+        }
+    } catch (e) {
+        // Not JSON after all
+    }
+
+    return undefined;
+};
+
+const contentFormat = (text: string): SubtitleFormat | undefined => {
+    // trimStart also drops the byte order mark
+    const trimmed = text.trimStart();
+
+    if (trimmed.startsWith('{')) {
+        return jsonFormat(trimmed);
+    }
+
+    return formatSignatures.find(([, signature]) => signature.test(trimmed))?.[0];
+};
+
+export const subtitleFormatFromFileName = (fileName: string): SubtitleFormat | undefined => {
+    const extensionStartIndex = fileName.lastIndexOf('.');
+
+    if (extensionStartIndex === -1) {
+        return undefined;
+    }
+
+    return formatByExtension[fileName.substring(extensionStartIndex + 1).toLowerCase()];
+};
+
+const fileExtension = (fileName: string) => fileName.substring(fileName.lastIndexOf('.') + 1).toLowerCase();
+
+const fileBaseName = (fileName: string) => {
+    const extensionStartIndex = fileName.lastIndexOf('.');
+    return (extensionStartIndex === -1 ? fileName : fileName.substring(0, extensionStartIndex)).toLowerCase();
+};
+
+/**
+ * The .sub file with the images of a VobSub .idx file, which is the file with the same name and the .sub extension.
+ */
+export const vobSubImageFile = <T extends { name: string }>(indexFile: T, files: T[]): T | undefined =>
+    files.find(
+        (f) =>
+            f !== indexFile && fileExtension(f.name) === 'sub' && fileBaseName(f.name) === fileBaseName(indexFile.name)
+    );
+
+/**
+ * Files that are each read as a subtitle track. VobSub .sub files are left out since they are read together with
+ * their .idx files.
+ */
+export const subtitleTrackFiles = <T extends { name: string }>(files: T[]): T[] =>
+    files.filter(
+        (f) =>
+            fileExtension(f.name) !== 'sub' ||
+            !files.some(
+                (indexFile) => fileExtension(indexFile.name) === 'idx' && vobSubImageFile(indexFile, files) === f
+            )
+    );
+
+/**
+ * Format to read a subtitle file as. The content of the file decides the format when it is recognizable, since
+ * subtitles are often saved with the wrong extension, and the extension decides it otherwise.
+ * @returns The format, or undefined if neither the content nor the extension are of a supported format
+ */
+export const subtitleFormat = (fileName: string, text: string): SubtitleFormat | undefined => {
+    const extensionFormat = subtitleFormatFromFileName(fileName);
+    const format = contentFormat(text);
+
+    // Netflix subtitles are WebVTT that need some extra fixing up
+    if (format === undefined || (format === 'vtt' && extensionFormat === 'nfvtt')) {
+        return extensionFormat;
+    }
+
+    return format;
+};
@@ -0,0 +1,174 @@
+import { SubtitleHtml } from '@project/common';
+import { VTTCue } from 'vtt.js';
+import SubtitleReader from './subtitle-reader';
+
+// jsdom does not implement cues, so the ones browsers implement are filled in by those of the WebVTT parser
+window.VTTCue = VTTCue;
+
+const reader = new SubtitleReader({
+    regexFilter: '',
+    regexFilterTextReplacement: '',
+    subtitleHtml: SubtitleHtml.render,
+    convertNetflixRuby: false,
+    styleFilter: '',
+    pgsParserWorkerFactory: () => Promise.reject(new Error('PGS is not read in tests')),
+});
+
+// jsdom files cannot be read as text
+const file = (name: string, content: string) => ({ name, text: async () => content }) as unknown as File;
+
+const read = async (name: string, content: string) =>
+    (await reader.subtitles([file(name, content)])).map(({ start, end, text }) => ({ start, end, text }));
+
+const expected = [
+    { start: 1000, end: 2500, text: 'first\nline' },
+    { start: 3000, end: 4000, text: 'second' },
+];
+
+const fixtures: { [name: string]: string } = {
+    'srt.srt': `1
+00:00:01,000 --> 00:00:02,500
+first
+line
+
+2
+00:00:03,000 --> 00:00:04,000
+second
+`,
+    'vtt.vtt': `WEBVTT
+
+00:00:01.000 --> 00:00:02.500
+first
+line
+
+00:00:03.000 --> 00:00:04.000
+second
+`,
+    'ass.ass': `[Script Info]
+ScriptType: v4.00+
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,first\\Nline
+Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,second
+`,
+    'ssa.ssa': `[Script Info]
+ScriptType: v4.00
+
+[V4 Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding
+Style: Default,Arial,20,16777215,65535,65535,-2147483640,-1,0,1,3,0,2,30,30,30,0,0
+
+[Events]
+Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: Marked=0,0:00:01.00,0:00:02.50,Default,,0000,0000,0000,,first\\Nline
+Dialogue: Marked=0,0:00:03.00,0:00:04.00,Default,,0000,0000,0000,,second
+`,
+    'ttml.dfxp': `<?xml version="1.0" encoding="utf-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml"><body><div>
+<p begin="00:00:01.000" end="00:00:02.500">first<br/>line</p>
+<p begin="00:00:03.000" end="00:00:04.000">second</p>
+</div></body></tt>
+`,
+    'ytxml.ytxml': `<?xml version="1.0" encoding="utf-8" ?><transcript>
+<text start="1" dur="1.5">first
+line</text>
+<text start="3" dur="1">second</text>
+</transcript>
+`,
+    'bbjson.bbjson': JSON.stringify({
+        body: [
+            { from: 1, to: 2.5, content: 'first\nline' },
+            { from: 3, to: 4, content: 'second' },
+        ],
+    }),
+    'sbv.sbv': `0:00:01.000,0:00:02.500
+first
+line
+
+0:00:03.000,0:00:04.000
+second
+`,
+    'smi.smi': `<SAMI>
+<HEAD>
+<STYLE TYPE="text/css">
+<!--
+P { font-family: sans-serif; }
+.KRCC { Name: Korean; lang: ko-KR; }
+-->
+</STYLE>
+</HEAD>
+<BODY>
+<SYNC Start=1000><P Class=KRCC>
+first<br>line
+<SYNC Start=2500><P Class=KRCC>&nbsp;
+<SYNC Start=3000><P Class=KRCC>second
+<SYNC Start=4000><P Class=KRCC>&nbsp;
+</BODY>
+</SAMI>
+`,
+    'json3.json3': JSON.stringify({
+        wireMagic: 'pb3',
+        events: [
+            { tStartMs: 0, dDurationMs: 5000, id: 1, wpWinPosId: 1, wsWinStyleId: 1 },
+            { tStartMs: 1000, dDurationMs: 1500, wWinId: 1, segs: [{ utf8: 'first' }, { utf8: '\nline' }] },
+            { tStartMs: 2500, dDurationMs: 500, wWinId: 1, aAppend: 1, segs: [{ utf8: '\n' }] },
+            { tStartMs: 3000, dDurationMs: 1000, wWinId: 1, segs: [{ utf8: 'sec' }, { utf8: 'ond', tOffsetMs: 300 }] },
+        ],
+    }),
+};
+
+it.each(Object.keys(fixtures))('reads %s', async (name) => {
+    expect(await read(name, fixtures[name])).toEqual(expected);
+});
+
+it.each(Object.keys(fixtures))('reads %s with the wrong extension', async (name) => {
+    expect(await read('subtitles.txt', fixtures[name])).toEqual(expected);
+});
+
+it('reads multiple SAMI classes as separate lines', async () => {
+    const sami = `<SAMI><BODY>
+<SYNC Start=1000><P Class=KRCC>첫째<P Class=ENCC>first
+<SYNC Start=2000><P Class=ENCC>&nbsp;
+<SYNC Start=2500><P Class=KRCC>&nbsp;
+</BODY></SAMI>`;
+    expect(await read('subtitles.smi', sami)).toEqual([
+        { start: 1000, end: 2500, text: '첫째' },
+        { start: 1000, end: 2000, text: 'first' },
+    ]);
+});
+
+// LRC has no line breaks, so it is left out of the fixtures above
+const lrc = `[ar:Artist]
+[ti:Title]
+[offset:+500]
+[00:01.50]first
+[00:03.00]
+[00:03.50]<00:03.50>sec<00:03.80>ond
+[00:04.50]
+`;
+
+it('reads lrc, dropping word timing and applying the offset', async () => {
+    const expectedLines = [
+        { start: 1000, end: 2500, text: 'first' },
+        { start: 3000, end: 4000, text: 'second' },
+    ];
+    expect(await read('lyrics.lrc', lrc)).toEqual(expectedLines);
+    expect(await read('lyrics.txt', lrc)).toEqual(expectedLines);
+});
+
+it('shows repeated LRC lines at each of their times, and the last line for a while', async () => {
+    expect(await read('lyrics.lrc', '[00:01.00][00:05.00]chorus\n[00:03.00]verse')).toEqual([
+        { start: 1000, end: 3000, text: 'chorus' },
+        { start: 3000, end: 5000, text: 'verse' },
+        { start: 5000, end: 10000, text: 'chorus' },
+    ]);
+});
+
+it('rejects files of unsupported formats', async () => {
+    await expect(read('subtitles.txt', 'just some text')).rejects.toThrow('Unsupported subtitle file format');
+});
@@ -2,19 +2,41 @@ import { compile as parseAss } from 'ass-compiler';
 import SrtParser from '@qgustavor/srt-parser';
 import { WebVTT } from 'vtt.js';
 import { XMLParser } from 'fast-xml-parser';
-import { SubtitleHtml, SubtitleTextImage } from '@project/common';
+import { SubtitleHtml, SubtitleStyling, SubtitleTextImage } from '@project/common';
+import type { RgbaImage, SubtitleTextRecognizer } from '../subtitle-ocr';
+import { subtitleFormat, subtitleFormatFromFileName, subtitleTrackFiles, vobSubImageFile } from './subtitle-format';
+import { decodeVobSubSubpictureUnit, parseVobSubIndex, vobSubSubpictureUnit } from './vobsub-parser';
+import { assStyling, styleFilterRegex } from './subtitle-styling';
 
 const vttClassRegex = /<(\/)?c(\.[^>]*)?>/g;
 const assNewLineRegex = RegExp(/\\[nN]/, 'ig');
 const netflixRubyRegex = /([\p{sc=Hira}\p{sc=Kana}\p{sc=Han}々〆〤ヶ]+)\((?=[^)]*[\p{sc=Hira}\p{sc=Kana}])([^)]+)\)/gu;
+const lrcOffsetRegex = /^\[offset:\s*([+-]?\d+)\s*\]/i;
+const lrcTimestampsRegex = /^(\[\d+:\d{2}(\.\d+)?\])+/;
+const lrcTimestampRegex = /\[(\d+:\d{2}(\.\d+)?)\]/g;
+const lrcWordTimestampRegex = /<\d+:\d{2}(\.\d+)?>/g;
+const sbvTimestampsRegex = /^(\d+:\d{2}:\d{2}\.\d{3}),(\d+:\d{2}:\d{2}\.\d{3})$/;
+const samiSyncRegex = /<sync\s[^>]*?start\s*=\s*["']?(\d+)[^>]*>/gi;
+const samiParagraphRegex = /<p(\s[^>]*)?>/gi;
+const samiClassRegex = /class\s*=\s*["']?([^\s"'>]+)/i;
+const samiBreakRegex = /<br\s*\/?>/gi;
 const helperElement = document.createElement('div');
 
+// How long the last line is shown in formats where a line is only ended by the next one
+const openEndedLineDuration = 5000;
+
 interface SubtitleNode {
     start: number;
     end: number;
     text: string;
     textImage?: SubtitleTextImage;
     track: number;
+    styling?: SubtitleStyling;
+}
+
+interface TimedLine {
+    start: number;
+    text: string;
 }
 
 export interface TextFilter {
@@ -56,11 +78,22 @@ const sortVttCues = (list: VTTCue[]) => {
     return list.sort(sortVttCue);
 };
 
+// Each line is shown until the next one, which may be an empty line that only clears the previous one
+const linesUntilNext = (lines: TimedLine[], track: number): SubtitleNode[] =>
+    lines.map((line, index) => ({
+        start: line.start,
+        end: index + 1 < lines.length ? lines[index + 1].start : line.start + openEndedLineDuration,
+        text: line.text,
+        track,
+    }));
+
 export default class SubtitleReader {
     private readonly _textFilter?: TextFilter;
     private readonly _removeXml: boolean;
     private readonly _convertNetflixRuby: boolean;
+    private readonly _styleFilter?: RegExp;
     private readonly _pgsWorkerFactory: () => Promise<Worker>;
+    private readonly _textRecognizer?: SubtitleTextRecognizer;
     private xmlParser?: XMLParser;
 
     constructor({
@@ -68,13 +101,18 @@ export default class SubtitleReader {
         regexFilterTextReplacement,
         subtitleHtml,
         convertNetflixRuby,
+        styleFilter,
         pgsParserWorkerFactory: pgsWorkerFactory,
+        textRecognizer,
     }: {
         regexFilter: string;
         regexFilterTextReplacement: string;
         subtitleHtml: SubtitleHtml;
         convertNetflixRuby: boolean;
+        styleFilter: string;
         pgsParserWorkerFactory: () => Promise<Worker>;
+        // Recognizes the text of image-based subtitles, which are otherwise only shown as images
+        textRecognizer?: SubtitleTextRecognizer;
     }) {
         let regex: RegExp | undefined;
 
@@ -92,12 +130,25 @@ export default class SubtitleReader {
 
         this._removeXml = subtitleHtml === SubtitleHtml.remove;
         this._convertNetflixRuby = convertNetflixRuby;
+        this._styleFilter = styleFilterRegex(styleFilter);
 
         this._pgsWorkerFactory = pgsWorkerFactory;
+        this._textRecognizer = textRecognizer;
     }
 
     async subtitles(files: File[], flatten?: boolean) {
-        const allNodes = (await Promise.all(files.map((f, i) => this._subtitles(f, flatten === true ? 0 : i))))
+        let fileNodes: SubtitleNode[][];
+
+        try {
+            fileNodes = await Promise.all(
+                subtitleTrackFiles(files).map((f, i) => this._subtitles(f, flatten === true ? 0 : i, files))
+            );
+        } finally {
+            // The recognizer is only needed again when more subtitles are read, so its memory is freed in the meantime
+            await this._textRecognizer?.terminate();
+        }
+
+        const allNodes = fileNodes
             .flatMap((nodes) => nodes)
             .filter((node) => node.textImage !== undefined || node.text !== '')
             .sort((n1, n2) => n1.start - n2.start);
@@ -129,10 +180,20 @@ export default class SubtitleReader {
         return a.start === b.start && a.end === b.end && a.text === b.text;
     }
 
-    async _subtitles(file: File, track: number): Promise<SubtitleNode[]> {
-        if (file.name.endsWith('.srt') || file.name.endsWith('.subrip')) {
+    /**
+     * @param files All files being read, among which the .sub file of a VobSub .idx file is found
+     */
+    async _subtitles(file: File, track: number, files: File[] = [file]): Promise<SubtitleNode[]> {
+        if (subtitleFormatFromFileName(file.name) === 'sup') {
+            return await this._parsePgs(file, track);
+        }
+
+        const text = await file.text();
+        const format = subtitleFormat(file.name, text);
+
+        if (format === 'srt') {
             const parser = new SrtParser({ numericTimestamps: true });
-            const nodes = parser.fromSrt(await file.text());
+            const nodes = parser.fromSrt(text);
             return nodes.map((node) => {
                 return {
                     start: Math.floor((node.startTime as number) * 1000),
@@ -143,9 +204,9 @@ export default class SubtitleReader {
             });
         }
 
-        if (file.name.endsWith('.vtt') || file.name.endsWith('.nfvtt')) {
+        if (format === 'vtt' || format === 'nfvtt') {
             return new Promise(async (resolve, reject) => {
-                const isFromNetflix = file.name.endsWith('.nfvtt');
+                const isFromNetflix = format === 'nfvtt';
                 const parser = new WebVTT.Parser(window, WebVTT.StringDecoder());
                 const allBuffers: VTTCue[][] = [];
                 let lastTimestamp: number | undefined = undefined;
@@ -194,27 +255,33 @@ export default class SubtitleReader {
 
                     resolve(nodes);
                 };
-                parser.parse(await file.text());
+                parser.parse(text);
                 parser.flush();
             });
         }
 
-        if (file.name.endsWith('.ass')) {
-            const nodes = parseAss(await file.text(), {});
-            return nodes.dialogues.map((dialogue) => {
-                return {
-                    start: Math.round(dialogue.start * 1000),
-                    end: Math.round(dialogue.end * 1000),
-                    text: this._filterText(
-                        dialogue.slices.flatMap((slice) => slice.fragments.map((fragment) => fragment.text)).join('')
-                    ).replace(assNewLineRegex, '\n'),
-                    track: track,
-                };
-            });
+        if (format === 'ass') {
+            const ass = parseAss(text, {});
+            return ass.dialogues
+                .filter((dialogue) => !this._styleFilter?.test(dialogue.style))
+                .map((dialogue) => {
+                    const text = dialogue.slices
+                        .flatMap((slice) => slice.fragments.map((fragment) => fragment.text))
+                        .join('');
+                    const filteredText = this._filterText(text);
+                    const styling = assStyling(dialogue, ass);
+                    return {
+                        start: Math.round(dialogue.start * 1000),
+                        end: Math.round(dialogue.end * 1000),
+                        text: filteredText.replace(assNewLineRegex, '\n'),
+                        track: track,
+                        // Styled text would bring back what filters removed
+                        styling: filteredText === text ? styling : { ...styling, fragments: undefined },
+                    };
+                });
         }
 
-        if (file.name.endsWith('.ytsrv3')) {
-            const text = await file.text();
+        if (format === 'ytsrv3') {
             const xml = this._xmlParser().parse(text);
             const subtitleRows = xml['timedtext']['body']['p'];
             const subtitles: SubtitleNode[] = [];
@@ -283,8 +350,7 @@ export default class SubtitleReader {
             return subtitles;
         }
 
-        if (file.name.endsWith('.ytxml')) {
-            const text = await file.text();
+        if (format === 'ytxml') {
             const xml = this._xmlParser().parse(text);
 
             if (Object.keys(xml).length === 0) {
@@ -338,12 +404,11 @@ export default class SubtitleReader {
             return subtitles;
         }
 
-        if (file.name.endsWith('.sup')) {
+        if (format === 'sup') {
             return await this._parsePgs(file, track);
         }
 
-        if (file.name.endsWith('.dfxp') || file.name.endsWith('ttml2')) {
-            const text = await file.text();
+        if (format === 'ttml') {
             const parser = new DOMParser();
             const doc = parser.parseFromString(text, 'application/xml');
             const nodes = this._xmlNodePath(doc.documentElement, ['body', 'div']);
@@ -370,8 +435,8 @@ export default class SubtitleReader {
             return subtitles;
         }
 
-        if (file.name.endsWith('.bbjson')) {
-            const body = JSON.parse(await file.text()).body;
+        if (format === 'bbjson') {
+            const body = JSON.parse(text).body;
             return body.map((s: any) => ({
                 text: s.content,
                 start: s.from * 1000,
@@ -380,24 +445,258 @@ export default class SubtitleReader {
             }));
         }
 
+        if (format === 'lrc') {
+            return this._parseLrc(text, track);
+        }
+
+        if (format === 'sbv') {
+            return this._parseSbv(text, track);
+        }
+
+        if (format === 'smi') {
+            return this._parseSami(text, track);
+        }
+
+        if (format === 'json3') {
+            return this._parseJson3(text, track);
+        }
+
+        if (format === 'vobsub') {
+            return await this._parseVobSub(text, file, files, track);
+        }
+
         throw new Error('Unsupported subtitle file format');
     }
 
-    private _parsePgs(file: File, track: number): Promise<SubtitleNode[]> {
+    private _parseLrc(text: string, track: number): SubtitleNode[] {
+        const lines: TimedLine[] = [];
+        let offset = 0;
+
+        for (const line of text.split(/\r?\n/)) {
+            const offsetMatch = line.match(lrcOffsetRegex);
+
+            if (offsetMatch !== null) {
+                // A positive offset shows the lyrics sooner
+                offset = Number(offsetMatch[1]);
+                continue;
+            }
+
+            const timestampsMatch = line.match(lrcTimestampsRegex);
+
+            if (timestampsMatch === null) {
+                continue;
+            }
+
+            // Enhanced LRC times each word, which is more than subtitles can show
+            const lineText = this._filterText(
+                line.substring(timestampsMatch[0].length).replace(lrcWordTimestampRegex, '').trim()
+            );
+
+            // Repeated lines, e.g. a chorus, are written once with all the times they appear at
+            for (const timestamp of timestampsMatch[0].matchAll(lrcTimestampRegex)) {
+                lines.push({ start: this._parseTtmlTimestamp(timestamp[1]), text: lineText });
+            }
+        }
+
+        return linesUntilNext(
+            lines
+                .map((line) => ({ ...line, start: Math.max(0, line.start - offset) }))
+                .sort((a, b) => a.start - b.start),
+            track
+        );
+    }
+
+    private _parseSbv(text: string, track: number): SubtitleNode[] {
         const subtitles: SubtitleNode[] = [];
+
+        for (const block of text.split(/\r?\n[ \t]*\r?\n/)) {
+            const [timestamps, ...lines] = block.trim().split(/\r?\n/);
+            const timestampsMatch = timestamps.trim().match(sbvTimestampsRegex);
+
+            if (timestampsMatch === null) {
+                continue;
+            }
+
+            subtitles.push({
+                start: this._parseTtmlTimestamp(timestampsMatch[1]),
+                end: this._parseTtmlTimestamp(timestampsMatch[2]),
+                text: this._filterText(lines.join('\n')),
+                track,
+            });
+        }
+
+        return subtitles;
+    }
+
+    private _parseSami(text: string, track: number): SubtitleNode[] {
+        const syncs = [...text.matchAll(samiSyncRegex)];
+
+        // Each class is usually a different language, with its own lines that are cleared independently of the others
+        const linesByClass: { [className: string]: TimedLine[] } = {};
+
+        for (let i = 0; i < syncs.length; ++i) {
+            const sync = syncs[i];
+            const start = Number(sync[1]);
+            const body = text.substring(sync.index! + sync[0].length, syncs[i + 1]?.index ?? text.length);
+            const paragraphs = [...body.matchAll(samiParagraphRegex)];
+            const parts =
+                paragraphs.length === 0
+                    ? [{ className: '', html: body }]
+                    : paragraphs.map((paragraph, j) => ({
+                          className: paragraph[1]?.match(samiClassRegex)?.[1]?.toLowerCase() ?? '',
+                          html: body.substring(paragraph.index! + paragraph[0].length, paragraphs[j + 1]?.index),
+                      }));
+
+            for (const { className, html } of parts) {
+                // Like in HTML, only breaks are line breaks, and &nbsp; alone is an empty line
+                const lineText = this._decodeHTML(html.replace(/\s*\r?\n\s*/g, ' ').replace(samiBreakRegex, '\n'))
+                    .split('\n')
+                    .map((line) => line.trim())
+                    .join('\n')
+                    .trim();
+                const lines = linesByClass[className] ?? [];
+                lines.push({ start, text: this._filterText(lineText) });
+                linesByClass[className] = lines;
+            }
+        }
+
+        return Object.values(linesByClass).flatMap((lines) => linesUntilNext(lines, track));
+    }
+
+    private _parseJson3(text: string, track: number): SubtitleNode[] {
+        const events = JSON.parse(text).events;
+        const subtitles: SubtitleNode[] = [];
+
+        for (const event of events) {
+            // Events without segments only define windows, and appended events only add line breaks
+            if (typeof event.tStartMs !== 'number' || !Array.isArray(event.segs)) {
+                continue;
+            }
+
+            const eventText = event.segs
+                .map((seg: any) => (typeof seg.utf8 === 'string' ? seg.utf8 : ''))
+                .join('')
+                .trim();
+
+            if (eventText === '') {
+                continue;
+            }
+
+            subtitles.push({
+                start: event.tStartMs,
+                end: event.tStartMs + (event.dDurationMs ?? 0),
+                text: this._filterText(eventText),
+                track,
+            });
+        }
+
+        return subtitles;
+    }
+
+    private async _parseVobSub(text: string, file: File, files: File[], track: number): Promise<SubtitleNode[]> {
+        const imageFile = vobSubImageFile(file, files);
+
+        if (imageFile === undefined) {
+            throw new Error('VobSub .idx files need to be loaded together with their .sub files');
+        }
+
+        const index = parseVobSubIndex(text);
+        const sub = new Uint8Array(await imageFile.arrayBuffer());
+
+        // Only the first language of VobSubs with several languages is read
+        const stream = index.streams.find((s) => s.timestamps.length > 0);
+
+        if (stream === undefined) {
+            return [];
+        }
+
+        const subtitles: SubtitleNode[] = [];
+
+        for (let i = 0; i < stream.timestamps.length; ++i) {
+            const { time, filePosition } = stream.timestamps[i];
+            const unit = vobSubSubpictureUnit(sub, filePosition, stream.index);
+            const decoded = unit === undefined ? undefined : decodeVobSubSubpictureUnit(unit, index.palette);
+
+            if (decoded === undefined) {
+                continue;
+            }
+
+            const nextTime = stream.timestamps[i + 1]?.time;
+            const start = time + decoded.start;
+            const end = decoded.end === undefined ? (nextTime ?? start + openEndedLineDuration) : time + decoded.end;
+            subtitles.push({
+                start: Math.round(start),
+                end: Math.round(end),
+                text: await this._recognizeText(decoded.image),
+                textImage: {
+                    dataUrl: this._rgbaToDataUrl(decoded.image),
+                    image: { width: decoded.image.width, height: decoded.image.height },
+                    screen: { width: index.width, height: index.height },
+                },
+                track,
+            });
+        }
+
+        return subtitles;
+    }
+
+    private async _recognizeText(image: RgbaImage) {
+        if (this._textRecognizer === undefined) {
+            return '';
+        }
+
+        try {
+            return this._filterText(await this._textRecognizer.recognize(image));
+        } catch (e) {
+            // The image is still shown when its text can't be recognized
+            console.error(e);
+            return '';
+        }
+    }
+
+    private _rgbaToDataUrl({ data, width, height }: RgbaImage) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')!.putImageData(new ImageData(data, width, height), 0, 0);
+        return canvas.toDataURL('image/png');
+    }
+
+    private async _blobToRgbaImage(blob: Blob): Promise<RgbaImage> {
+        const bitmap = await createImageBitmap(blob);
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const context = canvas.getContext('2d')!;
+        context.drawImage(bitmap, 0, 0);
+        bitmap.close();
+        return context.getImageData(0, 0, canvas.width, canvas.height);
+    }
+
+    private async _pgsSubtitle(subtitle: SubtitleNode, imageBlob: Blob, track: number): Promise<SubtitleNode> {
+        const dataUrl = await this._blobToDataUrl(imageBlob);
+        const text =
+            this._textRecognizer === undefined ? '' : await this._recognizeText(await this._blobToRgbaImage(imageBlob));
+        return { ...subtitle, text, track, textImage: { ...subtitle.textImage!, dataUrl } };
+    }
+
+    private _parsePgs(file: File, track: number): Promise<SubtitleNode[]> {
+        const subtitles: Promise<SubtitleNode>[] = [];
         return new Promise(async (resolve, reject) => {
             const worker = await this._pgsWorkerFactory();
             worker.onmessage = async (e) => {
                 switch (e.data.command) {
                     case 'subtitle':
-                        const subtitle = { ...e.data.subtitle, track };
-                        const imageBlob = e.data.imageBlob;
-                        subtitle.textImage.dataUrl = await this._blobToDataUrl(imageBlob);
-                        subtitles.push(subtitle);
+                        // One at a time, so that only one image is decoded for text recognition at once
+                        const previous = subtitles[subtitles.length - 1];
+                        const { subtitle, imageBlob } = e.data;
+                        subtitles.push(
+                            previous === undefined
+                                ? this._pgsSubtitle(subtitle, imageBlob, track)
+                                : previous.then(() => this._pgsSubtitle(subtitle, imageBlob, track))
+                        );
                         break;
                     case 'finished':
                         worker.terminate();
-                        resolve(subtitles);
+                        Promise.all(subtitles).then(resolve, reject);
                         break;
                     case 'error':
                         worker.terminate();
@@ -423,11 +722,11 @@ export default class SubtitleReader {
     }
 
     private _blobToDataUrl(blob: Blob) {
-        return new Promise((resolve, reject) => {
+        return new Promise<string>((resolve, reject) => {
             var reader = new FileReader();
             reader.readAsDataURL(blob);
             reader.onloadend = () => {
-                resolve(reader.result);
+                resolve(reader.result as string);
             };
         });
     }
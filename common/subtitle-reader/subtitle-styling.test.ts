@@ -0,0 +1,93 @@
+import { compile } from 'ass-compiler';
+import {
+    assStyling,
+    positionTextAlign,
+    positionedAtTop,
+    styleFilterRegex,
+    styledSubtitleHtml,
+} from './subtitle-styling';
+
+const compiledDialogue = (text: string, style = 'Default') => {
+    const ass = compile(
+        `[Script Info]
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1
+Style: Sign,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,-1,0,0,0,100,100,0,0,1,2,2,8,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:02.00,${style},,0,0,0,,${text}`,
+        {}
+    );
+    return { dialogue: ass.dialogues[0], ass };
+};
+
+it('keeps inline colors and font styles', () => {
+    const { dialogue, ass } = compiledDialogue('{\\c&H0000FF&}red{\\c\\i1} italic');
+    const styling = assStyling(dialogue, ass);
+    expect(styling.styleName).toEqual('Default');
+    expect(styling.position).toBeUndefined();
+    expect(styling.fragments?.map((f) => [f.text, f.color, f.italic])).toEqual([
+        ['red', '#FF0000', false],
+        [' italic', undefined, true],
+    ]);
+});
+
+it('takes font styles from the dialogue style', () => {
+    const { dialogue, ass } = compiledDialogue('sign', 'Sign');
+    const styling = assStyling(dialogue, ass);
+    expect(styling.fragments?.[0].bold).toBe(true);
+    expect(styling.position).toEqual({ alignment: 8 });
+    expect(positionedAtTop(styling.position!)).toBe(true);
+});
+
+it('times karaoke syllables', () => {
+    const { dialogue, ass } = compiledDialogue('{\\k50}ka{\\kf30}ra{\\k20}o\\Nke');
+    const styling = assStyling(dialogue, ass);
+    expect(styling.fragments?.map((f) => f.karaoke)).toEqual([
+        { start: 0, end: 500 },
+        { start: 500, end: 800 },
+        { start: 800, end: 1000 },
+    ]);
+    expect(styling.fragments?.[2].text).toEqual('o\nke');
+});
+
+it('places positioned dialogue relative to the script resolution', () => {
+    const { dialogue, ass } = compiledDialogue('{\\an7\\pos(480,270)}top left');
+    const position = assStyling(dialogue, ass).position!;
+    expect(position).toEqual({ alignment: 7, x: 0.25, y: 0.25 });
+    expect(positionedAtTop(position)).toBe(true);
+    expect(positionTextAlign(position)).toEqual('left');
+    expect(positionTextAlign({ alignment: 3 })).toEqual('right');
+    expect(positionTextAlign({ alignment: 2 })).toEqual('center');
+    expect(positionedAtTop({ alignment: 8, y: 0.9 })).toBe(false);
+});
+
+it('renders styled fragments line by line', () => {
+    const lines = styledSubtitleHtml(
+        [
+            { text: '<a> & ', bold: true },
+            { text: 'b\nc', underline: true, strikeout: true, karaoke: { start: 100, end: 300 } },
+            { text: 'd' },
+        ],
+        true
+    );
+    expect(lines).toEqual([
+        '<span style="font-weight:bold">&lt;a&gt; &amp; </span><span class="asbplayer-karaoke" style="text-decoration:underline line-through;animation-delay:100ms;animation-duration:200ms">b</span>',
+        '<span class="asbplayer-karaoke" style="text-decoration:underline line-through;animation-delay:100ms;animation-duration:200ms">c</span>d',
+    ]);
+    expect(styledSubtitleHtml([{ text: 'a', karaoke: { start: 0, end: 100 } }], false)).toEqual(['a']);
+});
+
+it('compiles style filters', () => {
+    const filter = styleFilterRegex('^(signs?|ts)\\b')!;
+    expect(filter.test('Signs')).toBe(true);
+    expect(filter.test('TS-Top')).toBe(true);
+    expect(filter.test('Default')).toBe(false);
+    expect(styleFilterRegex(' ')).toBeUndefined();
+    expect(styleFilterRegex('(')).toBeUndefined();
+});
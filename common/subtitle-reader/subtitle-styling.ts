@@ -0,0 +1,165 @@
+import type { CompiledASS, Dialogue } from 'ass-compiler';
+import type { StyledSubtitleFragment, SubtitlePosition, SubtitleStyling } from '@project/common';
+
+const assNewLineRegex = /\\[nN]/g;
+
+// ASS colors are written blue first
+const assColor = (bbggrr: string) => `#${bbggrr.slice(4, 6)}${bbggrr.slice(2, 4)}${bbggrr.slice(0, 2)}`;
+
+/**
+ * Styling of an ASS dialogue. Colors are only kept where they are overridden inline with a color other than the style's,
+ * so that the color chosen in the subtitle appearance settings still applies to the rest of the text.
+ * @param ass The compiled subtitle file, for its styles and script resolution
+ */
+export const assStyling = (
+    dialogue: Dialogue,
+    ass: Pick<CompiledASS, 'width' | 'height' | 'styles'>
+): SubtitleStyling => {
+    const fragments: StyledSubtitleFragment[] = [];
+    let karaokeTime = 0;
+
+    for (const slice of dialogue.slices) {
+        const styleTag = ass.styles[slice.style]?.tag;
+
+        for (const { tag, text, drawing } of slice.fragments) {
+            if (drawing) {
+                continue;
+            }
+
+            // Karaoke durations are in centiseconds
+            const karaokeDuration = tag.k ?? tag.kf ?? tag.ko ?? tag.kt;
+            let karaoke: StyledSubtitleFragment['karaoke'];
+
+            if (karaokeDuration !== undefined) {
+                karaoke = { start: karaokeTime, end: karaokeTime + karaokeDuration * 10 };
+                karaokeTime = karaoke.end;
+            }
+
+            fragments.push({
+                text: text.replace(assNewLineRegex, '\n'),
+                color: tag.c1 === undefined || tag.c1 === styleTag?.c1 ? undefined : assColor(tag.c1),
+                bold: (tag.b ?? styleTag?.b) === 1,
+                italic: (tag.i ?? styleTag?.i) === 1,
+                underline: (tag.u ?? styleTag?.u) === 1,
+                strikeout: (tag.s ?? styleTag?.s) === 1,
+                karaoke,
+            });
+        }
+    }
+
+    const anchor = dialogue.pos ?? (dialogue.move ? { x: dialogue.move.x1, y: dialogue.move.y1 } : undefined);
+    let position: SubtitlePosition | undefined;
+
+    if (anchor !== undefined && ass.width > 0 && ass.height > 0) {
+        position = { alignment: dialogue.alignment, x: anchor.x / ass.width, y: anchor.y / ass.height };
+    } else if (dialogue.alignment !== 2) {
+        position = { alignment: dialogue.alignment };
+    }
+
+    return { styleName: dialogue.style, position, fragments };
+};
+
+/**
+ * Whether a subtitle should be shown at the top of the video rather than the bottom.
+ * Explicitly placed subtitles go to the half of the video they are placed in.
+ */
+export const positionedAtTop = (position: SubtitlePosition) => {
+    if (position.y !== undefined) {
+        return position.y < 0.5;
+    }
+
+    return position.alignment >= 7;
+};
+
+export const positionTextAlign = (position: SubtitlePosition) => {
+    switch (position.alignment % 3) {
+        case 1:
+            return 'left';
+        case 0:
+            return 'right';
+        default:
+            return 'center';
+    }
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Render styled fragments to HTML, one string per line of text.
+ * @param karaoke Whether to animate karaoke syllables as they are sung, through the asbplayer-karaoke class
+ */
+export const styledSubtitleHtml = (fragments: StyledSubtitleFragment[], karaoke: boolean): string[] => {
+    const lines: string[] = [''];
+
+    for (const fragment of fragments) {
+        const styles: string[] = [];
+        const decorations: string[] = [];
+
+        if (fragment.color !== undefined) {
+            styles.push(`color:${fragment.color}`);
+        }
+
+        if (fragment.bold) {
+            styles.push('font-weight:bold');
+        }
+
+        if (fragment.italic) {
+            styles.push('font-style:italic');
+        }
+
+        if (fragment.underline) {
+            decorations.push('underline');
+        }
+
+        if (fragment.strikeout) {
+            decorations.push('line-through');
+        }
+
+        if (decorations.length > 0) {
+            styles.push(`text-decoration:${decorations.join(' ')}`);
+        }
+
+        const animated = karaoke && fragment.karaoke !== undefined;
+
+        if (animated) {
+            styles.push(
+                `animation-delay:${fragment.karaoke!.start}ms`,
+                `animation-duration:${fragment.karaoke!.end - fragment.karaoke!.start}ms`
+            );
+        }
+
+        const openTag =
+            styles.length > 0
+                ? `<span${animated ? ' class="asbplayer-karaoke"' : ''} style="${styles.join(';')}">`
+                : undefined;
+
+        fragment.text.split('\n').forEach((text, i) => {
+            if (i > 0) {
+                lines.push('');
+            }
+
+            if (text !== '') {
+                lines[lines.length - 1] += openTag ? `${openTag}${escapeHtml(text)}</span>` : escapeHtml(text);
+            }
+        });
+    }
+
+    return lines;
+};
+
+/**
+ * Compile a regular expression matching the names of styles whose subtitles should be left out, e.g. signs.
+ * @returns The expression, or undefined if the filter is empty or invalid
+ */
+export const styleFilterRegex = (filter: string) => {
+    if (filter.trim() === '') {
+        return undefined;
+    }
+
+    try {
+        return new RegExp(filter, 'i');
+    } catch (e) {
+        return undefined;
+    }
+};
@@ -0,0 +1,71 @@
+import { decodeVobSubSubpictureUnit, parseVobSubIndex, vobSubSubpictureUnit } from './vobsub-parser';
+
+const idx = `# VobSub index file, v7 (do not modify this line!)
+size: 720x480
+palette: 000000, ffffff, ff0000, 00ff00, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000
+
+id: ja, index: 0
+timestamp: 00:00:01:500, filepos: 000000000
+`;
+
+// A 4x2 subpicture at (10, 20), shown for 512ms: a line of color 1 over two pixels of color 2 and two of color 0
+const subpictureUnit = [
+    ...[0x00, 38, 0x00, 8],
+    // Top field, then bottom field
+    ...[0x11],
+    ...[0xa0, 0x00, 0x00],
+    // Control sequence starting the display
+    ...[0x00, 0x00, 0x00, 32],
+    ...[0x03, 0x32, 0x10],
+    ...[0x04, 0xff, 0xf0],
+    ...[0x05, 0x00, 0xa0, 13, 0x01, 0x40, 21],
+    ...[0x06, 0x00, 4, 0x00, 5],
+    ...[0x01, 0xff],
+    // Control sequence stopping it
+    ...[0x00, 45, 0x00, 32],
+    ...[0x02, 0xff],
+];
+
+const pack = (payload: number[], pts: boolean) => {
+    const header = pts ? [0x81, 0x80, 5, 0x21, 0x00, 0x01, 0x00, 0x01] : [0x81, 0x00, 0];
+    const packetLength = header.length + 1 + payload.length;
+    return [
+        ...[0x00, 0x00, 0x01, 0xba, 0x44, 0, 0, 0, 0, 0, 0, 0, 0, 0xf8],
+        ...[0x00, 0x00, 0x01, 0xbd, packetLength >> 8, packetLength & 0xff],
+        ...header,
+        0x20,
+        ...payload,
+    ];
+};
+
+// The subpicture unit split over two packs
+const sub = new Uint8Array([...pack(subpictureUnit.slice(0, 20), true), ...pack(subpictureUnit.slice(20), false)]);
+
+it('reads the index', () => {
+    const index = parseVobSubIndex(idx);
+    expect(index.width).toEqual(720);
+    expect(index.height).toEqual(480);
+    expect(index.palette.slice(0, 3)).toEqual([
+        [0, 0, 0],
+        [255, 255, 255],
+        [255, 0, 0],
+    ]);
+    expect(index.streams).toEqual([{ language: 'ja', index: 0, timestamps: [{ time: 1500, filePosition: 0 }] }]);
+});
+
+it('collects subpicture units split over several packs', () => {
+    expect([...vobSubSubpictureUnit(sub, 0, 0)!]).toEqual(subpictureUnit);
+    expect(vobSubSubpictureUnit(sub, 0, 1)).toBeUndefined();
+});
+
+it('decodes subpicture units', () => {
+    const decoded = decodeVobSubSubpictureUnit(new Uint8Array(subpictureUnit), parseVobSubIndex(idx).palette)!;
+    expect(decoded).toMatchObject({ start: 0, end: 512, x: 10, y: 20 });
+    expect(decoded.image.width).toEqual(4);
+    expect(decoded.image.height).toEqual(2);
+    const pixel = (x: number, y: number) => [...decoded.image.data.slice((y * 4 + x) * 4, (y * 4 + x + 1) * 4)];
+    expect(pixel(0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(3, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(1, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixel(2, 1)[3]).toEqual(0);
+});
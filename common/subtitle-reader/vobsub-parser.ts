@@ -0,0 +1,330 @@
+import type { RgbaImage } from '../subtitle-ocr';
+
+interface VobSubTimestamp {
+    time: number;
+    filePosition: number;
+}
+
+export interface VobSubStream {
+    language: string;
+    index: number;
+    timestamps: VobSubTimestamp[];
+}
+
+export interface VobSubIndex {
+    width: number;
+    height: number;
+    palette: number[][];
+    streams: VobSubStream[];
+}
+
+export interface VobSubImage {
+    // Display times relative to the timestamp of the subtitle in the index
+    start: number;
+    end?: number;
+    x: number;
+    y: number;
+    image: RgbaImage;
+}
+
+const sizeRegex = /^size:\s*(\d+)x(\d+)/;
+const paletteRegex = /^palette:\s*(.+)$/;
+const idRegex = /^id:\s*([^,]*),\s*index:\s*(\d+)/;
+const timestampRegex = /^timestamp:\s*(\d+):(\d+):(\d+):(\d+),\s*filepos:\s*([0-9a-fA-F]+)/;
+const delayRegex = /^delay:\s*(-?)(\d+):(\d+):(\d+):(\d+)/;
+
+const packStartCode = 0x000001ba;
+const privateStream1 = 0xbd;
+const subpictureStreamBase = 0x20;
+
+/**
+ * Read the .idx file of a VobSub, which has the palette and the times and positions of subtitles in the .sub file.
+ */
+export const parseVobSubIndex = (text: string): VobSubIndex => {
+    const index: VobSubIndex = { width: 720, height: 480, palette: [], streams: [] };
+    let stream: VobSubStream | undefined;
+    let delay = 0;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const sizeMatch = line.match(sizeRegex);
+
+        if (sizeMatch !== null) {
+            index.width = Number(sizeMatch[1]);
+            index.height = Number(sizeMatch[2]);
+            continue;
+        }
+
+        const paletteMatch = line.match(paletteRegex);
+
+        if (paletteMatch !== null) {
+            index.palette = paletteMatch[1].split(',').map((hex) => {
+                const color = parseInt(hex.trim(), 16);
+                return [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+            });
+            continue;
+        }
+
+        const idMatch = line.match(idRegex);
+
+        if (idMatch !== null) {
+            stream = { language: idMatch[1].trim(), index: Number(idMatch[2]), timestamps: [] };
+            index.streams.push(stream);
+            delay = 0;
+            continue;
+        }
+
+        const delayMatch = line.match(delayRegex);
+
+        if (delayMatch !== null) {
+            const [, sign, hours, minutes, seconds, milliseconds] = delayMatch;
+            const time =
+                Number(hours) * 3600000 + Number(minutes) * 60000 + Number(seconds) * 1000 + Number(milliseconds);
+            delay += sign === '-' ? -time : time;
+            continue;
+        }
+
+        const timestampMatch = line.match(timestampRegex);
+
+        if (timestampMatch !== null && stream !== undefined) {
+            const [, hours, minutes, seconds, milliseconds, filePosition] = timestampMatch;
+            stream.timestamps.push({
+                time:
+                    Number(hours) * 3600000 +
+                    Number(minutes) * 60000 +
+                    Number(seconds) * 1000 +
+                    Number(milliseconds) +
+                    delay,
+                filePosition: parseInt(filePosition, 16),
+            });
+        }
+    }
+
+    return index;
+};
+
+/**
+ * Collect the subpicture unit of a stream that starts at a position of the .sub file, which is an MPEG program
+ * stream where a subpicture unit may be split across several packets.
+ */
+export const vobSubSubpictureUnit = (sub: Uint8Array, filePosition: number, streamIndex: number) => {
+    const view = new DataView(sub.buffer, sub.byteOffset, sub.byteLength);
+    const chunks: Uint8Array[] = [];
+    let collected = 0;
+    let size: number | undefined;
+    let position = filePosition;
+
+    while (position + 4 <= sub.length && (size === undefined || collected < size)) {
+        if (view.getUint32(position) !== packStartCode) {
+            break;
+        }
+
+        // MPEG-2 pack headers are 14 bytes and some stuffing, MPEG-1 ones are 12 bytes
+        position += (sub[position + 4] & 0xc0) === 0x40 ? 14 + (sub[position + 13] & 0x07) : 12;
+
+        while (position + 6 <= sub.length && view.getUint32(position) >> 8 === 0x000001) {
+            const streamId = sub[position + 3];
+
+            // Next pack, or the end of the program stream
+            if (streamId === (packStartCode & 0xff) || streamId === 0xb9) {
+                break;
+            }
+
+            const packetLength = view.getUint16(position + 4);
+            const packetEnd = position + 6 + packetLength;
+
+            if (streamId === privateStream1) {
+                const headerLength = sub[position + 8];
+                const payloadStart = position + 9 + headerLength;
+
+                if (sub[payloadStart] === subpictureStreamBase + streamIndex) {
+                    const payload = sub.subarray(payloadStart + 1, Math.min(packetEnd, sub.length));
+
+                    if (size === undefined) {
+                        size = (payload[0] << 8) | payload[1];
+                    }
+
+                    chunks.push(payload);
+                    collected += payload.length;
+                }
+            }
+
+            position = packetEnd;
+        }
+    }
+
+    if (size === undefined || collected < size) {
+        return undefined;
+    }
+
+    const unit = new Uint8Array(size);
+    let offset = 0;
+
+    for (const chunk of chunks) {
+        const length = Math.min(chunk.length, size - offset);
+        unit.set(chunk.subarray(0, length), offset);
+        offset += length;
+    }
+
+    return unit;
+};
+
+// Run-length encoded 2-bit pixels, where runs are one to four nibbles long
+const decodeField = (unit: Uint8Array, offset: number, end: number, width: number, lines: number[][]) => {
+    let nibble = offset * 2;
+    const nibbleEnd = end * 2;
+    const readNibble = () => {
+        const value = nibble < nibbleEnd ? (unit[nibble >> 1] >> (nibble & 1 ? 0 : 4)) & 0xf : 0;
+        ++nibble;
+        return value;
+    };
+
+    for (const line of lines) {
+        let x = 0;
+
+        while (x < width && nibble < nibbleEnd) {
+            let value = readNibble();
+
+            if (value < 0x4) {
+                value = (value << 4) | readNibble();
+
+                if (value < 0x10) {
+                    value = (value << 4) | readNibble();
+
+                    if (value < 0x40) {
+                        value = (value << 4) | readNibble();
+                    }
+                }
+            }
+
+            const color = value & 0x3;
+            const length = value >> 2 === 0 ? width - x : Math.min(value >> 2, width - x);
+            line.fill(color, x, x + length);
+            x += length;
+        }
+
+        // Lines start on a byte boundary
+        nibble += nibble & 1;
+    }
+};
+
+/**
+ * Decode a subpicture unit into an image, colored with the palette of the index.
+ */
+export const decodeVobSubSubpictureUnit = (unit: Uint8Array, palette: number[][]): VobSubImage | undefined => {
+    const view = new DataView(unit.buffer, unit.byteOffset, unit.byteLength);
+    let colors = [0, 1, 2, 3];
+    let alphas = [0, 15, 15, 15];
+    let x1 = 0;
+    let x2 = -1;
+    let y1 = 0;
+    let y2 = -1;
+    let topFieldOffset = 0;
+    let bottomFieldOffset = 0;
+    let start: number | undefined;
+    let end: number | undefined;
+    let sequenceOffset = view.getUint16(2);
+
+    while (sequenceOffset + 4 <= unit.length) {
+        // Delays are in units of 1024 ticks of the 90kHz clock
+        const delay = (view.getUint16(sequenceOffset) * 1024) / 90;
+        const nextSequenceOffset = view.getUint16(sequenceOffset + 2);
+        let position = sequenceOffset + 4;
+        let done = false;
+
+        while (!done && position < unit.length) {
+            const command = unit[position++];
+
+            switch (command) {
+                case 0x00:
+                case 0x01:
+                    start = delay;
+                    break;
+                case 0x02:
+                    end = delay;
+                    break;
+                case 0x03:
+                    colors = [
+                        unit[position + 1] & 0xf,
+                        unit[position + 1] >> 4,
+                        unit[position] & 0xf,
+                        unit[position] >> 4,
+                    ];
+                    position += 2;
+                    break;
+                case 0x04:
+                    alphas = [
+                        unit[position + 1] & 0xf,
+                        unit[position + 1] >> 4,
+                        unit[position] & 0xf,
+                        unit[position] >> 4,
+                    ];
+                    position += 2;
+                    break;
+                case 0x05:
+                    x1 = (unit[position] << 4) | (unit[position + 1] >> 4);
+                    x2 = ((unit[position + 1] & 0xf) << 8) | unit[position + 2];
+                    y1 = (unit[position + 3] << 4) | (unit[position + 4] >> 4);
+                    y2 = ((unit[position + 4] & 0xf) << 8) | unit[position + 5];
+                    position += 6;
+                    break;
+                case 0x06:
+                    topFieldOffset = view.getUint16(position);
+                    bottomFieldOffset = view.getUint16(position + 2);
+                    position += 4;
+                    break;
+                default:
+                    // 0xff ends the sequence, and any other command can't be skipped over
+                    done = true;
+                    break;
+            }
+        }
+
+        if (nextSequenceOffset <= sequenceOffset) {
+            break;
+        }
+
+        sequenceOffset = nextSequenceOffset;
+    }
+
+    const width = x2 - x1 + 1;
+    const height = y2 - y1 + 1;
+
+    if (start === undefined || width <= 0 || height <= 0 || topFieldOffset === 0) {
+        return undefined;
+    }
+
+    // Interlaced, with even lines in the top field and odd lines in the bottom field
+    const lines = [...Array(height)].map(() => new Array<number>(width).fill(0));
+    const fieldsEnd = view.getUint16(2);
+    decodeField(
+        unit,
+        topFieldOffset,
+        bottomFieldOffset > topFieldOffset ? bottomFieldOffset : fieldsEnd,
+        width,
+        lines.filter((_, i) => i % 2 === 0)
+    );
+    decodeField(
+        unit,
+        bottomFieldOffset,
+        bottomFieldOffset > topFieldOffset ? fieldsEnd : topFieldOffset,
+        width,
+        lines.filter((_, i) => i % 2 === 1)
+    );
+
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    for (let y = 0; y < height; ++y) {
+        for (let x = 0; x < width; ++x) {
+            const color = lines[y][x];
+            const [r, g, b] = palette[colors[color]] ?? [0, 0, 0];
+            const i = (y * width + x) * 4;
+            data[i] = r;
+            data[i + 1] = g;
+            data[i + 2] = b;
+            data[i + 3] = alphas[color] * 17;
+        }
+    }
+
+    return { start, end, x: x1, y: y1, image: { data, width, height } };
+};
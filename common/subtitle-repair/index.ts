@@ -0,0 +1,3 @@
+export type { SubtitleOverlapRepair, SubtitleTimingRepairOptions, SubtitleTimingRepairReport } from './subtitle-repair';
+
+export { repairSubtitleTiming, subtitleTimingRepaired } from './subtitle-repair';
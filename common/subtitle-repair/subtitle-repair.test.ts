@@ -0,0 +1,98 @@
+import { repairSubtitleTiming, SubtitleTimingRepairOptions } from './subtitle-repair';
+
+const noRepair: SubtitleTimingRepairOptions = {
+    subtitleOverlapRepair: 'none',
+    subtitleMinimumDuration: 0,
+    subtitleGapSnapThreshold: 0,
+    removeDuplicateSubtitles: false,
+};
+
+const line = (text: string, start: number, end: number, track = 0) => ({ text, start, end, track });
+
+const subtitles = [
+    line('one', 0, 1500),
+    line('uno', 0, 1500, 1),
+    line('two', 1000, 2000),
+    line('two', 2000, 3000),
+    line('three', 3040, 3040),
+    line('four', 3100, 4000),
+];
+
+const timing = (repaired: { text: string; start: number; end: number; track: number }[]) =>
+    repaired.map((s) => [s.text, s.start, s.end, s.track]);
+
+it('leaves subtitles as they are without any rules', () => {
+    const { subtitles: repaired, report } = repairSubtitleTiming(subtitles, noRepair);
+    expect(repaired).toEqual(subtitles);
+    expect(report).toEqual({ linesBefore: 6, linesAfter: 6, duplicates: 0, overlaps: 0, shortLines: 0, gaps: 0 });
+});
+
+it('joins repeated lines of the same text', () => {
+    const { subtitles: repaired, report } = repairSubtitleTiming(subtitles, {
+        ...noRepair,
+        removeDuplicateSubtitles: true,
+    });
+    expect(timing(repaired).slice(0, 3)).toEqual([
+        ['one', 0, 1500, 0],
+        ['uno', 0, 1500, 1],
+        ['two', 1000, 3000, 0],
+    ]);
+    expect(report).toMatchObject({ linesBefore: 6, linesAfter: 5, duplicates: 1 });
+});
+
+it('trims or merges overlapping lines on the same track', () => {
+    const trimmed = repairSubtitleTiming(subtitles, { ...noRepair, subtitleOverlapRepair: 'trim' });
+    expect(timing(trimmed.subtitles).slice(0, 3)).toEqual([
+        ['one', 0, 1000, 0],
+        ['uno', 0, 1500, 1],
+        ['two', 1000, 2000, 0],
+    ]);
+    expect(trimmed.report.overlaps).toEqual(1);
+
+    const merged = repairSubtitleTiming(subtitles, { ...noRepair, subtitleOverlapRepair: 'merge' });
+    expect(timing(merged.subtitles).slice(0, 3)).toEqual([
+        ['one\ntwo', 0, 2000, 0],
+        ['uno', 0, 1500, 1],
+        ['two', 2000, 3000, 0],
+    ]);
+    expect(merged.report).toMatchObject({ linesAfter: 5, overlaps: 1 });
+});
+
+it('shows image lines starting together with other lines one after the other', () => {
+    const image = (start: number, end: number) => ({ ...line('', start, end), textImage: {} });
+    const expected = [
+        ['', 0, 1000, 0],
+        ['two', 1000, 2000, 0],
+        ['', 3000, 3500, 0],
+        ['', 3500, 4000, 0],
+    ];
+
+    for (const subtitleOverlapRepair of ['trim', 'merge'] as const) {
+        const { subtitles: repaired, report } = repairSubtitleTiming(
+            [image(0, 1000), line('two', 0, 2000), image(3000, 4000), image(3000, 4000)],
+            { ...noRepair, subtitleOverlapRepair }
+        );
+        expect(timing(repaired)).toEqual(expected);
+        expect(report).toMatchObject({ linesBefore: 4, linesAfter: 4, overlaps: 2 });
+    }
+});
+
+it('lengthens short lines as far as the next line', () => {
+    const { subtitles: repaired, report } = repairSubtitleTiming(subtitles, {
+        ...noRepair,
+        subtitleMinimumDuration: 500,
+    });
+    expect(timing(repaired)[4]).toEqual(['three', 3040, 3100, 0]);
+    expect(timing(repaired)[5]).toEqual(['four', 3100, 4000, 0]);
+    expect(report.shortLines).toEqual(1);
+});
+
+it('closes small gaps between lines', () => {
+    const { subtitles: repaired, report } = repairSubtitleTiming(subtitles, {
+        ...noRepair,
+        subtitleGapSnapThreshold: 100,
+    });
+    expect(timing(repaired)[3]).toEqual(['two', 2000, 3040, 0]);
+    expect(timing(repaired)[4]).toEqual(['three', 3040, 3100, 0]);
+    expect(report.gaps).toEqual(2);
+});
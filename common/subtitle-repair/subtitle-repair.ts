@@ -0,0 +1,196 @@
+import type { SubtitleStyling } from '@project/common';
+
+/**
+ * What to do with a line that is still showing when the next line on the same track starts. Trimming ends the line
+ * when the next one starts, and merging joins the two lines into one.
+ */
+export type SubtitleOverlapRepair = 'none' | 'trim' | 'merge';
+
+export interface SubtitleTimingRepairOptions {
+    readonly subtitleOverlapRepair: SubtitleOverlapRepair;
+    // Lines shorter than this many milliseconds are lengthened up to the next line, 0 to leave them as they are
+    readonly subtitleMinimumDuration: number;
+    // Gaps up to this many milliseconds between lines are closed by extending the earlier line, 0 to leave them open
+    readonly subtitleGapSnapThreshold: number;
+    // Repeated lines of the same text that overlap or touch each other are joined into one line
+    readonly removeDuplicateSubtitles: boolean;
+}
+
+/**
+ * What a repair changed, to show the before and after of the subtitles that were loaded.
+ */
+export interface SubtitleTimingRepairReport {
+    readonly linesBefore: number;
+    readonly linesAfter: number;
+    readonly duplicates: number;
+    readonly overlaps: number;
+    readonly shortLines: number;
+    readonly gaps: number;
+}
+
+interface RepairableSubtitle {
+    start: number;
+    end: number;
+    text: string;
+    textImage?: unknown;
+    track: number;
+    styling?: SubtitleStyling;
+}
+
+// Lines without text can't be compared or joined by their text
+const hasText = (subtitle: RepairableSubtitle) => subtitle.textImage === undefined && subtitle.text !== '';
+
+// Joined text no longer matches the styled fragments it was rendered from
+const joined = <T extends RepairableSubtitle>(first: T, second: T, text: string): T => ({
+    ...first,
+    text,
+    end: Math.max(first.end, second.end),
+    styling: first.styling === undefined ? undefined : { ...first.styling, fragments: undefined },
+});
+
+/**
+ * Whether a repair changed anything.
+ */
+export const subtitleTimingRepaired = (report: SubtitleTimingRepairReport) =>
+    report.duplicates + report.overlaps + report.shortLines + report.gaps > 0;
+
+/**
+ * Repair the timing of lines on each track, which is often broken in community subtitles by overlapping lines, lines
+ * that are shown for no time at all, or lines that end just before the next one starts. Each rule is applied to the
+ * result of the previous one, in the order of duplicates, overlaps, short lines and gaps.
+ * @param subtitles Subtitles in order of start time
+ * @returns The repaired subtitles in order of start time, and what was changed
+ */
+export const repairSubtitleTiming = <T extends RepairableSubtitle>(
+    subtitles: T[],
+    options: SubtitleTimingRepairOptions
+): { subtitles: T[]; report: SubtitleTimingRepairReport } => {
+    const { subtitleOverlapRepair, subtitleMinimumDuration, subtitleGapSnapThreshold, removeDuplicateSubtitles } =
+        options;
+    let duplicates = 0;
+    let overlaps = 0;
+    let shortLines = 0;
+    let gaps = 0;
+    const tracks = new Map<number, T[]>();
+
+    for (const subtitle of subtitles) {
+        const track = tracks.get(subtitle.track);
+
+        if (track === undefined) {
+            tracks.set(subtitle.track, [subtitle]);
+        } else {
+            track.push(subtitle);
+        }
+    }
+
+    const repairedTracks = [...tracks.values()].map((track) => {
+        let lines = [...track].sort((a, b) => a.start - b.start || a.end - b.end);
+
+        if (removeDuplicateSubtitles) {
+            const deduplicated: T[] = [];
+
+            for (const line of lines) {
+                const previous = deduplicated[deduplicated.length - 1];
+
+                if (
+                    previous !== undefined &&
+                    hasText(line) &&
+                    previous.text === line.text &&
+                    line.start <= previous.end
+                ) {
+                    deduplicated[deduplicated.length - 1] = { ...previous, end: Math.max(previous.end, line.end) };
+                    ++duplicates;
+                } else {
+                    deduplicated.push(line);
+                }
+            }
+
+            lines = deduplicated;
+        }
+
+        if (subtitleOverlapRepair !== 'none') {
+            const repaired: T[] = [];
+
+            for (const line of lines) {
+                const previous = repaired[repaired.length - 1];
+
+                if (previous === undefined || line.start >= previous.end) {
+                    repaired.push(line);
+                    continue;
+                }
+
+                // Lines starting together can't be trimmed apart, so they are joined as long as they both have text
+                const join = subtitleOverlapRepair === 'merge' || line.start === previous.start;
+
+                if (join && hasText(previous) && hasText(line)) {
+                    repaired[repaired.length - 1] = joined(previous, line, `${previous.text}\n${line.text}`);
+                    ++overlaps;
+                    continue;
+                }
+
+                if (line.start > previous.start) {
+                    repaired[repaired.length - 1] = { ...previous, end: line.start };
+                    repaired.push(line);
+                    ++overlaps;
+                    continue;
+                }
+
+                // Lines starting together that can't be joined, such as image subtitles, are shown one after the other,
+                // sharing the time between them if they end together too
+                const split = line.end > previous.end ? previous.end : Math.round((previous.start + previous.end) / 2);
+                repaired[repaired.length - 1] = { ...previous, end: split };
+                repaired.push({ ...line, start: split });
+                ++overlaps;
+            }
+
+            lines = repaired;
+        }
+
+        if (subtitleMinimumDuration > 0) {
+            lines = lines.map((line, i) => {
+                if (line.end - line.start >= subtitleMinimumDuration) {
+                    return line;
+                }
+
+                const next = lines[i + 1];
+                const latestEnd = next === undefined || next.start <= line.start ? Infinity : next.start;
+                const end = Math.max(line.end, Math.min(line.start + subtitleMinimumDuration, latestEnd));
+
+                if (end === line.end) {
+                    return line;
+                }
+
+                ++shortLines;
+                return { ...line, end };
+            });
+        }
+
+        if (subtitleGapSnapThreshold > 0) {
+            lines = lines.map((line, i) => {
+                const next = lines[i + 1];
+
+                if (next === undefined || next.start <= line.end || next.start - line.end > subtitleGapSnapThreshold) {
+                    return line;
+                }
+
+                ++gaps;
+                return { ...line, end: next.start };
+            });
+        }
+
+        return lines;
+    });
+
+    const repairedSubtitles = repairedTracks.flat().sort((a, b) => a.start - b.start);
+    return {
+        subtitles: repairedSubtitles,
+        report: {
+            linesBefore: subtitles.length,
+            linesAfter: repairedSubtitles.length,
+            duplicates,
+            overlaps,
+            shortLines,
+            gaps,
+        },
+    };
+};
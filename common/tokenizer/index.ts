@@ -7,16 +7,37 @@
 
 /**
  * A token part representing a segment of text with its reading.
+ *
+ * Morphological features are only set by analyzers that provide them. Yomitan splits a word into several parts
+ * for furigana, in which case word-level features such as basicForm are carried by the first part.
  */
 export interface TokenPart {
     text: string;
     reading: string;
     /** Part of speech from morphological analyzer (e.g., '名詞', '動詞', '記号') */
     pos?: string;
+    /** Part of speech subcategories, from most to least general (e.g., '非自立' for the いる in 食べている) */
+    posDetail1?: string;
+    posDetail2?: string;
+    posDetail3?: string;
+    /** Conjugation class (e.g., '一段' for 食べる, '五段・ラ行' for 走る) */
+    conjugatedType?: string;
+    /** Conjugated form of this token (e.g., '連用形' for 食べ in 食べた) */
+    conjugatedForm?: string;
     /** Whether the token is a known dictionary word or unknown */
     wordType?: 'KNOWN' | 'UNKNOWN';
+    /** Dictionary form from morphological analyzer (e.g., '食べる' for '食べ') */
+    basicForm?: string;
+    /** Pronunciation in katakana, with long vowels as spoken (e.g., 'トーキョー' for 東京) */
+    pronunciation?: string;
 }
 
+/**
+ * Morphological analyzers mark features that don't apply to a token with '*'.
+ * @returns The feature, or undefined if it is missing or doesn't apply
+ */
+export const morphologicalFeature = (value?: string) => (value && value !== '*' ? value : undefined);
+
 /**
  * Abstract tokenizer interface that all implementations must follow.
  */
@@ -50,4 +71,15 @@ export interface Tokenizer {
 /**
  * Available tokenizer backends.
  */
-export type TokenizerType = 'yomitan' | 'kuromoji';
+export type TokenizerType = 'yomitan' | 'kuromoji' | 'sudachi';
+
+/**
+ * Tokenizer backends that run fully offline, without a dictionary track.
+ */
+export type LocalTokenizerType = Exclude<TokenizerType, 'yomitan'>;
+
+/**
+ * Sudachi split mode, from shortest units (A) to named entities (C).
+ * For example 選挙管理委員会 is split into 選挙/管理/委員/会 in A, 選挙/管理/委員会 in B and kept whole in C.
+ */
+export type SudachiSplitMode = 'A' | 'B' | 'C';
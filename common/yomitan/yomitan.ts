@@ -2,11 +2,7 @@ import { Fetcher, HttpFetcher } from '@project/common';
 import { isKanaOnly } from '@project/common/util';
 import gt from 'semver/functions/gt';
 import { DictionaryTrack } from '../settings';
-
-export interface TokenPart {
-    text: string;
-    reading: string;
-}
+import type { TokenPart } from '../tokenizer';
 
 export class Yomitan {
     private readonly dt: DictionaryTrack;
@@ -43,14 +39,7 @@ export class Yomitan {
         );
         for (const res of response) {
             for (const tokenParts of res.content) {
-                tokens.push(tokenParts);
-                if (tokenParts[0]?.headwords) {
-                    const token = tokenParts
-                        .map((p: any) => p.text)
-                        .join('')
-                        .trim();
-                    if (!this.lemmatizeCache.has(token)) this.extractLemmas(token, tokenParts[0].headwords);
-                }
+                tokens.push(this.toTokenParts(tokenParts));
             }
         }
         this.tokenizeCache.set(text, tokens);
@@ -71,19 +60,28 @@ export class Yomitan {
         for (const res of response) {
             const tokens: TokenPart[][] = [];
             for (const tokenParts of res.content) {
-                tokens.push(tokenParts);
-                if (tokenParts[0]?.headwords) {
-                    const token = tokenParts
-                        .map((p: any) => p.text)
-                        .join('')
-                        .trim();
-                    if (!this.lemmatizeCache.has(token)) this.extractLemmas(token, tokenParts[0].headwords);
-                }
+                tokens.push(this.toTokenParts(tokenParts));
             }
             this.tokenizeCache.set(tokensToFetch[res.index], tokens);
         }
     }
 
+    /**
+     * Yomitan parts carry raw dictionary entries, which are used to cache the lemmas of the token and then dropped so
+     * that only the features of TokenPart are kept. The first lemma becomes the basic form of the first part.
+     */
+    private toTokenParts(rawTokenParts: any[]): TokenPart[] {
+        const tokenParts: TokenPart[] = rawTokenParts.map((p) => ({ text: p.text, reading: p.reading }));
+        if (!rawTokenParts[0]?.headwords) return tokenParts;
+        const token = tokenParts
+            .map((p) => p.text)
+            .join('')
+            .trim();
+        const lemmas = this.lemmatizeCache.get(token) ?? this.extractLemmas(token, rawTokenParts[0].headwords);
+        if (lemmas.length) tokenParts[0].basicForm = lemmas[0];
+        return tokenParts;
+    }
+
     /**
      * Lemmatize a token using Yomitan's termEntries API. There will likely always be edge cases but it should perform
      * well nearly all of the time. Returns the first term and reading lemmas (e.g. kanji and kana for Japanese). Examples:
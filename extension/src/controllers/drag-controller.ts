@@ -62,8 +62,16 @@ export default class DragController {
                     extension === 'srt' ||
                     extension === 'vtt' ||
                     extension === 'sup' ||
+                    extension === 'idx' ||
+                    extension === 'sub' ||
                     extension === 'dfxp' ||
-                    extension === 'ttml2'
+                    extension === 'ttml2' ||
+                    extension === 'ssa' ||
+                    extension === 'lrc' ||
+                    extension === 'sbv' ||
+                    extension === 'smi' ||
+                    extension === 'sami' ||
+                    extension === 'json3'
                 ) {
                     files.push(f);
                 }
@@ -1,30 +1,65 @@
 import Binding from '../services/binding';
 import { StudyOverlay, StudyIndicatorOverlay, StudyTestDisplayState, StudyModeType } from '../services/study-overlay';
-import { SubtitleModel, IndexedSubtitleModel } from '@project/common';
-import { Tokenizer, TokenPart } from '@project/common/tokenizer';
+import {
+    SubtitleModel,
+    IndexedSubtitleModel,
+    RecordStudyClipMessage,
+    RecordStudyClipResponse,
+    VideoToExtensionCommand,
+} from '@project/common';
+import { LocalTokenizerType, SudachiSplitMode, Tokenizer, TokenPart } from '@project/common/tokenizer';
 import { createTokenizer } from '../services/tokenizer-factory';
+import { translationForTimestampInterval } from '@project/common/subtitle-collection';
+import {
+    backgroundRecognitionRepository,
+    backgroundScheduleRepository,
+    backgroundStudyRepository,
+    type BackgroundRecognitionRepository,
+    type BackgroundScheduleRepository,
+    type BackgroundStudyRepository,
+} from '../services/study-mode-repositories';
+import { frequencyRank, type FrequencyProvider } from '@project/common/frequency';
+import { backgroundFrequencyRepository } from '../services/frequency-repository';
 import {
     TokenSelector,
     getTestableIndices,
     LineSelector,
     createKnowledgeGetter,
-    IndexedDBStudyRepository,
     getAnkiStatus,
     PriorityCalculator,
-    createRecognitionRepository,
+    isDue,
+    contentGroups,
     INTENSITY_THRESHOLDS,
+    katakanaToHiragana,
+    gradeAnswer,
+    betterGrade,
+    isPassingGrade,
+    studyResultForGrade,
+    reviewRatingForGrade,
+    defaultAnswerMatchingOptions,
+    DistractorPool,
+    diffDictation,
+    type AnswerGrade,
+    type AnswerMatchingOptions,
     type LineSelectionStrategy,
     type TokenBlankingStrategy,
     type KnowledgeGetter,
     type AnkiApi,
-    type StudyRepository,
     type StudyDeckConfig,
-    type RecognitionRepository,
+    type ScheduledReview,
     type VideoSession,
     type StudyIntensity,
     type FocusMode,
+    type StudyTestType,
+    type DictationOp,
 } from '@project/common/study-mode';
 
+const KANJI_REGEX = /\p{Script=Han}/u;
+
+// Lines of the subtitle file tokenized for the distractors of multiple choice tests
+const DISTRACTOR_SAMPLE_SIZE = 150;
+const MULTIPLE_CHOICE_OPTIONS = 4;
+
 export type LineStatus = 'pass' | 'fail' | 'incomplete';
 
 export interface LineTestInfo {
@@ -49,8 +84,10 @@ export default class SrsController {
     private readonly _studyOverlay: StudyOverlay;
     private readonly _indicatorOverlay: StudyIndicatorOverlay;
     private readonly _tokenSelector: TokenSelector;
-    private readonly _studyRepository: StudyRepository;
-    private readonly _recognitionRepository: RecognitionRepository;
+    private readonly _studyRepository: BackgroundStudyRepository;
+    private readonly _recognitionRepository: BackgroundRecognitionRepository;
+    private readonly _scheduleRepository: BackgroundScheduleRepository;
+    private readonly _frequencyProvider: FrequencyProvider;
     private readonly _priorityCalculator: PriorityCalculator;
     
     private _lineSelector?: LineSelector;
@@ -68,9 +105,16 @@ export default class SrsController {
     private _intensity: StudyIntensity = 'medium';
     private _rateLimitSeconds: number = 10;
     private _focusMode: FocusMode = 'balanced';
+    private _clipStorageLimit: number = 200;
+    private _audioPaddingStart: number = 0;
+    private _audioPaddingEnd: number = 500;
     private _currentSubtitle?: IndexedSubtitleModel;
     private _currentTestTimeframe?: { start: number; end: number };
     private _tokenizer?: Tokenizer;
+    private _tokenizerType: LocalTokenizerType = 'kuromoji';
+    private _sudachiSplitMode: SudachiSplitMode = 'B';
+    private _answerMatching: AnswerMatchingOptions = defaultAnswerMatchingOptions;
+    private _testType: StudyTestType = 'cloze';
     private _themeType: 'dark' | 'light' = 'dark';
     
     // Per-video session state (in-memory only)
@@ -91,6 +135,12 @@ export default class SrsController {
     // Track if answer has been submitted (to prevent input changes after submit)
     private _answerSubmitted: boolean = false;
     
+    // Distractors of multiple choice tests, built from the subtitles they were drawn from
+    private _distractorPool?: { subtitles: SubtitleModel[]; pool: Promise<DistractorPool> };
+    
+    // ID of the audio clip being recorded for the current test, resolved once it is stored
+    private _currentClipId?: Promise<number | undefined>;
+    
     // Fullscreen change listener for re-rendering
     private _fullscreenListener?: () => void;
 
@@ -109,14 +159,22 @@ export default class SrsController {
         // Create token selector (knowledge getter can be added later for Anki integration)
         this._tokenSelector = new TokenSelector();
         
-        // Create study repository for tracking test results
-        this._studyRepository = new IndexedDBStudyRepository();
+        // Create study repository for tracking test results (stored in the extension's origin, shared across sites)
+        this._studyRepository = backgroundStudyRepository(context.video);
         
         // Create recognition repository for tracking recognition success/failure
-        this._recognitionRepository = createRecognitionRepository();
+        this._recognitionRepository = backgroundRecognitionRepository(context.video);
+        
+        // Create schedule repository for spaced repetition of tested words
+        this._scheduleRepository = backgroundScheduleRepository(context.video);
         
-        // Wire up recognition repository to token selector for consistent priority scoring
+        // Rank words by the imported frequency lists so that rare words are tested less often than core vocabulary
+        this._frequencyProvider = backgroundFrequencyRepository(context.video);
+
+        // Wire up recognition and schedule repositories to token selector for consistent priority scoring
         this._tokenSelector.setRecognitionRepository(this._recognitionRepository);
+        this._tokenSelector.setScheduleRepository(this._scheduleRepository);
+        this._tokenSelector.setFrequencyProvider(this._frequencyProvider);
         
         // Create priority calculator for two-tier system
         this._priorityCalculator = new PriorityCalculator('balanced');
@@ -198,6 +256,7 @@ export default class SrsController {
         this._currentDisplayState = undefined;
         this._testCompleted = false;
         this._answerSubmitted = false;
+        this._currentClipId = undefined;
     }
 
     bind() {
@@ -227,6 +286,17 @@ export default class SrsController {
             'studyModeIntensity',
             'studyModeRateLimitSeconds',
             'studyModeFocusMode',
+            'studyModeClipStorageLimit',
+            'studyModeTokenizer',
+            'studyModeSudachiSplitMode',
+            'studyModeMatchLongVowels',
+            'studyModeMatchYotsugana',
+            'studyModeMatchSmallKana',
+            'studyModeCloseAnswerDistance',
+            'studyModeRomajiInput',
+            'studyModeTestType',
+            'audioPaddingStart',
+            'audioPaddingEnd',
             'themeType',
         ]);
         this._enabled = settings.studyModeEnabled;
@@ -239,6 +309,16 @@ export default class SrsController {
         this._intensity = settings.studyModeIntensity;
         this._rateLimitSeconds = settings.studyModeRateLimitSeconds;
         this._focusMode = settings.studyModeFocusMode;
+        this._clipStorageLimit = settings.studyModeClipStorageLimit;
+        this._answerMatching = {
+            longVowels: settings.studyModeMatchLongVowels,
+            yotsugana: settings.studyModeMatchYotsugana,
+            smallKana: settings.studyModeMatchSmallKana,
+            closeDistance: settings.studyModeCloseAnswerDistance,
+        };
+        this._testType = settings.studyModeTestType;
+        this._audioPaddingStart = settings.audioPaddingStart;
+        this._audioPaddingEnd = settings.audioPaddingEnd;
         this._themeType = settings.themeType;
         
         // Update priority calculator focus mode
@@ -249,6 +329,7 @@ export default class SrsController {
         
         // Update overlay themes
         this._studyOverlay.setTheme(this._themeType);
+        this._studyOverlay.setRomajiInput(settings.studyModeRomajiInput);
         this._indicatorOverlay.setTheme(this._themeType);
         
         // Update indicator visibility
@@ -258,12 +339,28 @@ export default class SrsController {
             this._indicatorOverlay.hide();
         }
         
-        // Initialize Kuromoji tokenizer if not already initialized
+        // Recreate the tokenizer when the configured backend changes
+        if (
+            this._tokenizer &&
+            (this._tokenizerType !== settings.studyModeTokenizer ||
+                this._sudachiSplitMode !== settings.studyModeSudachiSplitMode)
+        ) {
+            this._tokenizer.dispose();
+            this._tokenizer = undefined;
+        }
+
+        this._tokenizerType = settings.studyModeTokenizer;
+        this._sudachiSplitMode = settings.studyModeSudachiSplitMode;
+
+        // Initialize tokenizer if not already initialized
         if (!this._tokenizer) {
             try {
-                this._tokenizer = await createTokenizer({ type: 'kuromoji' });
+                this._tokenizer = await createTokenizer({
+                    type: this._tokenizerType,
+                    splitMode: this._sudachiSplitMode,
+                });
             } catch (e) {
-                console.warn('[SrsController] Failed to initialize Kuromoji tokenizer:', e);
+                console.warn(`[SrsController] Failed to initialize ${this._tokenizerType} tokenizer:`, e);
                 this._tokenizer = undefined;
             }
         }
@@ -273,6 +370,7 @@ export default class SrsController {
             frequency: this._frequency,
             lineSelection: this._lineSelectionStrategy,
             tokenSelection: this._tokenSelectionStrategy,
+            tokenizer: this._tokenizerType,
             hasTokenizer: !!this._tokenizer,
             hasAnkiApi: !!this._ankiApi,
             theme: this._themeType,
@@ -427,9 +525,51 @@ export default class SrsController {
 
     /**
      * Check if priority-based selection is ready (has all required dependencies).
+     * Anki is optional - without it, words are prioritized by their study mode schedule alone.
      */
     private _isPrioritySelectionReady(): boolean {
-        return !!this._tokenizer && !!this._ankiApi && this._studyDecks.length > 0;
+        return !!this._tokenizer;
+    }
+
+    /**
+     * Check if any word in the text is due for review according to its study mode schedule.
+     */
+    private async _containsDueWord(text: string): Promise<boolean> {
+        if (!this._tokenizer) {
+            return false;
+        }
+
+        try {
+            const tokens = (await this._tokenizer.tokenize(text)).flat();
+            return (await this._dueLemmas(tokens)).length > 0;
+        } catch (e) {
+            console.warn('[SrsController] Failed to check for due words:', e);
+        }
+
+        return false;
+    }
+
+    /**
+     * Lemmas of the words in a line that are due for review according to their study mode schedule.
+     */
+    private async _dueLemmas(tokens: TokenPart[]): Promise<string[]> {
+        const now = Date.now();
+        const dueLemmas: string[] = [];
+
+        try {
+            for (const group of contentGroups(tokens, this._includeConjugations)) {
+                const head = tokens[group.indices[0]];
+                const schedule = await this._scheduleRepository.getSchedule(head.basicForm || head.text);
+
+                if (schedule && isDue(schedule, now)) {
+                    dueLemmas.push(group.lemma);
+                }
+            }
+        } catch (e) {
+            console.warn('[SrsController] Failed to check for due words:', e);
+        }
+
+        return dueLemmas;
     }
 
     /**
@@ -448,14 +588,15 @@ export default class SrsController {
         }
 
         // Random strategy: simple frequency-based selection (fallback mode)
+        // Lines with words that are due for review are tested even between scheduled lines
         if (this._lineSelectionStrategy === 'random') {
-            return this._lineCount % this._frequency === 0;
+            return this._lineCount % this._frequency === 0 || (await this._containsDueWord(subtitle.text));
         }
 
         // prioritize_unknown strategy: use priority-based scoring only
         // No fallback to frequency - if not ready, skip testing
         if (!this._isPrioritySelectionReady()) {
-            console.log('[SrsController] Priority selection not ready (missing tokenizer, AnkiApi, or study decks)');
+            console.log('[SrsController] Priority selection not ready (missing tokenizer)');
             return false;
         }
 
@@ -464,21 +605,20 @@ export default class SrsController {
             const tokenGroups = await this._tokenizer!.tokenize(subtitle.text);
             const tokens: TokenPart[] = tokenGroups.flat();
             
-            // Get testable tokens
-            const testable = tokens.filter(
-                (t) => t.pos !== '記号' && t.text.trim() !== '' && (t.wordType === undefined || t.wordType === 'KNOWN')
-            );
+            // Score the words of the line, leaving out punctuation, particles and the auxiliaries of conjugations
+            const testable = contentGroups(tokens, this._includeConjugations).map((g) => tokens[g.indices[0]]);
 
             if (testable.length === 0) {
                 return false;
             }
 
             // Calculate priority-based score for the line
-            const lineScore = await this._calculateLinePriorityScore(testable);
+            const { score: lineScore, dueCount } = await this._calculateLinePriorityScore(testable);
             
-            // Check if score exceeds intensity threshold
+            // Lines with due words are always tested, otherwise check if score exceeds intensity threshold
             const threshold = INTENSITY_THRESHOLDS[this._intensity];
-            const shouldTrigger = this._priorityCalculator.shouldTriggerStudyCard(lineScore, this._intensity);
+            const shouldTrigger =
+                dueCount > 0 || this._priorityCalculator.shouldTriggerStudyCard(lineScore, this._intensity);
             
             // Flash the assessment result on the indicator overlay
             this._indicatorOverlay.flashLineAssessment(lineScore, threshold, shouldTrigger, testable.length);
@@ -491,10 +631,12 @@ export default class SrsController {
     }
 
     /**
-     * Calculate priority score for a line based on its tokens.
+     * Calculate priority score for a line based on its tokens, and count the words that are due for review.
      */
-    private async _calculateLinePriorityScore(tokens: TokenPart[]): Promise<number> {
+    private async _calculateLinePriorityScore(tokens: TokenPart[]): Promise<{ score: number; dueCount: number }> {
         let totalScore = 0;
+        let dueCount = 0;
+        const now = Date.now();
 
         for (const token of tokens) {
             // Build candidate lemmas: basicForm (kanji), text, and reading (kana)
@@ -503,7 +645,7 @@ export default class SrsController {
             if (token.basicForm) candidates.push(token.basicForm);
             if (token.text && token.text !== token.basicForm) candidates.push(token.text);
             if (token.reading) {
-                const hiraganaReading = this._katakanaToHiragana(token.reading);
+                const hiraganaReading = katakanaToHiragana(token.reading);
                 if (!candidates.includes(hiraganaReading)) candidates.push(hiraganaReading);
             }
             
@@ -517,16 +659,36 @@ export default class SrsController {
                 }
             }
 
-            // Get recognition stats (use primary lemma)
+            // Get recognition stats and schedule (use primary lemma)
             const primaryLemma = token.basicForm || token.text;
             const recognitionStats = await this._recognitionRepository.getStats(primaryLemma);
+            const schedule = await this._scheduleRepository.getSchedule(primaryLemma);
+
+            if (schedule && isDue(schedule, now)) {
+                dueCount++;
+            }
+
+            // Get frequency rank using all candidate lemmas, undefined if no frequency list was imported
+            let rank: number | null | undefined;
+            try {
+                rank = await frequencyRank(this._frequencyProvider, candidates);
+            } catch {
+                // Ignore errors, score without frequency
+            }
 
             // Calculate priority
-            const priority = this._priorityCalculator.calculatePriority(primaryLemma, ankiStatus, recognitionStats);
+            const priority = this._priorityCalculator.calculatePriority(
+                primaryLemma,
+                ankiStatus,
+                recognitionStats,
+                schedule,
+                now,
+                rank
+            );
             totalScore += priority.finalPriority;
         }
 
-        return totalScore;
+        return { score: totalScore, dueCount };
     }
 
     private async _showTest(subtitle: IndexedSubtitleModel, existingTest?: LineTestInfo): Promise<boolean> {
@@ -577,10 +739,12 @@ export default class SrsController {
 
                 // Use TokenSelector to pick which tokens to blank
                 // This handles conjugation grouping (e.g., 食べ + ました as one unit)
+                // Words due for review are always blanked, since they may be the reason the line was chosen
                 blankedIndices = await this._tokenSelector.selectTokensToBlank(tokens, {
                     strategy: this._tokenSelectionStrategy,
                     includeConjugations: this._includeConjugations,
                     maxBlanks: 3,
+                    dueLemmas: await this._dueLemmas(tokens),
                 });
 
                 if (blankedIndices.length === 0) {
@@ -588,6 +752,18 @@ export default class SrsController {
                     return false;
                 }
             }
+            
+            blankedIndices = this._blanksForTestType(tokens, blankedIndices);
+            
+            if (blankedIndices.length === 0) {
+                this._testLineIndices.delete(subtitle.index);
+                return false;
+            }
+            
+            const choices =
+                this._testType === 'multiple_choice'
+                    ? await this._multipleChoices(tokens, blankedIndices)
+                    : undefined;
 
             // Cache the test info as incomplete
             this._cacheLineStatus(subtitle.index, {
@@ -611,6 +787,8 @@ export default class SrsController {
                 userAnswers: blankedIndices.map(() => ''),
                 showingResult: false,
                 resultCorrect: false,
+                testType: this._testType,
+                choices,
             };
 
             // Hide subtitles and show test overlay
@@ -619,8 +797,12 @@ export default class SrsController {
             this._studyOverlay.setTheme(this._themeType);
             this._studyOverlay.show(this._currentDisplayState);
             
+            // Record the line for review, letting it play through the end padding before pausing
+            const recordClip = this._trackResults && this._clipStorageLimit > 0 && !this._context.recordingMedia;
+            this._currentClipId = recordClip ? this._recordClip(subtitle) : undefined;
+            
             // Let the subtitle line finish playing, then pause
-            this._pauseAtSubtitleEnd(subtitle.end);
+            this._pauseAtSubtitleEnd(subtitle.end + (recordClip ? this._audioPaddingEnd : 0));
             return true; // Signal to suppress subtitle display
         } catch (err) {
             console.error('SrsController: Failed to show test', err);
@@ -629,6 +811,104 @@ export default class SrsController {
         }
     }
 
+    /**
+     * Adjust the words selected for a cloze test to the configured test type. Dictation tests every word of the line,
+     * and reading tests only words written in kanji, falling back to a random one if none was selected.
+     */
+    private _blanksForTestType(tokens: TokenPart[], blankedIndices: number[]): number[] {
+        switch (this._testType) {
+            case 'dictation':
+                return getTestableIndices(tokens);
+            case 'reading': {
+                const hasKanji = (i: number) => KANJI_REGEX.test(tokens[i].text);
+                const withKanji = blankedIndices.filter(hasKanji);
+                
+                if (withKanji.length > 0) {
+                    return withKanji;
+                }
+                
+                const candidates = getTestableIndices(tokens).filter(hasKanji);
+                return candidates.length === 0 ? [] : [candidates[Math.floor(Math.random() * candidates.length)]];
+            }
+            default:
+                return blankedIndices;
+        }
+    }
+
+    /**
+     * Options of each blank of a multiple choice test, drawn from words of the same part of speech in the subtitles.
+     * Blanks without distractors are left to be typed.
+     */
+    private async _multipleChoices(tokens: TokenPart[], blankedIndices: number[]) {
+        const subtitles = this._context.subtitleController.subtitles;
+        
+        if (this._distractorPool?.subtitles !== subtitles) {
+            this._distractorPool = { subtitles, pool: this._buildDistractorPool(subtitles) };
+        }
+        
+        try {
+            const pool = await this._distractorPool.pool;
+            return blankedIndices.map((i) => pool.choices(tokens[i], MULTIPLE_CHOICE_OPTIONS));
+        } catch (e) {
+            console.warn('[SrsController] Failed to build multiple choice options:', e);
+            return undefined;
+        }
+    }
+
+    private async _buildDistractorPool(subtitles: SubtitleModel[]): Promise<DistractorPool> {
+        const pool = new DistractorPool();
+        const tokenizer = this._tokenizer;
+        
+        if (!tokenizer) {
+            return pool;
+        }
+        
+        // Tokenizing the whole file would take too long on long videos, so draw from evenly spaced lines
+        const step = Math.max(1, Math.floor(subtitles.length / DISTRACTOR_SAMPLE_SIZE));
+        
+        for (let i = 0; i < subtitles.length; i += step) {
+            const tokenGroups = await tokenizer.tokenize(subtitles[i].text);
+            pool.add(tokenGroups.flat());
+        }
+        
+        return pool;
+    }
+
+    /**
+     * Record the audio of the tested line through the background page, which stores it for review.
+     * @returns ID of the stored clip, or undefined if no audio could be recorded
+     */
+    private async _recordClip(subtitle: IndexedSubtitleModel): Promise<number | undefined> {
+        // The test is shown once the line has started playing, so the clip always starts over from its beginning
+        this._context.seek(Math.max(0, subtitle.start - this._audioPaddingStart) / 1000);
+        
+        const command: VideoToExtensionCommand<RecordStudyClipMessage> = {
+            sender: 'asbplayer-video',
+            message: {
+                command: 'record-study-clip',
+                start: subtitle.start,
+                end: subtitle.end,
+                audioPaddingStart: this._audioPaddingStart,
+                audioPaddingEnd: this._audioPaddingEnd,
+                playbackRate: this._context.video.playbackRate,
+            },
+            src: this._context.video.src,
+        };
+        
+        try {
+            const response = (await browser.runtime.sendMessage(command)) as RecordStudyClipResponse | undefined;
+            
+            if (response?.error !== undefined) {
+                console.warn('[SrsController] Failed to record study clip:', response.error);
+            }
+            
+            return response?.clipId;
+        } catch (e) {
+            console.warn('[SrsController] Failed to record study clip:', e);
+            return undefined;
+        }
+    }
+
     private _cacheLineStatus(subtitleIndex: number, info: LineTestInfo) {
         const videoSrc = this._context.video.src;
         if (!this._lineStatusCache.has(videoSrc)) {
@@ -713,54 +993,63 @@ export default class SrsController {
         if (this._answerSubmitted) return;
         this._answerSubmitted = true;
         
-        const { tokens, blankedIndices } = this._currentDisplayState;
+        const { tokens, blankedIndices, choices } = this._currentDisplayState;
+        const testType = this._currentDisplayState.testType ?? 'cloze';
         
-        // Check each answer - accept exact match, reading match, or tokenized reading match
-        const answerResults: boolean[] = [];
+        // Grade each answer by its surface form, reading or pronunciation, then by the reading of its tokens
+        let answerResults: AnswerGrade[] = [];
+        let dictationDiff: DictationOp[] | undefined;
         
-        for (let i = 0; i < blankedIndices.length; i++) {
+        if (testType === 'dictation') {
+            // Every word of the line is graded by whether it was typed
+            let typedTokens: TokenPart[] = [];
+            
+            try {
+                typedTokens = this._tokenizer ? (await this._tokenizer.tokenize(answers[0] ?? '')).flat() : [];
+            } catch (e) {
+                console.warn('[SrsController] Failed to tokenize dictation:', e);
+            }
+            
+            const diff = diffDictation(tokens, typedTokens, this._answerMatching);
+            answerResults = blankedIndices.map((i) => (diff.matched[i] ? 'correct' : 'wrong'));
+            dictationDiff = diff.ops;
+        }
+        
+        for (let i = 0; i < blankedIndices.length && testType !== 'dictation'; i++) {
             const token = tokens[blankedIndices[i]];
-            const correctText = token.text.trim();
             const userAnswer = answers[i]?.trim() || '';
             
-            // 1. Exact text match
-            if (userAnswer === correctText) {
-                answerResults.push(true);
+            if (choices?.[i]) {
+                // Options are distinct words, so only the right one passes
+                answerResults.push(userAnswer === token.text ? 'correct' : 'wrong');
                 continue;
             }
             
-            // 2. User typed the reading directly (hiragana)
-            const expectedReading = this._katakanaToHiragana(token.reading || token.text);
-            if (userAnswer === expectedReading) {
-                answerResults.push(true);
+            if (testType === 'reading') {
+                // Writing the word itself doesn't show its reading
+                answerResults.push(gradeAnswer(userAnswer, { ...token, text: '' }, this._answerMatching));
                 continue;
             }
             
-            // 3. User typed kanji - tokenize to get its reading and compare
-            if (this._tokenizer) {
+            let grade = gradeAnswer(userAnswer, token, this._answerMatching);
+            
+            // User typed kanji - tokenize to get its reading and compare
+            if (grade !== 'correct' && userAnswer && this._tokenizer) {
                 try {
                     const userTokens = await this._tokenizer.tokenize(userAnswer);
                     const userReading = userTokens.flat()
-                        .map(t => this._katakanaToHiragana(t.reading || t.text))
+                        .map(t => t.reading || t.text)
                         .join('');
-                    if (userReading === expectedReading) {
-                        answerResults.push(true);
-                        continue;
-                    }
+                    grade = betterGrade(grade, gradeAnswer(userReading, token, this._answerMatching));
                 } catch {
-                    // Tokenization failed, fall through to incorrect
+                    // Tokenization failed, keep the grade of the answer as typed
                 }
             }
             
-            answerResults.push(false);
+            answerResults.push(grade);
         }
         
-        const allCorrect = answerResults.every(r => r);
-        
-        // Save study records for each blanked token
-        if (this._trackResults) {
-            await this._saveStudyRecords(tokens, blankedIndices, answerResults);
-        }
+        const allCorrect = answerResults.every(isPassingGrade);
         
         // Update display to show result with per-answer results
         this._currentDisplayState = {
@@ -769,10 +1058,16 @@ export default class SrsController {
             showingResult: true,
             resultCorrect: allCorrect,
             answerResults,
+            dictationDiff,
         };
         this._studyOverlay.updateState(this._currentDisplayState);
         
         this._testCompleted = true;
+        
+        // Save study records for each blanked token (after showing the result, since saving waits for the clip)
+        if (this._trackResults) {
+            await this._saveStudyRecords(tokens, blankedIndices, answerResults, testType);
+        }
     }
 
     /**
@@ -781,33 +1076,50 @@ export default class SrsController {
     private async _saveStudyRecords(
         tokens: TokenPart[],
         blankedIndices: number[],
-        answerResults: boolean[]
+        answerResults: AnswerGrade[],
+        testType: StudyTestType
     ): Promise<void> {
         const timestamp = Date.now();
         const mediaSource = this._context.video?.src || '';
         const sentenceContext = tokens.map(t => t.text).join('');
+        const translation = this._currentTranslation();
+        const clipId = await this._currentClipId;
 
-        // Prepare recognition attempts for batch recording
+        // Prepare recognition attempts and scheduled reviews for batch recording
         const recognitionAttempts: Array<{ lemma: string; reading: string; success: boolean }> = [];
+        const scheduledReviews: ScheduledReview[] = [];
+
+        // Only words are scheduled, not the particles and auxiliaries blanked along with them
+        const scheduledIndices = new Set(contentGroups(tokens, this._includeConjugations).map((g) => g.indices[0]));
 
         for (let i = 0; i < blankedIndices.length; i++) {
             const token = tokens[blankedIndices[i]];
             const lemma = token.basicForm || token.text;
-            const reading = this._katakanaToHiragana(token.reading || token.text);
-            const success = answerResults[i];
+            const reading = katakanaToHiragana(token.reading || token.text);
+            const grade = answerResults[i];
 
-            // Add to recognition attempts
-            recognitionAttempts.push({ lemma, reading, success });
+            // Add to recognition attempts and scheduled reviews
+            recognitionAttempts.push({ lemma, reading, success: isPassingGrade(grade) });
+
+            const scheduled = scheduledIndices.has(blankedIndices[i]) && (await this._shouldSchedule(lemma, testType));
+
+            if (scheduled) {
+                scheduledReviews.push({ lemma, reading, rating: reviewRatingForGrade(grade) });
+            }
 
             try {
                 await this._studyRepository.save({
                     lemma,
                     reading,
                     surfaceForm: token.text,
-                    result: success ? 'correct' : 'incorrect',
+                    result: studyResultForGrade(grade),
                     timestamp,
                     sentenceContext,
+                    translation,
                     mediaSource,
+                    clipId,
+                    testType,
+                    scheduled,
                 });
             } catch (e) {
                 console.warn('[SrsController] Failed to save study record:', e);
@@ -820,6 +1132,40 @@ export default class SrsController {
         } catch (e) {
             console.warn('[SrsController] Failed to record recognition attempts:', e);
         }
+
+        // Batch schedule the next review of each tested word
+        try {
+            await this._scheduleRepository.recordReviewsBatch(scheduledReviews);
+        } catch (e) {
+            console.warn('[SrsController] Failed to schedule reviews:', e);
+        }
+    }
+
+    // Dictation blanks every word of the line, so it only reviews words that are already scheduled
+    private async _shouldSchedule(lemma: string, testType: StudyTestType) {
+        if (testType !== 'dictation') {
+            return true;
+        }
+
+        try {
+            return (await this._scheduleRepository.getSchedule(lemma)) !== undefined;
+        } catch (e) {
+            console.warn('[SrsController] Failed to get schedule:', e);
+            return false;
+        }
+    }
+
+    // Lines of the other tracks paired with the tested line, kept with the results as a hint of its meaning
+    private _currentTranslation(): string | undefined {
+        const subtitle = this._currentSubtitle;
+        const subtitles = this._context.subtitleController.subtitles;
+
+        if (!subtitle || !subtitles) {
+            return undefined;
+        }
+
+        const translation = translationForTimestampInterval(subtitles, [subtitle.start, subtitle.end], subtitle.track);
+        return translation === '' ? undefined : translation;
     }
 
     private _handleContinue(passed: boolean) {
@@ -855,18 +1201,7 @@ export default class SrsController {
         }
         this._studyOverlay.dispose();
         this._indicatorOverlay.dispose();
-    }
-
-    /**
-     * Convert katakana to hiragana for reading comparison.
-     * Kuromoji returns readings in katakana, but users typically type in hiragana.
-     */
-    private _katakanaToHiragana(str: string): string {
-        // Katakana range: U+30A1 to U+30F6
-        // Hiragana range: U+3041 to U+3096
-        // Offset: 0x60
-        return str.replace(/[\u30A1-\u30F6]/g, (char) => 
-            String.fromCharCode(char.charCodeAt(0) - 0x60)
-        );
+        this._tokenizer?.dispose();
+        this._tokenizer = undefined;
     }
 }
@@ -10,6 +10,7 @@ import {
     HttpPostMessage,
     IndexedSubtitleModel,
     RichSubtitleModel,
+    SubtitlePosition,
 } from '@project/common';
 import {
     SettingsProvider,
@@ -18,8 +19,9 @@ import {
     TextSubtitleSettings,
     allTextSubtitleSettings,
 } from '@project/common/settings';
-import { SubtitleSlice } from '@project/common/subtitle-collection';
+import { SubtitleCollection, SubtitleSlice } from '@project/common/subtitle-collection';
 import { SubtitleColoring } from '@project/common/subtitle-coloring';
+import { positionedAtTop, positionTextAlign, styledSubtitleHtml } from '@project/common/subtitle-reader';
 import { arrayEquals, computeStyleString, surroundingSubtitles } from '@project/common/util';
 import i18n from 'i18next';
 import {
@@ -29,6 +31,9 @@ import {
     KeyedHtml,
     OffsetAnchor,
 } from '../services/element-overlay';
+import { backgroundKnownWordsRepository } from '../services/known-words-repository';
+import { backgroundFrequencyRepository } from '../services/frequency-repository';
+import { createTokenizer } from '../services/tokenizer-factory';
 import { v4 as uuidv4 } from 'uuid';
 
 const BOUNDING_BOX_PADDING = 25;
@@ -80,6 +85,7 @@ export default class SubtitleController {
     private subtitleClasses?: string[];
     private notificationElementOverlayHideTimeout?: NodeJS.Timeout;
     subtitleColoring: SubtitleColoring;
+    private speechCollection?: SubtitleCollection<IndexedSubtitleModel>;
     private bottomSubtitlesElementOverlay: ElementOverlay;
     private topSubtitlesElementOverlay: ElementOverlay;
     private notificationElementOverlay: ElementOverlay;
@@ -103,7 +109,7 @@ export default class SubtitleController {
 
     onNextToShow?: (subtitle: SubtitleModel) => void;
     onSlice?: (subtitle: SubtitleSlice<IndexedSubtitleModel>) => void;
-    onOffsetChange?: () => void;
+    onOffsetChange?: (offset: number) => void;
     onMouseOver?: (event: MouseEvent) => void;
     onSubtitleStarted?: (subtitle: SubtitleModel) => void;
     isTestLine?: (subtitleIndex: number) => boolean;
@@ -139,7 +145,10 @@ export default class SubtitleController {
             { showingCheckRadiusMs: 150 },
             (updatedSubtitles) => this._subtitleColorsUpdated(updatedSubtitles),
             () => this.video.currentTime * 1000,
-            new VideoFetcher(() => this.video.src)
+            new VideoFetcher(() => this.video.src),
+            backgroundKnownWordsRepository(video),
+            (type) => createTokenizer({ type }),
+            backgroundFrequencyRepository(video)
         );
     }
 
@@ -152,14 +161,30 @@ export default class SubtitleController {
         this.autoPauseContext.clear();
     }
 
+    // Lines of speech detected in the audio, which condensed and fast forward playback fall back to without subtitles
+    set speechSubtitles(speechSubtitles: IndexedSubtitleModel[] | undefined) {
+        if (speechSubtitles === undefined) {
+            this.speechCollection = undefined;
+            return;
+        }
+
+        this.speechCollection = new SubtitleCollection<IndexedSubtitleModel>({
+            returnLastShown: true,
+            returnNextToShow: true,
+        });
+        this.speechCollection.setSubtitles(speechSubtitles);
+    }
+
     reset() {
         this.subtitles = [];
+        this.speechSubtitles = undefined;
         this.subtitleFileNames = undefined;
         this.cacheHtml();
         this.subtitleColoring.reset();
     }
 
     cacheHtml() {
+        this._updateOverlaysToRender();
         const htmls = this._buildSubtitlesHtml(this.subtitles);
 
         if (this.shouldRenderBottomOverlay && this.bottomSubtitlesElementOverlay instanceof CachingElementOverlay) {
@@ -214,12 +239,7 @@ export default class SubtitleController {
         const newAlignments = allTextSubtitleSettings(newSubtitleSettings).map((s) => s.subtitleAlignment);
         if (!arrayEquals(newAlignments, Object.values(this.subtitleTrackAlignments), (a, b) => a === b)) {
             this.subtitleTrackAlignments = newAlignments;
-            this.shouldRenderBottomOverlay = Object.values(this.subtitleTrackAlignments).includes(
-                'bottom' as SubtitleAlignment
-            );
-            this.shouldRenderTopOverlay = Object.values(this.subtitleTrackAlignments).includes(
-                'top' as SubtitleAlignment
-            );
+            this._updateOverlaysToRender();
             const { subtitleOverlayParams, topSubtitleOverlayParams, notificationOverlayParams } =
                 this._elementOverlayParams();
             this._applyElementOverlayParams(this.bottomSubtitlesElementOverlay, subtitleOverlayParams);
@@ -251,6 +271,28 @@ export default class SubtitleController {
         return this.subtitleTrackAlignments[trackIndex] || this.subtitleTrackAlignments[0];
     }
 
+    // Positioned subtitles, e.g. ASS lines with \an8, go to the overlay of the half of the video they are placed in
+    private _getSubtitleAlignment(subtitle: SubtitleModel) {
+        const position = subtitle.styling?.position;
+
+        if (position !== undefined) {
+            return positionedAtTop(position) ? 'top' : 'bottom';
+        }
+
+        return this._getSubtitleTrackAlignment(subtitle.track);
+    }
+
+    private _updateOverlaysToRender() {
+        const alignments = [
+            ...Object.values(this.subtitleTrackAlignments),
+            ...this.subtitles
+                .filter((s) => s.styling?.position !== undefined)
+                .map((s) => this._getSubtitleAlignment(s)),
+        ];
+        this.shouldRenderBottomOverlay = alignments.includes('bottom');
+        this.shouldRenderTopOverlay = alignments.includes('top');
+    }
+
     private _applyElementOverlayParams(overlay: ElementOverlay, params: ElementOverlayParams) {
         overlay.offsetAnchor = params.offsetAnchor;
         overlay.fullscreenContainerClassName = params.fullscreenContainerClassName;
@@ -329,7 +371,7 @@ export default class SubtitleController {
 
     private _subtitleColorsUpdated(updatedSubtitles: RichSubtitleModel[]): void {
         for (const updatedSubtitle of updatedSubtitles) {
-            if (this._getSubtitleTrackAlignment(updatedSubtitle.track) === 'bottom') {
+            if (this._getSubtitleAlignment(updatedSubtitle) === 'bottom') {
                 if (
                     this.shouldRenderBottomOverlay &&
                     this.bottomSubtitlesElementOverlay instanceof CachingElementOverlay
@@ -371,6 +413,15 @@ export default class SubtitleController {
             }
 
             if (this.subtitles.length === 0) {
+                if (this.speechCollection !== undefined) {
+                    const speechSlice = this.speechCollection.subtitlesAt(this.video.currentTime * 1000);
+                    this.onSlice?.(speechSlice);
+
+                    if (speechSlice.nextToShow && speechSlice.nextToShow.length > 0) {
+                        this.onNextToShow?.(speechSlice.nextToShow[0]);
+                    }
+                }
+
                 return;
             }
 
@@ -415,14 +466,12 @@ export default class SubtitleController {
                 this._resetUnblurState();
                 if (this.shouldRenderBottomOverlay) {
                     const showingSubtitlesBottom = showingSubtitles.filter(
-                        (s) => this._getSubtitleTrackAlignment(s.track) === 'bottom'
+                        (s) => this._getSubtitleAlignment(s) === 'bottom'
                     );
                     this._renderSubtitles(showingSubtitlesBottom, OffsetAnchor.bottom);
                 }
                 if (this.shouldRenderTopOverlay) {
-                    const showingSubtitlesTop = showingSubtitles.filter(
-                        (s) => this._getSubtitleTrackAlignment(s.track) === 'top'
-                    );
+                    const showingSubtitlesTop = showingSubtitles.filter((s) => this._getSubtitleAlignment(s) === 'top');
                     this._renderSubtitles(showingSubtitlesTop, OffsetAnchor.top);
                 }
 
@@ -500,7 +549,7 @@ export default class SubtitleController {
         return subtitles.map((subtitle) => {
             return {
                 html: () => {
-                    if (subtitle.textImage) {
+                    if (subtitle.textImage && subtitle.text === '') {
                         const className = this.subtitleClasses?.[subtitle.track] ?? '';
                         const imageScale =
                             ((this.subtitleSettings?.imageBasedSubtitleScaleFactor ?? 1) *
@@ -520,7 +569,9 @@ export default class SubtitleController {
                             </div>
                         `;
                     } else {
-                        return this._buildTextHtml(subtitle.text, subtitle.track, subtitle.richText);
+                        const fragments = subtitle.styling?.fragments;
+                        const text = fragments ? styledSubtitleHtml(fragments, true).join('\n') : subtitle.text;
+                        return this._buildTextHtml(text, subtitle.track, subtitle.richText, subtitle.styling?.position);
                     }
                 },
                 key: String(subtitle.index),
@@ -528,11 +579,20 @@ export default class SubtitleController {
         });
     }
 
-    private _buildTextHtml(text: string, track?: number, richText?: string) {
+    private _buildTextHtml(text: string, track?: number, richText?: string, position?: SubtitlePosition) {
+        let html: string;
+
         if (richText && this.subtitleColoring.hoverOnly(track!)) {
-            return `<span data-track="${track!}" class="${this._subtitleClasses(track)}" style="${this._subtitleStyles(track)}"><span class="asbplayer-subtitle-text">${text}</span><span class="asbplayer-subtitle-rich">${richText}</span></span>`;
+            html = `<span data-track="${track!}" class="${this._subtitleClasses(track)}" style="${this._subtitleStyles(track)}"><span class="asbplayer-subtitle-text">${text}</span><span class="asbplayer-subtitle-rich">${richText}</span></span>`;
+        } else {
+            html = `<span data-track="${track ?? 0}" class="${this._subtitleClasses(track)}" style="${this._subtitleStyles(track)}">${richText ?? text}</span>`;
         }
-        return `<span data-track="${track ?? 0}" class="${this._subtitleClasses(track)}" style="${this._subtitleStyles(track)}">${richText ?? text}</span>`;
+
+        if (position !== undefined && positionTextAlign(position) !== 'center') {
+            return `<div style="text-align:${positionTextAlign(position)}">${html}</div>`;
+        }
+
+        return html;
     }
 
     unbind() {
@@ -611,6 +671,25 @@ export default class SubtitleController {
         }
     }
 
+    /**
+     * The colored word under the mouse cursor, if any, and the track of the subtitle it is in.
+     */
+    hoveredWord(): { track: number; word: string } | undefined {
+        for (const element of [
+            ...this.bottomSubtitlesElementOverlay.displayingElements(),
+            ...this.topSubtitlesElementOverlay.displayingElements(),
+        ]) {
+            const hovered = element.querySelectorAll<HTMLElement>('[data-word]:hover');
+            const word = hovered[hovered.length - 1]?.dataset.word;
+
+            if (word !== undefined) {
+                return { track: Number(element.dataset.track), word };
+            }
+        }
+
+        return undefined;
+    }
+
     offset(offset: number, skipNotifyPlayer = false) {
         if (!this.subtitles || this.subtitles.length === 0) {
             return;
@@ -625,6 +704,7 @@ export default class SubtitleController {
             originalEnd: s.originalEnd,
             track: s.track,
             index: s.index,
+            styling: s.styling,
         }));
 
         this.lastOffsetChangeTimestamp = Date.now();
@@ -642,7 +722,7 @@ export default class SubtitleController {
             browser.runtime.sendMessage(command);
         }
 
-        this.onOffsetChange?.();
+        this.onOffsetChange?.(offset);
 
         this.settings.getSingle('rememberSubtitleOffset').then((rememberSubtitleOffset) => {
             if (rememberSubtitleOffset) {
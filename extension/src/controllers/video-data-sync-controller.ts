@@ -21,6 +21,11 @@ import { fetchLocalization } from '../services/localization-fetcher';
 import i18n from 'i18next';
 import { ExtensionGlobalStateProvider } from '@/services/extension-global-state-provider';
 import { isOnTutorialPage } from '@/services/tutorial';
+import {
+    backgroundSubtitleLibraryRepository,
+    type BackgroundSubtitleLibraryRepository,
+} from '@/services/subtitle-library-repository';
+import type { SubtitleLibraryEntry, SubtitleLibraryKey } from '@project/common/subtitle-library';
 
 declare global {
     function cloneInto(obj: any, targetScope: any, options?: any): any;
@@ -50,6 +55,9 @@ interface ShowOptions {
     fromAsbplayerId?: string;
 }
 
+// Larger subtitle files, e.g. image-based ones, are not remembered since they are sent to the background page whole
+const maxRememberedSubtitlesSize = 10 * 1024 * 1024;
+
 const fetchDataForLanguageOnDemand = (language: string): Promise<VideoData> => {
     return new Promise((resolve, reject) => {
         const listener = (event: Event) => {
@@ -69,6 +77,7 @@ export default class VideoDataSyncController {
     private readonly _domain: string;
     private readonly _frame: UiFrame;
     private readonly _settings: SettingsProvider;
+    private readonly _subtitleLibrary: BackgroundSubtitleLibraryRepository;
 
     private _autoSync?: boolean;
     private _lastLanguagesSynced: { [key: string]: string[] };
@@ -80,6 +89,8 @@ export default class VideoDataSyncController {
     private _autoSyncAttempted: boolean = false;
     private _dataReceivedListener?: (event: Event) => void;
     private _isTutorial: boolean;
+    private _rememberedSubtitles?: SubtitleLibraryEntry;
+    private _subtitleLibraryEntryId?: number;
 
     constructor(context: Binding, settings: SettingsProvider) {
         this._context = context;
@@ -96,6 +107,7 @@ export default class VideoDataSyncController {
         this._domain = new URL(window.location.href).host;
         this._frame = new UiFrame(html);
         this._isTutorial = isOnTutorialPage();
+        this._subtitleLibrary = backgroundSubtitleLibraryRepository(context.video);
     }
 
     private get lastLanguagesSynced(): string[] {
@@ -137,6 +149,8 @@ export default class VideoDataSyncController {
     }
 
     async requestSubtitles() {
+        const loadedRememberedSubtitles = await this._recallSubtitles();
+
         if (!this._context.hasPageScript) {
             return;
         }
@@ -148,7 +162,8 @@ export default class VideoDataSyncController {
         }
 
         this._syncedData = undefined;
-        this._autoSyncAttempted = false;
+        // Remembered subtitles take precedence over auto-loading detected ones
+        this._autoSyncAttempted = loadedRememberedSubtitles;
 
         if (!this._dataReceivedListener) {
             this._dataReceivedListener = (event: Event) => {
@@ -171,6 +186,93 @@ export default class VideoDataSyncController {
         }
     }
 
+    /**
+     * Remember subtitles loaded onto the video, so that they can be loaded again the next time the video is opened.
+     * Files that are too large to send to the background page are not remembered.
+     */
+    async rememberSubtitles(files: File[], flatten: boolean, offset: number) {
+        this._subtitleLibraryEntryId = undefined;
+
+        if (!(await this._settings.getSingle('streamingRememberSubtitles')) || files.every((f) => f.size === 0)) {
+            return;
+        }
+
+        if (files.reduce((size, f) => size + f.size, 0) > maxRememberedSubtitlesSize) {
+            return;
+        }
+
+        try {
+            const serializedFiles: SerializedSubtitleFile[] = await Promise.all(
+                files.map(async (f) => ({ name: f.name, base64: bufferToBase64(await f.arrayBuffer()) }))
+            );
+            this._subtitleLibraryEntryId = await this._subtitleLibrary.save(this._subtitleLibraryKey(), {
+                files: serializedFiles,
+                flatten,
+                offset,
+            });
+        } catch (e) {
+            console.error('Failed to remember subtitles', e);
+        }
+    }
+
+    rememberOffset(offset: number) {
+        if (this._subtitleLibraryEntryId === undefined) {
+            return;
+        }
+
+        this._subtitleLibrary.updateOffset(this._subtitleLibraryEntryId, offset).catch(console.error);
+    }
+
+    private _subtitleLibraryKey(): SubtitleLibraryKey {
+        const src = this._context.video.src;
+        const fileName = src.startsWith('file:')
+            ? decodeURIComponent(src.substring(src.lastIndexOf('/') + 1))
+            : undefined;
+        return { url: window.location.href, title: document.title, fileName };
+    }
+
+    // Look up subtitles remembered for the video, and load them if they should be loaded automatically
+    private async _recallSubtitles() {
+        this._rememberedSubtitles = undefined;
+        this._subtitleLibraryEntryId = undefined;
+        const { streamingRememberSubtitles, streamingAutoLoadRememberedSubtitles } = await this._settings.get([
+            'streamingRememberSubtitles',
+            'streamingAutoLoadRememberedSubtitles',
+        ]);
+
+        if (!streamingRememberSubtitles || this._isTutorial) {
+            return false;
+        }
+
+        try {
+            this._rememberedSubtitles = await this._subtitleLibrary.find(this._subtitleLibraryKey());
+        } catch (e) {
+            console.error('Failed to look up remembered subtitles', e);
+            return false;
+        }
+
+        if (this._rememberedSubtitles === undefined) {
+            return false;
+        }
+
+        if (streamingAutoLoadRememberedSubtitles) {
+            await this._loadRememberedSubtitles();
+            return true;
+        }
+
+        this._context.subtitleController.notification('info.rememberedSubtitlesAvailable');
+        return false;
+    }
+
+    private async _loadRememberedSubtitles() {
+        if (this._rememberedSubtitles === undefined) {
+            return;
+        }
+
+        const { files, flatten, offset } = this._rememberedSubtitles;
+        await this._syncSubtitles(files, flatten, undefined, offset);
+    }
+
     async show({ reason, fromAsbplayerId }: ShowOptions) {
         const client = await this._client();
         const additionalFields: Partial<VideoDataUiModel> = {
@@ -203,6 +305,7 @@ export default class VideoDataSyncController {
         const hasSeenFtue = (await globalStateProvider.get(['ftueHasSeenSubtitleTrackSelector']))
             .ftueHasSeenSubtitleTrackSelector;
         const hideRememberTrackPreferenceToggle = this._isTutorial || (await this._pageHidesTrackPrefToggle());
+        const rememberedSubtitles = this._rememberedSubtitles?.files.map((f) => f.name) ?? [];
         return this._syncedData
             ? {
                   isLoading: this._syncedData.subtitles === undefined,
@@ -219,6 +322,7 @@ export default class VideoDataSyncController {
                   },
                   hasSeenFtue,
                   hideRememberTrackPreferenceToggle,
+                  rememberedSubtitles,
                   ...additionalFields,
               }
             : {
@@ -237,6 +341,7 @@ export default class VideoDataSyncController {
                   },
                   hasSeenFtue,
                   hideRememberTrackPreferenceToggle,
+                  rememberedSubtitles,
                   ...additionalFields,
               };
     }
@@ -367,6 +472,12 @@ export default class VideoDataSyncController {
                     return;
                 }
 
+                if ('loadRememberedSubtitles' === message.command) {
+                    await this._loadRememberedSubtitles();
+                    this._hideAndResume();
+                    return;
+                }
+
                 let dataWasSynced = true;
 
                 if ('confirm' === message.command) {
@@ -516,12 +627,13 @@ export default class VideoDataSyncController {
     private async _syncSubtitles(
         serializedFiles: SerializedSubtitleFile[],
         flatten: boolean,
-        syncWithAsbplayerId?: string
+        syncWithAsbplayerId?: string,
+        offset?: number
     ) {
         const files: File[] = await Promise.all(
             serializedFiles.map(async (f) => new File([base64ToBlob(f.base64, 'text/plain')], f.name))
         );
-        this._context.loadSubtitles(files, flatten, syncWithAsbplayerId);
+        this._context.loadSubtitles(files, flatten, syncWithAsbplayerId, offset);
     }
 
     private async _subtitlesForUrl(
@@ -8,11 +8,16 @@ import type {
     RequestSubtitlesResponse,
     RequestWatchTimeStatsMessage,
     RequestWatchTimeStatsResponse,
+    RepositoryResponse,
     SetActiveProfileMessage,
     SetGlobalStateMessage,
     SetSettingsMessage,
+    TokenizeMessage,
+    TokenizeResponse,
 } from '@project/common';
+import type { LocalTokenizerType, Tokenizer } from '@project/common/tokenizer';
 import { ExtensionSettingsStorage } from '@/services/extension-settings-storage';
+import { createTokenizer } from '@/services/tokenizer-factory';
 import { ExtensionGlobalStateProvider } from '@/services/extension-global-state-provider';
 import type { ContentScriptContext } from '#imports';
 import gte from 'semver/functions/gte';
@@ -40,6 +45,24 @@ export default defineContentScript({
         const settingsStorage = new ExtensionSettingsStorage();
         const globalStateProvider = new ExtensionGlobalStateProvider();
 
+        // The app can't load the dictionaries bundled with the extension, so it tokenizes through this script
+        const tokenizers = new Map<LocalTokenizerType, Promise<Tokenizer>>();
+        const tokenize = async ({ text, tokenizerType }: TokenizeMessage): Promise<TokenizeResponse> => {
+            try {
+                let tokenizer = tokenizers.get(tokenizerType);
+
+                if (tokenizer === undefined) {
+                    tokenizer = createTokenizer({ type: tokenizerType });
+                    tokenizers.set(tokenizerType, tokenizer);
+                    tokenizer.catch(() => tokenizers.delete(tokenizerType));
+                }
+
+                return { tokens: await (await tokenizer).tokenize(text) };
+            } catch (e) {
+                return { error: e instanceof Error ? e.message : String(e) };
+            }
+        };
+
         window.addEventListener('message', async (event) => {
             if (event.source !== window) {
                 return;
@@ -132,6 +155,12 @@ export default defineContentScript({
                             messageId: command.message.messageId,
                         });
                         break;
+                    case 'mining-queue-repository':
+                        sendMessageToPlayer({
+                            response: (await browser.runtime.sendMessage(command)) as RepositoryResponse | undefined,
+                            messageId: command.message.messageId,
+                        });
+                        break;
                     case 'request-watch-time-stats':
                         const requestWatchTimeStatsMessage = command.message as RequestWatchTimeStatsMessage;
                         sendMessageToPlayer({
@@ -165,6 +194,12 @@ export default defineContentScript({
                             messageId: command.message.messageId,
                         });
                         break;
+                    case 'tokenize':
+                        sendMessageToPlayer({
+                            response: await tokenize(command.message as TokenizeMessage),
+                            messageId: command.message.messageId,
+                        });
+                        break;
                     default:
                         browser.runtime.sendMessage(command);
                         break;
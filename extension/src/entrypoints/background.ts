@@ -59,16 +59,27 @@ import { isMobile } from '@project/common/device-detection/mobile';
 import { enqueueUpdateAlert } from '@/services/update-alert';
 import RequestSubtitlesHandler from '@/handlers/asbplayerv2/request-subtitles-handler';
 import RequestCurrentSubtitleHandler from '@/handlers/asbplayerv2/request-current-subtitle-handler';
+import RequestComprehensionReportHandler from '@/handlers/asbplayerv2/request-comprehension-report-handler';
 import MobileOverlayForwarderHandler from '@/handlers/mobile-overlay/mobile-overlay-forwarder-handler';
 import RequestCopyHistoryHandler from '@/handlers/asbplayerv2/request-copy-history-handler';
 import DeleteCopyHistoryHandler from '@/handlers/asbplayerv2/delete-copy-history-handler';
 import ClearCopyHistoryHandler from '@/handlers/asbplayerv2/clear-copy-history-handler';
+import MiningQueueRepositoryHandler from '@/handlers/asbplayerv2/mining-queue-repository-handler';
 import SaveCopyHistoryHandler from '@/handlers/asbplayerv2/save-copy-history-handler';
 import PageConfigHandler from '@/handlers/asbplayerv2/page-config-handler';
 import EncodeMp3Handler from '@/handlers/video/encode-mp3-handler';
 import SaveWatchTimeHandler from '@/handlers/video/save-watch-time-handler';
 import RequestWatchTimeStatsHandler from '@/handlers/video/request-watch-time-stats-handler';
 import ClearWatchTimeHandler from '@/handlers/video/clear-watch-time-handler';
+import StudyRepositoryHandler from '@/handlers/video/study-repository-handler';
+import RecognitionRepositoryHandler from '@/handlers/video/recognition-repository-handler';
+import ScheduleRepositoryHandler from '@/handlers/video/schedule-repository-handler';
+import StudyClipRepositoryHandler from '@/handlers/video/study-clip-repository-handler';
+import SubtitleLibraryRepositoryHandler from '@/handlers/video/subtitle-library-repository-handler';
+import KnownWordsRepositoryHandler from '@/handlers/video/known-words-repository-handler';
+import FrequencyRepositoryHandler from '@/handlers/video/frequency-repository-handler';
+import RecordStudyClipHandler from '@/handlers/video/record-study-clip-handler';
+import TokenizeSudachiHandler from '@/handlers/video/tokenize-sudachi-handler';
 import { IndexedDBWatchTimeRepository } from '@project/common/watch-time';
 
 export default defineBackground(() => {
@@ -179,13 +190,24 @@ export default defineBackground(() => {
         new LoadSubtitlesHandler(tabRegistry),
         new RequestSubtitlesHandler(),
         new RequestCurrentSubtitleHandler(),
+        new RequestComprehensionReportHandler(),
         new RequestCopyHistoryHandler(),
         new SaveCopyHistoryHandler(settings),
         new DeleteCopyHistoryHandler(settings),
         new ClearCopyHistoryHandler(settings),
+        new MiningQueueRepositoryHandler(settings),
         new SaveWatchTimeHandler(settings, updateStatsBadge),
         new RequestWatchTimeStatsHandler(settings),
         new ClearWatchTimeHandler(settings, updateStatsBadge),
+        new StudyRepositoryHandler(),
+        new RecognitionRepositoryHandler(),
+        new ScheduleRepositoryHandler(),
+        new StudyClipRepositoryHandler(),
+        new SubtitleLibraryRepositoryHandler(),
+        new KnownWordsRepositoryHandler(),
+        new FrequencyRepositoryHandler(),
+        new RecordStudyClipHandler(audioRecorder, settings),
+        new TokenizeSudachiHandler(),
         new PublishCardHandler(cardPublisher),
         new BulkExportCancellationHandler(cardPublisher),
         new BulkExportStartedHandler(cardPublisher),
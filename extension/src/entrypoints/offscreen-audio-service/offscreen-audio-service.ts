@@ -9,11 +9,14 @@ import {
     StopRecordingErrorCode,
     StopRecordingResponse,
     EncodeMp3InServiceWorkerMessage,
+    TokenizeWithSudachiMessage,
+    TokenizeWithSudachiResponse,
 } from '@project/common';
 import AudioRecorder, { TimedRecordingInProgressError, NoRecordingInProgressError } from '@/services/audio-recorder';
 import { Mp3Encoder } from '@project/common/audio-clip';
 import { base64ToBlob, bufferToBase64 } from '@project/common/base64';
 import { mp3WorkerFactory } from '@/services/mp3-worker-factory';
+import { tokenizeWithSharedSudachi } from '@/services/shared-sudachi-tokenizer';
 
 const audioRecorder = new AudioRecorder();
 
@@ -153,6 +156,19 @@ window.onload = async () => {
                         .then((buffer) => sendResponse(bufferToBase64(buffer)))
                         .catch(console.error);
                     return true;
+                case 'tokenize-sudachi':
+                    const { text, splitMode } = request.message as TokenizeWithSudachiMessage;
+
+                    tokenizeWithSharedSudachi(text, splitMode)
+                        .then((tokens) => {
+                            const response: TokenizeWithSudachiResponse = { tokens };
+                            sendResponse(response);
+                        })
+                        .catch((e) => {
+                            const response: TokenizeWithSudachiResponse = { error: e.message };
+                            sendResponse(response);
+                        });
+                    return true;
             }
         }
     };
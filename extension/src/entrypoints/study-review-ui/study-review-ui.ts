@@ -0,0 +1,6 @@
+import { renderStudyReviewUi } from '@/ui/study-review';
+
+window.addEventListener('load', () => {
+    const root = document.getElementById('root')!;
+    renderStudyReviewUi(root);
+});
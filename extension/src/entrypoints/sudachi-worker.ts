@@ -0,0 +1,10 @@
+/**
+ * Sudachi Worker Entry Point
+ *
+ * WXT unlisted script that initializes the sudachi worker.
+ */
+import { onMessage } from '../services/sudachi-worker-impl';
+
+export default defineUnlistedScript(() => {
+    onMessage();
+});
@@ -0,0 +1,42 @@
+import type { Command, Message } from '@project/common';
+import { IndexedDBMiningQueueRepository, MiningQueueRepository } from '@project/common/mining-queue';
+import { SettingsProvider } from '@project/common/settings';
+import RepositoryHandler from '../video/repository-handler';
+
+/**
+ * Lets the app use the mining queue of the extension, which lines marked during playback are queued into.
+ */
+export default class MiningQueueRepositoryHandler extends RepositoryHandler<MiningQueueRepository> {
+    private readonly _settings: SettingsProvider;
+    private readonly _miningQueue: IndexedDBMiningQueueRepository;
+
+    constructor(settings: SettingsProvider) {
+        const miningQueue = new IndexedDBMiningQueueRepository();
+        super('mining-queue-repository', 'mining queue', miningQueue, [
+            'fetch',
+            'save',
+            'update',
+            'delete',
+            'deleteExported',
+            'clear',
+        ]);
+        this._settings = settings;
+        this._miningQueue = miningQueue;
+    }
+
+    get sender() {
+        return 'asbplayerv2';
+    }
+
+    handle(command: Command<Message>, sender: Browser.runtime.MessageSender, sendResponse: (r?: any) => void) {
+        // The storage limit may have changed since the last save
+        this._settings
+            .getSingle('miningQueueStorageLimit')
+            .then((limit) => {
+                this._miningQueue.limit = limit;
+                super.handle(command, sender, sendResponse);
+            })
+            .catch((e) => sendResponse({ error: e.message }));
+        return true as const;
+    }
+}
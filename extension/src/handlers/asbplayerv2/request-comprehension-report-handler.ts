@@ -0,0 +1,37 @@
+import {
+    AsbPlayerToVideoCommandV2,
+    Command,
+    ExtensionToVideoCommand,
+    Message,
+    RequestComprehensionReportMessage,
+    RequestComprehensionReportResponse,
+} from '@project/common';
+
+export default class RequestComprehensionReportHandler {
+    get sender() {
+        return 'asbplayerv2';
+    }
+
+    get command() {
+        return 'request-comprehension-report';
+    }
+
+    handle(command: Command<Message>, sender: Browser.runtime.MessageSender, sendResponse: (response?: any) => void) {
+        const { tabId, src } = command as AsbPlayerToVideoCommandV2<RequestComprehensionReportMessage>;
+        const requestComprehensionReportFromTabCommand: ExtensionToVideoCommand<RequestComprehensionReportMessage> = {
+            sender: 'asbplayer-extension-to-video',
+            src,
+            message: {
+                command: 'request-comprehension-report',
+            },
+        };
+        browser.tabs
+            .sendMessage(tabId, requestComprehensionReportFromTabCommand)
+            .then((response) => sendResponse(response))
+            .catch((e) => {
+                const response: RequestComprehensionReportResponse = { error: e.message };
+                sendResponse(response);
+            });
+        return true;
+    }
+}
@@ -0,0 +1,13 @@
+import { FrequencyRepository, IndexedDBFrequencyRepository } from '@project/common/frequency';
+import RepositoryHandler from './repository-handler';
+
+export default class FrequencyRepositoryHandler extends RepositoryHandler<FrequencyRepository> {
+    constructor() {
+        // Importing and clearing are left to extension pages, which access the database directly
+        super('frequency-repository', 'frequency', new IndexedDBFrequencyRepository(), [
+            'ranks',
+            'dictionaries',
+            'count',
+        ]);
+    }
+}
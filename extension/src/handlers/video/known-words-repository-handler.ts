@@ -0,0 +1,14 @@
+import { IndexedDBKnownWordsRepository, KnownWordsRepository } from '@project/common/known-words';
+import RepositoryHandler from './repository-handler';
+
+export default class KnownWordsRepositoryHandler extends RepositoryHandler<KnownWordsRepository> {
+    constructor() {
+        // Importing and clearing are left to extension pages, which access the database directly
+        super('known-words-repository', 'known words', new IndexedDBKnownWordsRepository(), [
+            'mark',
+            'find',
+            'delete',
+            'count',
+        ]);
+    }
+}
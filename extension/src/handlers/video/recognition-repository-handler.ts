@@ -0,0 +1,14 @@
+import { IndexedDBRecognitionRepository, RecognitionRepository } from '@project/common/study-mode';
+import RepositoryHandler from './repository-handler';
+
+export default class RecognitionRepositoryHandler extends RepositoryHandler<RecognitionRepository> {
+    constructor() {
+        // Clearing is left to extension pages, which access the database directly
+        super('recognition-repository', 'recognition', new IndexedDBRecognitionRepository(), [
+            'recordAttempt',
+            'recordAttemptsBatch',
+            'getStats',
+            'fetchAll',
+        ]);
+    }
+}
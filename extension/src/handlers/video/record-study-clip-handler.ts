@@ -0,0 +1,91 @@
+import type {
+    Command,
+    Message,
+    RecordStudyClipMessage,
+    RecordStudyClipResponse,
+    VideoToExtensionCommand,
+} from '@project/common';
+import { SettingsProvider } from '@project/common/settings';
+import { IndexedDBStudyClipRepository } from '@project/common/study-mode';
+import AudioRecorderService, { DrmProtectedStreamError } from '../../services/audio-recorder-service';
+
+export default class RecordStudyClipHandler {
+    private readonly _audioRecorder: AudioRecorderService;
+    private readonly _settings: SettingsProvider;
+    private readonly _repository: IndexedDBStudyClipRepository;
+
+    constructor(audioRecorder: AudioRecorderService, settings: SettingsProvider) {
+        this._audioRecorder = audioRecorder;
+        this._settings = settings;
+        this._repository = new IndexedDBStudyClipRepository();
+    }
+
+    get sender() {
+        return 'asbplayer-video';
+    }
+
+    get command() {
+        return 'record-study-clip';
+    }
+
+    handle(command: Command<Message>, sender: Browser.runtime.MessageSender, sendResponse: (r?: any) => void) {
+        const recordCommand = command as VideoToExtensionCommand<RecordStudyClipMessage>;
+
+        this._record(recordCommand, sender.tab?.id!)
+            .then((clipId) => {
+                const response: RecordStudyClipResponse = { clipId };
+                sendResponse(response);
+            })
+            .catch((e) => {
+                console.error('Failed to record study clip:', e);
+                const response: RecordStudyClipResponse = { error: e.message };
+                sendResponse(response);
+            });
+
+        return true;
+    }
+
+    private async _record(recordCommand: VideoToExtensionCommand<RecordStudyClipMessage>, tabId: number) {
+        const { start, end, audioPaddingStart, audioPaddingEnd, playbackRate } = recordCommand.message;
+        const { studyModeClipStorageLimit, preferMp3 } = await this._settings.get([
+            'studyModeClipStorageLimit',
+            'preferMp3',
+        ]);
+
+        if (studyModeClipStorageLimit <= 0) {
+            return undefined;
+        }
+
+        let base64: string;
+
+        try {
+            base64 = await this._audioRecorder.startWithTimeout(
+                (end - start) / playbackRate + audioPaddingEnd,
+                preferMp3,
+                { src: recordCommand.src, tabId },
+                true
+            );
+        } catch (e) {
+            if (e instanceof DrmProtectedStreamError) {
+                return undefined;
+            }
+
+            throw e;
+        }
+
+        this._repository.limit = studyModeClipStorageLimit;
+        return await this._repository.save({
+            timestamp: Date.now(),
+            mediaSource: recordCommand.src,
+            start,
+            end,
+            audio: {
+                base64,
+                extension: preferMp3 ? 'mp3' : 'webm',
+                paddingStart: audioPaddingStart,
+                paddingEnd: audioPaddingEnd,
+                playbackRate,
+            },
+        });
+    }
+}
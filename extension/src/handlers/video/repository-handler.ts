@@ -0,0 +1,68 @@
+import type { Command, Message, RepositoryMessage, RepositoryResponse } from '@project/common';
+import type {
+    RepositoryMethod,
+    RepositoryMethodParameters,
+    RepositoryMethodSignature,
+} from '@/services/background-repository';
+
+/**
+ * Invokes methods of a repository kept in the extension's origin on behalf of content scripts,
+ * see backgroundRepositoryInvoker.
+ */
+export default class RepositoryHandler<R> {
+    private readonly _command: string;
+    private readonly _name: string;
+    private readonly _repository: R;
+    private readonly _allowedMethods: RepositoryMethod<R>[];
+
+    /**
+     * @param name Name of the repository in error messages
+     * @param allowedMethods Methods that content scripts may call
+     */
+    constructor(command: string, name: string, repository: R, allowedMethods: RepositoryMethod<R>[]) {
+        this._command = command;
+        this._name = name;
+        this._repository = repository;
+        this._allowedMethods = allowedMethods;
+    }
+
+    get sender() {
+        return 'asbplayer-video';
+    }
+
+    get command() {
+        return this._command;
+    }
+
+    handle(command: Command<Message>, sender: Browser.runtime.MessageSender, sendResponse: (r?: any) => void) {
+        const { method, args } = command.message as RepositoryMessage;
+
+        if (!this._isAllowed(method)) {
+            const response: RepositoryResponse = { error: `Unsupported method ${method}` };
+            sendResponse(response);
+            return;
+        }
+
+        this._invoke(method, args as RepositoryMethodParameters<R, typeof method>)
+            .then((result) => {
+                const response: RepositoryResponse = { result };
+                sendResponse(response);
+            })
+            .catch((e) => {
+                console.error(`Failed to invoke ${this._name} ${method}:`, e);
+                const response: RepositoryResponse = { error: e.message };
+                sendResponse(response);
+            });
+
+        return true;
+    }
+
+    private _isAllowed(method: string): method is RepositoryMethod<R> {
+        return (this._allowedMethods as string[]).includes(method);
+    }
+
+    private _invoke<M extends RepositoryMethod<R>>(method: M, args: RepositoryMethodParameters<R, M>) {
+        const invoked = this._repository[method] as RepositoryMethodSignature<R, M>;
+        return invoked.apply(this._repository, args);
+    }
+}
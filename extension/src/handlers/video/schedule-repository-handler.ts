@@ -0,0 +1,15 @@
+import { IndexedDBScheduleRepository, ScheduleRepository } from '@project/common/study-mode';
+import RepositoryHandler from './repository-handler';
+
+export default class ScheduleRepositoryHandler extends RepositoryHandler<ScheduleRepository> {
+    constructor() {
+        // Clearing is left to extension pages, which access the database directly
+        super('schedule-repository', 'schedule', new IndexedDBScheduleRepository(), [
+            'recordReview',
+            'recordReviewsBatch',
+            'getSchedule',
+            'fetchDue',
+            'fetchAll',
+        ]);
+    }
+}
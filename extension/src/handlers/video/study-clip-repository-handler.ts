@@ -0,0 +1,9 @@
+import { IndexedDBStudyClipRepository, StudyClipRepository } from '@project/common/study-mode';
+import RepositoryHandler from './repository-handler';
+
+export default class StudyClipRepositoryHandler extends RepositoryHandler<StudyClipRepository> {
+    constructor() {
+        // Clearing is left to extension pages, which access the database directly
+        super('study-clip-repository', 'study clip', new IndexedDBStudyClipRepository(), ['save', 'get', 'count']);
+    }
+}
@@ -0,0 +1,9 @@
+import { IndexedDBStudyRepository, StudyRepository } from '@project/common/study-mode';
+import RepositoryHandler from './repository-handler';
+
+export default class StudyRepositoryHandler extends RepositoryHandler<StudyRepository> {
+    constructor() {
+        // Clearing is left to extension pages, which access the database directly
+        super('study-repository', 'study', new IndexedDBStudyRepository(), ['save', 'fetch', 'getStats', 'count']);
+    }
+}
@@ -0,0 +1,17 @@
+import { IndexedDBSubtitleLibraryRepository, SubtitleLibraryRepository } from '@project/common/subtitle-library';
+import RepositoryHandler from './repository-handler';
+
+// Least recently loaded subtitles beyond this are forgotten, since subtitle files can be large
+const libraryLimit = 500;
+
+export default class SubtitleLibraryRepositoryHandler extends RepositoryHandler<SubtitleLibraryRepository> {
+    constructor() {
+        // Clearing is left to extension pages, which access the database directly
+        super('subtitle-library-repository', 'subtitle library', new IndexedDBSubtitleLibraryRepository(libraryLimit), [
+            'save',
+            'find',
+            'updateOffset',
+            'delete',
+        ]);
+    }
+}
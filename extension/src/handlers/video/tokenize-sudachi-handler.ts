@@ -0,0 +1,53 @@
+import { isFirefoxBuild } from '@/services/build-flags';
+import { ensureOffscreenAudioServiceDocument } from '@/services/offscreen-document';
+import { tokenizeWithSharedSudachi } from '@/services/shared-sudachi-tokenizer';
+import {
+    Command,
+    ExtensionToOffscreenDocumentCommand,
+    Message,
+    TabToExtensionCommand,
+    TokenizeWithSudachiMessage,
+    TokenizeWithSudachiResponse,
+} from '@project/common';
+
+export default class TokenizeSudachiHandler {
+    get sender() {
+        return 'asbplayer-video-tab';
+    }
+
+    get command() {
+        return 'tokenize-sudachi';
+    }
+
+    handle(command: Command<Message>, sender: Browser.runtime.MessageSender, sendResponse: (response?: any) => void) {
+        const { message } = command as TabToExtensionCommand<TokenizeWithSudachiMessage>;
+
+        if (isFirefoxBuild) {
+            tokenizeWithSharedSudachi(message.text, message.splitMode)
+                .then((tokens) => {
+                    const response: TokenizeWithSudachiResponse = { tokens };
+                    sendResponse(response);
+                })
+                .catch((e) => {
+                    const response: TokenizeWithSudachiResponse = { error: e.message };
+                    sendResponse(response);
+                });
+        } else {
+            ensureOffscreenAudioServiceDocument()
+                .then(() => {
+                    const offscreenCommand: ExtensionToOffscreenDocumentCommand<TokenizeWithSudachiMessage> = {
+                        sender: 'asbplayer-extension-to-offscreen-document',
+                        message,
+                    };
+                    return browser.runtime.sendMessage(offscreenCommand);
+                })
+                .then(sendResponse)
+                .catch((e) => {
+                    const response: TokenizeWithSudachiResponse = { error: e.message };
+                    sendResponse(response);
+                });
+        }
+
+        return true;
+    }
+}
@@ -48,20 +48,29 @@ export default class AudioRecorderService {
         }
     }
 
-    async startWithTimeout(time: number, encodeAsMp3: boolean, requester: Requester): Promise<string> {
+    /**
+     * @param silent Whether to record without notifying the requester of the recording state or of errors,
+     * for recordings that are not part of mining and should not affect playback
+     */
+    async startWithTimeout(time: number, encodeAsMp3: boolean, requester: Requester, silent = false): Promise<string> {
         const requestId = uuidv4();
 
         try {
             const response = await this._delegate.startWithTimeout(time, encodeAsMp3, requestId, requester);
 
             if (response.started) {
-                this._notifyRecordingStarted(requester);
+                if (!silent) {
+                    this._notifyRecordingStarted(requester);
+                }
+
                 return await this._prepareForAudioDataResponse(requestId);
             }
 
-            throw this._handleStartError(response, requester);
+            throw this._handleStartError(response, requester, silent);
         } finally {
-            this._notifyRecordingFinished(requester);
+            if (!silent) {
+                this._notifyRecordingFinished(requester);
+            }
         }
     }
 
@@ -82,18 +91,20 @@ export default class AudioRecorderService {
         }
     }
 
-    private _handleStartError(response: StartRecordingResponse, { tabId, src }: Requester): Error {
+    private _handleStartError(response: StartRecordingResponse, { tabId, src }: Requester, silent = false): Error {
         const errorCode = response.error!.code;
         const errorMessage = `Failed to start audio recording: "${response.error!.message}"`;
 
         switch (errorCode) {
             case StartRecordingErrorCode.noActiveTabPermission:
-                if (tabId !== undefined) {
+                if (tabId !== undefined && !silent) {
                     this._requestActiveTab(tabId, src);
                 }
                 return new Error(errorMessage);
             case StartRecordingErrorCode.other:
-                this._notifyError(errorMessage, { tabId, src });
+                if (!silent) {
+                    this._notifyError(errorMessage, { tabId, src });
+                }
                 return new Error(errorMessage);
             case StartRecordingErrorCode.drmProtected:
                 return new DrmProtectedStreamError();
@@ -0,0 +1,54 @@
+import type { RepositoryMessage, RepositoryResponse, VideoToExtensionCommand } from '@project/common';
+
+type RepositoryFunction = (...args: any[]) => Promise<any>;
+
+/**
+ * Names of the methods of a repository.
+ */
+export type RepositoryMethod<R> = {
+    [K in keyof R]: R[K] extends RepositoryFunction ? K : never;
+}[keyof R] &
+    string;
+
+export type RepositoryMethodSignature<R, M extends RepositoryMethod<R>> = Extract<R[M], RepositoryFunction>;
+
+export type RepositoryMethodParameters<R, M extends RepositoryMethod<R>> = Parameters<RepositoryMethodSignature<R, M>>;
+
+export type RepositoryMethodResult<R, M extends RepositoryMethod<R>> = Awaited<
+    ReturnType<RepositoryMethodSignature<R, M>>
+>;
+
+/**
+ * Content scripts run in the origin of the website, so data shared by every website is kept in the extension's origin
+ * and accessed through the background page, see RepositoryHandler.
+ * @param command Command of the handler of the repository in the background page
+ * @param name Name of the repository in error messages
+ * @returns A function that invokes a method of the repository
+ */
+export const backgroundRepositoryInvoker =
+    <R>(video: HTMLMediaElement, command: string, name: string) =>
+    async <M extends RepositoryMethod<R>>(
+        method: M,
+        ...args: RepositoryMethodParameters<R, M>
+    ): Promise<RepositoryMethodResult<R, M>> => {
+        const videoCommand: VideoToExtensionCommand<RepositoryMessage> = {
+            sender: 'asbplayer-video',
+            message: {
+                command,
+                method,
+                args,
+            },
+            src: video.src,
+        };
+        const response = (await browser.runtime.sendMessage(videoCommand)) as RepositoryResponse | undefined;
+
+        if (response === undefined) {
+            throw new Error(`No response to ${name} ${method}`);
+        }
+
+        if (response.error !== undefined) {
+            throw new Error(response.error);
+        }
+
+        return response.result;
+    };
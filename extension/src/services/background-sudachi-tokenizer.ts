@@ -0,0 +1,66 @@
+/**
+ * Background Sudachi Tokenizer
+ *
+ * Implements the Tokenizer interface by sending text to the Sudachi tokenizer shared by all tabs,
+ * see shared-sudachi-tokenizer.
+ */
+import type { TabToExtensionCommand, TokenizeWithSudachiMessage, TokenizeWithSudachiResponse } from '@project/common';
+import { SudachiSplitMode, Tokenizer, TokenPart } from '@project/common/tokenizer';
+
+export class BackgroundSudachiTokenizer implements Tokenizer {
+    private cache: Map<string, TokenPart[][]> = new Map();
+    private splitMode: SudachiSplitMode;
+
+    constructor(splitMode: SudachiSplitMode = 'B') {
+        this.splitMode = splitMode;
+    }
+
+    private async send(text: string): Promise<TokenPart[][]> {
+        const command: TabToExtensionCommand<TokenizeWithSudachiMessage> = {
+            sender: 'asbplayer-video-tab',
+            message: {
+                command: 'tokenize-sudachi',
+                text,
+                splitMode: this.splitMode,
+            },
+        };
+        const response = (await browser.runtime.sendMessage(command)) as TokenizeWithSudachiResponse | undefined;
+
+        if (response === undefined) {
+            throw new Error('No response from Sudachi tokenizer');
+        }
+
+        if (response.error !== undefined) {
+            throw new Error(response.error);
+        }
+
+        return response.tokens ?? [];
+    }
+
+    async tokenize(text: string): Promise<TokenPart[][]> {
+        const cached = this.cache.get(text);
+        if (cached) return cached;
+
+        const tokens = await this.send(text);
+        this.cache.set(text, tokens);
+        return tokens;
+    }
+
+    async isReady(): Promise<boolean> {
+        try {
+            // Loads the dictionary without tokenizing anything
+            await this.send('');
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    resetCache(): void {
+        this.cache.clear();
+    }
+
+    dispose(): void {
+        this.cache.clear();
+    }
+}
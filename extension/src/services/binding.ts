@@ -5,6 +5,7 @@ import {
     AutoPausePreference,
     CardExportedMessage,
     CardSavedMessage,
+    CardQueuedMessage,
     CardUpdatedMessage,
     CopySubtitleMessage,
     cropAndResize,
@@ -42,6 +43,7 @@ import {
     StopRecordingErrorCode,
     StopRecordingMediaMessage,
     StopRecordingResponse,
+    RequestComprehensionReportResponse,
     SubtitleModel,
     SubtitlesToVideoMessage,
     TakeScreenshotFromExtensionMessage,
@@ -59,7 +61,8 @@ import {
     SubtitleListPreference,
 } from '@project/common/settings';
 import { SubtitleSlice } from '@project/common/subtitle-collection';
-import { SubtitleReader } from '@project/common/subtitle-reader';
+import { SubtitleReader, subtitleTrackFiles } from '@project/common/subtitle-reader';
+import { repairSubtitleTiming, subtitleTimingRepaired } from '@project/common/subtitle-repair';
 import { extractText, seekWithNudge, sourceString, surroundingSubtitlesAroundInterval } from '@project/common/util';
 import AnkiUiController from '../controllers/anki-ui-controller';
 import ControlsController from '../controllers/controls-controller';
@@ -80,7 +83,9 @@ import KeyBindings from './key-bindings';
 import { shouldShowUpdateAlert } from './update-alert';
 import { bufferToBase64 } from '@project/common/base64';
 import { pgsParserWorkerFactory } from './pgs-parser-worker-factory';
+import { textRecognizerFactory } from './text-recognizer-factory';
 import { WatchTimeTracker } from './watch-time-tracker';
+import CapturedSpeechDetector from './captured-speech-detector';
 import { Anki } from '@project/common/anki';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -163,9 +168,13 @@ export default class Binding {
     private condensedPlaybackMinimumSkipIntervalMs = 1000;
     private fastForwardPlaybackMinimumGapMs = 600;
     private fastForwardModePlaybackRate = 2.7;
+    detectSpeechWithoutSubtitles = true;
+    private speechDetectedSrc?: string;
+    private speechDetector?: CapturedSpeechDetector;
     private imageDelay = 0;
     private pauseOnHoverMode: PauseOnHoverMode = PauseOnHoverMode.disabled;
     recordMedia: boolean;
+    recordQueuedMedia: boolean;
 
     private playListener?: EventListener;
     private pauseListener?: EventListener;
@@ -200,7 +209,10 @@ export default class Binding {
         this.ankiUiController = new AnkiUiController();
         this.notificationController = new NotificationController(this);
         this.mobileVideoOverlayController = new MobileVideoOverlayController(this, OffsetAnchor.top);
-        this.subtitleController.onOffsetChange = () => this.mobileVideoOverlayController.updateModel();
+        this.subtitleController.onOffsetChange = (offset) => {
+            this.mobileVideoOverlayController.updateModel();
+            this.videoDataSyncController.rememberOffset(offset);
+        };
         this.mobileGestureController = new MobileGestureController(this);
         this.bulkExportController = new BulkExportController(this);
         this.srsController = new SrsController(this);
@@ -212,6 +224,7 @@ export default class Binding {
             getVideoSrc: () => this.video.src,
         });
         this.recordMedia = true;
+        this.recordQueuedMedia = false;
         this.takeScreenshot = true;
         this.cleanScreenshot = true;
         this.audioPaddingStart = 0;
@@ -315,6 +328,7 @@ export default class Binding {
                     }
                 };
                 this.subtitleController.notification('info.enabledCondensedPlayback');
+                this._detectSpeechWithoutSubtitles();
                 changed = true;
                 break;
             case PlayMode.fastForward:
@@ -349,6 +363,7 @@ export default class Binding {
                     }
                 };
                 this.subtitleController.notification('info.enabledFastForwardPlayback');
+                this._detectSpeechWithoutSubtitles();
                 changed = true;
                 break;
             case PlayMode.repeat:
@@ -656,6 +671,13 @@ export default class Binding {
                     case 'subtitles': {
                         const subtitlesMessage = request.message as SubtitlesToVideoMessage;
                         const subtitles: SubtitleModel[] = subtitlesMessage.value;
+
+                        if (subtitlesMessage.edited) {
+                            this.subtitleController.subtitles = subtitles.map((s, index) => ({ ...s, index }));
+                            this.subtitleController.cacheHtml();
+                            break;
+                        }
+
                         this._updateSubtitles(
                             subtitles.map((s, index) => ({ ...s, index })),
                             subtitlesMessage.names || [subtitlesMessage.name]
@@ -678,6 +700,19 @@ export default class Binding {
                             currentSubtitleIndex: currentSubtitle?.index ?? null,
                         });
                         break;
+                    case 'request-comprehension-report':
+                        this.subtitleController.subtitleColoring
+                            .comprehensionReport()
+                            .then((report) => {
+                                const response: RequestComprehensionReportResponse = { report };
+                                sendResponse(response);
+                            })
+                            .catch((e) => {
+                                console.error(e);
+                                const response: RequestComprehensionReportResponse = { error: e.message };
+                                sendResponse(response);
+                            });
+                        return true;
                     case 'start-bulk-export':
                         this.bulkExportController.start();
                         break;
@@ -777,6 +812,12 @@ export default class Binding {
                         };
                         this.mobileVideoOverlayController.updateModel();
                         break;
+                    case 'card-queued':
+                        const cardQueuedMessage = request.message as CardQueuedMessage;
+                        this.subtitleController.notification('info.queuedForMining', {
+                            result: cardQueuedMessage.cardName,
+                        });
+                        break;
                     case 'notify-error':
                         const notifyErrorMessage = request.message as NotifyErrorMessage;
                         this.subtitleController.notification('info.error', { message: notifyErrorMessage.message });
@@ -961,10 +1002,12 @@ export default class Binding {
         this._seekDuration = currentSettings.seekDuration;
         this._speedChangeStep = currentSettings.speedChangeStep;
         this.recordMedia = currentSettings.streamingRecordMedia;
+        this.recordQueuedMedia = currentSettings.streamingRecordQueuedMedia;
         this.takeScreenshot = currentSettings.streamingTakeScreenshot;
         this.cleanScreenshot = currentSettings.streamingTakeScreenshot && currentSettings.streamingCleanScreenshot;
         this.condensedPlaybackMinimumSkipIntervalMs = currentSettings.streamingCondensedPlaybackMinimumSkipIntervalMs;
         this.fastForwardModePlaybackRate = currentSettings.fastForwardModePlaybackRate;
+        this.detectSpeechWithoutSubtitles = currentSettings.detectSpeechWithoutSubtitles;
         this.imageDelay = currentSettings.streamingScreenshotDelay;
         this.audioPaddingStart = currentSettings.audioPaddingStart;
         this.audioPaddingEnd = currentSettings.audioPaddingEnd;
@@ -1057,6 +1100,8 @@ export default class Binding {
     }
 
     unbind() {
+        this._stopDetectingSpeech();
+
         if (this.canPlayListener) {
             this.video.removeEventListener('canplay', this.canPlayListener);
             this.canPlayListener = undefined;
@@ -1173,7 +1218,14 @@ export default class Binding {
             await this._prepareScreenshot();
         }
 
-        if (this.recordMedia) {
+        // Replaying a subtitle to record it would interrupt viewing every time a subtitle is marked, so subtitles queued
+        // for mining are only recorded if the user opted into it, and only while the subtitle is already playing
+        const recordMedia =
+            postMineAction === PostMineAction.queueForMining
+                ? this.recordMedia && this.recordQueuedMedia && this._playingSubtitle(subtitle)
+                : this.recordMedia;
+
+        if (recordMedia) {
             this.recordingState = RecordingState.requested;
             this.recordingPostMineAction = postMineAction;
             this.wasPlayingBeforeRecordingMedia = !this.video.paused;
@@ -1194,7 +1246,7 @@ export default class Binding {
                 command: 'record-media-and-forward-subtitle',
                 subtitle: subtitle,
                 surroundingSubtitles: surroundingSubtitles,
-                record: this.recordMedia,
+                record: recordMedia,
                 screenshot: this.takeScreenshot,
                 url: this.url(subtitle.start, subtitle.end),
                 mediaTimestamp: this.video.currentTime * 1000,
@@ -1222,6 +1274,21 @@ export default class Binding {
         await this._copySubtitle(message);
     }
 
+    async markForMining() {
+        const [subtitle, surroundingSubtitles] = this.subtitleController.currentSubtitle();
+
+        if (subtitle === null || surroundingSubtitles === null) {
+            return;
+        }
+
+        await this._copySubtitle({
+            command: 'copy-subtitle',
+            postMineAction: PostMineAction.queueForMining,
+            subtitle,
+            surroundingSubtitles,
+        });
+    }
+
     async _toggleRecordingMedia(postMineAction: PostMineAction) {
         if (this.recordingState === RecordingState.requested) {
             return;
@@ -1299,6 +1366,11 @@ export default class Binding {
         );
     }
 
+    private _playingSubtitle(subtitle: SubtitleModel) {
+        const timestamp = this.video.currentTime * 1000;
+        return !this.video.paused && timestamp >= subtitle.start && timestamp < subtitle.end;
+    }
+
     async _prepareScreenshot() {
         if (this.cleanScreenshot) {
             this.notificationController.hide();
@@ -1424,23 +1496,38 @@ export default class Binding {
         return await cropAndResize(maxWidth, maxHeight, rect, tabImageDataUrl);
     }
 
-    async loadSubtitles(files: File[], flatten: boolean, syncWithAsbplayerId?: string) {
+    /**
+     * @param rememberedOffset Offset to apply instead of the last offset, when loading subtitles remembered for the video
+     */
+    async loadSubtitles(files: File[], flatten: boolean, syncWithAsbplayerId?: string, rememberedOffset?: number) {
         const {
             streamingSubtitleListPreference,
             subtitleRegexFilter,
             subtitleRegexFilterTextReplacement,
+            subtitleStyleFilter,
             rememberSubtitleOffset,
             lastSubtitleOffset,
             subtitleHtml,
             convertNetflixRuby: convertNetflixRuby,
+            ocrImageSubtitles,
+            subtitleOverlapRepair,
+            subtitleMinimumDuration,
+            subtitleGapSnapThreshold,
+            removeDuplicateSubtitles,
         } = await this.settings.get([
             'streamingSubtitleListPreference',
             'subtitleRegexFilter',
             'subtitleRegexFilterTextReplacement',
+            'subtitleStyleFilter',
             'rememberSubtitleOffset',
             'lastSubtitleOffset',
             'subtitleHtml',
             'convertNetflixRuby',
+            'ocrImageSubtitles',
+            'subtitleOverlapRepair',
+            'subtitleMinimumDuration',
+            'subtitleGapSnapThreshold',
+            'removeDuplicateSubtitles',
         ]);
         const syncWithAsbplayerTab = async (withSyncedAsbplayerOnly: boolean, withAsbplayerId: string | undefined) => {
             const syncMessage: VideoToExtensionCommand<ExtensionSyncMessage> = {
@@ -1464,6 +1551,8 @@ export default class Binding {
             };
             browser.runtime.sendMessage(syncMessage);
         };
+        const offset = rememberedOffset ?? (rememberSubtitleOffset ? lastSubtitleOffset : 0);
+        this.videoDataSyncController.rememberSubtitles(files, flatten, offset).catch(console.error);
 
         switch (streamingSubtitleListPreference) {
             case SubtitleListPreference.noSubtitleList:
@@ -1472,10 +1561,16 @@ export default class Binding {
                     regexFilterTextReplacement: subtitleRegexFilterTextReplacement,
                     subtitleHtml: subtitleHtml,
                     convertNetflixRuby: convertNetflixRuby,
+                    styleFilter: subtitleStyleFilter,
                     pgsParserWorkerFactory: pgsParserWorkerFactory,
+                    textRecognizer: ocrImageSubtitles ? textRecognizerFactory() : undefined,
+                });
+                const { subtitles, report } = repairSubtitleTiming(await reader.subtitles(files, flatten), {
+                    subtitleOverlapRepair,
+                    subtitleMinimumDuration,
+                    subtitleGapSnapThreshold,
+                    removeDuplicateSubtitles,
                 });
-                const offset = rememberSubtitleOffset ? lastSubtitleOffset : 0;
-                const subtitles = await reader.subtitles(files, flatten);
                 this._updateSubtitles(
                     subtitles.map((s, index) => ({
                         start: s.start + offset,
@@ -1483,12 +1578,24 @@ export default class Binding {
                         text: s.text,
                         textImage: s.textImage,
                         track: s.track,
+                        styling: s.styling,
                         index,
                         originalStart: s.start,
                         originalEnd: s.end,
                     })),
-                    flatten ? [files[0].name] : files.map((f) => f.name)
+                    flatten ? [files[0].name] : subtitleTrackFiles(files).map((f) => f.name)
                 );
+
+                if (subtitleTimingRepaired(report)) {
+                    this.subtitleController.notification('info.repairedSubtitleTiming', {
+                        linesBefore: String(report.linesBefore),
+                        linesAfter: String(report.linesAfter),
+                        duplicates: String(report.duplicates),
+                        overlaps: String(report.overlaps),
+                        shortLines: String(report.shortLines),
+                        gaps: String(report.gaps),
+                    });
+                }
                 // If target asbplayer is not specified, then sync with any already-synced asbplayer
                 // Otherwise, sync with the target asbplayer
                 const withSyncedAsbplayerOnly = syncWithAsbplayerId === undefined;
@@ -1500,13 +1607,68 @@ export default class Binding {
         }
     }
 
+    // Condensed and fast forward playback skip the silence found in the audio of the video when there are no subtitles.
+    // Speech is detected in the audio captured as the video plays, so only silence after speech that has been heard
+    // is skipped.
+    private async _detectSpeechWithoutSubtitles() {
+        const src = this.video.currentSrc;
+
+        if (
+            !this.detectSpeechWithoutSubtitles ||
+            this.subtitleController.subtitles.length > 0 ||
+            this.speechDetectedSrc === src
+        ) {
+            return;
+        }
+
+        this._stopDetectingSpeech();
+
+        // Remembered even if the audio can't be captured, so that it isn't retried for the same video
+        this.speechDetectedSrc = src;
+        this.subtitleController.notification('info.detectingSpeech');
+        this.speechDetector = new CapturedSpeechDetector(
+            this.video,
+            () => this._captureStream(),
+            (intervals) => {
+                this.subtitleController.speechSubtitles = intervals.map((interval, i) => ({
+                    text: '',
+                    start: interval.start,
+                    originalStart: interval.start,
+                    end: interval.end,
+                    originalEnd: interval.end,
+                    track: 0,
+                    index: i,
+                }));
+            },
+            () => this.subtitleController.notification('error.speechDetectionUnsupported')
+        );
+        await this.speechDetector.start();
+    }
+
+    private _stopDetectingSpeech() {
+        this.speechDetector?.stop();
+        this.speechDetector = undefined;
+        this.speechDetectedSrc = undefined;
+        this.subtitleController.speechSubtitles = undefined;
+    }
+
     private _updateSubtitles(subtitles: IndexedSubtitleModel[], subtitleFileNames: string[]) {
         this.subtitleController.subtitles = subtitles;
         this.subtitleController.subtitleFileNames = subtitleFileNames;
         this.subtitleController.cacheHtml();
 
+        if (subtitles.length > 0) {
+            this._stopDetectingSpeech();
+        }
+
         if (this._playMode !== PlayMode.normal && (!subtitles || subtitles.length === 0)) {
-            this.playMode = PlayMode.normal;
+            const speechPlayMode = this._playMode === PlayMode.condensed || this._playMode === PlayMode.fastForward;
+
+            if (speechPlayMode && this.detectSpeechWithoutSubtitles) {
+                this._detectSpeechWithoutSubtitles();
+            } else {
+                this.playMode = PlayMode.normal;
+            }
         }
 
         // Notify watch time tracker when subtitles are loaded
@@ -1553,6 +1715,7 @@ export default class Binding {
     }
 
     private _resetSubtitles() {
+        this._stopDetectingSpeech();
         this.subtitleController.reset();
         this.ankiUiSavedState = undefined;
         this._synced = false;
@@ -0,0 +1,124 @@
+import { LiveSpeechDetector, SpeechInterval } from '@project/common/audio-alignment';
+
+const pollInterval = 100;
+
+// Protected or cross-origin audio is captured as digital silence, so capture is given up on after this much silence
+const maxSilentDuration = 10000;
+
+/**
+ * Detects speech in the audio of a video as it plays, by analyzing the audio captured from the video in short chunks.
+ * Unlike decoding the media file, this works for streamed video and doesn't load the whole file into memory, but only
+ * finds speech in the parts of the video that have been played.
+ */
+export default class CapturedSpeechDetector {
+    private readonly video: HTMLMediaElement;
+    private readonly captureStream: () => Promise<MediaStream>;
+    private readonly onSpeechDetected: (intervals: SpeechInterval[]) => void;
+    private readonly onUnsupported: () => void;
+    private detector?: LiveSpeechDetector;
+    private context?: AudioContext;
+    private source?: MediaStreamAudioSourceNode;
+    private intervalId?: NodeJS.Timeout;
+
+    constructor(
+        video: HTMLMediaElement,
+        captureStream: () => Promise<MediaStream>,
+        onSpeechDetected: (intervals: SpeechInterval[]) => void,
+        onUnsupported: () => void
+    ) {
+        this.video = video;
+        this.captureStream = captureStream;
+        this.onSpeechDetected = onSpeechDetected;
+        this.onUnsupported = onUnsupported;
+    }
+
+    get started() {
+        return this.detector !== undefined;
+    }
+
+    async start() {
+        if (this.detector !== undefined) {
+            return;
+        }
+
+        const detector = new LiveSpeechDetector();
+        this.detector = detector;
+        let stream: MediaStream;
+
+        try {
+            stream = await this.captureStream();
+
+            if (this.detector !== detector) {
+                return;
+            }
+
+            this.context = new AudioContext();
+            this.source = this.context.createMediaStreamSource(stream);
+        } catch (e) {
+            console.error(e);
+
+            if (this.detector === detector) {
+                this.stop();
+                this.onUnsupported();
+            }
+
+            return;
+        }
+
+        const analyser = this.context.createAnalyser();
+        analyser.fftSize = 4096;
+        this.source.connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+        let lastTime: number | undefined;
+
+        this.intervalId = setInterval(() => {
+            if (this.video.paused || this.video.seeking || this.context === undefined) {
+                lastTime = undefined;
+                return;
+            }
+
+            if (this.context.state === 'suspended') {
+                this.context.resume();
+                return;
+            }
+
+            const end = this.video.currentTime * 1000;
+
+            // Only the audio played since the last poll is analyzed, which is at most the size of the analysis buffer
+            const playedDuration = lastTime === undefined ? pollInterval : (end - lastTime) / this.video.playbackRate;
+            lastTime = end;
+
+            if (playedDuration <= 0) {
+                return;
+            }
+
+            const length = Math.min(samples.length, Math.round((playedDuration * this.context.sampleRate) / 1000));
+            analyser.getFloatTimeDomainData(samples);
+            const chunk = samples.subarray(samples.length - length);
+            const start = end - ((length * 1000) / this.context.sampleRate) * this.video.playbackRate;
+
+            if (detector.push(chunk, this.context.sampleRate, start, end)) {
+                this.onSpeechDetected(detector.intervals);
+            }
+
+            if (!detector.heardSound && detector.receivedDuration >= maxSilentDuration) {
+                this.stop();
+                this.onUnsupported();
+            }
+        }, pollInterval);
+    }
+
+    stop() {
+        if (this.intervalId !== undefined) {
+            clearInterval(this.intervalId);
+            this.intervalId = undefined;
+        }
+
+        // The captured stream itself is shared with audio recording, so only the analysis is torn down
+        this.source?.disconnect();
+        this.source = undefined;
+        this.context?.close();
+        this.context = undefined;
+        this.detector = undefined;
+    }
+}
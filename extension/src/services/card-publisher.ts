@@ -1,6 +1,7 @@
 import {
     CardExportedMessage,
     CardModel,
+    CardQueuedMessage,
     CardSavedMessage,
     CardUpdatedMessage,
     ExtensionToVideoCommand,
@@ -13,6 +14,7 @@ import { AnkiSettings, ankiSettingsKeys, SettingsProvider } from '@project/commo
 import { v4 as uuidv4 } from 'uuid';
 import { exportCard, DuplicateNoteError } from '@project/common/anki';
 import { IndexedDBCopyHistoryRepository } from '@project/common/copy-history';
+import { IndexedDBMiningQueueRepository } from '@project/common/mining-queue';
 
 export class CardPublisher {
     private readonly _settingsProvider: SettingsProvider;
@@ -23,6 +25,11 @@ export class CardPublisher {
     }
 
     async publish(card: CardModel, postMineAction?: PostMineAction, tabId?: number, src?: string) {
+        if (postMineAction === PostMineAction.queueForMining) {
+            await this._queueForMining(card, tabId, src);
+            return;
+        }
+
         const id = uuidv4();
         const savePromise = this._saveCardToRepository(id, card);
 
@@ -64,6 +71,39 @@ export class CardPublisher {
         await this._exportCardBulk(card, src, tabId);
     }
 
+    private async _queueForMining(card: CardModel, tabId?: number, src?: string) {
+        try {
+            const storageLimit = await this._settingsProvider.getSingle('miningQueueStorageLimit');
+            await new IndexedDBMiningQueueRepository(storageLimit).save({
+                ...card,
+                id: card.id ?? uuidv4(),
+                timestamp: Date.now(),
+                status: 'pending',
+            });
+        } catch (e) {
+            if (tabId !== undefined && src !== undefined) {
+                this._notifyError(e, src, tabId);
+            }
+
+            throw e;
+        }
+
+        if (tabId === undefined || src === undefined) {
+            return;
+        }
+
+        const cardQueuedCommand: ExtensionToVideoCommand<CardQueuedMessage> = {
+            sender: 'asbplayer-extension-to-video',
+            message: {
+                command: 'card-queued',
+                cardName: card.subtitle.text || humanReadableTime(card.mediaTimestamp),
+            },
+            src,
+        };
+
+        browser.tabs.sendMessage(tabId, cardQueuedCommand);
+    }
+
     private _notifySaved(savePromise: Promise<any>, card: CardModel, src: string, tabId: number) {
         savePromise.then((saved: boolean) => {
             if (saved) {
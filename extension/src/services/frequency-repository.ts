@@ -0,0 +1,13 @@
+import type { FrequencyRepository } from '@project/common/frequency';
+import { backgroundRepositoryInvoker } from './background-repository';
+
+export type BackgroundFrequencyRepository = Pick<FrequencyRepository, 'ranks' | 'dictionaries' | 'count'>;
+
+export const backgroundFrequencyRepository = (video: HTMLMediaElement): BackgroundFrequencyRepository => {
+    const invoke = backgroundRepositoryInvoker<FrequencyRepository>(video, 'frequency-repository', 'frequency');
+    return {
+        ranks: (lemmas) => invoke('ranks', lemmas),
+        dictionaries: () => invoke('dictionaries'),
+        count: () => invoke('count'),
+    };
+};
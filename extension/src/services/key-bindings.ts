@@ -7,10 +7,17 @@ import {
 } from '@project/common';
 import { KeyBindSet } from '@project/common/settings';
 import { DefaultKeyBinder } from '@project/common/key-binder';
+import { KnownWordStatus } from '@project/common/known-words';
 import Binding from './binding';
 
 type Unbinder = (() => void) | false;
 
+const markedWordLocKeys: { [status in KnownWordStatus]: string } = {
+    known: 'info.markedWordKnown',
+    learning: 'info.markedWordLearning',
+    ignored: 'info.markedWordIgnored',
+};
+
 export default class KeyBindings {
     private _keyBinder: DefaultKeyBinder | undefined;
 
@@ -32,6 +39,8 @@ export default class KeyBindings {
     private _unbindToggleRepeat: Unbinder = false;
     private _unbindAdjustSubtitlePositionOffset: Unbinder = false;
     private _unbindAdjustTopSubtitlePositionOffset: Unbinder = false;
+    private _unbindMarkHoveredWord: Unbinder = false;
+    private _unbindMarkForMining: Unbinder = false;
 
     private _bound: boolean;
 
@@ -76,7 +85,7 @@ export default class KeyBindings {
 
                 context.playMode = context.playMode === PlayMode.autoPause ? PlayMode.normal : PlayMode.autoPause;
             },
-            () => context.subtitleController.subtitles.length === 0,
+            () => context.subtitleController.subtitles.length === 0 && !context.detectSpeechWithoutSubtitles,
             true
         );
 
@@ -87,7 +96,7 @@ export default class KeyBindings {
 
                 context.playMode = context.playMode === PlayMode.condensed ? PlayMode.normal : PlayMode.condensed;
             },
-            () => context.subtitleController.subtitles.length === 0,
+            () => context.subtitleController.subtitles.length === 0 && !context.detectSpeechWithoutSubtitles,
             true
         );
 
@@ -318,6 +327,42 @@ export default class KeyBindings {
             true
         );
 
+        this._unbindMarkHoveredWord = this._keyBinder.bindMarkHoveredWord(
+            (event, status) => {
+                const hovered = context.subtitleController.hoveredWord();
+
+                if (hovered === undefined) {
+                    return;
+                }
+
+                event.preventDefault();
+                event.stopImmediatePropagation();
+
+                context.subtitleController.subtitleColoring
+                    .markWord(hovered.track, hovered.word, status)
+                    .then((knownWord) => {
+                        if (knownWord !== undefined) {
+                            context.subtitleController.notification(markedWordLocKeys[status], {
+                                word: knownWord.lemma,
+                            });
+                        }
+                    })
+                    .catch(console.error);
+            },
+            () => context.subtitleController.hoveredWord() === undefined,
+            true
+        );
+
+        this._unbindMarkForMining = this._keyBinder.bindMarkForMining(
+            (event) => {
+                event.preventDefault();
+                event.stopImmediatePropagation();
+                context.markForMining();
+            },
+            () => !context.synced || context.subtitleController.subtitles.length === 0,
+            true
+        );
+
         this._bound = true;
     }
 
@@ -412,6 +457,16 @@ export default class KeyBindings {
             this._unbindAdjustTopSubtitlePositionOffset = false;
         }
 
+        if (this._unbindMarkHoveredWord) {
+            this._unbindMarkHoveredWord();
+            this._unbindMarkHoveredWord = false;
+        }
+
+        if (this._unbindMarkForMining) {
+            this._unbindMarkForMining();
+            this._unbindMarkForMining = false;
+        }
+
         this._bound = false;
     }
 }
@@ -0,0 +1,14 @@
+import type { KnownWordsRepository } from '@project/common/known-words';
+import { backgroundRepositoryInvoker } from './background-repository';
+
+export type BackgroundKnownWordsRepository = Pick<KnownWordsRepository, 'mark' | 'find' | 'delete' | 'count'>;
+
+export const backgroundKnownWordsRepository = (video: HTMLMediaElement): BackgroundKnownWordsRepository => {
+    const invoke = backgroundRepositoryInvoker<KnownWordsRepository>(video, 'known-words-repository', 'known words');
+    return {
+        mark: (lemma, reading, status) => invoke('mark', lemma, reading, status),
+        find: (lemmas) => invoke('find', lemmas),
+        delete: (lemma) => invoke('delete', lemma),
+        count: () => invoke('count'),
+    };
+};
@@ -5,6 +5,7 @@
  * Uses @sglkc/kuromoji for Japanese morphological analysis.
  */
 import kuromoji from '@sglkc/kuromoji';
+import { morphologicalFeature, TokenPart } from '@project/common/tokenizer';
 
 interface TokenizeMessage {
     type: 'init' | 'tokenize';
@@ -31,6 +32,29 @@ interface KuromojiToken {
 
 let tokenizer: kuromoji.Tokenizer<kuromoji.IpadicFeatures> | null = null;
 
+/**
+ * Convert a Kuromoji token to a TokenPart, keeping every IPADIC feature.
+ */
+function toTokenPart(t: KuromojiToken): TokenPart {
+    return {
+        text: t.surface_form,
+        // Use reading if available, otherwise fall back to surface_form
+        reading: t.reading || t.surface_form,
+        // Include POS for filtering (記号 = punctuation/symbols)
+        pos: t.pos,
+        posDetail1: morphologicalFeature(t.pos_detail_1),
+        posDetail2: morphologicalFeature(t.pos_detail_2),
+        posDetail3: morphologicalFeature(t.pos_detail_3),
+        conjugatedType: morphologicalFeature(t.conjugated_type),
+        conjugatedForm: morphologicalFeature(t.conjugated_form),
+        // KNOWN = dictionary word, UNKNOWN = unknown word
+        wordType: t.word_type as 'KNOWN' | 'UNKNOWN' | undefined,
+        // Dictionary/lemma form (e.g., '食べる' for '食べた')
+        basicForm: morphologicalFeature(t.basic_form),
+        pronunciation: morphologicalFeature(t.pronunciation),
+    };
+}
+
 /**
  * Initialize the worker message handler.
  * Called from the WXT unlisted script entry point.
@@ -58,17 +82,7 @@ export function onMessage() {
                 // Convert to TokenPart[][] format
                 // Each token becomes its own group (single element array)
                 // Kuromoji returns katakana readings; we keep them as-is
-                const result = tokens.map((t: KuromojiToken) => [{
-                    text: t.surface_form,
-                    // Use reading if available, otherwise fall back to surface_form
-                    reading: t.reading || t.surface_form,
-                    // Include POS for filtering (記号 = punctuation/symbols)
-                    pos: t.pos,
-                    // KNOWN = dictionary word, UNKNOWN = unknown word
-                    wordType: t.word_type as 'KNOWN' | 'UNKNOWN' | undefined,
-                    // Dictionary/lemma form (e.g., '食べる' for '食べた')
-                    basicForm: t.basic_form,
-                }]);
+                const result = tokens.map((t: KuromojiToken) => [toTokenPart(t)]);
                 self.postMessage({ type: 'result', id, tokens: result });
             } catch (error) {
                 self.postMessage({ type: 'error', id, error: String(error) });
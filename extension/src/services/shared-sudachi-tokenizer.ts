@@ -0,0 +1,30 @@
+/**
+ * Shared Sudachi Tokenizer
+ *
+ * The Sudachi system dictionary is too large to load in every tab, so one tokenizer is kept by the extension and
+ * used by all tabs through the background page: in the offscreen document on Chromium, and in the background page
+ * itself on Firefox.
+ */
+import { SudachiSplitMode, TokenPart } from '@project/common/tokenizer';
+import { SudachiTokenizer } from './sudachi-tokenizer';
+
+let tokenizer: SudachiTokenizer | undefined;
+
+/**
+ * Tokenize text with the shared tokenizer, loading the dictionary on first use.
+ * An empty text only loads the dictionary.
+ */
+export const tokenizeWithSharedSudachi = async (text: string, splitMode: SudachiSplitMode): Promise<TokenPart[][]> => {
+    if (tokenizer === undefined) {
+        tokenizer = new SudachiTokenizer(splitMode);
+    }
+
+    if (!(await tokenizer.isReady())) {
+        // Let the next request try to load the dictionary again
+        tokenizer.dispose();
+        tokenizer = undefined;
+        throw new Error('Failed to initialize Sudachi tokenizer');
+    }
+
+    return text === '' ? [] : await tokenizer.tokenize(text, splitMode);
+};
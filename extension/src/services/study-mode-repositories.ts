@@ -0,0 +1,61 @@
+import type {
+    RecognitionRepository,
+    ScheduleRepository,
+    StudyClipRepository,
+    StudyRepository,
+} from '@project/common/study-mode';
+import { backgroundRepositoryInvoker } from './background-repository';
+
+export type BackgroundStudyRepository = Pick<StudyRepository, 'save' | 'fetch' | 'getStats' | 'count'>;
+
+export type BackgroundRecognitionRepository = Pick<
+    RecognitionRepository,
+    'recordAttempt' | 'recordAttemptsBatch' | 'getStats' | 'fetchAll'
+>;
+
+export type BackgroundScheduleRepository = Pick<
+    ScheduleRepository,
+    'recordReview' | 'recordReviewsBatch' | 'getSchedule' | 'fetchDue' | 'fetchAll'
+>;
+
+export type BackgroundStudyClipRepository = Pick<StudyClipRepository, 'save' | 'get' | 'count'>;
+
+export const backgroundStudyRepository = (video: HTMLMediaElement): BackgroundStudyRepository => {
+    const invoke = backgroundRepositoryInvoker<StudyRepository>(video, 'study-repository', 'study');
+    return {
+        save: (record) => invoke('save', record),
+        fetch: (options) => invoke('fetch', options),
+        getStats: (lemma) => invoke('getStats', lemma),
+        count: () => invoke('count'),
+    };
+};
+
+export const backgroundRecognitionRepository = (video: HTMLMediaElement): BackgroundRecognitionRepository => {
+    const invoke = backgroundRepositoryInvoker<RecognitionRepository>(video, 'recognition-repository', 'recognition');
+    return {
+        recordAttempt: (attempt) => invoke('recordAttempt', attempt),
+        recordAttemptsBatch: (attempts) => invoke('recordAttemptsBatch', attempts),
+        getStats: (lemma) => invoke('getStats', lemma),
+        fetchAll: () => invoke('fetchAll'),
+    };
+};
+
+export const backgroundScheduleRepository = (video: HTMLMediaElement): BackgroundScheduleRepository => {
+    const invoke = backgroundRepositoryInvoker<ScheduleRepository>(video, 'schedule-repository', 'schedule');
+    return {
+        recordReview: (review) => invoke('recordReview', review),
+        recordReviewsBatch: (reviews) => invoke('recordReviewsBatch', reviews),
+        getSchedule: (lemma) => invoke('getSchedule', lemma),
+        fetchDue: (now, limit) => invoke('fetchDue', now, limit),
+        fetchAll: () => invoke('fetchAll'),
+    };
+};
+
+export const backgroundStudyClipRepository = (video: HTMLMediaElement): BackgroundStudyClipRepository => {
+    const invoke = backgroundRepositoryInvoker<StudyClipRepository>(video, 'study-clip-repository', 'study clip');
+    return {
+        save: (clip) => invoke('save', clip),
+        get: (id) => invoke('get', id),
+        count: () => invoke('count'),
+    };
+};
@@ -1,5 +1,12 @@
 import { CachingElementOverlay, ElementOverlayParams, OffsetAnchor, KeyedHtml } from './element-overlay';
-import { TokenPart } from '@project/common/yomitan';
+import { TokenPart } from '@project/common/tokenizer';
+import {
+    AnswerGrade,
+    DictationOp,
+    StudyTestType,
+    katakanaToHiragana,
+    romajiToKana,
+} from '@project/common/study-mode';
 
 export interface StudyTestDisplayState {
     tokens: TokenPart[];
@@ -7,8 +14,14 @@ export interface StudyTestDisplayState {
     userAnswers: string[];
     showingResult: boolean;
     resultCorrect: boolean;
-    /** Per-answer correctness results from controller (computed with tokenization) */
-    answerResults?: boolean[];
+    /** Per-answer grades from controller (computed with tokenization) */
+    answerResults?: AnswerGrade[];
+    /** Format of the test, cloze if undefined */
+    testType?: StudyTestType;
+    /** Options of each blank for multiple choice tests, blanks without options are typed */
+    choices?: (string[] | undefined)[];
+    /** Word by word comparison of the typed line with the subtitle, for dictation tests */
+    dictationDiff?: DictationOp[];
 }
 
 /**
@@ -20,7 +33,9 @@ export function generateStudyTestHtml(
     themeType: 'dark' | 'light',
     isFullscreen: boolean
 ): string {
-    const { tokens, blankedIndices, userAnswers, showingResult, resultCorrect, answerResults } = state;
+    const { tokens, blankedIndices, userAnswers, showingResult, resultCorrect, answerResults, choices, dictationDiff } =
+        state;
+    const testType = state.testType ?? 'cloze';
     
     const fontSize = isFullscreen ? '28px' : '20px';
     const inputFontSize = isFullscreen ? '24px' : '18px';
@@ -34,22 +49,38 @@ export function generateStudyTestHtml(
     const incorrectColor = '#f44336';
     const correctBgColor = 'rgba(76, 175, 80, 0.15)';
     const incorrectBgColor = 'rgba(244, 67, 54, 0.15)';
+    const closeColor = '#ff9800';
+    const selectedColor = '#2196f3';
     
     // Build cloze sentence HTML
     let clozeHtml = '';
+    let choicesHtml = '';
     let inputIndex = 0;
     
     for (let i = 0; i < tokens.length; i++) {
+        if (testType === 'dictation') {
+            // The whole line is typed in a single input, see below
+            break;
+        }
+        
         const token = tokens[i];
         if (blankedIndices.includes(i)) {
             const answer = userAnswers[inputIndex] || '';
-            const correctAnswer = token.text;
+            // Reading tests show the word and ask for its reading
+            const correctAnswer = testType === 'reading' ? katakanaToHiragana(token.reading || token.text) : token.text;
+            const blankChoices = testType === 'multiple_choice' ? choices?.[inputIndex] : undefined;
+            
+            if (testType === 'reading') {
+                clozeHtml += `<span>${escapeHtml(token.text)}</span>`;
+            }
             
             if (showingResult) {
                 // Use controller-computed results if available, fallback to simple text comparison
-                const isCorrect = answerResults ? answerResults[inputIndex] : answer.trim() === correctAnswer.trim();
+                const grade = answerResults
+                    ? answerResults[inputIndex]
+                    : answer.trim() === correctAnswer.trim() ? 'correct' : 'wrong';
                 
-                if (isCorrect) {
+                if (grade === 'correct') {
                     // Correct: green text with subtle highlight, add spacing for separation from other results
                     clozeHtml += `<span style="
                         color: ${correctColor}; 
@@ -60,15 +91,16 @@ export function generateStudyTestHtml(
                         margin: 0 4px;
                     ">${escapeHtml(correctAnswer)}</span>`;
                 } else {
-                    // Incorrect: user input keeps text-box styling, then arrow, then clean green highlight
+                    // Close or incorrect: user input keeps text-box styling, then arrow, then clean green highlight
                     const userInput = answer.trim() || '(empty)';
+                    const userInputColor = grade === 'close' ? closeColor : incorrectColor;
                     clozeHtml += `<span style="display: inline-flex; align-items: baseline; gap: 6px; flex-wrap: wrap; margin: 0 4px;">` +
-                        // User's wrong answer (styled like text input box with red border)
+                        // User's answer (styled like text input box with amber border if close, red if wrong)
                         `<span style="
-                            color: ${incorrectColor}; 
+                            color: ${userInputColor}; 
                             background: ${inputBgColor};
                             padding: 4px 8px;
-                            border: 2px solid ${incorrectColor};
+                            border: 2px solid ${userInputColor};
                             border-radius: 4px;
                             font-size: 0.95em;
                         ">${escapeHtml(userInput)}</span>` +
@@ -84,6 +116,52 @@ export function generateStudyTestHtml(
                         ">${escapeHtml(correctAnswer)}</span>` +
                     `</span>`;
                 }
+            } else if (blankChoices) {
+                // Multiple choice: the blank shows the selected option, which is kept in a hidden input
+                clozeHtml += `<span 
+                    class="asbplayer-study-choice-blank"
+                    data-input-index="${inputIndex}"
+                    style="
+                        display: inline-block;
+                        min-width: 3em;
+                        margin: 0 4px;
+                        border-bottom: 2px solid ${inputBorderColor};
+                        color: ${selectedColor};
+                    "
+                >${answer ? escapeHtml(answer) : '&nbsp;'}</span><input 
+                    type="hidden" 
+                    class="asbplayer-study-input" 
+                    data-input-index="${inputIndex}"
+                    value="${escapeHtml(answer)}"
+                />`;
+                const label = choices!.filter((c) => c !== undefined).length > 1 ? `${inputIndex + 1}. ` : '';
+                choicesHtml += `<div style="
+                    display: flex;
+                    flex-wrap: wrap;
+                    justify-content: center;
+                    align-items: center;
+                    gap: 8px;
+                    margin-top: 8px;
+                ">${label ? `<span style="opacity: 0.7;">${label}</span>` : ''}${blankChoices
+                    .map(
+                        (choice) => `<button 
+                        class="asbplayer-study-choice"
+                        data-input-index="${inputIndex}"
+                        data-choice="${escapeHtml(choice)}"
+                        data-border-color="${inputBorderColor}"
+                        style="
+                            padding: 6px 16px;
+                            font-size: ${inputFontSize};
+                            font-family: inherit;
+                            background: ${inputBgColor};
+                            color: ${textColor};
+                            border: 2px solid ${choice === answer ? selectedColor : inputBorderColor};
+                            border-radius: 4px;
+                            cursor: pointer;
+                        "
+                    >${escapeHtml(choice)}</button>`
+                    )
+                    .join('')}</div>`;
             } else {
                 // Calculate input width based on expected answer length, with reasonable bounds
                 const charWidth = Math.max(4, Math.min(correctAnswer.length + 2, 15));
@@ -91,6 +169,9 @@ export function generateStudyTestHtml(
                     type="text" 
                     class="asbplayer-study-input" 
                     data-input-index="${inputIndex}"
+                    autocomplete="off"
+                    autocapitalize="off"
+                    spellcheck="false"
                     value="${escapeHtml(answer)}"
                     style="
                         font-size: ${inputFontSize};
@@ -115,11 +196,66 @@ export function generateStudyTestHtml(
         }
     }
     
+    if (testType === 'dictation') {
+        if (showingResult && dictationDiff) {
+            // Typed words in green, words that weren't typed underlined in red, extra words struck through
+            clozeHtml = dictationDiff
+                .map((op) => {
+                    switch (op.type) {
+                        case 'equal':
+                            return `<span style="color: ${correctColor};">${escapeHtml(op.text)}</span>`;
+                        case 'missing':
+                            return `<span style="
+                                color: ${incorrectColor};
+                                background: ${incorrectBgColor};
+                                text-decoration: underline;
+                                border-radius: 4px;
+                            ">${escapeHtml(op.text)}</span>`;
+                        case 'extra':
+                            return `<span style="
+                                color: ${textColor};
+                                opacity: 0.6;
+                                text-decoration: line-through;
+                                margin: 0 2px;
+                            ">${escapeHtml(op.text)}</span>`;
+                    }
+                })
+                .join('');
+        } else {
+            clozeHtml = `<div style="font-size: 0.7em; opacity: 0.7;">Type the line you hear</div><input 
+                type="text" 
+                class="asbplayer-study-input" 
+                data-input-index="0"
+                autocomplete="off"
+                autocapitalize="off"
+                spellcheck="false"
+                value="${escapeHtml(userAnswers[0] || '')}"
+                style="
+                    font-size: ${inputFontSize};
+                    width: 100%;
+                    max-width: 600px;
+                    padding: 4px 8px;
+                    border: 2px solid ${inputBorderColor};
+                    border-radius: 4px;
+                    background: ${inputBgColor};
+                    color: ${textColor};
+                    outline: none;
+                    font-family: inherit;
+                    box-sizing: border-box;
+                "
+                autofocus
+            />`;
+        }
+    }
+    
     // Build action button
     let buttonHtml = '';
     if (showingResult) {
-        const buttonColor = resultCorrect ? correctColor : incorrectColor;
-        const buttonText = resultCorrect ? '✓ Correct! Continue' : '✗ Incorrect. Continue';
+        const anyClose = answerResults?.includes('close') ?? false;
+        const buttonColor = resultCorrect ? (anyClose ? closeColor : correctColor) : incorrectColor;
+        const buttonText = resultCorrect
+            ? anyClose ? '≈ Close enough! Continue' : '✓ Correct! Continue'
+            : '✗ Incorrect. Continue';
         buttonHtml = `<button 
             class="asbplayer-study-continue-btn"
             style="
@@ -185,6 +321,7 @@ export function generateStudyTestHtml(
                 word-wrap: break-word;
                 overflow-wrap: break-word;
             ">${clozeHtml}</div>
+            ${choicesHtml}
             <div class="asbplayer-study-actions">${buttonHtml}</div>
         </div>
     `;
@@ -317,6 +454,43 @@ function escapeHtml(text: string): string {
         .replace(/'/g, '&#039;');
 }
 
+/**
+ * Convert the romaji typed into a study input to kana, keeping the caret after the converted text.
+ */
+export function convertRomajiInput(input: HTMLInputElement) {
+    const caret = input.selectionStart ?? input.value.length;
+    const before = romajiToKana(input.value.substring(0, caret));
+    const value = before + input.value.substring(caret);
+
+    if (value !== input.value) {
+        input.value = value;
+        input.setSelectionRange(before.length, before.length);
+    }
+}
+
+/**
+ * Select an option of a multiple choice test, filling in its blank.
+ */
+export function selectStudyChoice(container: Element, button: HTMLElement) {
+    const index = button.dataset.inputIndex;
+    const choice = button.dataset.choice ?? '';
+    const input = container.querySelector(`.asbplayer-study-input[data-input-index="${index}"]`) as HTMLInputElement;
+    const blank = container.querySelector(`.asbplayer-study-choice-blank[data-input-index="${index}"]`);
+
+    if (input) {
+        input.value = choice;
+    }
+
+    if (blank) {
+        blank.textContent = choice;
+    }
+
+    container.querySelectorAll(`.asbplayer-study-choice[data-input-index="${index}"]`).forEach((element) => {
+        const option = element as HTMLElement;
+        option.style.borderColor = option === button ? '#2196f3' : option.dataset.borderColor ?? '';
+    });
+}
+
 /**
  * StudyOverlay manages the study test display using CachingElementOverlay pattern
  * for fullscreen compatibility. Content is rendered as inline HTML to survive
@@ -327,6 +501,7 @@ export class StudyOverlay {
     private _visible: boolean = false;
     private _currentState?: StudyTestDisplayState;
     private _themeType: 'dark' | 'light' = 'dark';
+    private _romajiInput: boolean = false;
     private _eventListeners: { element: Element; type: string; listener: EventListener }[] = [];
 
     public onReplay?: () => void;
@@ -360,6 +535,10 @@ export class StudyOverlay {
         }
     }
 
+    setRomajiInput(romajiInput: boolean) {
+        this._romajiInput = romajiInput;
+    }
+
     show(state: StudyTestDisplayState) {
         this._currentState = state;
         this._visible = true;
@@ -430,7 +609,11 @@ export class StudyOverlay {
             
             const inputListener = (e: Event) => {
                 e.stopPropagation(); // Prevent video player interaction
-                this.onInputChange?.(index, (e.target as HTMLInputElement).value);
+                // Leave text being composed by an IME alone
+                if (this._romajiInput && !(e as InputEvent).isComposing) {
+                    convertRomajiInput(inputEl);
+                }
+                this.onInputChange?.(index, inputEl.value);
             };
             inputEl.addEventListener('input', inputListener);
             this._eventListeners.push({ element: inputEl, type: 'input', listener: inputListener });
@@ -464,6 +647,19 @@ export class StudyOverlay {
             this._eventListeners.push({ element: inputEl, type: 'click', listener: clickListener });
         });
 
+        // Multiple choice options
+        const choiceButtons = container.querySelectorAll('.asbplayer-study-choice');
+        choiceButtons.forEach((button) => {
+            const choiceListener = (e: Event) => {
+                e.stopPropagation();
+                selectStudyChoice(container, button as HTMLElement);
+                const index = parseInt((button as HTMLElement).dataset.inputIndex || '0', 10);
+                this.onInputChange?.(index, (button as HTMLElement).dataset.choice ?? '');
+            };
+            button.addEventListener('click', choiceListener);
+            this._eventListeners.push({ element: button, type: 'click', listener: choiceListener });
+        });
+
         // Submit button
         const submitBtn = container.querySelector('.asbplayer-study-submit-btn');
         if (submitBtn) {
@@ -509,9 +705,11 @@ export class StudyOverlay {
             this._eventListeners.push({ element: document as unknown as Element, type: 'keydown', listener: keydownListener });
         }
 
-        // Focus first input if not showing result
+        // Focus first input, or first option of a multiple choice test, if not showing result
         if (!this._currentState?.showingResult) {
-            const firstInput = container.querySelector('.asbplayer-study-input') as HTMLInputElement;
+            const firstInput = container.querySelector(
+                '.asbplayer-study-input:not([type="hidden"]), .asbplayer-study-choice'
+            ) as HTMLElement;
             firstInput?.focus();
         } else {
             // Focus continue button
@@ -530,7 +728,13 @@ export class StudyOverlay {
         const inputs = container.querySelectorAll('.asbplayer-study-input');
         const answers: string[] = [];
         inputs.forEach((input) => {
-            answers.push((input as HTMLInputElement).value);
+            const inputEl = input as HTMLInputElement;
+            // Convert a trailing n that was left for the next syllable, selected options aren't typed
+            answers.push(
+                this._romajiInput && inputEl.type !== 'hidden'
+                    ? romajiToKana(inputEl.value, { final: true })
+                    : inputEl.value
+            );
         });
         
         // Update internal state with DOM values
@@ -0,0 +1,21 @@
+import type { SubtitleLibraryRepository } from '@project/common/subtitle-library';
+import { backgroundRepositoryInvoker } from './background-repository';
+
+export type BackgroundSubtitleLibraryRepository = Pick<
+    SubtitleLibraryRepository,
+    'save' | 'find' | 'updateOffset' | 'delete'
+>;
+
+export const backgroundSubtitleLibraryRepository = (video: HTMLMediaElement): BackgroundSubtitleLibraryRepository => {
+    const invoke = backgroundRepositoryInvoker<SubtitleLibraryRepository>(
+        video,
+        'subtitle-library-repository',
+        'subtitle library'
+    );
+    return {
+        save: (key, data) => invoke('save', key, data),
+        find: (key) => invoke('find', key),
+        updateOffset: (id, offset) => invoke('updateOffset', id, offset),
+        delete: (id) => invoke('delete', id),
+    };
+};
@@ -0,0 +1,98 @@
+/**
+ * Sudachi Worker Implementation
+ *
+ * Handles tokenization in a Web Worker to avoid blocking the main thread.
+ * Uses sudachi-wasm333 (a WebAssembly build of sudachi.rs) for Japanese morphological analysis.
+ */
+import { SudachiStateless, TokenizeMode, TokenMorpheme } from 'sudachi-wasm333';
+import { morphologicalFeature, SudachiSplitMode, TokenPart } from '@project/common/tokenizer';
+
+interface TokenizeMessage {
+    type: 'init' | 'tokenize';
+    id?: string;
+    text?: string;
+    dictionaryPath?: string;
+    splitMode?: SudachiSplitMode;
+}
+
+const tokenizeModes: { [key in SudachiSplitMode]: TokenizeMode } = {
+    A: TokenizeMode.A,
+    B: TokenizeMode.B,
+    C: TokenizeMode.C,
+};
+
+let tokenizer: SudachiStateless | null = null;
+let mode: TokenizeMode = TokenizeMode.B;
+
+/**
+ * Fetch the gzipped system dictionary bundled with the extension.
+ */
+async function fetchDictionary(dictionaryPath: string): Promise<Uint8Array> {
+    const response = await fetch(`${dictionaryPath}system.dic.gz`);
+
+    if (!response.ok || !response.body) {
+        throw new Error(`Failed to fetch Sudachi dictionary: ${response.status}`);
+    }
+
+    const decompressed = response.body.pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(decompressed).arrayBuffer());
+}
+
+/**
+ * Convert a Sudachi morpheme to a TokenPart.
+ * Sudachi parts of speech are [pos, detail 1, detail 2, detail 3, conjugation type, conjugation form].
+ */
+function toTokenPart(morpheme: TokenMorpheme): TokenPart {
+    const [pos, posDetail1, posDetail2, posDetail3, conjugatedType, conjugatedForm] = morpheme.poses;
+    return {
+        text: morpheme.surface,
+        // Sudachi returns katakana readings; we keep them as-is like Kuromoji
+        reading: morpheme.reading_form || morpheme.surface,
+        pos,
+        posDetail1: morphologicalFeature(posDetail1),
+        posDetail2: morphologicalFeature(posDetail2),
+        posDetail3: morphologicalFeature(posDetail3),
+        conjugatedType: morphologicalFeature(conjugatedType),
+        conjugatedForm: morphologicalFeature(conjugatedForm),
+        // Out-of-vocabulary words are guessed from character types
+        wordType: morpheme.oov ? 'UNKNOWN' : 'KNOWN',
+        basicForm: morphologicalFeature(morpheme.dictionary_form),
+    };
+}
+
+/**
+ * Initialize the worker message handler.
+ * Called from the WXT unlisted script entry point.
+ */
+export function onMessage() {
+    self.onmessage = async (e: MessageEvent<TokenizeMessage>) => {
+        const { type, id, text, dictionaryPath, splitMode } = e.data;
+
+        if (type === 'init') {
+            try {
+                mode = tokenizeModes[splitMode ?? 'B'];
+                const sudachi = new SudachiStateless();
+                sudachi.initialize_from_bytes(await fetchDictionary(dictionaryPath || ''));
+                tokenizer = sudachi;
+                self.postMessage({ type: 'ready' });
+            } catch (error) {
+                self.postMessage({ type: 'error', error: String(error) });
+            }
+        } else if (type === 'tokenize' && tokenizer && text) {
+            try {
+                const morphemes = tokenizer.tokenize_raw(text, splitMode ? tokenizeModes[splitMode] : mode);
+
+                // Errors are returned rather than thrown
+                if (!Array.isArray(morphemes)) {
+                    throw new Error(JSON.stringify(morphemes));
+                }
+
+                // Each morpheme becomes its own group (single element array)
+                const result = morphemes.map((m) => [toTokenPart(m)]);
+                self.postMessage({ type: 'result', id, tokens: result });
+            } catch (error) {
+                self.postMessage({ type: 'error', id, error: String(error) });
+            }
+        }
+    };
+}
@@ -0,0 +1,11 @@
+import { TesseractTextRecognizer } from '@project/common/subtitle-ocr';
+
+export const textRecognizerFactory = () => {
+    // Type assertion needed - WXT types are regenerated on build to include new paths
+    const tesseractPath = browser.runtime.getURL('/tesseract/' as any);
+    return new TesseractTextRecognizer({
+        workerPath: `${tesseractPath}worker.min.js`,
+        corePath: tesseractPath,
+        langPath: tesseractPath,
+    });
+};
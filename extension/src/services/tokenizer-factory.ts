@@ -2,11 +2,12 @@
  * Tokenizer Factory
  * 
  * Creates tokenizer instances based on configuration.
- * Provides a simple interface to create either Yomitan or Kuromoji tokenizers.
+ * Provides a simple interface to create Yomitan, Kuromoji or Sudachi tokenizers.
  */
-import { Tokenizer, TokenizerType } from '@project/common/tokenizer';
+import { SudachiSplitMode, Tokenizer, TokenizerType } from '@project/common/tokenizer';
 import { YomitanTokenizer } from '@project/common/tokenizer/yomitan-tokenizer';
 import { KuromojiTokenizer } from './kuromoji-tokenizer';
+import { BackgroundSudachiTokenizer } from './background-sudachi-tokenizer';
 import { Fetcher } from '@project/common';
 import { DictionaryTrack } from '@project/common/settings';
 
@@ -17,6 +18,8 @@ export interface CreateTokenizerOptions {
     fetcher?: Fetcher;
     // Kuromoji options
     dictionaryPath?: string;
+    // Sudachi options
+    splitMode?: SudachiSplitMode;
 }
 
 /**
@@ -36,6 +39,16 @@ export async function createTokenizer(options: CreateTokenizerOptions): Promise<
         return tokenizer;
     }
 
+    if (options.type === 'sudachi') {
+        // The dictionary is loaded once by the extension rather than in every tab
+        const tokenizer = new BackgroundSudachiTokenizer(options.splitMode);
+        const ready = await tokenizer.isReady();
+        if (!ready) {
+            throw new Error('Failed to initialize Sudachi tokenizer');
+        }
+        return tokenizer;
+    }
+
     // Default to Yomitan
     if (!options.dictionaryTrack) {
         throw new Error('DictionaryTrack is required for Yomitan tokenizer');
@@ -5,6 +5,7 @@ import SettingsForm from '@project/common/components/SettingsForm';
 import PanelIcon from '@project/common/components/PanelIcon';
 import LaunchIcon from '@mui/icons-material/Launch';
 import InsightsIcon from '@mui/icons-material/Insights';
+import SchoolIcon from '@mui/icons-material/School';
 import { useCallback, useMemo } from 'react';
 import Button from '@mui/material/Button';
 import ButtonGroup from '@mui/material/ButtonGroup';
@@ -30,6 +31,7 @@ interface Props {
     onOpenApp: () => void;
     onOpenSidePanel: () => void;
     onOpenStatistics: () => void;
+    onOpenStudyReview: () => void;
     onOpenExtensionShortcuts: () => void;
     onOpenUserGuide: () => void;
     profiles: Profile[];
@@ -60,6 +62,7 @@ const Popup = ({
     onOpenApp,
     onOpenSidePanel,
     onOpenStatistics,
+    onOpenStudyReview,
     onSettingsChanged,
     onOpenExtensionShortcuts,
     onOpenUserGuide,
@@ -97,6 +100,16 @@ const Popup = ({
                     <Button variant="contained" color="primary" startIcon={<InsightsIcon />} onClick={onOpenStatistics}>
                         {t('action.statistics')}
                     </Button>
+                    {settings.studyModeEnabled && (
+                        <Button
+                            variant="contained"
+                            color="primary"
+                            startIcon={<SchoolIcon />}
+                            onClick={onOpenStudyReview}
+                        >
+                            {t('action.studyReview')}
+                        </Button>
+                    )}
                     <Button variant="contained" color="primary" startIcon={<TutorialIcon />} onClick={onOpenUserGuide}>
                         {t('action.userGuide')}
                     </Button>
@@ -73,6 +73,10 @@ export function PopupUi({ commands }: Props) {
         browser.tabs.create({ active: true, url: browser.runtime.getURL('/statistics-ui.html') });
     }, []);
 
+    const handleOpenStudyReview = useCallback(() => {
+        browser.tabs.create({ active: true, url: browser.runtime.getURL('/study-review-ui.html') });
+    }, []);
+
     const { requestingActiveTabPermission, tabRequestingActiveTabPermission } = useRequestingActiveTabPermission();
 
     useEffect(() => {
@@ -124,6 +128,7 @@ export function PopupUi({ commands }: Props) {
                             onOpenApp={handleOpenApp}
                             onOpenSidePanel={handleOpenSidePanel}
                             onOpenStatistics={handleOpenStatistics}
+                            onOpenStudyReview={handleOpenStudyReview}
                             onOpenExtensionShortcuts={handleOpenExtensionShortcuts}
                             onOpenUserGuide={handleOpenUserGuide}
                             {...profilesContext}
@@ -16,12 +16,15 @@ import {
     DownloadImageMessage,
     DownloadAudioMessage,
     CardExportedMessage,
+    RequestComprehensionReportMessage,
+    RequestComprehensionReportResponse,
+    PostMineAction,
 } from '@project/common';
 import type { Message } from '@project/common';
 import type { BulkExportStartedPayload } from '../../controllers/bulk-export-controller';
 import { AsbplayerSettings } from '@project/common/settings';
 import { AudioClip } from '@project/common/audio-clip';
-import { ChromeExtension, useCopyHistory } from '@project/common/app';
+import { ChromeExtension, useCopyHistory, useMiningQueue } from '@project/common/app';
 import { useI18n } from '../hooks/use-i18n';
 import { SubtitleReader } from '@project/common/subtitle-reader';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -42,15 +45,22 @@ import CircularProgress from '@mui/material/CircularProgress';
 import SidePanelBottomControls from './SidePanelBottomControls';
 import SidePanelRecordingOverlay from './SidePanelRecordingOverlay';
 import SidePanelTopControls from './SidePanelTopControls';
+import SubtitleExportDialog from '@project/common/components/SubtitleExportDialog';
 import CopyHistory from '@project/common/app/components/CopyHistory';
 import CopyHistoryList from '@project/common/app/components/CopyHistoryList';
 import { useAppKeyBinder } from '@project/common/app/hooks/use-app-key-binder';
-import { download } from '@project/common/util';
 import { MiningContext } from '@project/common/app/services/mining-context';
 import BulkExportModal from '@project/common/app/components/BulkExportModal';
 import { IndexedDBCopyHistoryRepository } from '@project/common/copy-history';
+import MiningQueueDialog from '@project/common/app/components/MiningQueueDialog';
+import { IndexedDBMiningQueueRepository, MiningQueueItem } from '@project/common/mining-queue';
+import { exportCard } from '@project/common/anki';
 import { mp3WorkerFactory } from '../../services/mp3-worker-factory';
 import { pgsParserWorkerFactory } from '../../services/pgs-parser-worker-factory';
+import { textRecognizerFactory } from '../../services/text-recognizer-factory';
+import { createTokenizer } from '../../services/tokenizer-factory';
+import type { LocalTokenizerType } from '@project/common/tokenizer';
+import { SubtitleTimingRepairReport } from '@project/common/subtitle-repair';
 
 interface Props {
     settings: AsbplayerSettings;
@@ -62,6 +72,7 @@ const sameVideoTab = (a: VideoTabModel, b: VideoTabModel) => {
 };
 
 const emptyArray: VideoTabModel[] = [];
+const createLocalTokenizer = (type: LocalTokenizerType) => createTokenizer({ type });
 const miningContext = new MiningContext();
 
 export default function SidePanel({ settings, extension }: Props) {
@@ -74,7 +85,9 @@ export default function SidePanel({ settings, extension }: Props) {
                 regexFilterTextReplacement: settings.subtitleRegexFilterTextReplacement,
                 subtitleHtml: settings.subtitleHtml,
                 convertNetflixRuby: settings.convertNetflixRuby,
+                styleFilter: settings.subtitleStyleFilter,
                 pgsParserWorkerFactory,
+                textRecognizer: settings.ocrImageSubtitles ? textRecognizerFactory() : undefined,
             }),
         [settings]
     );
@@ -232,6 +245,15 @@ export default function SidePanel({ settings, extension }: Props) {
         [t]
     );
 
+    const handleSubtitleTimingRepaired = useCallback(
+        (report: SubtitleTimingRepairReport) => {
+            setAlertSeverity('info');
+            setAlert(t('info.repairedSubtitleTiming', { ...report })!);
+            setAlertOpen(true);
+        },
+        [t]
+    );
+
     const handleAlertClosed = useCallback(() => setAlertOpen(false), []);
 
     const handleMineSubtitle = useCallback(() => {
@@ -248,6 +270,30 @@ export default function SidePanel({ settings, extension }: Props) {
         browser.runtime.sendMessage(message);
     }, [syncedVideoTab, settings.clickToMineDefaultAction]);
 
+    const handleRequestComprehensionReport = useMemo(() => {
+        if (syncedVideoTab === undefined) {
+            return undefined;
+        }
+
+        return async () => {
+            const message: AsbPlayerToVideoCommandV2<RequestComprehensionReportMessage> = {
+                sender: 'asbplayerv2',
+                message: { command: 'request-comprehension-report' },
+                tabId: syncedVideoTab.id,
+                src: syncedVideoTab.src,
+            };
+            const response = (await browser.runtime.sendMessage(message)) as
+                | RequestComprehensionReportResponse
+                | undefined;
+
+            if (response?.report === undefined) {
+                throw new Error(response?.error ?? 'No response from video');
+            }
+
+            return response.report;
+        };
+    }, [syncedVideoTab]);
+
     const handleLoadSubtitles = useCallback(() => {
         if (currentTabId === undefined) {
             return;
@@ -261,15 +307,13 @@ export default function SidePanel({ settings, extension }: Props) {
         browser.runtime.sendMessage(message);
     }, [currentTabId]);
 
-    const handleDownloadSubtitles = useCallback(() => {
-        if (subtitles) {
-            const fileName =
-                subtitleFileNames !== undefined && subtitleFileNames.length > 0
-                    ? `${subtitleFileNames[0]}.srt`
-                    : 'subtitles.srt';
-            download(new Blob([subtitleReader.subtitlesToSrt(subtitles)], { type: 'text/plain' }), fileName);
-        }
-    }, [subtitles, subtitleFileNames, subtitleReader]);
+    const [subtitleExportDialogOpen, setSubtitleExportDialogOpen] = useState<boolean>(false);
+    const handleExportSubtitles = useCallback(() => setSubtitleExportDialogOpen(true), []);
+    const handleCloseSubtitleExport = useCallback(() => setSubtitleExportDialogOpen(false), []);
+    const subtitleExportFileName =
+        subtitleFileNames !== undefined && subtitleFileNames.length > 0
+            ? subtitleFileNames[0].substring(0, subtitleFileNames[0].lastIndexOf('.')) || subtitleFileNames[0]
+            : 'subtitles';
 
     const handleBulkExportSubtitles = useCallback(async () => {
         if (!syncedVideoTab) return;
@@ -373,6 +417,35 @@ export default function SidePanel({ settings, extension }: Props) {
         setShowCopyHistory(true);
     }, [refreshCopyHistory]);
     const handleCloseCopyHistory = useCallback(() => setShowCopyHistory(false), []);
+
+    const miningQueueRepository = useMemo(
+        () => new IndexedDBMiningQueueRepository(settings.miningQueueStorageLimit),
+        [settings.miningQueueStorageLimit]
+    );
+    const exportMiningQueueItem = useCallback(
+        async (item: MiningQueueItem) => await exportCard(item, settings, 'default'),
+        [settings]
+    );
+    const {
+        miningQueueItems,
+        exportProgress: miningQueueExportProgress,
+        updateMiningQueueItem,
+        deleteMiningQueueItem,
+        deleteExportedMiningQueueItems,
+        exportMiningQueue,
+    } = useMiningQueue(miningQueueRepository, exportMiningQueueItem);
+    const [showMiningQueue, setShowMiningQueue] = useState<boolean>(false);
+    const handleShowMiningQueue = useCallback(() => setShowMiningQueue(true), []);
+    const handleCloseMiningQueue = useCallback(() => setShowMiningQueue(false), []);
+    const handleExportMiningQueue = useCallback(
+        async (items: MiningQueueItem[]) => {
+            const { exported, failed } = await exportMiningQueue(items);
+            setAlertSeverity(failed > 0 ? 'warning' : 'success');
+            setAlert(t('miningQueue.exportFinished', { exported, failed })!);
+            setAlertOpen(true);
+        },
+        [exportMiningQueue, t]
+    );
     const handleClipAudio = useCallback(
         async (item: CopyHistoryItem) => {
             if (viewingAsbplayer) {
@@ -470,7 +543,7 @@ export default function SidePanel({ settings, extension }: Props) {
     recordingAudioRef.current = recordingAudio;
 
     const handleMineFromSubtitlePlayer = useCallback(
-        (card: CardModel) => {
+        (card: CardModel, postMineAction?: PostMineAction) => {
             if (syncedVideoTab === undefined) {
                 return;
             }
@@ -485,7 +558,11 @@ export default function SidePanel({ settings, extension }: Props) {
                     command: 'copy-subtitle',
                     subtitle: card.subtitle,
                     surroundingSubtitles: card.surroundingSubtitles,
-                    postMineAction: settings.clickToMineDefaultAction,
+                    // Other mining binds are handled by the browser, but marking for mining is bound by the side panel
+                    postMineAction:
+                        postMineAction === PostMineAction.queueForMining
+                            ? postMineAction
+                            : settings.clickToMineDefaultAction,
                 },
                 tabId: syncedVideoTab.id,
                 src: syncedVideoTab.src,
@@ -552,6 +629,7 @@ export default function SidePanel({ settings, extension }: Props) {
                             videoElementCount={videoElementCount}
                             onLoadSubtitles={handleLoadSubtitles}
                             onShowMiningHistory={handleShowCopyHistory}
+                            onShowMiningQueue={handleShowMiningQueue}
                             onOpenUserGuide={handleOpenUserGuide}
                         />
                     ) : (
@@ -568,6 +646,8 @@ export default function SidePanel({ settings, extension }: Props) {
                                 playbackPreferences={playbackPreferences}
                                 onCopy={handleMineFromSubtitlePlayer}
                                 onError={handleError}
+                                onSubtitleTimingRepaired={handleSubtitleTimingRepaired}
+                                onRequestComprehensionReport={handleRequestComprehensionReport}
                                 onUnloadVideo={noOp}
                                 onLoaded={noOp}
                                 onTabSelected={noOp}
@@ -589,16 +669,18 @@ export default function SidePanel({ settings, extension }: Props) {
                                 disableKeyEvents={false}
                                 miningContext={miningContext}
                                 keyBinder={keyBinder}
+                                createTokenizer={createLocalTokenizer}
                             />
                             <SidePanelTopControls
                                 ref={topControlsRef}
                                 show={showTopControls}
                                 onLoadSubtitles={handleLoadSubtitles}
                                 canDownloadSubtitles={canDownloadSubtitles}
-                                onDownloadSubtitles={handleDownloadSubtitles}
+                                onExportSubtitles={handleExportSubtitles}
                                 onBulkExportSubtitles={handleBulkExportSubtitles}
                                 disableBulkExport={recordingAudio}
                                 onShowMiningHistory={handleShowCopyHistory}
+                                onShowMiningQueue={handleShowMiningQueue}
                             />
                             <SidePanelBottomControls
                                 disabled={currentTabId !== syncedVideoTab?.id}
@@ -613,6 +695,26 @@ export default function SidePanel({ settings, extension }: Props) {
                 </>
             )}
 
+            <SubtitleExportDialog
+                open={subtitleExportDialogOpen}
+                subtitles={subtitles ?? []}
+                trackNames={subtitleFileNames ?? []}
+                fileName={subtitleExportFileName}
+                onClose={handleCloseSubtitleExport}
+            />
+
+            <MiningQueueDialog
+                open={showMiningQueue}
+                fullScreen={true}
+                items={miningQueueItems}
+                exportProgress={miningQueueExportProgress}
+                onClose={handleCloseMiningQueue}
+                onChange={updateMiningQueueItem}
+                onDelete={deleteMiningQueueItem}
+                onDeleteExported={deleteExportedMiningQueueItems}
+                onExport={handleExportMiningQueue}
+            />
+
             {/* Bulk Export Modal - rendered outside the main content to ensure it's always on top */}
             <BulkExportModal
                 open={bulkOpen}
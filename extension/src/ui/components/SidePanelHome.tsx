@@ -8,6 +8,7 @@ import CenteredGridItem from './CenteredGridItem';
 import CenteredGridContainer from './CenteredGridContainer';
 import LoadSubtitlesIcon from '@project/common/components/LoadSubtitlesIcon';
 import HistoryIcon from '@mui/icons-material/History';
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck';
 import ButtonGroup from '@mui/material/ButtonGroup';
 import TutorialIcon from '@project/common/components/TutorialIcon';
 
@@ -16,6 +17,7 @@ interface Props {
     videoElementCount: number;
     onLoadSubtitles: () => void;
     onShowMiningHistory: () => void;
+    onShowMiningQueue: () => void;
     onOpenUserGuide: () => void;
 }
 
@@ -30,7 +32,13 @@ const VideoElementInfoText = ({ videoElementCount }: { videoElementCount: number
     );
 };
 
-const SidePanelHome = ({ videoElementCount, onLoadSubtitles, onShowMiningHistory, onOpenUserGuide }: Props) => {
+const SidePanelHome = ({
+    videoElementCount,
+    onLoadSubtitles,
+    onShowMiningHistory,
+    onShowMiningQueue,
+    onOpenUserGuide,
+}: Props) => {
     const { t } = useTranslation();
 
     return (
@@ -50,6 +58,9 @@ const SidePanelHome = ({ videoElementCount, onLoadSubtitles, onShowMiningHistory
                     <Button startIcon={<HistoryIcon />} onClick={onShowMiningHistory}>
                         {t('bar.miningHistory')}
                     </Button>
+                    <Button startIcon={<PlaylistAddCheckIcon />} onClick={onShowMiningQueue}>
+                        {t('bar.miningQueue')}
+                    </Button>
                     <Button startIcon={<TutorialIcon />} onClick={onOpenUserGuide}>
                         {t('action.userGuide')}
                     </Button>
@@ -1,5 +1,6 @@
 import IconButton from '@mui/material/IconButton';
 import HistoryIcon from '@mui/icons-material/History';
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck';
 import LoadSubtitlesIcon from '@project/common/components/LoadSubtitlesIcon';
 import SaveAltIcon from '@mui/icons-material/SaveAlt';
 import ImportExportIcon from '@mui/icons-material/ImportExport';
@@ -15,9 +16,10 @@ interface Props {
     show: boolean;
     canDownloadSubtitles: boolean;
     onLoadSubtitles: () => void;
-    onDownloadSubtitles: () => void;
+    onExportSubtitles: () => void;
     onBulkExportSubtitles: () => void;
     onShowMiningHistory: () => void;
+    onShowMiningQueue: () => void;
     disableBulkExport?: boolean;
 }
 
@@ -26,9 +28,10 @@ const SidePanelTopControls = React.forwardRef(function SidePanelTopControls(
         show,
         canDownloadSubtitles,
         onLoadSubtitles,
-        onDownloadSubtitles,
+        onExportSubtitles,
         onBulkExportSubtitles,
         onShowMiningHistory,
+        onShowMiningQueue,
         disableBulkExport,
     }: Props,
     ref: ForwardedRef<HTMLDivElement>
@@ -57,8 +60,8 @@ const SidePanelTopControls = React.forwardRef(function SidePanelTopControls(
                     {canDownloadSubtitles && (
                         <>
                             <Grid item>
-                                <Tooltip title={t('action.downloadSubtitlesAsSrt')!}>
-                                    <IconButton onClick={onDownloadSubtitles}>
+                                <Tooltip title={t('action.exportSubtitles')!}>
+                                    <IconButton onClick={onExportSubtitles}>
                                         <SaveAltIcon />
                                     </IconButton>
                                 </Tooltip>
@@ -81,6 +84,13 @@ const SidePanelTopControls = React.forwardRef(function SidePanelTopControls(
                             </Tooltip>
                         </IconButton>
                     </Grid>
+                    <Grid item>
+                        <IconButton onClick={onShowMiningQueue}>
+                            <Tooltip title={t('bar.miningQueue')!}>
+                                <PlaylistAddCheckIcon />
+                            </Tooltip>
+                        </IconButton>
+                    </Grid>
                 </Grid>
             </Box>
         </Fade>
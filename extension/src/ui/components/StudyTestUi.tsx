@@ -12,7 +12,8 @@ import { PaletteMode } from '@mui/material/styles';
 import { Message, UpdateStateMessage } from '@project/common';
 import { createTheme } from '@project/common/theme';
 import Bridge from '../bridge';
-import { TokenPart } from '@project/common/yomitan';
+import { TokenPart } from '@project/common/tokenizer';
+import { AnswerGrade, isPassingGrade } from '@project/common/study-mode';
 
 interface Props {
     bridge: Bridge;
@@ -32,7 +33,7 @@ const StudyTestUi = ({ bridge }: Props) => {
     const [blankedIndices, setBlankedIndices] = useState<number[]>([]);
     const [answers, setAnswers] = useState<string[]>([]);
     const [submitted, setSubmitted] = useState(false);
-    const [results, setResults] = useState<boolean[]>([]);
+    const [results, setResults] = useState<AnswerGrade[]>([]);
     const [isComposing, setIsComposing] = useState(false);
 
     // Prevent Enter from immediately triggering continue after submit
@@ -49,7 +50,7 @@ const StudyTestUi = ({ bridge }: Props) => {
             const state = (message as UpdateStateMessage).state as StudyTestState & { 
                 themeType?: PaletteMode;
                 showingResult?: boolean;
-                answerResults?: boolean[];
+                answerResults?: AnswerGrade[];
             };
 
             if (state.themeType !== undefined) {
@@ -97,7 +98,7 @@ const StudyTestUi = ({ bridge }: Props) => {
     }, [bridge, answers]);
 
     const handleContinue = useCallback(() => {
-        const passed = results.every(r => r);
+        const passed = results.every(isPassingGrade);
         bridge.sendMessageFromServer({ command: 'continue', passed } as any);
     }, [bridge, results]);
 
@@ -142,7 +143,7 @@ const StudyTestUi = ({ bridge }: Props) => {
     const displayElements = tokens.map((token, idx) => {
         if (blankedIndices.includes(idx)) {
             const currentBlankIndex = blankIndex++;
-            const isCorrect = submitted ? results[currentBlankIndex] : undefined;
+            const grade = submitted ? results[currentBlankIndex] : undefined;
             const correctAnswer = token.text;
             const currentAnswer = answers[currentBlankIndex] || '';
             const displayLength = Math.max(correctAnswer.length, currentAnswer.length, 2);
@@ -157,13 +158,13 @@ const StudyTestUi = ({ bridge }: Props) => {
                         onCompositionStart={() => setIsComposing(true)}
                         onCompositionEnd={() => setIsComposing(false)}
                         disabled={submitted}
-                        error={isCorrect === false}
+                        error={grade === 'wrong'}
                         sx={{
                             minWidth: '100px',
                             width: `${displayLength * 2.5}em`,
                             '& .MuiOutlinedInput-root': {
                                 backgroundColor: submitted 
-                                    ? (isCorrect ? 'success.dark' : 'error.dark')
+                                    ? (grade === 'correct' ? 'success.dark' : grade === 'close' ? 'warning.dark' : 'error.dark')
                                     : 'background.paper',
                             },
                             '& input': {
@@ -174,7 +175,7 @@ const StudyTestUi = ({ bridge }: Props) => {
                         }}
                         autoFocus={currentBlankIndex === 0}
                     />
-                    {submitted && !isCorrect && (
+                    {submitted && grade !== 'correct' && (
                         <Typography 
                             component="span" 
                             sx={{ ml: 1, color: 'success.light', fontSize: '1.2rem' }}
@@ -192,7 +193,8 @@ const StudyTestUi = ({ bridge }: Props) => {
         );
     });
 
-    const allCorrect = submitted && results.every(r => r);
+    const allCorrect = submitted && results.every(isPassingGrade);
+    const anyClose = results.includes('close');
 
     return (
         <ThemeProvider theme={theme}>
@@ -291,7 +293,9 @@ const StudyTestUi = ({ bridge }: Props) => {
                                 startIcon={allCorrect ? '✓' : '✗'}
                             >
                                 {allCorrect 
-                                    ? t('studyMode.correct', 'Correct!') 
+                                    ? anyClose
+                                        ? t('studyMode.close', 'Close enough!')
+                                        : t('studyMode.correct', 'Correct!') 
                                     : t('studyMode.incorrect', 'Incorrect')}
                             </Button>
                         )}
@@ -68,12 +68,14 @@ interface Props {
     activeProfile?: string;
     hasSeenFtue?: boolean;
     hideRememberTrackPreferenceToggle?: boolean;
+    rememberedSubtitles: string[];
     onCancel: () => void;
     onOpenFile: (track?: number) => void;
     onOpenSettings: () => void;
     onConfirm: (track: ConfirmedVideoDataSubtitleTrack[], shouldRememberTrackChoices: boolean) => void;
     onSetActiveProfile: (profile: string | undefined) => void;
     onDismissFtue: () => void;
+    onLoadRememberedSubtitles: () => void;
 }
 
 export default function VideoDataSyncDialog({
@@ -91,12 +93,14 @@ export default function VideoDataSyncDialog({
     activeProfile,
     hasSeenFtue,
     hideRememberTrackPreferenceToggle,
+    rememberedSubtitles,
     onCancel,
     onOpenFile,
     onOpenSettings,
     onConfirm,
     onSetActiveProfile,
     onDismissFtue,
+    onLoadRememberedSubtitles,
 }: Props) {
     const { t } = useTranslation();
     const [userSelectedSubtitleTrackIds, setUserSelectedSubtitleTrackIds] = useState(['-', '-', '-']);
@@ -287,6 +291,22 @@ export default function VideoDataSyncDialog({
                                 </Alert>
                             </Grid>
                         )}
+                        {rememberedSubtitles.length > 0 && (
+                            <Grid item>
+                                <Alert
+                                    severity="info"
+                                    action={
+                                        <Button disabled={disabled} onClick={onLoadRememberedSubtitles} size="small">
+                                            {t('extension.videoDataSync.loadRememberedSubtitles')}
+                                        </Button>
+                                    }
+                                >
+                                    {t('extension.videoDataSync.rememberedSubtitles', {
+                                        names: rememberedSubtitles.join(', '),
+                                    })}
+                                </Alert>
+                            </Grid>
+                        )}
                         <Grid item>
                             <TextField
                                 ref={videoNameRef}
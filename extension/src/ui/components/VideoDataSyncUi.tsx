@@ -50,6 +50,7 @@ export default function VideoDataSyncUi({ bridge }: Props) {
     const [fileInputTrackNumber, setFileInputTrackNumber] = useState<number>();
     const [hasSeenFtue, setHasSeenFtue] = useState<boolean>();
     const [hideRememberTrackPreferenceToggle, setHideRememberTrackPreferenceToggle] = useState<boolean>();
+    const [rememberedSubtitles, setRememberedSubtitles] = useState<string[]>([]);
 
     const theme = useMemo(() => createTheme((themeType || 'dark') as PaletteMode), [themeType]);
 
@@ -156,6 +157,10 @@ export default function VideoDataSyncUi({ bridge }: Props) {
             if (model.hideRememberTrackPreferenceToggle !== undefined) {
                 setHideRememberTrackPreferenceToggle(model.hideRememberTrackPreferenceToggle);
             }
+
+            if (model.rememberedSubtitles !== undefined) {
+                setRememberedSubtitles(model.rememberedSubtitles);
+            }
         });
     }, [bridge, t]);
 
@@ -234,6 +239,11 @@ export default function VideoDataSyncUi({ bridge }: Props) {
         bridge.sendMessageFromServer({ command: 'dismissFtue' });
     }, [bridge]);
 
+    const handleLoadRememberedSubtitles = useCallback(() => {
+        setOpen(false);
+        bridge.sendMessageFromServer({ command: 'loadRememberedSubtitles' });
+    }, [bridge]);
+
     return (
         <StyledEngineProvider injectFirst>
             <ThemeProvider theme={theme}>
@@ -253,18 +263,20 @@ export default function VideoDataSyncUi({ bridge }: Props) {
                     activeProfile={activeProfile}
                     hasSeenFtue={hasSeenFtue}
                     hideRememberTrackPreferenceToggle={hideRememberTrackPreferenceToggle}
+                    rememberedSubtitles={rememberedSubtitles}
                     onCancel={handleCancel}
                     onOpenFile={handleOpenFile}
                     onOpenSettings={handleOpenSettings}
                     onConfirm={handleConfirm}
                     onSetActiveProfile={handleSetActiveProfile}
                     onDismissFtue={handleDismissFtue}
+                    onLoadRememberedSubtitles={handleLoadRememberedSubtitles}
                 />
                 <input
                     ref={fileInputRef}
                     onChange={handleFileInputChange}
                     type="file"
-                    accept=".srt,.ass,.vtt,.sup,.dfxp,.ttml2"
+                    accept=".srt,.ass,.ssa,.vtt,.sup,.idx,.sub,.dfxp,.ttml2,.lrc,.sbv,.smi,.sami,.json3"
                     multiple
                     hidden
                 />
@@ -0,0 +1,363 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import CssBaseline from '@mui/material/CssBaseline';
+import ThemeProvider from '@mui/material/styles/ThemeProvider';
+import { StyledEngineProvider } from '@mui/material/styles';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemText from '@mui/material/ListItemText';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import { createTheme } from '@project/common/theme';
+import { AsbplayerSettings, SettingsProvider } from '@project/common/settings';
+import { AudioClip } from '@project/common/audio-clip';
+import {
+    AnswerGrade,
+    AnswerMatchingOptions,
+    IndexedDBRecognitionRepository,
+    IndexedDBScheduleRepository,
+    IndexedDBStudyClipRepository,
+    IndexedDBStudyRepository,
+    ReviewItem,
+    clozeDrill,
+    fetchReviewItems,
+    gradeReviewAnswer,
+    isPassingGrade,
+    romajiToKana,
+    scheduledReviews,
+    studyResultForGrade,
+} from '@project/common/study-mode';
+import { ExtensionSettingsStorage } from '@/services/extension-settings-storage';
+import { StudyTestDisplayState, convertRomajiInput, generateStudyTestHtml } from '@/services/study-overlay';
+import { useTranslation } from 'react-i18next';
+import { useI18n } from '../hooks/use-i18n';
+
+const sessionSize = 50;
+
+const studyRepository = new IndexedDBStudyRepository();
+const recognitionRepository = new IndexedDBRecognitionRepository();
+const scheduleRepository = new IndexedDBScheduleRepository();
+const clipRepository = new IndexedDBStudyClipRepository();
+
+const initialDisplayState = (item: ReviewItem): StudyTestDisplayState => {
+    const { tokens, blankedIndices } = clozeDrill(item);
+    return {
+        tokens,
+        blankedIndices,
+        userAnswers: new Array(blankedIndices.length).fill(''),
+        showingResult: false,
+        resultCorrect: false,
+    };
+};
+
+const answerMatchingOptions = (settings: AsbplayerSettings): AnswerMatchingOptions => ({
+    longVowels: settings.studyModeMatchLongVowels,
+    yotsugana: settings.studyModeMatchYotsugana,
+    smallKana: settings.studyModeMatchSmallKana,
+    closeDistance: settings.studyModeCloseAnswerDistance,
+});
+
+const saveResults = async (item: ReviewItem, answerResults: AnswerGrade[]) => {
+    const { records } = clozeDrill(item);
+    const timestamp = Date.now();
+
+    for (let i = 0; i < records.length; ++i) {
+        const { id, ...record } = records[i];
+        await studyRepository.save({ ...record, result: studyResultForGrade(answerResults[i]), timestamp });
+    }
+
+    await recognitionRepository.recordAttemptsBatch(
+        records.map((record, i) => ({
+            lemma: record.lemma,
+            reading: record.reading,
+            success: isPassingGrade(answerResults[i]),
+        }))
+    );
+    await scheduleRepository.recordReviewsBatch(await scheduledReviews(scheduleRepository, records, answerResults));
+};
+
+function StudyReviewUi() {
+    const { t } = useTranslation();
+    const [settings, setSettings] = useState<AsbplayerSettings>();
+    const theme = useMemo(() => settings && createTheme(settings.themeType), [settings]);
+    const { initialized: i18nInitialized } = useI18n({ language: settings?.language ?? 'en' });
+    const [items, setItems] = useState<ReviewItem[]>();
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [displayState, setDisplayState] = useState<StudyTestDisplayState>();
+    const [audioClip, setAudioClip] = useState<AudioClip>();
+    const drillRef = useRef<HTMLDivElement>(null);
+
+    const loadItems = useCallback(() => {
+        fetchReviewItems(studyRepository, scheduleRepository, Date.now(), sessionSize)
+            .then((items) => {
+                // Lines whose tested words can no longer be located cannot be drilled
+                setItems(items.filter((item) => clozeDrill(item).blankedIndices.length > 0));
+                setCurrentIndex(0);
+            })
+            .catch(console.error);
+    }, []);
+
+    useEffect(() => {
+        const settingsProvider = new SettingsProvider(new ExtensionSettingsStorage());
+        settingsProvider.getAll().then(setSettings);
+        loadItems();
+    }, [loadItems]);
+
+    const currentItem = items?.[currentIndex];
+
+    useEffect(() => {
+        setDisplayState(currentItem && initialDisplayState(currentItem));
+    }, [currentItem]);
+
+    useEffect(() => {
+        if (currentItem?.clipId === undefined) {
+            setAudioClip(undefined);
+            return;
+        }
+
+        let canceled = false;
+        let clip: AudioClip | undefined;
+
+        clipRepository
+            .get(currentItem.clipId)
+            .then((studyClip) => {
+                if (canceled || studyClip === undefined) {
+                    return;
+                }
+
+                const { audio } = studyClip;
+                clip = AudioClip.fromBase64(
+                    currentItem.mediaSource,
+                    Math.max(0, studyClip.start - audio.paddingStart),
+                    studyClip.end + audio.paddingEnd,
+                    audio.playbackRate ?? 1,
+                    audio.base64,
+                    audio.extension,
+                    audio.error
+                );
+                setAudioClip(clip);
+                clip.play().catch(console.error);
+            })
+            .catch(console.error);
+
+        return () => {
+            canceled = true;
+            clip?.stop();
+        };
+    }, [currentItem]);
+
+    const handleReplay = useCallback(() => {
+        if (audioClip === undefined) {
+            return;
+        }
+
+        audioClip.stop();
+        audioClip.play().catch(console.error);
+    }, [audioClip]);
+
+    const handleSubmit = useCallback(() => {
+        if (
+            currentItem === undefined ||
+            displayState === undefined ||
+            settings === undefined ||
+            displayState.showingResult
+        ) {
+            return;
+        }
+
+        const inputs = drillRef.current?.querySelectorAll('.asbplayer-study-input') ?? [];
+        const answers = Array.from(inputs).map((input) => {
+            const value = (input as HTMLInputElement).value;
+            return settings.studyModeRomajiInput ? romajiToKana(value, { final: true }) : value;
+        });
+
+        if (!answers.every((answer) => answer.trim())) {
+            return;
+        }
+
+        const { records } = clozeDrill(currentItem);
+        const options = answerMatchingOptions(settings);
+        const answerResults = records.map((record, i) => gradeReviewAnswer(record, answers[i], options));
+        setDisplayState({
+            ...displayState,
+            userAnswers: answers,
+            showingResult: true,
+            resultCorrect: answerResults.every(isPassingGrade),
+            answerResults,
+        });
+        saveResults(currentItem, answerResults).catch(console.error);
+    }, [currentItem, displayState, settings]);
+
+    const handleContinue = useCallback(() => setCurrentIndex((index) => index + 1), []);
+
+    const handleClick = useCallback(
+        (e: React.MouseEvent) => {
+            const target = e.target as HTMLElement;
+
+            if (target.closest('.asbplayer-study-submit-btn')) {
+                handleSubmit();
+            } else if (target.closest('.asbplayer-study-replay-btn')) {
+                handleReplay();
+            } else if (target.closest('.asbplayer-study-continue-btn')) {
+                handleContinue();
+            }
+        },
+        [handleSubmit, handleReplay, handleContinue]
+    );
+
+    const handleInput = useCallback(
+        (e: React.FormEvent) => {
+            const target = e.target as HTMLElement;
+
+            if (
+                settings?.studyModeRomajiInput &&
+                !(e.nativeEvent as InputEvent).isComposing &&
+                target.classList.contains('asbplayer-study-input')
+            ) {
+                convertRomajiInput(target as HTMLInputElement);
+            }
+        },
+        [settings]
+    );
+
+    const handleKeyDown = useCallback(
+        (e: React.KeyboardEvent) => {
+            if (e.key !== 'Enter' || e.nativeEvent.isComposing) {
+                return;
+            }
+
+            e.preventDefault();
+
+            if (displayState?.showingResult) {
+                handleContinue();
+            } else {
+                handleSubmit();
+            }
+        },
+        [displayState, handleSubmit, handleContinue]
+    );
+
+    useEffect(() => {
+        const container = drillRef.current;
+
+        if (!container || !displayState) {
+            return;
+        }
+
+        if (displayState.showingResult) {
+            (container.querySelector('.asbplayer-study-continue-btn') as HTMLButtonElement | null)?.focus();
+        } else {
+            (container.querySelector('.asbplayer-study-input') as HTMLInputElement | null)?.focus();
+        }
+    }, [displayState]);
+
+    const drillHtml = useMemo(
+        () => displayState && settings && generateStudyTestHtml(displayState, settings.themeType, false),
+        [displayState, settings]
+    );
+
+    if (!settings || !theme || !i18nInitialized || !items) {
+        return null;
+    }
+
+    const finished = currentIndex >= items.length;
+
+    return (
+        <StyledEngineProvider injectFirst>
+            <ThemeProvider theme={theme}>
+                <CssBaseline />
+                <Paper
+                    square
+                    sx={{
+                        width: '100vw',
+                        minHeight: '100vh',
+                        display: 'flex',
+                        justifyContent: 'center',
+                        alignItems: 'flex-start',
+                        pt: 4,
+                        pb: 4,
+                    }}
+                >
+                    <Box
+                        sx={{
+                            width: '100%',
+                            maxWidth: 900,
+                            mx: 2,
+                        }}
+                    >
+                        <Typography variant="h4" gutterBottom sx={{ mb: 3 }}>
+                            {t('studyReview.title')}
+                        </Typography>
+                        {items.length === 0 && (
+                            <>
+                                <Typography variant="h6">{t('studyReview.nothingToReview')}</Typography>
+                                <Typography color="text.secondary">
+                                    {t('studyReview.nothingToReviewDescription')}
+                                </Typography>
+                            </>
+                        )}
+                        {items.length > 0 && finished && (
+                            <>
+                                <Typography variant="h6">{t('studyReview.sessionComplete')}</Typography>
+                                <Typography color="text.secondary" sx={{ mb: 2 }}>
+                                    {t('studyReview.sessionCompleteDescription', { count: items.length })}
+                                </Typography>
+                                <Button variant="contained" onClick={loadItems}>
+                                    {t('studyReview.reviewAgain')}
+                                </Button>
+                            </>
+                        )}
+                        {!finished && drillHtml && currentItem && (
+                            <>
+                                <Typography color="text.secondary" sx={{ mb: 1 }}>
+                                    {t('studyReview.progress', { current: currentIndex + 1, total: items.length })}
+                                </Typography>
+                                <div
+                                    ref={drillRef}
+                                    onClick={handleClick}
+                                    onKeyDown={handleKeyDown}
+                                    onInput={handleInput}
+                                    dangerouslySetInnerHTML={{ __html: drillHtml }}
+                                />
+                                {displayState?.showingResult && currentItem.translation && (
+                                    <Typography color="text.secondary" sx={{ whiteSpace: 'pre-wrap', mb: 1 }}>
+                                        {currentItem.translation}
+                                    </Typography>
+                                )}
+                                {audioClip === undefined && (
+                                    <Typography variant="caption" color="text.secondary">
+                                        {t('studyReview.noAudio')}
+                                    </Typography>
+                                )}
+                            </>
+                        )}
+                        {items.length > 0 && (
+                            <List dense sx={{ mt: 3 }}>
+                                {items.map((item, index) => (
+                                    <ListItemButton
+                                        key={`${item.mediaSource}-${item.timestamp}`}
+                                        selected={index === currentIndex}
+                                        onClick={() => setCurrentIndex(index)}
+                                    >
+                                        <ListItemText
+                                            primary={item.sentence}
+                                            secondary={`${item.records.map((r) => r.lemma).join('、')} · ${new Date(
+                                                item.timestamp
+                                            ).toLocaleString()}`}
+                                        />
+                                    </ListItemButton>
+                                ))}
+                            </List>
+                        )}
+                    </Box>
+                </Paper>
+            </ThemeProvider>
+        </StyledEngineProvider>
+    );
+}
+
+export function renderStudyReviewUi(element: Element) {
+    createRoot(element).render(<StudyReviewUi />);
+}
@@ -88,6 +88,9 @@ export default defineConfig({
                         'pgs-parser-worker.js',
                         'kuromoji-worker.js',
                         'kuromoji-dict/*',
+                        'sudachi-worker.js',
+                        'sudachi-dict/*',
+                        'tesseract/*',
                         'video-data-sync-ui.js',
                         'video-select-ui.js',
                         'notification-ui.js',